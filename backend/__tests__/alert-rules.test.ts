@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { AlertRuleEngine, alertRuleInputSchema, hasNestedQuantifier } from '../src/services/alert-rules';
+import { alertRule as rule, runtimeLog } from './helpers/fixtures';
+
+type RuntimeLogRecord = ReturnType<typeof runtimeLog>;
+
+const log = (id: string, issueId: string | null, overrides: Partial<RuntimeLogRecord> = {}) => runtimeLog({ id, issueId, ...overrides });
+
+describe('hasNestedQuantifier', () => {
+  test.each(['(a+)+', '(\\w*,)*', '((ab)*c)+', '(x(a+)y)+', '(a{1,})*'])('should find the nested quantifier of %s', (pattern) => {
+    expect(hasNestedQuantifier(pattern)).toBe(true);
+  });
+
+  test.each(['timeout.*db', '(a|b)+', '(a+)?', '(\\d{3})+', '\\(a+\\)+', '[(a+)]+', '^/api/(users|orders)/\\d+$'])('should accept %s', (pattern) => {
+    expect(hasNestedQuantifier(pattern)).toBe(false);
+  });
+
+  test('should make the API reject nested quantifiers', () => {
+    const parsed = alertRuleInputSchema.safeParse({ name: 'Slow', threshold: 1, routePattern: '^(/\\w+)+$' });
+
+    expect(parsed.success).toBe(false);
+    expect(JSON.stringify(parsed.error?.flatten())).toContain('Nested quantifiers');
+  });
+});
+
+describe('AlertRuleEngine.evaluate', () => {
+  let engine: AlertRuleEngine;
+  let rules: ReturnType<typeof rule>[];
+  let windowLogs: RuntimeLogRecord[];
+  let saveTriggers: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    engine = new AlertRuleEngine();
+    rules = [];
+    windowLogs = [];
+    saveTriggers = vi.fn();
+    Object.assign(engine, {
+      listRules: async () => rules,
+      loadWindow: async () => windowLogs,
+      saveTriggers,
+    });
+  });
+
+  test('should count the logs of each issue separately', async () => {
+    windowLogs = [log('1', 'a'), log('2', 'a'), log('3', 'b'), log('4', 'b'), log('5', 'b'), log('6', null)];
+
+    const matches = await engine.evaluate('project-1', [log('1', 'a'), log('3', 'b'), log('6', null)]);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ issueId: 'b', stats: { value: 3, matched: 3, total: 6 } });
+    expect(matches[0].logs.map((l) => l.id)).toEqual(['3']);
+  });
+
+  test('should match logs without an issue as one project-level group', async () => {
+    windowLogs = [log('1', null), log('2', null), log('3', null)];
+
+    const matches = await engine.evaluate('project-1', [log('3', null)]);
+
+    expect(matches).toEqual([expect.objectContaining({ issueId: null })]);
+  });
+
+  test('should cool a rule down per issue', async () => {
+    const now = Date.now();
+    rules = [rule({
+      issueTriggeredAt: {
+        a: new Date(now - 60000).toISOString(), // Still cooling down
+        old: new Date(now - 600000).toISOString(), // Window passed
+      },
+    })];
+    windowLogs = ['1', '2', '3'].flatMap((id) => [log(`a${id}`, 'a'), log(`b${id}`, 'b')]);
+
+    const matches = await engine.evaluate('project-1', [log('a1', 'a'), log('b1', 'b')]);
+
+    expect(matches.map((match) => match.issueId)).toEqual(['b']);
+    expect(saveTriggers).toHaveBeenCalledTimes(1);
+    const [ruleId, lastTriggeredAt, issueTriggeredAt] = saveTriggers.mock.calls[0];
+    expect(ruleId).toBe('rule-1');
+    expect(lastTriggeredAt).toBeInstanceOf(Date);
+    expect(Object.keys(issueTriggeredAt).sort()).toEqual(['a', 'b']);
+    expect(issueTriggeredAt.a).toBe(rules[0].issueTriggeredAt?.a);
+  });
+
+  test('should only evaluate enabled rules, and the default rule without any', async () => {
+    rules = [rule({ enabled: false, threshold: 1 })];
+    windowLogs = [log('1', 'a')];
+
+    expect(await engine.evaluate('project-1', [log('1', 'a')])).toEqual([]);
+
+    rules = [];
+    windowLogs = [log('1', 'a'), log('2', 'a'), log('3', 'a')];
+    const matches = await engine.evaluate('project-1', [log('1', 'a')]);
+    expect(matches[0].rule.id).toBeNull();
+    expect(saveTriggers).not.toHaveBeenCalled();
+  });
+
+  test('should compute rates against the traffic on the rule\'s routes', async () => {
+    rules = [rule({ metric: 'rate', threshold: 50, levels: [], statusClasses: ['5xx'], routePattern: '^/api/' })];
+    windowLogs = [
+      log('1', null, { statusCode: 500 }),
+      log('2', null, { statusCode: 502 }),
+      log('3', null, { statusCode: 200, level: 'info' }),
+      log('4', null, { statusCode: 500, url: '/health' }),
+    ];
+
+    const matches = await engine.evaluate('project-1', [log('1', null, { statusCode: 500 })]);
+
+    expect(matches[0].stats).toMatchObject({ value: 67, matched: 2, total: 3 });
+  });
+});
+
+describe('AlertRuleEngine.matchesFilters', () => {
+  const engine = new AlertRuleEngine();
+
+  test('should match message patterns case-insensitively', () => {
+    expect(engine.matchesFilters({ messagePattern: 'database TIME' }, log('1', null))).toBe(true);
+    expect(engine.matchesFilters({ messagePattern: '^timeout' }, log('1', null))).toBe(false);
+  });
+
+  test('should match an unsafe stored pattern as text', () => {
+    expect(engine.matchesFilters({ messagePattern: '(a+)+$' }, log('1', null, { message: 'Bad input: (A+)+$' }))).toBe(true);
+    expect(engine.matchesFilters({ messagePattern: '(a+)+$' }, log('1', null, { message: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!' }))).toBe(false);
+  });
+});
@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { AnomalyDetector, describeAnomaly, normalizeRoute } from '../src/services/anomaly-detector';
+import { anomalyBaseline, project, runtimeLog } from './helpers/fixtures';
+
+type BaselineRecord = ReturnType<typeof anomalyBaseline>;
+type RuntimeLogRecord = ReturnType<typeof runtimeLog>;
+
+const windowStart = new Date('2024-01-01T10:00:00Z');
+const windowEnd = new Date('2024-01-01T10:05:00Z');
+
+/**
+ * One log per request, the first `errors` of them errors with a 500 response
+ */
+function requests(count: number, errors = 0, url = '/api/users'): RuntimeLogRecord[] {
+  return Array.from({ length: count }, (_, i) => runtimeLog({
+    id: `${url}-${i}`,
+    requestId: `${url}-${i}`,
+    url,
+    timestamp: windowStart,
+    level: i < errors ? 'error' : 'info',
+    statusCode: i < errors ? 500 : 200,
+  }));
+}
+
+describe('normalizeRoute', () => {
+  test('should replace IDs in the path', () => {
+    expect(normalizeRoute('https://web.vercel.app/api/users/42/orders/3f2a9c1e-1b2c-4d5e-8f90-123456789abc?x=1')).toBe('/api/users/:id/orders/:id');
+    expect(normalizeRoute('/api/files/64f1c2a9e1b7d3aa/')).toBe('/api/files/:id');
+    expect(normalizeRoute('/api/users/settings')).toBe('/api/users/settings');
+    expect(normalizeRoute('https://web.vercel.app')).toBe('/');
+    expect(normalizeRoute(null)).toBeNull();
+  });
+});
+
+describe('AnomalyDetector.checkProject', () => {
+  let detector: AnomalyDetector;
+  let baselines: BaselineRecord[];
+  let logs: RuntimeLogRecord[];
+  let saveBaselines: ReturnType<typeof vi.fn>;
+
+  const check = () => detector.checkProject(project(), windowStart, windowEnd);
+  const saved = (route: string, metric: string) =>
+    saveBaselines.mock.calls[0][0].find((update: BaselineRecord) => update.route === route && update.metric === metric);
+
+  beforeEach(() => {
+    detector = new AnomalyDetector();
+    baselines = [];
+    logs = [];
+    saveBaselines = vi.fn();
+    Object.assign(detector, {
+      listBaselines: async () => baselines,
+      loadBucket: async () => logs,
+      saveBaselines,
+    });
+  });
+
+  test('should do nothing without traffic or baselines', async () => {
+    expect(await check()).toBeNull();
+    expect(saveBaselines).not.toHaveBeenCalled();
+  });
+
+  test('should start baselines from the first bucket, with rates only from enough requests', async () => {
+    logs = [...requests(30, 3), ...requests(5, 0, '/api/orders/7')];
+
+    const report = await check();
+
+    expect(report?.anomalies).toEqual([]);
+    expect(saved('*', 'error_rate')).toMatchObject({ mean: 3 / 35, variance: 0, samples: 1, lastBucketAt: windowStart });
+    expect(saved('/api/users', 'server_error_rate')).toMatchObject({ mean: 0.1, samples: 1 });
+    expect(saved('/api/orders/:id', 'request_volume')).toMatchObject({ mean: 5, samples: 1 });
+    // 5 requests are too few for a rate
+    expect(saved('/api/orders/:id', 'error_rate')).toBeUndefined();
+  });
+
+  test('should count the logs of a request once', async () => {
+    logs = requests(30).flatMap((log) => [log, { ...log, id: `${log.id}-db`, level: 'error' }]);
+
+    await check();
+
+    expect(saved('*', 'request_volume').mean).toBe(30);
+    expect(saved('*', 'error_rate').mean).toBe(1);
+  });
+
+  test('should not trust a baseline before it warmed up', async () => {
+    baselines = [anomalyBaseline({ samples: 11 })];
+    logs = requests(40, 20);
+
+    const report = await check();
+
+    expect(report?.anomalies).toEqual([]);
+    expect(saved('*', 'error_rate')).toMatchObject({ samples: 12, lastAnomalyAt: null });
+  });
+
+  test('should report an error rate spike, strongest deviation first', async () => {
+    baselines = [
+      anomalyBaseline(),
+      anomalyBaseline({ id: 'baseline-2', route: '/api/users', metric: 'server_error_rate', mean: 0.1, variance: 0.01 }),
+    ];
+    logs = requests(40, 20);
+
+    const report = await check();
+
+    expect(report?.anomalies.map((anomaly) => [anomaly.route, anomaly.metric])).toEqual([
+      ['*', 'error_rate'],
+      ['/api/users', 'server_error_rate'],
+    ]);
+    const [spike] = report!.anomalies;
+    // The standard deviation of 1pp is floored at 2pp
+    expect(spike).toMatchObject({ direction: 'spike', value: 0.5, expected: 0.01, stdDev: 0.02, requests: 40, errors: 20, baselineSamples: 24 });
+    expect(spike.zScore).toBeCloseTo(24.5);
+    expect(describeAnomaly(spike)).toBe('error rate spike on all routes: 50.0% in 5 min (baseline 1.0% ± 2.0%, z=24.5)');
+    expect(report?.logs).toBe(logs);
+  });
+
+  test('should fold an anomalous bucket in with a reduced weight', async () => {
+    baselines = [anomalyBaseline()];
+    logs = requests(40, 20);
+
+    await check();
+
+    expect(saved('*', 'error_rate').mean).toBeCloseTo(0.01 + 0.025 * 0.49);
+    expect(saved('*', 'error_rate')).toMatchObject({ samples: 25, lastAnomalyAt: windowEnd });
+  });
+
+  test('should not flag noise on a flat baseline', async () => {
+    baselines = [anomalyBaseline({ variance: 0 })];
+    logs = requests(30, 1);
+
+    expect((await check())?.anomalies).toEqual([]);
+
+    logs = requests(30, 6);
+    expect((await check())?.anomalies).toHaveLength(1);
+  });
+
+  test('should only report rates going up', async () => {
+    baselines = [anomalyBaseline({ mean: 0.3, variance: 0.0001 })];
+    logs = requests(40);
+
+    expect((await check())?.anomalies).toEqual([]);
+  });
+
+  test('should report traffic dropping to nothing', async () => {
+    baselines = [anomalyBaseline({ metric: 'request_volume', mean: 100, variance: 25 })];
+
+    const report = await check();
+
+    // Poisson noise (10) is more than the baseline's deviation (5)
+    expect(report?.anomalies).toEqual([expect.objectContaining({ metric: 'request_volume', direction: 'drop', value: 0, stdDev: 10, zScore: -10 })]);
+  });
+
+  test('should not report a route and metric again while cooling down', async () => {
+    const lastAnomalyAt = new Date(windowEnd.getTime() - 10 * 60000);
+    baselines = [anomalyBaseline({ lastAnomalyAt })];
+    logs = requests(40, 20);
+
+    const report = await check();
+
+    expect(report?.anomalies).toEqual([]);
+    expect(saved('*', 'error_rate').lastAnomalyAt).toBe(lastAnomalyAt);
+  });
+
+  test('should skip a bucket already folded in', async () => {
+    baselines = [anomalyBaseline({ lastBucketAt: windowStart })];
+    logs = requests(40, 20);
+
+    expect(await check()).toBeNull();
+    expect(saveBaselines).not.toHaveBeenCalled();
+  });
+});
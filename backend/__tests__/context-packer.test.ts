@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'vitest';
+import { EvidenceItem, estimateTokens, packEvidence } from '../src/llm/context-packer';
+
+/**
+ * Evidence of about `tokens` tokens, in lines of 4 tokens
+ */
+function evidence(id: string, tokens: number, overrides: Partial<EvidenceItem> = {}): EvidenceItem {
+  return {
+    id,
+    kind: 'file',
+    label: `${id}.ts`,
+    content: Array.from({ length: Math.ceil(tokens / 4) }, (_, i) => `l${String(i).padStart(14, '0')}`).join('\n'),
+    priority: 1,
+    ...overrides,
+  };
+}
+
+describe('estimateTokens', () => {
+  test('should count four characters as a token', () => {
+    expect([estimateTokens(''), estimateTokens('abcd'), estimateTokens('abcde')]).toEqual([0, 1, 2]);
+  });
+});
+
+describe('packEvidence', () => {
+  test('should include everything that fits whole', () => {
+    const items = [evidence('a', 100), evidence('b', 200)];
+
+    const packed = packEvidence('diagnosis', items, 1000);
+
+    expect(packed.items.map((item) => [item.id, item.status])).toEqual([['a', 'full'], ['b', 'full']]);
+    expect(packed.items[0].content).toBe(items[0].content);
+    expect(packed.context).toMatchObject({ task: 'diagnosis', budgetTokens: 1000, usedTokens: 300 });
+  });
+
+  test('should fill the budget by priority and keep the given order', () => {
+    const packed = packEvidence('diagnosis', [evidence('low', 100), evidence('high', 100, { priority: 5 })], 150);
+
+    expect(packed.items.map((item) => item.id)).toEqual(['high']);
+    expect(packed.context.entries).toEqual([
+      { id: 'low', kind: 'file', label: 'low.ts', status: 'omitted', tokens: 0, originalTokens: 100 },
+      { id: 'high', kind: 'file', label: 'high.ts', status: 'full', tokens: 100, originalTokens: 100 },
+    ]);
+  });
+
+  test('should cut evidence that mostly fits at a line boundary', () => {
+    const packed = packEvidence('patch_generation', [evidence('a', 1200)], 1000);
+
+    const [item] = packed.items;
+    expect(item.status).toBe('truncated');
+    expect(item.content).toMatch(/\nl\d{14}\n… \[truncated, \d+ more line\(s\)\]$/);
+    expect(packed.context.usedTokens).toBeLessThanOrEqual(1000);
+    expect(packed.context.usedTokens).toBeGreaterThan(950);
+  });
+
+  test('should replace evidence that doesn\'t fit by its summary', () => {
+    const packed = packEvidence('diagnosis', [evidence('a', 2000, { summary: 'A long file about users' })], 300);
+
+    expect(packed.items[0]).toMatchObject({ status: 'summarized', content: 'A long file about users' });
+    expect(packed.context.entries[0]).toMatchObject({ tokens: 6, originalTokens: 2000 });
+  });
+
+  test('should cut evidence without summary to what is left, but not to a stub', () => {
+    expect(packEvidence('diagnosis', [evidence('a', 2000)], 300).items[0].status).toBe('truncated');
+    expect(packEvidence('diagnosis', [evidence('a', 2000)], 99).items).toEqual([]);
+  });
+
+  test('should include required evidence first and whole, even over budget', () => {
+    const packed = packEvidence('chat', [evidence('optional', 10, { priority: 10 }), evidence('required', 500, { required: true })], 100);
+
+    expect(packed.items.map((item) => [item.id, item.status])).toEqual([['required', 'full']]);
+    expect(packed.context.usedTokens).toBe(500);
+  });
+
+  test('should prefer the evidence given first on equal priorities', () => {
+    const packed = packEvidence('diagnosis', [evidence('first', 100), evidence('second', 100)], 100);
+
+    expect(packed.items.map((item) => item.id)).toEqual(['first']);
+  });
+});
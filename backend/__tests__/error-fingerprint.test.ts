@@ -0,0 +1,155 @@
+import { describe, expect, test } from 'vitest';
+import { extractErrorType, fingerprintError, normalizeFilePath, normalizeMessage, parseStackFrames } from '../src/services/error-fingerprint';
+
+const stack = (...frames: string[]) => ['TypeError: Cannot read properties of undefined (reading \'id\')', ...frames].join('\n');
+
+describe('normalizeMessage', () => {
+  test('should drop the error type', () => {
+    expect(normalizeMessage('TypeError: x is not a function')).toBe('x is not a function');
+    expect(normalizeMessage('Uncaught [ReferenceError] foo is not defined')).toBe('foo is not defined');
+  });
+
+  test('should replace ids, numbers, URLs and addresses with placeholders', () => {
+    expect(normalizeMessage('User 3f2a9c1e-1b2c-4d5e-8f90-123456789abc not found')).toBe('User <uuid> not found');
+    expect(normalizeMessage('Order 12345 failed after 2.5s')).toBe('Order <n> failed after <n>s');
+    expect(normalizeMessage('Object 0x7ffd4c2a9e10 and 64f1c2a9e1b7d3 are locked')).toBe('Object <hex> and <hex> are locked');
+    expect(normalizeMessage('Session abc123XYZ789 expired')).toBe('Session <id> expired');
+    expect(normalizeMessage('fetch https://api.example.com/users/42?x=1 failed')).toBe('fetch <url> failed');
+    expect(normalizeMessage('No user jane.doe+test@example.com from 10.0.0.12')).toBe('No user <email> from <ip>');
+  });
+
+  test('should keep words, even long ones made of hex letters', () => {
+    expect(normalizeMessage('Cannot read properties of undefined (reading \'deadbeefcafe\')')).toBe('Cannot read properties of undefined (reading \'deadbeefcafe\')');
+  });
+
+  test('should collapse whitespace and cap the length', () => {
+    expect(normalizeMessage('  a \n\t b  ')).toBe('a b');
+    expect(normalizeMessage('x'.repeat(500))).toHaveLength(200);
+  });
+});
+
+describe('extractErrorType', () => {
+  test('should take the type from the message, then the stack', () => {
+    expect(extractErrorType('RangeError: Invalid array length')).toBe('RangeError');
+    expect(extractErrorType('Something broke', stack('    at f (app/page.tsx:1:1)'))).toBe('TypeError');
+    expect(extractErrorType('Something broke')).toBeNull();
+  });
+});
+
+describe('normalizeFilePath', () => {
+  test('should drop build hashes, chunk numbers and deployment prefixes', () => {
+    expect(normalizeFilePath('https://web.vercel.app/_next/static/chunks/app/page-3f2a1b9c8d7e.js?v=1')).toBe('_next/static/chunks/app/page.js');
+    expect(normalizeFilePath('/_next/static/Ab3dEf6hIj9kLm0nOp/pages/_app.js')).toBe('/_next/static/<build>/pages/_app.js');
+    expect(normalizeFilePath('/var/task/.next/server/chunks/4821.js')).toBe('.next/server/chunks/<chunk>.js');
+    expect(normalizeFilePath('webpack-internal:///(rsc)/./app/api/users/route.ts')).toBe('app/api/users/route.ts');
+  });
+});
+
+describe('parseStackFrames', () => {
+  test('should parse V8 and Gecko frames, innermost first, without line numbers', () => {
+    const frames = parseStackFrames(stack(
+      '    at getUser (webpack-internal:///(rsc)/./app/api/users/route.ts:12:5)',
+      '    at async Object.handler [as GET] (/var/task/node_modules/next/dist/server.js:1:2)',
+      'render@https://web.vercel.app/_next/static/chunks/app/page-3f2a1b9c.js:1:500'
+    ));
+
+    expect(frames).toEqual([
+      { file: 'app/api/users/route.ts', fn: 'getUser', inApp: true },
+      { file: 'node_modules/next/dist/server.js', fn: 'handler', inApp: false },
+      { file: '_next/static/chunks/app/page.js', fn: 'render', inApp: true },
+    ]);
+  });
+
+  test('should call minified and anonymous functions "?"', () => {
+    const frames = parseStackFrames(stack('    at a (app/page.js:1:1)', '    at <anonymous> (app/page.js:1:1)', '    at app/page.js:1:1'));
+
+    expect(frames.map((frame) => frame.fn)).toEqual(['?', '?', '?']);
+  });
+
+  test('should skip lines that are no frames', () => {
+    expect(parseStackFrames(stack('    at new Promise (<anonymous>)', '    at Array.map (native)', 'caused by the database'))).toEqual([]);
+  });
+});
+
+describe('fingerprintError', () => {
+  test('should prefer source frames over bundled app code and libraries', () => {
+    const result = fingerprintError({
+      message: 'TypeError: Cannot read properties of undefined (reading \'id\')',
+      stack: stack(
+        '    at next (/var/task/node_modules/next/dist/server.js:1:2)',
+        '    at bundled (/var/task/.next/server/app/page.js:1:2)',
+        '    at getUser (webpack-internal:///(rsc)/./app/api/users/route.ts:12:5)'
+      ),
+    });
+
+    expect(result).toMatchObject({
+      title: 'Cannot read properties of undefined (reading \'id\')',
+      errorType: 'TypeError',
+      culprit: 'app/api/users/route.ts in getUser',
+      frames: ['app/api/users/route.ts in getUser'],
+    });
+  });
+
+  test('should fall back to bundled app code, then any frame', () => {
+    const bundled = fingerprintError({
+      message: 'Boom',
+      stack: stack('    at lib (/var/task/node_modules/lib/index.js:1:2)', '    at bundled (/var/task/.next/server/app/page.js:1:2)'),
+    });
+    const library = fingerprintError({ message: 'Boom', stack: stack('    at lib (/var/task/node_modules/lib/index.js:1:2)') });
+
+    expect(bundled.frames).toEqual(['.next/server/app/page.js in bundled']);
+    expect(library.frames).toEqual(['node_modules/lib/index.js in lib']);
+  });
+
+  test('should use at most five frames', () => {
+    const frames = Array.from({ length: 8 }, (_, i) => `    at fn${i} (app/lib/file${i}.ts:1:1)`);
+
+    expect(fingerprintError({ message: 'Boom', stack: stack(...frames) }).frames).toHaveLength(5);
+  });
+
+  test('should group the same error across deployments', () => {
+    const first = fingerprintError({
+      message: 'TypeError: Order 1042 of user 3f2a9c1e-1b2c-4d5e-8f90-123456789abc has no items',
+      stack: stack(
+        '    at loadOrder (/var/task/.next/server/chunks/4821.js:10:20)',
+        'render@https://web-git-main-acme.vercel.app/_next/static/Ab3dEf6hIj9kLm0nOp/chunks/app/page-3f2a1b9c.js:1:500'
+      ),
+    });
+    const second = fingerprintError({
+      message: 'TypeError: Order 7 of user 00000000-1111-2222-3333-444444444444 has no items',
+      stack: stack(
+        '    at loadOrder (/var/task/.next/server/chunks/977.js:11:3)',
+        'render@https://web-abc123-acme.vercel.app/_next/static/Zy9xWv8uTs7rQp6oNm/chunks/app/page-9e8d7c6b.js:2:14'
+      ),
+    });
+
+    expect(second.fingerprint).toBe(first.fingerprint);
+    expect(second.title).toBe('Order <n> of user <uuid> has no items');
+  });
+
+  test('should keep different errors apart', () => {
+    const base = { message: 'TypeError: x is undefined', stack: stack('    at getUser (app/api/users/route.ts:1:1)') };
+
+    const fingerprint = fingerprintError(base).fingerprint;
+
+    expect(fingerprintError({ ...base, message: 'TypeError: y is undefined' }).fingerprint).not.toBe(fingerprint);
+    expect(fingerprintError({ ...base, message: 'RangeError: x is undefined' }).fingerprint).not.toBe(fingerprint);
+    expect(fingerprintError({ ...base, stack: stack('    at getOrder (app/api/orders/route.ts:1:1)') }).fingerprint).not.toBe(fingerprint);
+  });
+
+  test('should tell errors without a stack apart by their source file', () => {
+    const route = fingerprintError({ message: 'Boom', source: 'app/api/users/route.ts' });
+    const other = fingerprintError({ message: 'Boom', source: 'app/api/orders/route.ts' });
+    const bundled = fingerprintError({ message: 'Boom', source: '.next/server/app/page.js' });
+
+    expect(route.culprit).toBe('app/api/users/route.ts');
+    expect(route.fingerprint).not.toBe(other.fingerprint);
+    // Bundled output isn't a source file
+    expect(bundled).toMatchObject({ culprit: null, fingerprint: fingerprintError({ message: 'Boom' }).fingerprint });
+  });
+
+  test('should title an error without message by its type', () => {
+    expect(fingerprintError({ message: 'TypeError' }).title).toBe('TypeError');
+    expect(fingerprintError({ message: '' }).title).toBe('Unknown error');
+  });
+});
@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { FixVerifier, ExecutedFix } from '../src/services/fix-verifier';
+import sourceControlManager, { SourceControlProvider } from '../src/integrations/vcs';
+import IntegrationManager from '../src/services/integration-manager';
+import { ErrorRateSample } from '../src/utils/types';
+import { project as projectRecord, solution } from './helpers/fixtures';
+
+const MINUTE = 60000;
+
+const project = projectRecord();
+
+function sample(errors: number, minutes: number): ErrorRateSample {
+  return { from: '', to: '', errors, errorsPerMinute: errors / minutes };
+}
+
+describe('FixVerifier', () => {
+  let verifier: FixVerifier;
+  let samples: ReturnType<typeof vi.fn>;
+  let issueOccurrences: ReturnType<typeof vi.fn>;
+  const incidentStartedAt = new Date(Date.now() - 3 * 60 * MINUTE);
+
+  // Deployed long enough ago for the window to be over on the first check
+  const rollback: ExecutedFix = {
+    solution: solution({ type: 'rollback' }),
+    deploymentId: 'dpl_1',
+    executedAt: new Date(Date.now() - 60 * MINUTE),
+  };
+
+  beforeEach(() => {
+    verifier = new FixVerifier();
+    samples = vi.fn();
+    issueOccurrences = vi.fn().mockResolvedValue(0);
+    Object.assign(verifier, { sample: samples, countIssue: issueOccurrences });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('should call a fix recovered within the baseline times the tolerance', async () => {
+    // 1 error/min before the incident, tolerance 1.5
+    samples.mockResolvedValueOnce(sample(60, 60)).mockResolvedValueOnce(sample(14, 10));
+
+    const verification = await verifier.verify(project, rollback, { incidentStartedAt, issueId: 'issue-1', userId: 'user-1' });
+
+    expect(verification).toMatchObject({ outcome: 'recovered', deploymentId: 'dpl_1', threshold: 1.5, issueOccurrences: 0 });
+    expect(verification.reason).toBe('1.40 errors/min over 10 minutes, within the pre-incident 1.00 errors/min');
+
+    // Baseline: the hour before the incident; observed: the window after the deployment, of the deployment
+    const [[, baselineFrom, baselineTo], [, observedFrom, observedTo, deploymentId]] = samples.mock.calls;
+    expect(baselineTo).toEqual(incidentStartedAt);
+    expect(incidentStartedAt.getTime() - baselineFrom.getTime()).toBe(60 * MINUTE);
+    expect(observedFrom).toEqual(rollback.executedAt);
+    expect(observedTo.getTime() - observedFrom.getTime()).toBe(10 * MINUTE);
+    expect(deploymentId).toBe('dpl_1');
+  });
+
+  test('should fail when the window has more errors than the threshold allows', async () => {
+    samples.mockResolvedValueOnce(sample(60, 60)).mockResolvedValueOnce(sample(16, 10));
+
+    const verification = await verifier.verify(project, rollback, { incidentStartedAt, userId: 'user-1' });
+
+    expect(verification.outcome).toBe('not_recovered');
+    expect(verification.reason).toBe('16 errors after the fix deployed, more than the 1.50 errors/min allowed over 10 minutes');
+  });
+
+  test('should tolerate a stray error after a quiet baseline', async () => {
+    samples.mockResolvedValueOnce(sample(0, 60)).mockResolvedValueOnce(sample(1, 10));
+
+    const verification = await verifier.verify(project, rollback, { incidentStartedAt, userId: 'user-1' });
+
+    expect(verification).toMatchObject({ outcome: 'recovered', threshold: 0.1 });
+  });
+
+  test('should apply the project\'s tolerance and window', async () => {
+    samples.mockResolvedValueOnce(sample(60, 60)).mockResolvedValueOnce(sample(50, 20));
+
+    const verification = await verifier.verify(
+      projectRecord({ verificationConfig: { windowMinutes: 20, errorRateTolerance: 3 } }),
+      rollback,
+      { incidentStartedAt, userId: 'user-1' }
+    );
+
+    expect(verification).toMatchObject({ outcome: 'recovered', threshold: 3 });
+  });
+
+  test('should fail as soon as the triggering error recurs', async () => {
+    samples.mockResolvedValue(sample(0, 10));
+    issueOccurrences.mockResolvedValue(2);
+
+    const verification = await verifier.verify(project, rollback, { incidentStartedAt, issueId: 'issue-1', userId: 'user-1' });
+
+    expect(verification).toMatchObject({ outcome: 'not_recovered', issueOccurrences: 2 });
+    expect(verification.reason).toBe('The error that triggered the incident occurred 2 time(s) after the fix deployed');
+    expect(issueOccurrences.mock.calls[0]).toEqual(['project-1', 'issue-1', rollback.executedAt, expect.any(Date), 'dpl_1']);
+  });
+
+  test('should not verify a rollback without a deployment', async () => {
+    const verification = await verifier.verify(project, { ...rollback, deploymentId: undefined }, { incidentStartedAt, userId: 'user-1' });
+
+    expect(verification).toEqual({ outcome: 'not_deployed', reason: 'The fix has no deployment to watch' });
+    expect(samples).not.toHaveBeenCalled();
+  });
+
+  test('should not verify an unmerged patch without a pull request', async () => {
+    const patch: ExecutedFix = { solution: solution(), merged: false, executedAt: new Date() };
+
+    const verification = await verifier.verify(project, patch, { incidentStartedAt, userId: 'user-1' });
+
+    expect(verification).toEqual({ outcome: 'not_deployed', reason: 'The fix has no pull request to wait for' });
+  });
+
+  describe('with a pull request', () => {
+    const getPullRequest = vi.fn();
+    const compareCommits = vi.fn();
+    const vcs = {
+      repository: 'acme/web',
+      defaultBranch: 'main',
+      withSignal: () => vcs,
+      getPullRequest,
+      compareCommits,
+    } as unknown as SourceControlProvider;
+
+    const patch: ExecutedFix = {
+      solution: solution(),
+      merged: false,
+      prNumber: 42,
+      commitSha: 'fix-sha',
+      executedAt: new Date(Date.now() - 60 * MINUTE),
+    };
+
+    beforeEach(() => {
+      getPullRequest.mockReset();
+      compareCommits.mockReset().mockResolvedValue([]);
+      vi.spyOn(sourceControlManager, 'forProject').mockResolvedValue(vcs);
+      vi.spyOn(IntegrationManager.prototype, 'getVercelIntegration').mockResolvedValue(null);
+    });
+
+    test('should end the verification when the pull request is closed without merging', async () => {
+      getPullRequest.mockResolvedValue({ state: 'closed' });
+      const onAwaitingMerge = vi.fn();
+
+      const verification = await verifier.verify(project, patch, { incidentStartedAt, userId: 'user-1', onAwaitingMerge });
+
+      expect(onAwaitingMerge).toHaveBeenCalledWith(42);
+      expect(getPullRequest).toHaveBeenCalledWith(42);
+      expect(verification).toEqual({ outcome: 'not_merged', reason: 'Pull request #42 was closed without merging' });
+    });
+
+    test('should verify the merge commit once the pull request is merged', async () => {
+      const mergedAt = new Date(Date.now() - 20 * MINUTE).toISOString();
+      getPullRequest.mockResolvedValue({ state: 'merged', mergeCommitSha: 'merge-sha', mergedAt });
+      samples.mockResolvedValue(sample(0, 10));
+      issueOccurrences.mockResolvedValue(1);
+
+      const verification = await verifier.verify(project, patch, { incidentStartedAt, issueId: 'issue-1', userId: 'user-1' });
+
+      // Without Vercel the fix is live once the default branch contains it
+      expect(compareCommits).toHaveBeenCalledWith('main', 'merge-sha', 1);
+      // The window starts at the merge, not when the pull request was opened
+      expect(verification).toMatchObject({ outcome: 'not_recovered', mergeCommitSha: 'merge-sha', mergedAt, deployedAt: mergedAt });
+    });
+
+    test('should not verify a pull request without source control to follow it in', async () => {
+      vi.mocked(sourceControlManager.forProject).mockResolvedValue(null);
+      const onAwaitingMerge = vi.fn();
+
+      const verification = await verifier.verify(project, patch, { incidentStartedAt, userId: 'user-1', onAwaitingMerge });
+
+      expect(verification).toEqual({ outcome: 'no_source_control', reason: 'The project has no source control connected to follow the fix in' });
+      expect(onAwaitingMerge).not.toHaveBeenCalled();
+      expect(samples).not.toHaveBeenCalled();
+    });
+
+    test('should not wait for a pull request that was merged when executed', async () => {
+      samples.mockResolvedValue(sample(0, 10));
+
+      const verification = await verifier.verify(
+        project,
+        { ...patch, merged: true, mergeCommitSha: 'merge-sha' },
+        { incidentStartedAt, userId: 'user-1' }
+      );
+
+      expect(getPullRequest).not.toHaveBeenCalled();
+      expect(verification).toMatchObject({ outcome: 'recovered', deployedAt: patch.executedAt.toISOString() });
+      // Already recorded by the execution
+      expect(verification.mergedAt).toBeUndefined();
+    });
+
+    test('should not verify a merged fix the default branch doesn\'t contain', async () => {
+      compareCommits.mockResolvedValue([{ sha: 'merge-sha' }]);
+
+      const verification = await verifier.verify(
+        project,
+        { ...patch, merged: true, mergeCommitSha: 'merge-sha' },
+        { incidentStartedAt, userId: 'user-1' }
+      );
+
+      expect(verification).toEqual({ outcome: 'not_deployed', reason: 'No deployment with the fix went live within 30 minutes' });
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { alertRules, anomalyBaselines, issues, projects, runtimeLogs } from '../../src/db/schema';
+import { Solution } from '../../src/utils/types';
+
+type ProjectRecord = typeof projects.$inferSelect;
+type RuntimeLogRecord = typeof runtimeLogs.$inferSelect;
+type AlertRuleRecord = typeof alertRules.$inferSelect;
+type IssueRecord = typeof issues.$inferSelect;
+type AnomalyBaselineRecord = typeof anomalyBaselines.$inferSelect;
+
+const CREATED_AT = new Date('2024-01-01T00:00:00Z');
+
+/**
+ * A project row; tests override what they exercise
+ */
+export function project(overrides: Partial<ProjectRecord> = {}): ProjectRecord {
+  return {
+    id: 'project-1',
+    userId: 'user-1',
+    vercelProjectId: 'prj_1',
+    vercelProjectName: 'web',
+    vercelWebhookId: null,
+    vercelLogDrainId: null,
+    githubOwner: 'acme',
+    githubRepo: 'web',
+    githubWebhookId: null,
+    sourceControl: null,
+    llmConfig: null,
+    testConfig: null,
+    verificationConfig: null,
+    enabled: true,
+    autoFix: false,
+    autoFixThreshold: 90,
+    logSources: [],
+    framework: 'nextjs',
+    lastDeployment: null,
+    createdAt: CREATED_AT,
+    updatedAt: CREATED_AT,
+    ...overrides,
+  };
+}
+
+/**
+ * A stored runtime log: an error of project-1 without an issue
+ */
+export function runtimeLog(overrides: Partial<RuntimeLogRecord> = {}): RuntimeLogRecord {
+  return {
+    id: 'log-1',
+    projectId: 'project-1',
+    timestamp: CREATED_AT,
+    level: 'error',
+    message: 'Database timeout',
+    deploymentId: null,
+    functionName: null,
+    requestId: null,
+    url: '/api/users',
+    method: 'GET',
+    statusCode: null,
+    source: 'function',
+    issueId: null,
+    templateId: null,
+    metadata: {},
+    createdAt: CREATED_AT,
+    ...overrides,
+  };
+}
+
+/**
+ * A saved alert rule: 3 errors in 5 minutes
+ */
+export function alertRule(overrides: Partial<AlertRuleRecord> = {}): AlertRuleRecord {
+  return {
+    id: 'rule-1',
+    projectId: 'project-1',
+    name: 'Errors',
+    enabled: true,
+    metric: 'count',
+    threshold: 3,
+    windowSeconds: 300,
+    levels: ['error'],
+    statusClasses: [],
+    messagePattern: null,
+    routePattern: null,
+    minDistinctUsers: 0,
+    minDistinctRequests: 0,
+    lastTriggeredAt: null,
+    issueTriggeredAt: {},
+    createdAt: CREATED_AT,
+    updatedAt: CREATED_AT,
+    ...overrides,
+  };
+}
+
+/**
+ * An open issue of project-1
+ */
+export function issue(overrides: Partial<IssueRecord> = {}): IssueRecord {
+  return {
+    id: 'issue-1',
+    projectId: 'project-1',
+    fingerprint: 'fingerprint-1',
+    status: 'open',
+    title: 'TypeError: Cannot read properties of undefined',
+    culprit: null,
+    errorType: 'TypeError',
+    occurrences: 1,
+    firstSeen: CREATED_AT,
+    lastSeen: CREATED_AT,
+    deployments: [],
+    urls: [],
+    sample: null,
+    resolvedAt: null,
+    fix: null,
+    fixedDeployments: [],
+    regressionCount: 0,
+    lastRegressedAt: null,
+    createdAt: CREATED_AT,
+    updatedAt: CREATED_AT,
+    ...overrides,
+  };
+}
+
+/**
+ * A warmed-up baseline of project-1's error rate on all routes
+ */
+export function anomalyBaseline(overrides: Partial<AnomalyBaselineRecord> = {}): AnomalyBaselineRecord {
+  return {
+    id: 'baseline-1',
+    projectId: 'project-1',
+    route: '*',
+    metric: 'error_rate',
+    mean: 0.01,
+    variance: 0.0001,
+    samples: 24,
+    lastValue: 0.01,
+    lastBucketAt: null,
+    lastAnomalyAt: null,
+    createdAt: CREATED_AT,
+    updatedAt: CREATED_AT,
+    ...overrides,
+  };
+}
+
+/**
+ * A low-risk patch candidate
+ */
+export function solution(overrides: Partial<Solution> = {}): Solution {
+  return {
+    id: 'solution-1',
+    type: 'patch',
+    description: 'Fix',
+    reasoning: '',
+    risk: 'low',
+    confidence: 90,
+    estimatedTime: '5 minutes',
+    steps: [],
+    ...overrides,
+  };
+}
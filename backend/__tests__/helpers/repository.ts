@@ -0,0 +1,26 @@
+import path from 'path';
+import { RepoEntry, SourceControlProvider } from '../../src/integrations/vcs';
+
+/**
+ * Repository files at one ref, readable and listable; other provider methods are left out
+ */
+export function repository(files: Record<string, string>): SourceControlProvider {
+  const notFound = (file: string) => Object.assign(new Error(`Not Found: ${file}`), { status: 404 });
+
+  return {
+    async getFileContent(file: string) {
+      if (!(file in files)) throw notFound(file);
+      return { content: files[file], sha: 'blob' };
+    },
+    async listDirectory(dir: string) {
+      const prefix = dir ? `${dir}/` : '';
+      const entries = new Map<string, RepoEntry>();
+      for (const file of Object.keys(files).filter((file) => file.startsWith(prefix))) {
+        const [name, ...rest] = file.substring(prefix.length).split('/');
+        entries.set(name, { name, path: path.posix.join(dir, name), type: rest.length > 0 ? 'dir' : 'file' });
+      }
+      if (dir && entries.size === 0) throw notFound(dir);
+      return [...entries.values()];
+    },
+  } as unknown as SourceControlProvider;
+}
@@ -0,0 +1,4 @@
+import { vi } from 'vitest';
+
+// Unit tests never reach Postgres; services that write stub the method doing it
+vi.mock('../../src/db', () => ({ db: {} }));
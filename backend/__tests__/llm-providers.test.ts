@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { defaultLLMConfigSchema, LLMNotConfiguredError, LLMProviderManager, llmConfigSchema } from '../src/llm';
+
+const openai = { type: 'openai' as const, baseUrl: 'https://llm.example.com/v1' };
+
+describe('LLMProviderManager.resolve', () => {
+  let manager: LLMProviderManager;
+  const groqApiKey = process.env.GROQ_API_KEY;
+
+  beforeEach(() => {
+    delete process.env.GROQ_API_KEY;
+    manager = new LLMProviderManager();
+    manager.configure({});
+  });
+
+  afterEach(() => {
+    if (groqApiKey === undefined) delete process.env.GROQ_API_KEY;
+    else process.env.GROQ_API_KEY = groqApiKey;
+  });
+
+  test('should fail without any provider', () => {
+    expect(() => manager.resolve('diagnosis')).toThrow(LLMNotConfiguredError);
+    expect(() => manager.resolve('patch_generation')).toThrow('No LLM provider configured for the patch generation task');
+  });
+
+  test('should use Groq when GROQ_API_KEY is set', () => {
+    process.env.GROQ_API_KEY = 'gsk_test';
+
+    const llm = manager.resolve('diagnosis');
+
+    expect(llm.provider.name).toBe('groq');
+    expect(llm.model).toBe('llama-3.3-70b-versatile');
+  });
+
+  test('should use the scripted provider only when it is configured', () => {
+    manager.configure({ provider: { type: 'scripted' } });
+
+    expect(manager.resolve('chat')).toMatchObject({ provider: { name: 'scripted' }, model: 'scripted' });
+  });
+
+  test('should prefer the project\'s task override, then the project, then the defaults', () => {
+    manager.configure({
+      provider: openai,
+      tasks: { chat: { provider: openai, model: 'default-chat-model' } },
+    });
+    const project = {
+      provider: { type: 'scripted' as const },
+      model: 'project-model',
+      tasks: { patch_generation: { model: 'project-patch-model' } },
+    };
+
+    expect(manager.resolve('patch_generation', project)).toMatchObject({ provider: { name: 'scripted' }, model: 'project-patch-model' });
+    expect(manager.resolve('diagnosis', project).model).toBe('project-model');
+    // The project's provider wins over the default task override, and so does its model
+    expect(manager.resolve('chat', project).model).toBe('project-model');
+    expect(manager.resolve('chat').model).toBe('default-chat-model');
+  });
+
+  test('should not apply a model to a more specific provider', () => {
+    manager.configure({ provider: { type: 'scripted' }, model: 'llama-3.3-70b-versatile', tasks: { diagnosis: { provider: openai } } });
+
+    expect(() => manager.resolve('diagnosis')).toThrow('No model configured for the diagnosis task');
+  });
+
+  test('should refuse an endpoint stored in a project\'s configuration', () => {
+    manager.configure({ provider: openai, model: 'default-model' });
+
+    expect(() => manager.resolve('chat', { tasks: { chat: { provider: openai } } })).toThrow('Projects can\'t configure openai providers');
+    expect(manager.resolve('chat', { model: 'project-model' })).toMatchObject({ provider: { name: 'openai:https://llm.example.com/v1' }, model: 'project-model' });
+  });
+
+  test('should take temperature, tokens and context budget from task settings only', () => {
+    manager.configure({
+      provider: { type: 'scripted' },
+      tasks: { diagnosis: { temperature: 0.1, maxTokens: 500, contextTokens: 4000 } },
+    });
+
+    expect(manager.resolve('diagnosis', { tasks: { diagnosis: { temperature: 0.7 } } })).toMatchObject({
+      temperature: 0.7,
+      maxTokens: 500,
+      contextTokens: 4000,
+    });
+    expect(manager.resolve('chat')).toMatchObject({ temperature: undefined, maxTokens: undefined });
+  });
+
+  test('should fail for an unknown provider type', () => {
+    // A stored configuration of a provider type that is no longer registered
+    manager.configure(JSON.parse('{"provider": {"type": "unknown"}}'));
+
+    expect(() => manager.resolve('chat')).toThrow('Unknown LLM provider type: unknown');
+  });
+});
+
+describe('LLMProviderManager.complete', () => {
+  test('should answer with the scripted responses of a task in turn, repeating the last one', async () => {
+    const manager = new LLMProviderManager();
+    manager.configure({});
+    const config = { provider: { type: 'scripted' as const, responses: { chat: ['first', 'second'] } } };
+    const ask = () => manager.complete('chat', config, { messages: [{ role: 'user', content: 'hi' }], temperature: 0, maxTokens: 100 });
+
+    const answers = [await ask(), await ask(), await ask()].map((response) => response.content);
+
+    expect(answers).toEqual(['first', 'second', 'second']);
+  });
+});
+
+describe('llmConfigSchema', () => {
+  test('should not let a project configure an endpoint', () => {
+    expect(llmConfigSchema.safeParse({ provider: { type: 'groq' }, model: 'llama-3.1-8b-instant' }).success).toBe(true);
+    expect(llmConfigSchema.safeParse({ provider: openai }).success).toBe(false);
+    expect(llmConfigSchema.safeParse({ tasks: { chat: { provider: { ...openai, apiKeyEnv: 'LLM_API_KEY' } } } }).success).toBe(false);
+  });
+
+  test('should only accept dedicated API key variables for the server\'s endpoints', () => {
+    expect(defaultLLMConfigSchema.safeParse({ provider: { ...openai, apiKeyEnv: 'LLM_API_KEY_OPENROUTER' } }).success).toBe(true);
+    expect(defaultLLMConfigSchema.safeParse({ provider: { ...openai, apiKeyEnv: 'DATABASE_URL' } }).success).toBe(false);
+  });
+
+  test('should reject unknown tasks', () => {
+    expect(llmConfigSchema.safeParse({ tasks: { summarize: { model: 'x' } } }).success).toBe(false);
+  });
+});
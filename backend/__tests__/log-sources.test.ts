@@ -0,0 +1,217 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import { afterAll, afterEach, beforeAll, describe, expect, test, vi } from 'vitest';
+import { parseJsonLine, toLogLevel, LogQuery } from '../src/services/log-sources/types';
+import { FileLogSource } from '../src/services/log-sources/file';
+import { LokiLogSource } from '../src/services/log-sources/loki';
+import { ElasticsearchLogSource } from '../src/services/log-sources/elasticsearch';
+
+vi.mock('axios');
+
+const query: LogQuery = {
+  projectId: 'project-1',
+  projectName: 'web',
+  since: new Date('2024-01-01T12:00:00Z'),
+  until: new Date('2024-01-01T13:00:00Z'),
+  limit: 100,
+};
+
+describe('toLogLevel', () => {
+  test('should map the level names of other backends', () => {
+    expect(toLogLevel('FATAL')).toBe('error');
+    expect(toLogLevel('err')).toBe('error');
+    expect(toLogLevel('stderr')).toBe('error');
+    expect(toLogLevel('Warning')).toBe('warn');
+    expect(toLogLevel('trace')).toBe('debug');
+    expect(toLogLevel('notice')).toBe('info');
+  });
+
+  test('should infer the level from the message when there is none', () => {
+    expect(toLogLevel(undefined, 'Unhandled exception in handler')).toBe('error');
+    expect(toLogLevel('', 'warning: pool almost full')).toBe('warn');
+    expect(toLogLevel(null, 'request served')).toBe('info');
+  });
+
+  test('should prefer the level over the message', () => {
+    expect(toLogLevel('info', 'error count is 0')).toBe('info');
+  });
+});
+
+describe('parseJsonLine', () => {
+  test('should parse a JSON object', () => {
+    expect(parseJsonLine('  {"level":"error","msg":"boom"}')).toEqual({ level: 'error', msg: 'boom' });
+  });
+
+  test('should return null for text, arrays and invalid JSON', () => {
+    expect(parseJsonLine('plain text')).toBeNull();
+    expect(parseJsonLine('[1, 2]')).toBeNull();
+    expect(parseJsonLine('{"unterminated": ')).toBeNull();
+  });
+});
+
+describe('FileLogSource', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'log-sources-'));
+    process.env.LOG_FILES_DIR = dir;
+
+    await fs.writeFile(path.join(dir, 'app.jsonl'), [
+      '{"timestamp":"2024-01-01T12:10:00Z","level":"error","message":"DB timeout","service":"api"}',
+      '{"time":"2024-01-01T12:20:00Z","msg":"Unhandled exception"}',
+      '{"timestamp":"2024-01-01T11:00:00Z","level":"error","message":"before the window"}',
+      'not json',
+      '{"message":"no timestamp"}',
+    ].join('\n'));
+
+    await fs.writeFile(path.join(dir, 'app.log'), [
+      '2024-01-01 12:05:00,123 [ERROR] TypeError: x is undefined',
+      '    at handler (src/api.ts:10:5)',
+      '2024-01-01T12:06:00Z WARN slow query',
+      '2024-01-01T12:07:00Z request served',
+    ].join('\n'));
+  });
+
+  afterAll(async () => {
+    delete process.env.LOG_FILES_DIR;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should read JSON lines in the time range, most recent first', async () => {
+    const logs = await new FileLogSource({ type: 'file', path: 'app.jsonl' }).fetchLogs(query);
+
+    expect(logs.map((log) => log.message)).toEqual(['Unhandled exception', 'DB timeout']);
+    expect(logs[0]).toMatchObject({ level: 'error', service: 'web' });
+    expect(logs[1]).toMatchObject({ level: 'error', service: 'api' });
+    expect(logs[1].metadata?.logSource).toBe('file:app.jsonl');
+  });
+
+  test('should read text lines and fold continuation lines into the previous entry', async () => {
+    const logs = await new FileLogSource({ type: 'file', path: 'app.log' }).fetchLogs(query);
+
+    expect(logs.map((log) => log.level)).toEqual(['info', 'warn', 'error']);
+    expect(logs[2].message).toBe('TypeError: x is undefined\n    at handler (src/api.ts:10:5)');
+    expect(logs[2].timestamp.toISOString()).toBe('2024-01-01T12:05:00.123Z');
+  });
+
+  test('should apply the limit', async () => {
+    const logs = await new FileLogSource({ type: 'file', path: 'app.log' }).fetchLogs({ ...query, limit: 1 });
+
+    expect(logs.map((log) => log.message)).toEqual(['request served']);
+  });
+
+  test('should refuse paths outside of LOG_FILES_DIR', async () => {
+    await expect(new FileLogSource({ type: 'file', path: '../etc/passwd' }).fetchLogs(query))
+      .rejects.toThrow('outside of LOG_FILES_DIR');
+    await expect(new FileLogSource({ type: 'file', path: '/etc/passwd' }).fetchLogs(query))
+      .rejects.toThrow('outside of LOG_FILES_DIR');
+  });
+
+  test('should be disabled without LOG_FILES_DIR', async () => {
+    delete process.env.LOG_FILES_DIR;
+    try {
+      await expect(new FileLogSource({ type: 'file', path: 'app.log' }).fetchLogs(query)).rejects.toThrow('disabled');
+    } finally {
+      process.env.LOG_FILES_DIR = dir;
+    }
+  });
+});
+
+describe('LokiLogSource', () => {
+  afterEach(() => {
+    vi.mocked(axios.get).mockReset();
+  });
+
+  test('should query the time range in nanoseconds and parse the streams', async () => {
+    vi.mocked(axios.get).mockResolvedValue({
+      data: {
+        data: {
+          result: [
+            {
+              stream: { service_name: 'checkout', level: 'error' },
+              values: [['1704110400000000000', 'payment failed']],
+            },
+            {
+              stream: { app: 'web' },
+              values: [['1704110460000000000', '{"level":"warn","msg":"retrying"}']],
+            },
+          ],
+        },
+      },
+    });
+
+    const logs = await new LokiLogSource({ type: 'loki', url: 'http://loki:3100/', query: '{app="web"}' }).fetchLogs(query);
+
+    const [url, options] = vi.mocked(axios.get).mock.calls[0];
+    expect(url).toBe('http://loki:3100/loki/api/v1/query_range');
+    expect(options?.params).toMatchObject({
+      query: '{app="web"}',
+      start: '1704110400000000000',
+      end: '1704114000000000000',
+      limit: 100,
+    });
+
+    expect(logs).toHaveLength(2);
+    expect(logs[0]).toMatchObject({ level: 'error', message: 'payment failed', service: 'checkout' });
+    expect(logs[0].timestamp.toISOString()).toBe('2024-01-01T12:00:00.000Z');
+    expect(logs[1]).toMatchObject({ level: 'warn', message: 'retrying', service: 'web' });
+    expect(logs[1].metadata?.labels).toEqual({ app: 'web' });
+  });
+
+  test('should return no logs for an empty answer', async () => {
+    vi.mocked(axios.get).mockResolvedValue({ data: {} });
+
+    const logs = await new LokiLogSource({ type: 'loki', url: 'http://loki:3100', query: '{app="web"}' }).fetchLogs(query);
+
+    expect(logs).toEqual([]);
+  });
+});
+
+describe('ElasticsearchLogSource', () => {
+  afterEach(() => {
+    vi.mocked(axios.post).mockReset();
+  });
+
+  test('should search the time range with the query and map the hits', async () => {
+    vi.mocked(axios.post).mockResolvedValue({
+      data: {
+        hits: {
+          hits: [
+            { _id: 'a', _source: { ts: '2024-01-01T12:30:00Z', 'log.level': 'ERROR', message: 'boom', service: { name: 'api' } } },
+            { _id: 'b', _source: { ts: '2024-01-01T12:31:00Z', log: { message: 'slow', level: 'warning' }, service: 'worker' } },
+            { _id: 'c', _source: { ts: '2024-01-01T12:32:00Z', status: 200 } },
+          ],
+        },
+      },
+    });
+
+    const logs = await new ElasticsearchLogSource({
+      type: 'elasticsearch',
+      url: 'http://es:9200',
+      index: 'logs-*',
+      query: 'level:error',
+      timestampField: 'ts',
+    }).fetchLogs(query);
+
+    const [url, body] = vi.mocked(axios.post).mock.calls[0];
+    expect(url).toBe('http://es:9200/logs-*/_search');
+    expect(body).toMatchObject({
+      size: 100,
+      sort: [{ ts: 'desc' }],
+      query: {
+        bool: {
+          filter: [{ range: { ts: { gte: '2024-01-01T12:00:00.000Z', lte: '2024-01-01T13:00:00.000Z' } } }],
+          must: [{ query_string: { query: 'level:error' } }],
+        },
+      },
+    });
+
+    expect(logs[0]).toMatchObject({ level: 'error', message: 'boom', service: 'api' });
+    expect(logs[0].metadata?.documentId).toBe('a');
+    expect(logs[1]).toMatchObject({ level: 'warn', message: 'slow', service: 'worker' });
+    expect(logs[2]).toMatchObject({ level: 'info', message: '{"ts":"2024-01-01T12:32:00Z","status":200}', service: 'web' });
+    expect(logs[2].timestamp.toISOString()).toBe('2024-01-01T12:32:00.000Z');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'vitest';
+import { DrainParser, templateOf, tokenize } from '../src/services/log-template-parser';
+
+describe('tokenize', () => {
+  test('should mask variables in the first line', () => {
+    expect(tokenize('GET https://api.example.com/users?id=1 from 10.0.0.12:443 took 31ms\n    at handler (route.ts:1:1)')).toEqual(
+      ['GET', '<*>', 'from', '<*>', 'took', '<*>ms']
+    );
+    expect(tokenize('User 3f2a9c1e-1b2c-4d5e-8f90-123456789abc (jane@example.com) at 2024-05-01T10:00:00.123Z')).toEqual(
+      ['User', '<*>', '(<*>)', 'at', '<*>']
+    );
+    expect(tokenize('Session abc123XYZ789 offset -42 pointer 0x7ffd')).toEqual(['Session', '<*>', 'offset', '<*>', 'pointer', '<*>']);
+  });
+
+  test('should have no tokens for an empty message', () => {
+    expect(tokenize('  \n')).toEqual([]);
+  });
+});
+
+describe('DrainParser', () => {
+  test('should merge similar messages into one template', () => {
+    const parser = new DrainParser();
+
+    const first = parser.add('User 3f2a9c1e-1b2c-4d5e-8f90-123456789abc not found (took 31ms)');
+    const second = parser.add('User 00000000-1111-2222-3333-444444444444 not found (took 7ms)');
+
+    expect(first).toMatchObject({ isNew: true, changed: false });
+    expect(second).toMatchObject({ isNew: false, changed: false });
+    expect(second?.cluster).toBe(first?.cluster);
+    expect(templateOf(second!.cluster)).toBe('User <*> not found (took <*>ms)');
+    expect(second?.cluster.size).toBe(2);
+  });
+
+  test('should turn differing words into variable slots', () => {
+    const parser = new DrainParser();
+    parser.add('Connection to db-primary refused');
+
+    const result = parser.add('Connection to db-replica refused');
+
+    expect(result).toMatchObject({ isNew: false, changed: true });
+    expect(templateOf(result!.cluster)).toBe('Connection to <*> refused');
+    expect(parser.add('Connection to cache refused')?.changed).toBe(false);
+    expect(parser.size).toBe(1);
+  });
+
+  test('should keep different messages apart', () => {
+    const parser = new DrainParser();
+
+    parser.add('Connection to db-primary refused');
+    parser.add('Payment provider timed out');
+    // Same words, another length
+    parser.add('Connection to db-primary refused again');
+
+    expect(parser.size).toBe(3);
+  });
+
+  test('should merge messages sharing a prefix only from the similarity threshold on', () => {
+    // 2 of 5 tokens are equal
+    const messages = ['Failed to load user profile', 'Failed to parse JSON body'];
+
+    const lenient = new DrainParser();
+    messages.forEach((message) => lenient.add(message));
+    const strict = new DrainParser({ similarity: 0.5 });
+    messages.forEach((message) => strict.add(message));
+
+    expect(lenient.size).toBe(1);
+    expect(strict.size).toBe(2);
+  });
+
+  test('should route messages with variable first tokens to the same cluster', () => {
+    const parser = new DrainParser();
+
+    parser.add('42 retries left for job sync');
+    const result = parser.add('7 retries left for job sync');
+
+    expect(result?.isNew).toBe(false);
+    expect(templateOf(result!.cluster)).toBe('<*> retries left for job sync');
+  });
+
+  test('should find a message\'s cluster without changing it', () => {
+    const parser = new DrainParser();
+    const cluster = parser.add('Connection to db-primary refused')!.cluster;
+
+    expect(parser.match('Connection to db-replica refused')).toBe(cluster);
+    expect(templateOf(cluster)).toBe('Connection to db-primary refused');
+    expect(cluster.size).toBe(1);
+    expect(parser.match('Payment provider timed out')).toBeNull();
+  });
+
+  test('should match restored templates', () => {
+    const parser = new DrainParser();
+    parser.addTemplate('User <*> not found (took <*>ms)', 'template-1', 10);
+
+    const result = parser.add('User 3f2a9c1e-1b2c-4d5e-8f90-123456789abc not found (took 31ms)');
+
+    expect(result).toMatchObject({ isNew: false, changed: false, cluster: { id: 'template-1', size: 11 } });
+  });
+
+  test('should stop adding clusters at the limit', () => {
+    const parser = new DrainParser({ maxClusters: 1 });
+    parser.add('Connection to db-primary refused');
+
+    expect(parser.add('Payment provider timed out')).toBeNull();
+    expect(parser.add('Connection to db-replica refused')?.isNew).toBe(false);
+    expect(parser.add('')).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'vitest';
+import { PatchApplier } from '../src/services/patch-applier';
+import { createUnifiedDiff } from '../src/utils/unified-diff';
+import { repository } from './helpers/repository';
+
+const applier = new PatchApplier();
+
+const api = 'export function getUser(id: string) {\n  return db.users.find(id);\n}\n';
+const fixedApi = 'export function getUser(id: string) {\n  return db.users.find(id) ?? null;\n}\n';
+
+describe('PatchApplier', () => {
+  test('should apply a multi-file diff with an added file', async () => {
+    const diff = createUnifiedDiff('src/api.ts', api, fixedApi) + createUnifiedDiff('src/guard.ts', '', 'export const guard = true;\n');
+
+    const { files, validation } = await applier.apply(diff, repository({ 'src/api.ts': api }), 'main');
+
+    expect(validation).toMatchObject({ ref: 'main', applies: true, clean: true });
+    expect(validation.files.map((file) => [file.path, file.status, file.additions, file.deletions])).toEqual([
+      ['src/api.ts', 'modified', 1, 1],
+      ['src/guard.ts', 'added', 1, 0],
+    ]);
+    expect(files).toEqual([
+      { path: 'src/api.ts', oldPath: 'src/api.ts', before: api, after: fixedApi },
+      { path: 'src/guard.ts', oldPath: null, before: null, after: 'export const guard = true;\n' },
+    ]);
+  });
+
+  test('should refuse to add a file that already exists', async () => {
+    const diff = createUnifiedDiff('src/api.ts', '', fixedApi);
+
+    const { files, validation } = await applier.apply(diff, repository({ 'src/api.ts': api }), 'main');
+
+    expect(validation.applies).toBe(false);
+    expect(validation.files[0]).toMatchObject({ status: 'added', error: 'Already exists in main' });
+    expect(files).toEqual([]);
+  });
+
+  test('should refuse to modify or delete a file that doesn\'t exist', async () => {
+    const diff = createUnifiedDiff('src/api.ts', api, fixedApi) + createUnifiedDiff('src/old.ts', 'x\n', '');
+
+    const { validation } = await applier.apply(diff, repository({}), 'main');
+
+    expect(validation.files.map((file) => [file.status, file.error])).toEqual([
+      ['modified', 'Not found in main'],
+      ['deleted', 'Not found in main'],
+    ]);
+    expect(applier.describeConflicts(validation)).toEqual(['src/api.ts: Not found in main', 'src/old.ts: Not found in main']);
+  });
+
+  test.each(['../outside.ts', 'src/../../outside.ts', '/etc/passwd', '.'])('should reject the path %s', async (file) => {
+    const diff = `--- /dev/null\n+++ ${file}\n@@ -0,0 +1,1 @@\n+x\n`;
+
+    const { files, validation } = await applier.apply(diff, repository({}), 'main');
+
+    expect(validation.applies).toBe(false);
+    expect(validation.files[0].error).toBe(`Invalid path ${file}`);
+    expect(files).toEqual([]);
+  });
+
+  test('should report a renamed file', async () => {
+    const diff = '--- a/src/api.ts\n+++ b/src/users.ts\n@@ -1,3 +1,3 @@\n export function getUser(id: string) {\n-  return db.users.find(id);\n+  return db.users.find(id) ?? null;\n }\n';
+
+    const { files, validation } = await applier.apply(diff, repository({ 'src/api.ts': api }), 'main');
+
+    expect(validation.files[0]).toMatchObject({ path: 'src/users.ts', oldPath: 'src/api.ts', status: 'renamed' });
+    expect(files[0]).toEqual({ path: 'src/users.ts', oldPath: 'src/api.ts', before: api, after: fixedApi });
+    expect(applier.toDiff(files)).toBe(createUnifiedDiff('src/api.ts', api, '') + createUnifiedDiff('src/users.ts', '', fixedApi));
+  });
+
+  test('should apply a moved hunk but not call the patch clean', async () => {
+    const moved = `import { db } from './db';\n\n${api}`;
+
+    const { files, validation } = await applier.apply(createUnifiedDiff('src/api.ts', api, fixedApi), repository({ 'src/api.ts': moved }), 'main');
+
+    expect(validation).toMatchObject({ applies: true, clean: false });
+    expect(validation.files[0].hunks[0]).toMatchObject({ status: 'offset', offset: 2 });
+    expect(files[0].after).toBe(`import { db } from './db';\n\n${fixedApi}`);
+  });
+
+  test('should report conflicting hunks', async () => {
+    const changed = api.replace('find(id)', 'findOne({ id })');
+
+    const { files, validation } = await applier.apply(createUnifiedDiff('src/api.ts', api, fixedApi), repository({ 'src/api.ts': changed }), 'main');
+
+    expect(validation.applies).toBe(false);
+    expect(files).toEqual([]);
+    expect(applier.describeConflicts(validation)).toEqual(['src/api.ts: hunk @@ -1,3 +1,3 @@ does not match main']);
+  });
+
+  test('should reject a diff without file changes', async () => {
+    await expect(applier.apply('just text', repository({}), 'main')).rejects.toThrow('no file changes');
+  });
+
+  test('should not hide read errors other than missing files', async () => {
+    const failing = repository({});
+    failing.getFileContent = async () => {
+      throw Object.assign(new Error('Bad credentials'), { status: 401 });
+    };
+
+    await expect(applier.apply(createUnifiedDiff('src/api.ts', api, fixedApi), failing, 'main')).rejects.toThrow('Bad credentials');
+  });
+});
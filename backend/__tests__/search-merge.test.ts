@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'vitest';
+import { mergeResults, normalizeQuery, normalizeUrl } from '../src/services/search-providers/merge';
+import { ResearchResult } from '../src/utils/types';
+
+const result = (url: string | undefined, relevance: number, overrides: Partial<ResearchResult> = {}): ResearchResult => ({
+  source: 'web',
+  title: 'Title',
+  summary: 'Summary',
+  url,
+  relevance,
+  ...overrides,
+});
+
+describe('normalizeQuery', () => {
+  test('should ignore case, punctuation and volatile values', () => {
+    const a = normalizeQuery('TypeError: Cannot read properties of undefined (reading \'id\') at /api/users/42 req 3f2a9c1e-1b2c-4d5e-8f90-123456789abc');
+    const b = normalizeQuery('typeerror:  cannot read properties of undefined (reading "id") at /api/users/7 req 00000000-1111-2222-3333-444444444444');
+
+    expect(a).toBe(b);
+    expect(a).toBe('typeerror: cannot read properties of undefined reading id at /api/users/<n> req <uuid>');
+  });
+
+  test('should replace long hex values but keep short words', () => {
+    expect(normalizeQuery('commit deadbeef12 in cafe')).toBe('commit <hex> in cafe');
+  });
+});
+
+describe('normalizeUrl', () => {
+  test('should drop the scheme, www, fragment, tracking parameters and trailing slashes', () => {
+    expect(normalizeUrl('https://www.Example.com/docs/errors/?utm_source=x&b=2&a=1#section')).toBe('example.com/docs/errors?a=1&b=2');
+    expect(normalizeUrl('http://example.com/docs/errors')).toBe('example.com/docs/errors');
+  });
+
+  test('should fall back to the trimmed text of an invalid URL', () => {
+    expect(normalizeUrl('  Not A URL ')).toBe('not a url');
+  });
+});
+
+describe('mergeResults', () => {
+  test('should merge the same page found by several providers', () => {
+    const merged = mergeResults([
+      { provider: 'exa', results: [result('https://example.com/a?utm_source=exa', 0.6, { title: 'Exa title', summary: 'A much longer summary' })] },
+      { provider: 'perplexity', results: [result('https://www.example.com/a/', 0.8, { source: 'perplexity', title: 'Better title' })] },
+    ]);
+
+    expect(merged).toEqual([
+      {
+        source: 'perplexity',
+        title: 'Better title',
+        summary: 'A much longer summary',
+        url: 'https://example.com/a?utm_source=exa',
+        relevance: 0.85,
+        providers: ['exa', 'perplexity'],
+      },
+    ]);
+  });
+
+  test('should sort by relevance and keep results without URL apart by text', () => {
+    const merged = mergeResults([
+      { provider: 'exa', results: [result(undefined, 0.4, { title: 'Answer' }), result('https://example.com/b', 0.9)] },
+      { provider: 'brave', results: [result(undefined, 0.5, { title: 'Other answer' })] },
+    ]);
+
+    expect(merged.map((r) => [r.url ?? r.title, r.relevance])).toEqual([
+      ['https://example.com/b', 0.9],
+      ['Other answer', 0.5],
+      ['Answer', 0.4],
+    ]);
+  });
+
+  test('should cap the boosted relevance at 1', () => {
+    const merged = mergeResults([
+      { provider: 'exa', results: [result('https://example.com', 0.98)] },
+      { provider: 'brave', results: [result('https://example.com', 0.5)] },
+      { provider: 'perplexity', results: [result('https://example.com', 0.5)] },
+    ]);
+
+    expect(merged[0].relevance).toBe(1);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'vitest';
+import { assessBlastRadius, evaluatePolicy, parseEstimatedMinutes, SolutionRanker } from '../src/services/solution-ranker';
+import { solution } from './helpers/fixtures';
+
+/**
+ * Diff replacing the first `lines` lines of each file
+ */
+function diff(files: string[], lines: number): string {
+  return files
+    .map((file) => [
+      `--- a/${file}`,
+      `+++ b/${file}`,
+      `@@ -1,${lines} +1,${lines} @@`,
+      ...Array.from({ length: lines }, (_, i) => `-old ${i}`),
+      ...Array.from({ length: lines }, (_, i) => `+new ${i}`),
+    ].join('\n'))
+    .join('\n') + '\n';
+}
+
+const failedTests = { success: false, output: '1 failed' };
+
+describe('parseEstimatedMinutes', () => {
+  test.each([
+    ['2 minutes', 2],
+    ['10', 10],
+    ['30s', 0.5],
+    ['1 hour', 60],
+    ['1.5 hrs', 90],
+  ])('should read %s as %d minutes', (estimate, minutes) => {
+    expect(parseEstimatedMinutes(estimate)).toBe(minutes);
+  });
+
+  test('should have no minutes without a number', () => {
+    expect(parseEstimatedMinutes('soon')).toBeNull();
+    expect(parseEstimatedMinutes(undefined)).toBeNull();
+  });
+});
+
+describe('assessBlastRadius', () => {
+  test('should rate a rollback by the commits it reverts', () => {
+    const rollback = solution({ type: 'rollback' });
+
+    expect([1, 3, 6, undefined].map((rangeSize) => assessBlastRadius(rollback, rangeSize))).toEqual(['low', 'medium', 'high', 'medium']);
+    expect(assessBlastRadius(solution({ type: 'restart' }))).toBe('low');
+  });
+
+  test('should rate a patch by the files and lines it changes', () => {
+    expect(assessBlastRadius(solution({ diff: diff(['app/page.tsx'], 10) }))).toBe('low');
+    expect(assessBlastRadius(solution({ diff: diff(['app/page.tsx'], 11) }))).toBe('medium');
+    expect(assessBlastRadius(solution({ diff: diff(['a.ts', 'b.ts', 'c.ts'], 16) }))).toBe('medium');
+    expect(assessBlastRadius(solution({ diff: diff(['a.ts', 'b.ts', 'c.ts', 'd.ts'], 1) }))).toBe('high');
+    expect(assessBlastRadius(solution({ diff: diff(['app/page.tsx'], 51) }))).toBe('high');
+    expect(assessBlastRadius(solution({ type: 'config_fix' }))).toBe('medium');
+  });
+});
+
+describe('evaluatePolicy', () => {
+  test('should pass a confident, low-risk solution', () => {
+    expect(evaluatePolicy(solution(), 'low', 90)).toEqual({ passed: true, violations: [] });
+  });
+
+  test('should list every violation', () => {
+    const policy = evaluatePolicy(solution({ confidence: 80, risk: 'high', testResults: failedTests }), 'high', 90);
+
+    expect(policy).toEqual({
+      passed: false,
+      violations: ['Confidence 80% is below the AutoFix threshold (90%)', 'Tests failed', 'High risk', 'High blast radius'],
+    });
+  });
+});
+
+describe('SolutionRanker.rank', () => {
+  const ranker = new SolutionRanker();
+
+  test('should score and order candidates best first', () => {
+    const patch = solution({ id: 'patch', diff: diff(['app/page.tsx'], 1) });
+    const rollback = solution({ id: 'rollback', type: 'rollback', confidence: 70, estimatedTime: '1 minute' });
+    const untested = solution({ id: 'untested', diff: diff(['app/page.tsx'], 1), testResults: failedTests });
+
+    const ranked = ranker.rank([untested, rollback, patch], { autoFixThreshold: 90, rangeSize: 1 });
+
+    expect(ranked.map((candidate) => [candidate.id, candidate.ranking?.rank, candidate.ranking?.score])).toEqual([
+      ['patch', 1, 93],
+      ['rollback', 2, 86],
+      // Failed tests halve the score
+      ['untested', 3, 46],
+    ]);
+    expect(ranked[0].ranking).toMatchObject({
+      blastRadius: 'low',
+      timeToRecoverMinutes: 10,
+      factors: { confidence: 90, risk: 100, blastRadius: 100, timeToRecover: 83 },
+      policy: { passed: true },
+    });
+    expect(ranked[1].ranking).toMatchObject({ timeToRecoverMinutes: 2, policy: { passed: false } });
+  });
+
+  test('should bound the factors', () => {
+    const [ranked] = ranker.rank([solution({ confidence: 150, estimatedTime: '2 hours' })], { autoFixThreshold: 90 });
+
+    expect(ranked.ranking?.factors).toMatchObject({ confidence: 100, timeToRecover: 0 });
+    expect(ranked.ranking?.timeToRecoverMinutes).toBe(125);
+  });
+
+  test('should assume five minutes for a solution without estimate', () => {
+    const [ranked] = ranker.rank([solution({ type: 'restart', estimatedTime: 'unknown' })], { autoFixThreshold: 90 });
+
+    expect(ranked.ranking?.timeToRecoverMinutes).toBe(8);
+  });
+});
@@ -0,0 +1,28 @@
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import sourceControlManager from '../src/integrations/vcs';
+
+describe('SourceControlManager.forProject', () => {
+  const reposDir = process.env.LOCAL_GIT_REPOS_DIR;
+
+  beforeEach(() => {
+    delete process.env.LOCAL_GIT_REPOS_DIR;
+  });
+
+  afterEach(() => {
+    if (reposDir === undefined) delete process.env.LOCAL_GIT_REPOS_DIR;
+    else process.env.LOCAL_GIT_REPOS_DIR = reposDir;
+  });
+
+  test('should have no provider for a local repository while they are disabled', async () => {
+    const vcs = await sourceControlManager.forProject({ sourceControl: { type: 'local', path: 'web.git' } }, 'user-1');
+
+    expect(vcs).toBeNull();
+  });
+
+  test('should have no provider for a local repository outside LOCAL_GIT_REPOS_DIR', async () => {
+    process.env.LOCAL_GIT_REPOS_DIR = '/srv/repos';
+
+    expect(await sourceControlManager.forProject({ sourceControl: { type: 'local', path: '../etc' } }, 'user-1')).toBeNull();
+    expect(await sourceControlManager.forProject({ sourceControl: { type: 'local', path: 'web.git' } }, 'user-1')).not.toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { completeStructured, LLMOutputError, parseJSONResponse } from '../src/llm/structured';
+import { ScriptedProvider } from '../src/llm/scripted';
+import { LLMConfig, LLMMessage } from '../src/llm/types';
+
+const schema = z.object({
+  rootCause: z.string().min(1),
+  confidence: z.number().min(0).max(1),
+});
+
+const messages: LLMMessage[] = [{ role: 'user', content: 'Diagnose the incident' }];
+
+function scripted(...responses: string[]): LLMConfig {
+  return { provider: { type: 'scripted', responses: { diagnosis: responses } } };
+}
+
+describe('parseJSONResponse', () => {
+  test('should read the JSON object of a markdown code block', () => {
+    expect(parseJSONResponse('Here you go:\n```json\n{"a": 1}\n```\nDone.')).toEqual({ a: 1 });
+  });
+
+  test('should read a bare JSON object in text', () => {
+    expect(parseJSONResponse('The answer is {"a": {"b": 2}} as requested')).toEqual({ a: { b: 2 } });
+  });
+
+  test('should accept raw newlines and tabs inside strings', () => {
+    expect(parseJSONResponse('{"code": "line 1\n\tline 2"}')).toEqual({ code: 'line 1\n\tline 2' });
+  });
+
+  test('should throw when there is no JSON object', () => {
+    expect(() => parseJSONResponse('I cannot help with that')).toThrow('no JSON object');
+  });
+});
+
+describe('completeStructured', () => {
+  let sent: LLMMessage[][];
+
+  beforeEach(() => {
+    sent = [];
+    const complete = ScriptedProvider.prototype.complete;
+    vi.spyOn(ScriptedProvider.prototype, 'complete').mockImplementation(function (this: ScriptedProvider, request) {
+      sent.push([...request.messages]);
+      return complete.call(this, request);
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const options = { messages, schema, temperature: 0, maxTokens: 1000 };
+
+  test('should return a valid answer without retrying', async () => {
+    const result = await completeStructured('diagnosis', scripted('```json\n{"rootCause": "Null user", "confidence": 0.8}\n```'), options);
+
+    expect(result).toEqual({ rootCause: 'Null user', confidence: 0.8 });
+    expect(sent).toHaveLength(1);
+  });
+
+  test('should send the validation errors back and return the repaired answer', async () => {
+    const result = await completeStructured(
+      'diagnosis',
+      scripted('{"rootCause": "Null user", "confidence": "high"}', '{"rootCause": "Null user", "confidence": 0.9}'),
+      options
+    );
+
+    expect(result).toEqual({ rootCause: 'Null user', confidence: 0.9 });
+    expect(sent).toHaveLength(2);
+
+    const repair = sent[1];
+    expect(repair).toHaveLength(3);
+    expect(repair[0]).toEqual(messages[0]);
+    expect(repair[1]).toEqual({ role: 'assistant', content: '{"rootCause": "Null user", "confidence": "high"}' });
+    expect(repair[2].role).toBe('user');
+    expect(repair[2].content).toContain('- confidence: Expected number, received string');
+  });
+
+  test('should report answers without JSON as invalid JSON', async () => {
+    await completeStructured('diagnosis', scripted('Sorry, no idea', '{"rootCause": "Timeout", "confidence": 0.5}'), options);
+
+    expect(sent[1][2].content).toContain('- Invalid JSON: The answer contains no JSON object');
+  });
+
+  test('should not change the caller\'s messages', async () => {
+    await completeStructured('diagnosis', scripted('{}', '{"rootCause": "Timeout", "confidence": 0.5}'), options);
+
+    expect(messages).toHaveLength(1);
+  });
+
+  test('should throw an LLMOutputError when the answer stays invalid', async () => {
+    const error = await completeStructured('diagnosis', scripted('{"rootCause": ""}'), options).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LLMOutputError);
+    expect(error.task).toBe('diagnosis');
+    expect(error.attempts).toBe(3);
+    expect(error.issues).toEqual([
+      'rootCause: String must contain at least 1 character(s)',
+      'confidence: Required',
+    ]);
+    expect(error.message).toContain('The diagnosis answer was invalid after 3 attempt(s)');
+    expect(sent).toHaveLength(3);
+    // Every failed attempt is fed back
+    expect(sent[2]).toHaveLength(5);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, test } from 'vitest';
+import {
+  formatDiagnostic,
+  parseESLintDiagnostics,
+  parseTestSummary,
+  parseTypeScriptDiagnostics,
+} from '../src/utils/test-output';
+
+describe('parseTypeScriptDiagnostics', () => {
+  test('should read plain and pretty tsc output', () => {
+    const output = [
+      'src/api.ts(12,5): error TS2345: Argument of type \'string\' is not assignable to parameter of type \'number\'.',
+      '\x1b[96msrc/db.ts\x1b[0m:\x1b[93m3\x1b[0m:\x1b[93m10\x1b[0m - \x1b[91merror\x1b[0m\x1b[90m TS2305: \x1b[0mModule \'./x\' has no exported member \'y\'.',
+      '',
+      'Found 2 errors in 2 files.',
+    ].join('\n');
+
+    const diagnostics = parseTypeScriptDiagnostics(output);
+
+    expect(diagnostics).toEqual([
+      {
+        source: 'typecheck',
+        file: 'src/api.ts',
+        line: 12,
+        column: 5,
+        severity: 'error',
+        code: 'TS2345',
+        message: 'Argument of type \'string\' is not assignable to parameter of type \'number\'.',
+      },
+      {
+        source: 'typecheck',
+        file: 'src/db.ts',
+        line: 3,
+        column: 10,
+        severity: 'error',
+        code: 'TS2305',
+        message: 'Module \'./x\' has no exported member \'y\'.',
+      },
+    ]);
+    expect(formatDiagnostic(diagnostics[1])).toBe('src/db.ts:3:10 TS2305 Module \'./x\' has no exported member \'y\'.');
+  });
+
+  test('should return nothing for a clean run', () => {
+    expect(parseTypeScriptDiagnostics('')).toEqual([]);
+  });
+});
+
+describe('parseESLintDiagnostics', () => {
+  test('should read the stylish formatter', () => {
+    const output = [
+      '',
+      '/repo/src/api.ts',
+      '   3:7   error    \'unused\' is assigned a value but never used  @typescript-eslint/no-unused-vars',
+      '  10:1   warning  Unexpected console statement                no-console',
+      '',
+      '✖ 2 problems (1 error, 1 warning)',
+    ].join('\n');
+
+    expect(parseESLintDiagnostics(output)).toEqual([
+      {
+        source: 'lint',
+        file: '/repo/src/api.ts',
+        line: 3,
+        column: 7,
+        severity: 'error',
+        code: '@typescript-eslint/no-unused-vars',
+        message: '\'unused\' is assigned a value but never used',
+      },
+      {
+        source: 'lint',
+        file: '/repo/src/api.ts',
+        line: 10,
+        column: 1,
+        severity: 'warning',
+        code: 'no-console',
+        message: 'Unexpected console statement',
+      },
+    ]);
+  });
+
+  test('should read the unix formatter', () => {
+    const output = 'src/api.ts:3:7: \'unused\' is defined but never used. [Error/no-unused-vars]\n\n1 problem';
+
+    expect(parseESLintDiagnostics(output)).toEqual([
+      {
+        source: 'lint',
+        file: 'src/api.ts',
+        line: 3,
+        column: 7,
+        severity: 'error',
+        code: 'no-unused-vars',
+        message: '\'unused\' is defined but never used.',
+      },
+    ]);
+  });
+});
+
+describe('parseTestSummary', () => {
+  test('should read a Jest summary and its failures', () => {
+    const output = [
+      'FAIL src/user.test.ts',
+      '  ● getUser › returns null for unknown ids',
+      '',
+      'Tests:       1 failed, 1 skipped, 20 passed, 22 total',
+      'Time:        1.2 s',
+    ].join('\n');
+
+    expect(parseTestSummary(output)).toEqual({
+      passed: 20,
+      failed: 1,
+      skipped: 1,
+      failures: ['getUser › returns null for unknown ids'],
+    });
+  });
+
+  test('should read a Vitest summary and its failures', () => {
+    const output = [
+      ' ❯ src/user.test.ts (3 tests | 1 failed) 12ms',
+      '   × getUser > returns null for unknown ids 5ms',
+      '',
+      ' Test Files  1 failed (1)',
+      '      Tests  1 failed | 2 passed | 1 todo (4)',
+    ].join('\n');
+
+    expect(parseTestSummary(output)).toEqual({
+      passed: 2,
+      failed: 1,
+      skipped: 1,
+      failures: ['getUser > returns null for unknown ids'],
+    });
+  });
+
+  test('should read Mocha and node:test summaries', () => {
+    expect(parseTestSummary('  12 passing (30ms)\n  1 pending\n  2 failing\n')).toEqual({
+      passed: 12,
+      failed: 2,
+      skipped: 1,
+      failures: [],
+    });
+    expect(parseTestSummary('not ok 2 - rejects bad input\n# tests 3\n# pass 2\n# fail 1\n# skipped 0\n')).toEqual({
+      passed: 2,
+      failed: 1,
+      skipped: 0,
+      failures: ['rejects bad input'],
+    });
+  });
+
+  test('should return null without a summary of a known test runner', () => {
+    expect(parseTestSummary('npm ERR! missing script: test')).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'vitest';
+import { TypeChecker } from '../src/services/type-checker';
+import { PatchedFile } from '../src/services/patch-applier';
+import { repository } from './helpers/repository';
+
+const checker = new TypeChecker();
+
+const users = 'export function getUser(id: string): { id: string } {\n  return { id };\n}\n';
+
+/**
+ * A patch modifying a file of the repository
+ */
+function modify(files: Record<string, string>, file: string, after: string): PatchedFile {
+  return { path: file, oldPath: file, before: files[file], after };
+}
+
+describe('TypeChecker.check', () => {
+  test('should skip patches without TypeScript files', async () => {
+    const files = { 'README.md': '# Web\n' };
+
+    expect(await checker.check([modify(files, 'README.md', '# App\n')], repository(files), 'main')).toBeNull();
+  });
+
+  test('should report the errors a patch adds', async () => {
+    const files = { 'src/a.ts': 'export const count: number = 1;\n' };
+
+    const result = await checker.check([modify(files, 'src/a.ts', 'export const count: number = \'1\';\n')], repository(files), 'main');
+
+    expect(result).toMatchObject({ success: false, ref: 'main', tsconfig: null, files: ['src/a.ts'], preexisting: 0 });
+    expect(result?.diagnostics).toEqual([{
+      source: 'typecheck',
+      file: 'src/a.ts',
+      line: 1,
+      column: 14,
+      severity: 'error',
+      code: 'TS2322',
+      message: 'Type \'string\' is not assignable to type \'number\'.',
+    }]);
+  });
+
+  test('should leave out errors the file had before, even when they moved', async () => {
+    const broken = 'export const count: number = \'1\';\n';
+    const files = { 'src/a.ts': broken };
+
+    const result = await checker.check([modify(files, 'src/a.ts', `// Counter\n${broken}`)], repository(files), 'main');
+
+    expect(result).toMatchObject({ success: true, diagnostics: [], preexisting: 1 });
+  });
+
+  test('should check calls against the files the patch imports', async () => {
+    const files = { 'src/api.ts': 'import { getUser } from \'./users\';\n\nexport const user = getUser(\'1\');\n', 'src/users.ts': users };
+
+    const result = await checker.check(
+      [modify(files, 'src/api.ts', 'import { getUser } from \'./users\';\n\nexport const user = getUser(1);\n')],
+      repository(files),
+      'main'
+    );
+
+    // The patched file comes with the patch, only what it imports is fetched
+    expect(result?.snapshotFiles).toBe(1);
+    expect(result?.diagnostics.map((d) => [d.code, d.line])).toEqual([['TS2345', 3]]);
+  });
+
+  test('should only report missing relative modules', async () => {
+    const files = { 'src/a.ts': 'export {};\n' };
+
+    const result = await checker.check(
+      [modify(files, 'src/a.ts', 'import express from \'express\';\nimport { helper } from \'./missing\';\n\nexport { express, helper };\n')],
+      repository(files),
+      'main'
+    );
+
+    expect(result?.diagnostics.map((d) => [d.code, d.line])).toEqual([['TS2307', 2]]);
+  });
+
+  test('should check an added file', async () => {
+    const files = { 'src/users.ts': users };
+    const added: PatchedFile = { path: 'src/guard.ts', oldPath: null, before: null, after: 'import { getUser } from \'./users\';\n\nexport const id: number = getUser(\'1\').id;\n' };
+
+    const result = await checker.check([added], repository(files), 'main');
+
+    expect(result?.diagnostics.map((d) => [d.file, d.code])).toEqual([['src/guard.ts', 'TS2322']]);
+  });
+
+  test('should use the nearest tsconfig.json and what it extends', async () => {
+    const files = {
+      'tsconfig.base.json': '{ "compilerOptions": { "strict": true } }',
+      'tsconfig.json': '{\n  // Shared settings\n  "extends": "./tsconfig.base",\n  "compilerOptions": { "target": "ES2020" }\n}',
+      'src/a.ts': 'export function double(value: number) {\n  return value * 2;\n}\n',
+    };
+
+    const result = await checker.check(
+      [modify(files, 'src/a.ts', 'export function double(value) {\n  return value * 2;\n}\n')],
+      repository(files),
+      'main'
+    );
+
+    expect(result).toMatchObject({ tsconfig: 'tsconfig.json', success: false });
+    // Implicit any is an error under strict only
+    expect(result?.diagnostics.map((d) => d.code)).toEqual(['TS7006']);
+  });
+
+  test('should resolve paths aliases', async () => {
+    const files = {
+      'tsconfig.json': '{ "compilerOptions": { "baseUrl": ".", "paths": { "@/*": ["./src/*"] } } }',
+      'src/users.ts': users,
+      'app/page.ts': 'export {};\n',
+    };
+
+    const result = await checker.check(
+      [modify(files, 'app/page.ts', 'import { getUser } from \'@/users\';\n\nexport const user = getUser();\n')],
+      repository(files),
+      'main'
+    );
+
+    expect(result?.diagnostics.map((d) => d.code)).toEqual(['TS2554']);
+  });
+});
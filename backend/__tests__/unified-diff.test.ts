@@ -0,0 +1,190 @@
+import { describe, expect, test } from 'vitest';
+import { applyHunks, applyHunksWithReport, createUnifiedDiff, parseUnifiedDiff, reverseUnifiedDiff } from '../src/utils/unified-diff';
+
+const numbered = (count: number, change: Record<number, string> = {}) =>
+  Array.from({ length: count }, (_, i) => change[i + 1] ?? `line ${i + 1}`).join('\n') + '\n';
+
+describe('createUnifiedDiff', () => {
+  test('should return an empty string when nothing changed', () => {
+    expect(createUnifiedDiff('a.ts', 'same\n', 'same\n')).toBe('');
+  });
+
+  test('should create a hunk with three lines of context', () => {
+    const diff = createUnifiedDiff('src/a.ts', numbered(10), numbered(10, { 5: 'changed' }));
+
+    expect(diff).toBe([
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -2,7 +2,7 @@',
+      ' line 2',
+      ' line 3',
+      ' line 4',
+      '-line 5',
+      '+changed',
+      ' line 6',
+      ' line 7',
+      ' line 8',
+      '',
+    ].join('\n'));
+  });
+
+  test('should merge changes that share context and split distant ones', () => {
+    const close = parseUnifiedDiff(createUnifiedDiff('a.ts', numbered(30), numbered(30, { 5: 'x', 10: 'y' })));
+    const distant = parseUnifiedDiff(createUnifiedDiff('a.ts', numbered(30), numbered(30, { 5: 'x', 20: 'y' })));
+
+    expect(close[0].hunks).toHaveLength(1);
+    expect(distant[0].hunks).toHaveLength(2);
+    expect(distant[0].hunks[1]).toMatchObject({ oldStart: 17, oldLines: 7, newStart: 17, newLines: 7 });
+  });
+
+  test('should diff added and deleted files against /dev/null', () => {
+    const added = createUnifiedDiff('new.ts', '', 'export {};\n');
+    const deleted = createUnifiedDiff('old.ts', 'export {};\n', '');
+
+    expect(added).toBe('--- /dev/null\n+++ b/new.ts\n@@ -0,0 +1,1 @@\n+export {};\n');
+    expect(deleted).toBe('--- a/old.ts\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-export {};\n');
+  });
+
+  test('should produce diffs that apply back to the new content', () => {
+    const before = numbered(40);
+    const after = numbered(40, { 1: 'first', 12: 'twelve', 13: 'thirteen', 39: 'end' }).replace('line 25\n', '');
+
+    const [patch] = parseUnifiedDiff(createUnifiedDiff('a.ts', before, after));
+
+    expect(applyHunks(before, patch.hunks)).toBe(after);
+  });
+});
+
+describe('parseUnifiedDiff', () => {
+  test('should parse several files of a git diff', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1 +1 @@',
+      '-old',
+      '+new',
+      'diff --git a/src/b.ts b/src/c.ts',
+      '--- a/src/b.ts\t2024-01-01 00:00:00',
+      '+++ b/src/c.ts',
+      '@@ -3,2 +3,3 @@ function f() {',
+      ' a',
+      '+b',
+      ' c',
+    ].join('\n');
+
+    const patches = parseUnifiedDiff(diff);
+
+    expect(patches).toEqual([
+      { oldPath: 'src/a.ts', newPath: 'src/a.ts', hunks: [{ oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, lines: ['-old', '+new'] }] },
+      { oldPath: 'src/b.ts', newPath: 'src/c.ts', hunks: [{ oldStart: 3, oldLines: 2, newStart: 3, newLines: 3, lines: [' a', '+b', ' c'] }] },
+    ]);
+  });
+
+  test('should keep removed lines starting with dashes', () => {
+    const [patch] = parseUnifiedDiff('--- a/a.sql\n+++ b/a.sql\n@@ -1,2 +1,1 @@\n--- comment\n keep\n');
+
+    expect(patch.hunks[0].lines).toEqual(['--- comment', ' keep']);
+  });
+
+  test('should restore empty context lines without their space', () => {
+    const [patch] = parseUnifiedDiff('--- a/a.ts\n+++ b/a.ts\n@@ -1,3 +1,3 @@\n a\n\n-b\n+c\n');
+
+    expect(patch.hunks[0].lines).toEqual([' a', ' ', '-b', '+c']);
+  });
+
+  test('should reject an invalid hunk header', () => {
+    expect(() => parseUnifiedDiff('--- a/a.ts\n+++ b/a.ts\n@@ bad @@\n')).toThrow('Invalid hunk header');
+  });
+});
+
+describe('applyHunksWithReport', () => {
+  const hunksOf = (before: string, after: string) => parseUnifiedDiff(createUnifiedDiff('a.ts', before, after))[0].hunks;
+
+  test('should apply a hunk where its header says', () => {
+    const result = applyHunksWithReport(numbered(10), hunksOf(numbered(10), numbered(10, { 5: 'changed' })));
+
+    expect(result.content).toBe(numbered(10, { 5: 'changed' }));
+    expect(result.hunks).toEqual([{ header: '@@ -2,7 +2,7 @@', status: 'applied', offset: 0, fuzz: 0 }]);
+  });
+
+  test('should find a hunk whose lines moved', () => {
+    const hunks = hunksOf(numbered(10), numbered(10, { 5: 'changed' }));
+    const moved = 'added 1\nadded 2\n' + numbered(10);
+
+    const result = applyHunksWithReport(moved, hunks);
+
+    expect(result.content).toBe('added 1\nadded 2\n' + numbered(10, { 5: 'changed' }));
+    expect(result.hunks[0]).toMatchObject({ status: 'offset', offset: 2, fuzz: 0 });
+  });
+
+  test('should carry the offset of a hunk over to the next ones', () => {
+    const hunks = hunksOf(numbered(30), numbered(30, { 5: 'x', 25: 'y' }));
+    const moved = numbered(30).replace('line 1\n', 'line 0\nline 0.5\nline 1\n');
+
+    const result = applyHunksWithReport(moved, hunks);
+
+    expect(result.hunks.map((hunk) => [hunk.status, hunk.offset])).toEqual([['offset', 2], ['applied', 0]]);
+    expect(result.content).toContain('\nx\n');
+    expect(result.content).toContain('\ny\n');
+  });
+
+  test('should ignore changed context lines only with fuzz', () => {
+    const hunks = hunksOf(numbered(10), numbered(10, { 5: 'changed' }));
+    const drifted = numbered(10, { 2: 'line two', 8: 'line eight' });
+
+    expect(applyHunksWithReport(drifted, hunks).hunks[0].status).toBe('conflict');
+
+    const result = applyHunksWithReport(drifted, hunks, 2);
+    expect(result.content).toBe(numbered(10, { 2: 'line two', 5: 'changed', 8: 'line eight' }));
+    expect(result.hunks[0]).toMatchObject({ status: 'fuzzy', fuzz: 1 });
+  });
+
+  test('should report a conflict when the removed lines are gone, and still report the other hunks', () => {
+    const hunks = hunksOf(numbered(30), numbered(30, { 5: 'x', 25: 'y' }));
+    const conflicting = numbered(30, { 5: 'someone else changed this' });
+
+    const result = applyHunksWithReport(conflicting, hunks, 2);
+
+    expect(result.content).toBeNull();
+    expect(result.hunks.map((hunk) => hunk.status)).toEqual(['conflict', 'applied']);
+  });
+
+  test('should create a new file from an empty one', () => {
+    const result = applyHunksWithReport('', hunksOf('', 'a\nb\n'));
+
+    expect(result.content).toBe('a\nb\n');
+    expect(result.hunks[0].status).toBe('applied');
+  });
+
+  test('should keep a missing trailing newline', () => {
+    const [patch] = parseUnifiedDiff('--- a/a.ts\n+++ b/a.ts\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n');
+
+    expect(applyHunks('a\nb', patch.hunks)).toBe('a\nc');
+  });
+});
+
+describe('reverseUnifiedDiff', () => {
+  test('should undo a change', () => {
+    const before = numbered(30);
+    const after = numbered(30, { 5: 'x', 20: 'y' }).replace('line 25\n', '');
+
+    const reversed = reverseUnifiedDiff(createUnifiedDiff('a.ts', before, after));
+
+    expect(applyHunks(after, parseUnifiedDiff(reversed)[0].hunks)).toBe(before);
+  });
+
+  test('should turn added files into deleted ones and back', () => {
+    const added = createUnifiedDiff('new.ts', '', 'export {};\n');
+
+    expect(reverseUnifiedDiff(added)).toBe(createUnifiedDiff('new.ts', 'export {};\n', ''));
+    expect(reverseUnifiedDiff(reverseUnifiedDiff(added))).toBe(added);
+  });
+
+  test('should undo a rename', () => {
+    const [patch] = parseUnifiedDiff(reverseUnifiedDiff('--- a/old.ts\n+++ b/new.ts\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n'));
+
+    expect(patch).toEqual({ oldPath: 'new.ts', newPath: 'old.ts', hunks: [{ oldStart: 1, oldLines: 2, newStart: 1, newLines: 2, lines: [' a', '+b', '-c'] }] });
+  });
+});
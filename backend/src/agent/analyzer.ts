@@ -1,6 +1,13 @@
 import logger from '../utils/logger';
 import { LogEntry } from '../utils/types';
 import { mockLogs } from '../data/mock-scenarios';
+import { projects } from '../db/schema';
+import logSourceManager from '../services/log-sources';
+import { Anomaly, describeAnomaly } from '../services/anomaly-detector';
+import { DrainParser, LogCluster, templateOf } from '../services/log-template-parser';
+import { NewTemplatesReport } from '../services/log-template-miner';
+
+type ProjectRecord = typeof projects.$inferSelect;
 
 /**
  * Log Analyzer
@@ -10,30 +17,52 @@ import { mockLogs } from '../data/mock-scenarios';
  */
 export class LogAnalyzer {
   /**
-   * Fetch logs from affected services
+   * Fetch logs of the incident's project (stored runtime logs plus its configured log sources)
+   *
+   * @param services - Affected services (for logging)
+   * @param timeRange - How far before the incident start to look back (ms)
+   * @param options - Project of the incident (demo logs without one), incident start and abort signal
    */
-  async fetchLogs(services: string[], _timeRange: number = 3600000): Promise<LogEntry[]> {
+  async fetchLogs(
+    services: string[],
+    timeRange: number = 3600000,
+    options?: { project?: ProjectRecord | null; startedAt?: Date; signal?: AbortSignal }
+  ): Promise<LogEntry[]> {
     logger.info(`Fetching logs for services: ${services.join(', ')}`);
-    
-    // In production, this would query:
-    // - Elasticsearch
-    // - CloudWatch
-    // - Datadog
-    // - Splunk
-    // etc.
-    
-    return mockLogs;
+
+    if (!options?.project) {
+      // Manually triggered demo incidents have no project to read logs from
+      logger.info('No project for this incident, using demo logs');
+      return mockLogs;
+    }
+
+    const startedAt = options.startedAt ? new Date(options.startedAt) : new Date();
+    const { logs } = await logSourceManager.fetchProjectLogs(options.project, {
+      since: new Date(startedAt.getTime() - timeRange),
+      until: new Date(),
+      signal: options.signal,
+    });
+
+    return logs;
   }
 
   /**
    * Analyze logs using pattern detection
+   *
+   * @param evidence - Baseline deviation that triggered the incident (from the anomaly detector) and
+   *                   log templates new since the last deployment, if any
    */
-  async analyzeLogs(logs: LogEntry[]): Promise<any> {
+  async analyzeLogs(
+    logs: LogEntry[],
+    evidence?: { anomaly?: Anomaly; newTemplates?: NewTemplatesReport }
+  ): Promise<any> {
+    const anomaly = evidence?.anomaly;
+    const newTemplates = evidence?.newTemplates?.templates || [];
     logger.info('Analyzing logs with pattern detection...');
     
     // Perform comprehensive log analysis
     const errorCount = logs.filter(l => l.level === 'error').length;
-    const errorRate = (errorCount / logs.length) * 100;
+    const errorRate = logs.length > 0 ? (errorCount / logs.length) * 100 : 0;
     const mostCommonErrors = this.getMostCommonErrors(logs);
     const affectedServices = [...new Set(logs.map(l => l.service))];
 
@@ -44,7 +73,19 @@ export class LogAnalyzer {
       most_common_errors: mostCommonErrors,
       affected_services: affectedServices,
       analysis: `Detected ${errorCount} errors across ${affectedServices.length} services. Error rate: ${errorRate.toFixed(1)}%.`,
-      anomalies: this.detectAnomalies(logs),
+      anomalies: [
+        ...(anomaly ? [{ type: 'baseline_deviation', description: describeAnomaly(anomaly) }] : []),
+        ...this.detectAnomalies(logs),
+      ],
+      new_templates: newTemplates.map(template => ({
+        template: template.template,
+        occurrences: template.occurrences,
+        levels: template.levels,
+        first_seen: template.firstSeen,
+        sample: template.sample,
+      })),
+      new_templates_since: evidence?.newTemplates?.since || null,
+      deployment_id: evidence?.newTemplates?.deploymentId || null,
     };
     
     logger.info('Log analysis complete:', analysis);
@@ -52,20 +93,24 @@ export class LogAnalyzer {
   }
 
   /**
-   * Identify error patterns
+   * Identify error patterns (messages clustered into templates, so IDs and numbers don't split them)
    */
-  private getMostCommonErrors(logs: LogEntry[]): Array<{ message: string; count: number }> {
-    const errorCounts = new Map<string, number>();
+  private getMostCommonErrors(logs: LogEntry[]): Array<{ message: string; count: number; example: string }> {
+    const parser = new DrainParser();
+    const errorCounts = new Map<LogCluster, { count: number; example: string }>();
     
     logs
       .filter(l => l.level === 'error')
       .forEach(log => {
-        const count = errorCounts.get(log.message) || 0;
-        errorCounts.set(log.message, count + 1);
+        const result = parser.add(log.message);
+        if (!result) return;
+        const entry = errorCounts.get(result.cluster) || { count: 0, example: log.message };
+        entry.count++;
+        errorCounts.set(result.cluster, entry);
       });
 
     return Array.from(errorCounts.entries())
-      .map(([message, count]) => ({ message, count }))
+      .map(([cluster, { count, example }]) => ({ message: templateOf(cluster), count, example }))
       .sort((a, b) => b.count - a.count)
       .slice(0, 5);
   }
@@ -77,7 +122,7 @@ export class LogAnalyzer {
     const anomalies: Array<{ type: string; description: string }> = [];
 
     // Check for error spikes
-    const errorRate = (logs.filter(l => l.level === 'error').length / logs.length) * 100;
+    const errorRate = logs.length > 0 ? (logs.filter(l => l.level === 'error').length / logs.length) * 100 : 0;
     if (errorRate > 50) {
       anomalies.push({
         type: 'error_spike',
@@ -115,6 +160,16 @@ export class LogAnalyzer {
       insights.push(analysis.analysis);
     }
 
+    if (analysis.new_templates?.length > 0) {
+      const top = analysis.new_templates.slice(0, 3).map((t: { template: string }) => `"${t.template}"`).join(', ');
+      insights.push(`${analysis.new_templates.length} log template(s) new since the last deployment: ${top}`);
+    }
+
+    const baselineDeviation = analysis.anomalies?.find((a: { type: string }) => a.type === 'baseline_deviation');
+    if (baselineDeviation) {
+      insights.push(`Deviation from baseline: ${baselineDeviation.description}`);
+    }
+
     return insights;
   }
 }
@@ -1,6 +1,7 @@
 import { Incident } from '../utils/types';
 import { mockIncident } from '../data/mock-scenarios';
 import logger from '../utils/logger';
+import { Anomaly, describeAnomaly } from '../services/anomaly-detector';
 
 /**
  * Incident Detector
@@ -10,33 +11,37 @@ import logger from '../utils/logger';
  * For demo, we trigger manually.
  */
 export class IncidentDetector {
-  private metadata: Record<string, any> | null = null;
-
-  /**
-   * Set metadata from runtime error or webhook
-   */
-  setMetadata(metadata: Record<string, any>): void {
-    this.metadata = metadata;
-  }
-
   /**
    * Detect incident from runtime errors or manually triggered
+   *
+   * @param metadata - Metadata from runtime error or webhook (per incident run)
    */
-  async detectIncident(): Promise<Incident> {
-    logger.info('Incident detected!', this.metadata || {});
+  async detectIncident(metadata?: Record<string, any>): Promise<Incident> {
+    logger.info('Incident detected!', metadata || {});
     
     // If metadata is provided (from runtime monitor or webhook), use it
-    if (this.metadata) {
-      const { source, projectName, errorMessage, errorCount } = this.metadata;
+    if (metadata) {
+      const { source, projectName, errorMessage, errorCount, issueId, issueOccurrences, issueFirstSeen, alertRule, anomaly } = metadata;
+      const issueHistory = issueId && issueOccurrences
+        ? ` This issue has occurred ${issueOccurrences} time(s) since ${new Date(issueFirstSeen).toISOString()}.`
+        : '';
+      const ruleMatch = alertRule
+        ? ` Alert rule "${alertRule.name}" matched: ${alertRule.value}${alertRule.metric === 'rate' ? '%' : ''} in the last ${alertRule.windowSeconds}s (threshold ${alertRule.threshold}${alertRule.metric === 'rate' ? '%' : ''}).`
+        : '';
       
       // Create incident from runtime error
       const incident: Incident = {
         id: `inc-${Date.now()}`,
         title: errorMessage || 'Runtime Error Detected',
         description: source === 'runtime_monitor' 
-          ? `Detected ${errorCount} runtime errors in project ${projectName}. Errors are occurring in production.`
+          ? `Detected ${errorCount} runtime errors in project ${projectName}. Errors are occurring in production.${ruleMatch}${issueHistory}`
+          : source === 'anomaly_detector'
+          ? `Anomaly detected in project ${projectName}: ${describeAnomaly(anomaly)}. ${errorCount} runtime error(s) in the window.${issueHistory}`
           : errorMessage || 'An error occurred in production',
-        severity: this.classifySeverity(errorCount || 1, 1),
+        severity: this.classifySeverity(
+          anomaly ? this.anomalySeverityRate(anomaly) : alertRule?.metric === 'rate' ? alertRule.value : errorCount || 1,
+          1
+        ),
         status: 'detecting',
         affectedServices: [projectName || 'unknown'],
         startedAt: new Date(),
@@ -66,6 +71,19 @@ export class IncidentDetector {
     return 'low';
   }
 
+  /**
+   * Map an anomaly to an error-rate-like percentage for severity classification
+   */
+  private anomalySeverityRate(anomaly: Anomaly): number {
+    if (anomaly.metric !== 'request_volume') {
+      return anomaly.value * 100;
+    }
+    // Lost traffic counts fully (100% lost = outage), extra traffic is less severe
+    return anomaly.direction === 'drop'
+      ? (1 - anomaly.value / Math.max(anomaly.expected, 1)) * 100
+      : Math.min(100, (anomaly.value / Math.max(anomaly.expected, 1) - 1) * 25);
+  }
+
   /**
    * Get affected services
    */
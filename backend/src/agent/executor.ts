@@ -1,45 +1,71 @@
 import IntegrationManager from '../services/integration-manager';
+import sourceControlManager, { PullRequestInfo, SourceControlProvider, SourceControlTarget } from '../integrations/vcs';
+import VercelIntegration from '../integrations/vercel';
 import logger from '../utils/logger';
-import { Solution } from '../utils/types';
+import { CancelledError, isCancelledError, sleep, throwIfCancelled } from '../utils/cancellation';
+import { RegressionTest, RegressionTestRun, Solution } from '../utils/types';
+import { createUnifiedDiff, reverseUnifiedDiff } from '../utils/unified-diff';
+import patchApplier from '../services/patch-applier';
+import typeChecker from '../services/type-checker';
+import { formatDiagnostic } from '../utils/test-output';
+
+const MAX_PR_DIFF = 50000; // Characters of the diff in a PR description (GitHub allows 65536 in all)
+
+/**
+ * Files a solution changes, as committed to the hotfix branch
+ */
+interface PreparedPatch {
+  diff: string; // Against the branch the patch was applied to
+  paths: string[];
+  changes: Array<{ path: string; content: string | null }>; // null deletes the file
+  regressionTest?: RegressionTest; // Verified, committed with the fix
+}
 
 /**
  * Solution Executor
  * 
  * Executes approved solutions:
- * - Creates REAL GitHub PRs
- * - Updates files in GitHub
+ * - Creates REAL PRs (GitHub, or a local git repository)
+ * - Commits the patch's files to the project's repository in one commit,
+ *   with the patch's verified regression test
  * - Triggers REAL Vercel deployments
- * - Monitors results
+ * - Rolls back fixes that didn't work (revert PR, or redeploy)
+ *
+ * Execution can be cancelled with an AbortSignal. A cancelled execution
+ * closes the PR / deletes the hotfix branch it created (or cancels the
+ * deployment it triggered) and rejects with a CancelledError. Merging is the
+ * point of no return and is never aborted halfway.
  */
 export class SolutionExecutor {
-  private userId: string = 'demo-user';
-
-  setUserId(userId: string) {
-    this.userId = userId;
-  }
   /**
-   * Execute a solution
+   * Execute a solution on behalf of a user
    */
-  async execute(solution: Solution): Promise<{
+  async execute(solution: Solution, userId: string = 'demo-user', signal?: AbortSignal): Promise<{
     success: boolean;
     message: string;
     url?: string;
     error?: string;
+    merged?: boolean;
+    prNumber?: number;
+    commitSha?: string;
+    mergeCommitSha?: string;
+    deploymentId?: string;
   }> {
     logger.info(`Executing solution: ${solution.id} (${solution.type})`);
+    throwIfCancelled(signal);
 
     switch (solution.type) {
       case 'patch':
-        return this.applyPatch(solution);
+        return this.applyPatch(solution, userId, signal);
       
       case 'rollback':
-        return this.performRollback(solution);
+        return this.performRollback(solution, userId, signal);
       
       case 'config_fix':
-        return this.applyConfigFix(solution);
+        return this.applyConfigFix(solution, userId, signal);
       
       case 'restart':
-        return this.performRestart(solution);
+        return this.performRestart(solution, userId, signal);
       
       default:
         return {
@@ -50,42 +76,39 @@ export class SolutionExecutor {
   }
 
   /**
-   * Apply code patch via REAL GitHub API
+   * Apply code patch via the project's source control
    */
-  private async applyPatch(solution: Solution): Promise<{
+  private async applyPatch(solution: Solution, userId: string, signal?: AbortSignal): Promise<{
     success: boolean;
     message: string;
     url?: string;
     error?: string;
     merged?: boolean;
     prNumber?: number;
+    commitSha?: string;
     mergeCommitSha?: string;
   }> {
-    logger.info('Applying REAL patch via GitHub...');
+    logger.info('Applying REAL patch...');
 
     // Check if solution was tested and passed
     if (solution.testResults && !solution.testResults.success) {
       logger.warn('Solution failed testing - blocking execution');
       return {
         success: false,
-        message: 'Solution failed testing in E2B sandbox',
+        message: 'Solution failed testing in the sandbox',
         error: solution.testResults.errors?.join(', ') || 'Test validation failed',
       };
     }
 
-    try {
-      // Get user's GitHub integration
-      const integrationManager = new IntegrationManager(this.userId);
-      const github = await integrationManager.getGitHubIntegration();
-
-      if (!github) {
-        throw new Error('No GitHub integration configured. Please connect your GitHub account at /integrations');
-      }
+    // Everything created so far, so a cancelled execution can be undone
+    let vcs: SourceControlProvider | null = null;
+    let branchName: string | undefined;
+    let prNumber: number | undefined;
 
+    try {
       // Get project info for repo details
       const projectId = solution.metadata?.projectId;
-      let githubOwner: string | undefined;
-      let githubRepo: string | undefined;
+      let project: SourceControlTarget | undefined;
 
       if (projectId) {
         try {
@@ -93,23 +116,29 @@ export class SolutionExecutor {
           const { projects } = await import('../db/schema');
           const { eq } = await import('drizzle-orm');
 
-          const [project] = await db
+          [project] = await db
             .select()
             .from(projects)
             .where(eq(projects.id, projectId))
             .limit(1);
-
-          if (project) {
-            githubOwner = project.githubOwner;
-            githubRepo = project.githubRepo;
-          }
         } catch (error) {
-          logger.warn('Could not fetch project info for GitHub operations:', error);
+          logger.warn('Could not fetch project info for source control operations:', error);
         }
       }
 
+      // Get the project's repository (the user's GitHub integration by default)
+      vcs = await sourceControlManager.forProject(project || {}, userId);
+
+      if (!vcs) {
+        throw new Error('No GitHub integration configured. Please connect your GitHub account at /integrations');
+      }
+      const api = vcs.withSignal(signal);
+
+      // 1. Apply the patch to the default branch; conflicts and type errors stop here, before anything is created
+      const patch = await this.preparePatch(solution, api, vcs.defaultBranch, signal);
+
       // Create branch name
-      const branchName = `hotfix/incident-${Date.now()}`;
+      const hotfixBranch = `hotfix/incident-${Date.now()}`;
       const prTitle = `🔥 Hotfix: ${solution.description}`;
       const prBody = `## Automated Incident Response
 
@@ -122,77 +151,37 @@ ${solution.steps.map((step, i) => `${i + 1}. ${step}`).join('\n')}
 **Risk Level:** ${solution.risk}
 **Confidence:** ${solution.confidence}%
 
-**Code Changes:**
-\`\`\`typescript
-${solution.code}
-\`\`\`
+${this.describePatch(patch)}
 
 ---
 *This PR was automatically generated by OutageX*`;
 
-      // 1. Create branch
-      logger.info(`Creating branch: ${branchName}`);
-      await github.createBranch(branchName, 'main', githubOwner, githubRepo);
-
-      // 2. Determine file path from solution metadata
-      let filePath = solution.metadata?.filePath;
-      
-      logger.info(`🔍 Determining file path for commit:`, {
-        fromSolutionMetadata: solution.metadata?.filePath,
-        hasFilePath: !!filePath,
-        solutionMetadata: solution.metadata,
-      });
-      
-      if (!filePath) {
-        logger.error(`❌ NO FILE PATH in solution metadata! Cannot commit without knowing which file to update.`);
-        logger.error(`Solution metadata:`, JSON.stringify(solution.metadata, null, 2));
-        throw new Error('File path not found in solution metadata. Cannot commit fix without knowing target file.');
-      }
-      
-      logger.info(`✅ Using file path from solution: ${filePath}`);
-      
-      // 3. Validate that solution.code is actual code, not text description
-      const codeToCommit = solution.code || '';
-      const isTextDescription = 
-        codeToCommit.toLowerCase().includes('optimized code will be provided') ||
-        codeToCommit.toLowerCase().includes('code will be provided') ||
-        codeToCommit.toLowerCase().includes('after refactoring') ||
-        codeToCommit.toLowerCase().includes('focusing on') ||
-        (codeToCommit.length < 50 && !codeToCommit.includes('function') && !codeToCommit.includes('const'));
-
-      if (isTextDescription) {
-        logger.error('❌ BLOCKED: Solution code is text description, not actual code!');
-        logger.error(`Code content: ${codeToCommit.substring(0, 200)}...`);
-        throw new Error('Solution code is a text description, not actual code. Cannot commit. Please regenerate solution with real code.');
-      }
+      // 2. Create branch
+      throwIfCancelled(signal);
+      logger.info(`Creating branch: ${hotfixBranch}`);
+      branchName = hotfixBranch;
+      await api.createBranch(hotfixBranch, vcs.defaultBranch);
 
-      // 4. Create/update file with fix
-      logger.info(`Committing REAL code fix to ${filePath} (${codeToCommit.length} chars)`);
-      await github.createOrUpdateFile(
-        filePath,
-        codeToCommit,
-        `Fix: ${solution.description}`,
-        branchName,
-        githubOwner,
-        githubRepo
-      );
+      // 3. Commit every changed file as one commit
+      logger.info(`Committing REAL code fix to ${patch.paths.join(', ')}`);
+      const commit = await api.commitFiles(patch.changes, `Fix: ${solution.description}`, hotfixBranch);
 
-      // Wait a moment for GitHub to process the commit
-      logger.info('Waiting for GitHub to process commit...');
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      // Wait a moment for the provider to process the commit
+      logger.info('Waiting for the commit to be processed...');
+      await sleep(2000, signal);
 
       // 4. Create REAL pull request
       logger.info(`Creating pull request...`);
-      const pr = await github.createPullRequest(
-        prTitle,
-        branchName,  // head: branch to merge FROM
-        'main',      // base: branch to merge INTO
-        prBody,      // body: PR description
-        githubOwner,
-        githubRepo
-      );
+      const pr = await api.createPullRequest({
+        title: prTitle,
+        head: hotfixBranch,  // branch to merge FROM
+        base: vcs.defaultBranch,  // branch to merge INTO
+        body: prBody,
+      });
+      prNumber = pr.number;
 
-      logger.info(`✅ REAL PR created: ${pr.html_url}`);
+      logger.info(`✅ REAL PR created: ${pr.url}`);
+      throwIfCancelled(signal);
 
       // 5. Check if autoFix is enabled and merge automatically
       if (projectId) {
@@ -211,43 +200,47 @@ ${solution.code}
             logger.info(`🤖 AutoFix enabled! Merging PR #${pr.number} automatically...`);
             
             // Wait a moment for PR to be ready
-            await new Promise(resolve => setTimeout(resolve, 2000));
-
-            // Merge the PR
-            const mergeResult = await github.mergePullRequest(
-              pr.number,
-              githubOwner,
-              githubRepo,
-              {
-                mergeMethod: 'merge',
-                commitTitle: prTitle,
-                commitMessage: `Automated fix by OutageX\n\n${prBody}`,
-              }
-            );
+            await sleep(2000, signal);
+
+            // Merge the PR (not abortable - a merge request is never left half-done)
+            const mergeResult = await vcs.mergePullRequest(pr.number, {
+              title: prTitle,
+              message: `Automated fix by OutageX\n\n${prBody}`,
+            });
 
             logger.info(`✅ PR #${pr.number} merged successfully!`);
             
             return {
               success: true,
               message: `Pull request created and merged automatically (PR #${pr.number})`,
-              url: pr.html_url,
+              url: pr.url,
               merged: true,
+              commitSha: commit.sha,
               mergeCommitSha: mergeResult.sha,
               prNumber: pr.number,
             };
           }
         } catch (error: any) {
+          if (isCancelledError(error, signal)) throw error;
           logger.warn('Could not auto-merge PR (continuing anyway):', error.message);
         }
       }
       
       return {
         success: true,
-        message: 'Pull request created successfully on GitHub',
-        url: pr.html_url, // REAL GitHub URL!
+        message: `Pull request created successfully on ${vcs.repository}`,
+        url: pr.url,
         merged: false,
+        prNumber: pr.number,
+        commitSha: commit.sha,
       };
     } catch (error: any) {
+      if (isCancelledError(error, signal)) {
+        if (vcs && branchName) {
+          await this.discardHotfix(vcs, branchName, prNumber);
+        }
+        throw new CancelledError('Patch execution cancelled');
+      }
       logger.error('Error applying patch:', error);
       return {
         success: false,
@@ -260,18 +253,22 @@ ${solution.code}
   /**
    * Perform REAL rollback via Vercel
    */
-  private async performRollback(solution: Solution): Promise<{
+  private async performRollback(solution: Solution, userId: string, signal?: AbortSignal): Promise<{
     success: boolean;
     message: string;
     url?: string;
     error?: string;
+    deploymentId?: string;
   }> {
     logger.info('Performing REAL rollback via Vercel...');
 
+    let vercel: VercelIntegration | null = null;
+    let deploymentId: string | undefined;
+
     try {
       // Get user's Vercel integration
-      const integrationManager = new IntegrationManager(this.userId);
-      const vercel = await integrationManager.getVercelIntegration();
+      const integrationManager = new IntegrationManager(userId);
+      vercel = await integrationManager.getVercelIntegration();
 
       if (!vercel) {
         throw new Error('No Vercel integration configured. Please connect your Vercel account at /integrations');
@@ -285,39 +282,52 @@ ${solution.code}
       }
 
       // Get current and previous deployments
-      const deployments = await vercel.getDeployments(projectName, 10);
+      const deployments = await vercel.getDeployments(projectName, 10, signal);
       
       if (deployments.length < 2) {
         throw new Error('Not enough deployments to rollback');
       }
 
-      // Get previous successful deployment
-      const previousDeployment = deployments.find((d: any) => 
-        d.readyState === 'READY' && d.id !== deployments[0].id
-      );
+      // Roll back to the requested deployment (e.g. the last healthy one),
+      // otherwise to the previous successful deployment
+      const rollbackTarget: string | undefined = solution.metadata?.rollbackTarget;
+      const previousDeployment = rollbackTarget
+        ? deployments.find((d: any) => (d.uid || d.id) === rollbackTarget && d.readyState === 'READY')
+        : deployments.find((d: any) => d.readyState === 'READY' && d.id !== deployments[0].id);
 
       if (!previousDeployment) {
-        throw new Error('No previous successful deployment found');
+        throw new Error(rollbackTarget
+          ? `Deployment ${rollbackTarget} is not among the recent successful deployments`
+          : 'No previous successful deployment found');
       }
 
       logger.info(`Rolling back to deployment: ${previousDeployment.id}`);
       
       // Trigger redeploy of previous version
-      const result = await vercel.redeploy(previousDeployment.id);
+      throwIfCancelled(signal);
+      const result = await vercel.redeploy(previousDeployment.id, signal);
+      deploymentId = result.id;
       
       // Wait for redeployment to complete
-      const status = await vercel.waitForDeployment(result.id, 120000); // 2 min timeout
+      const status = await vercel.waitForDeployment(result.id, 120000, signal); // 2 min timeout
 
       if (status.ready) {
         return {
           success: true,
           message: 'Rollback completed successfully',
           url: status.url,
+          deploymentId: result.id,
         };
       } else {
         throw new Error(`Rollback failed with state: ${status.state}`);
       }
     } catch (error: any) {
+      if (isCancelledError(error, signal)) {
+        if (vercel && deploymentId) {
+          await this.discardDeployment(vercel, deploymentId);
+        }
+        throw new CancelledError('Rollback cancelled');
+      }
       logger.error('Error performing rollback:', error);
       return {
         success: false,
@@ -330,16 +340,24 @@ ${solution.code}
   /**
    * Apply REAL configuration fix (redeploy with changes)
    */
-  private async applyConfigFix(solution: Solution): Promise<{
+  private async applyConfigFix(solution: Solution, userId: string, signal?: AbortSignal): Promise<{
     success: boolean;
     message: string;
     url?: string;
     error?: string;
+    merged?: boolean;
+    prNumber?: number;
+    commitSha?: string;
+    mergeCommitSha?: string;
   }> {
     logger.info('Applying REAL configuration fix...');
 
+    let vcs: SourceControlProvider | null = null;
+    let branchName: string | undefined;
+    let prNumber: number | undefined;
+
     try {
-      const integrationManager = new IntegrationManager(this.userId);
+      const integrationManager = new IntegrationManager(userId);
       const vercel = await integrationManager.getVercelIntegration();
 
       if (!vercel) {
@@ -352,17 +370,17 @@ ${solution.code}
         throw new Error('Project name not specified');
       }
 
-      // For config fixes, we should commit changes to GitHub and let Vercel auto-deploy
+      // For config fixes, we should commit changes to the repository and let Vercel auto-deploy
       // Redeploy endpoint often returns 404 for old deployments
-      logger.info(`Config fix detected - committing to GitHub for automatic Vercel deployment...`);
+      logger.info(`Config fix detected - committing to the repository for automatic Vercel deployment...`);
       
-      // Get project info for GitHub commit
+      // Get project info for the commit
       const projectId = solution.metadata?.projectId;
       if (!projectId) {
         throw new Error('Project ID not found in solution metadata');
       }
 
-      // Get project from database to get GitHub info
+      // Get project from database to get its repository
       const { db } = await import('../db');
       const { projects } = await import('../db/schema');
       const { eq } = await import('drizzle-orm');
@@ -373,42 +391,34 @@ ${solution.code}
         .where(eq(projects.id, projectId))
         .limit(1);
 
-      if (!project || !project.githubOwner || !project.githubRepo) {
+      if (!project || (!project.sourceControl && (!project.githubOwner || !project.githubRepo))) {
         throw new Error('GitHub repository not linked to project. Cannot commit config fix.');
       }
 
-      // Get GitHub integration (reuse existing integrationManager instance)
-      const github = await integrationManager.getGitHubIntegration();
+      vcs = await sourceControlManager.forProject(project, userId);
 
-      if (!github) {
+      if (!vcs) {
         throw new Error('GitHub integration not available');
       }
+      const api = vcs.withSignal(signal);
 
-      // Get file path from solution
-      const filePath = solution.metadata?.filePath;
-      if (!filePath) {
-        throw new Error('File path not found in solution metadata');
-      }
+      // Apply the patch to the default branch; conflicts and type errors stop here, before anything is created
+      const patch = await this.preparePatch(solution, api, vcs.defaultBranch, signal);
 
       // Create branch and commit
-      const branchName = `hotfix/config-${Date.now()}`;
-      logger.info(`Creating branch: ${branchName}`);
-      await github.createBranch(branchName, 'main', project.githubOwner, project.githubRepo);
+      const hotfixBranch = `hotfix/config-${Date.now()}`;
+      throwIfCancelled(signal);
+      logger.info(`Creating branch: ${hotfixBranch}`);
+      branchName = hotfixBranch;
+      await api.createBranch(hotfixBranch, vcs.defaultBranch);
 
       // Commit the config fix
-      logger.info(`Committing config fix to ${filePath}`);
-      await github.createOrUpdateFile(
-        filePath,
-        solution.code || '',
-        `fix: ${solution.description}`,
-        branchName,
-        project.githubOwner,
-        project.githubRepo
-      );
+      logger.info(`Committing config fix to ${patch.paths.join(', ')}`);
+      const commit = await api.commitFiles(patch.changes, `fix: ${solution.description}`, hotfixBranch);
 
-      // Wait a moment for GitHub to process the commit
-      logger.info('Waiting for GitHub to process commit...');
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      // Wait a moment for the provider to process the commit
+      logger.info('Waiting for the commit to be processed...');
+      await sleep(2000, signal);
 
       // Create PR
       const prTitle = `🔧 Config Fix: ${solution.description}`;
@@ -423,39 +433,54 @@ ${solution.steps.map((step, i) => `${i + 1}. ${step}`).join('\n')}
 **Risk Level:** ${solution.risk}
 **Confidence:** ${solution.confidence}%
 
+${this.describePatch(patch)}
+
 ---
 *This PR was automatically generated by OutageX*`;
 
-      const pr = await github.createPullRequest(
-        prTitle,
-        branchName,  // head: branch to merge FROM
-        'main',      // base: branch to merge INTO
-        prBody,      // body: PR description
-        project.githubOwner,
-        project.githubRepo
-      );
+      const pr = await api.createPullRequest({
+        title: prTitle,
+        head: hotfixBranch,  // branch to merge FROM
+        base: vcs.defaultBranch,  // branch to merge INTO
+        body: prBody,
+      });
+      prNumber = pr.number;
 
-      logger.info(`✅ Config fix PR created: ${pr.html_url}`);
+      logger.info(`✅ Config fix PR created: ${pr.url}`);
+      throwIfCancelled(signal);
 
       // If autoFix is enabled, merge the PR
       if (project.autoFix && solution.confidence >= (project.autoFixThreshold || 90)) {
         logger.info(`🤖 AutoFix enabled! Merging PR #${pr.number} automatically...`);
-        await github.mergePullRequest(pr.number, project.githubOwner, project.githubRepo);
+        const mergeResult = await vcs.mergePullRequest(pr.number);
         logger.info(`✅ PR #${pr.number} merged successfully!`);
         
         return {
           success: true,
           message: `Configuration fix committed and PR merged. Vercel will auto-deploy.`,
-          url: pr.html_url,
+          url: pr.url,
+          merged: true,
+          prNumber: pr.number,
+          commitSha: commit.sha,
+          mergeCommitSha: mergeResult.sha,
         };
       }
 
       return {
         success: true,
-        message: `Configuration fix committed to GitHub. Please review and merge PR to trigger Vercel deployment.`,
-        url: pr.html_url,
+        message: `Configuration fix committed to ${vcs.repository}. Please review and merge PR to trigger Vercel deployment.`,
+        url: pr.url,
+        merged: false,
+        prNumber: pr.number,
+        commitSha: commit.sha,
       };
     } catch (error: any) {
+      if (isCancelledError(error, signal)) {
+        if (vcs && branchName) {
+          await this.discardHotfix(vcs, branchName, prNumber);
+        }
+        throw new CancelledError('Configuration fix cancelled');
+      }
       logger.error('Error applying config fix:', error);
       return {
         success: false,
@@ -468,17 +493,21 @@ ${solution.steps.map((step, i) => `${i + 1}. ${step}`).join('\n')}
   /**
    * Perform REAL service restart (trigger redeployment)
    */
-  private async performRestart(solution: Solution): Promise<{
+  private async performRestart(solution: Solution, userId: string, signal?: AbortSignal): Promise<{
     success: boolean;
     message: string;
     url?: string;
     error?: string;
+    deploymentId?: string;
   }> {
     logger.info('Performing REAL service restart...');
 
+    let vercel: VercelIntegration | null = null;
+    let deploymentId: string | undefined;
+
     try {
-      const integrationManager = new IntegrationManager(this.userId);
-      const vercel = await integrationManager.getVercelIntegration();
+      const integrationManager = new IntegrationManager(userId);
+      vercel = await integrationManager.getVercelIntegration();
 
       if (!vercel) {
         throw new Error('No Vercel integration configured');
@@ -491,29 +520,38 @@ ${solution.steps.map((step, i) => `${i + 1}. ${step}`).join('\n')}
       }
 
       // Get latest deployment
-      const deployments = await vercel.getDeployments(projectName, 1);
+      const deployments = await vercel.getDeployments(projectName, 1, signal);
       
       if (!deployments.length) {
         throw new Error('No deployments found');
       }
 
       // Trigger redeploy (restart)
+      throwIfCancelled(signal);
       logger.info(`Restarting ${projectName}...`);
-      const result = await vercel.redeploy(deployments[0].id);
+      const result = await vercel.redeploy(deployments[0].id, signal);
+      deploymentId = result.id;
       
       // Wait for completion
-      const status = await vercel.waitForDeployment(result.id, 120000);
+      const status = await vercel.waitForDeployment(result.id, 120000, signal);
 
       if (status.ready) {
         return {
           success: true,
           message: 'Service restart completed successfully',
           url: status.url,
+          deploymentId: result.id,
         };
       } else {
         throw new Error(`Restart failed with state: ${status.state}`);
       }
     } catch (error: any) {
+      if (isCancelledError(error, signal)) {
+        if (vercel && deploymentId) {
+          await this.discardDeployment(vercel, deploymentId);
+        }
+        throw new CancelledError('Service restart cancelled');
+      }
       logger.error('Error performing restart:', error);
       return {
         success: false,
@@ -524,46 +562,289 @@ ${solution.steps.map((step, i) => `${i + 1}. ${step}`).join('\n')}
   }
 
   /**
-   * Monitor solution effectiveness
+   * Changes of a solution applied to a branch, ready to commit; rejects when
+   * the patch doesn't apply or adds type errors
    */
-  async monitorSolution(solutionId: string): Promise<{
-    errorRate: number;
-    successRate: number;
-    recommendation: string;
-  }> {
-    logger.info(`Monitoring solution: ${solutionId}`);
+  private async preparePatch(solution: Solution, vcs: SourceControlProvider, branch: string, signal?: AbortSignal): Promise<PreparedPatch> {
+    let diff = solution.diff;
+
+    // Solutions from before diffs hold the complete content of one file
+    const filePath = solution.metadata?.filePath;
+    if (!diff && solution.code && filePath) {
+      const current = await vcs.getFileContent(filePath, branch).then(
+        (file) => file.content,
+        (error) => {
+          if (error.status === 404) return '';
+          throw error;
+        }
+      );
+      diff = createUnifiedDiff(filePath, current, solution.code);
+    }
+    if (!diff) {
+      throw new Error('The solution has no changes to commit. Please regenerate the solution.');
+    }
+
+    const { files, validation } = await patchApplier.apply(diff, vcs, branch);
+    if (!validation.applies) {
+      throw new Error(`The patch does not apply to ${branch}: ${patchApplier.describeConflicts(validation).join('; ')}`);
+    }
 
-    // In production, monitor:
-    // - Error rates
-    // - Response times
-    // - Service health
-    // - User impact
+    // The branch may have moved since the solution was tested
+    const typeCheck = await typeChecker.check(files, vcs, branch, signal);
+    const typeErrors = typeCheck?.diagnostics.filter((d) => d.severity === 'error') || [];
+    if (typeErrors.length > 0) {
+      throw new Error(`The patched files do not type-check on ${branch}: ${typeErrors.slice(0, 5).map(formatDiagnostic).join('; ')}`);
+    }
+
+    // A verified regression test is added with the fix, unless the branch has a file at its path by now
+    let regressionTest = solution.regressionTest?.status === 'verified' ? solution.regressionTest : undefined;
+    if (regressionTest && (await this.exists(vcs, regressionTest.path, branch))) {
+      logger.warn(`${regressionTest.path} already exists on ${branch} - committing the fix without its regression test`);
+      regressionTest = undefined;
+    }
 
-    // Simulated positive result
     return {
-      errorRate: 2.1, // Down from 80%+
-      successRate: 97.9,
-      recommendation: 'Solution effective. Error rate reduced significantly.',
+      diff: patchApplier.toDiff(files),
+      paths: [...files.map((file) => file.path), ...(regressionTest ? [regressionTest.path] : [])],
+      // A renamed file is deleted at its old path
+      changes: [
+        ...files.flatMap((file) => [
+          ...(file.oldPath && file.oldPath !== file.path ? [{ path: file.oldPath, content: null }] : []),
+          { path: file.path, content: file.after },
+        ]),
+        ...(regressionTest ? [{ path: regressionTest.path, content: regressionTest.content }] : []),
+      ],
+      regressionTest,
     };
   }
 
+  private async exists(vcs: SourceControlProvider, path: string, ref: string): Promise<boolean> {
+    try {
+      await vcs.getFileContent(path, ref);
+      return true;
+    } catch (error: any) {
+      if (error.status === 404) return false;
+      throw error;
+    }
+  }
+
   /**
-   * Rollback solution if it fails
+   * Diff section of a hotfix PR's description
    */
-  async rollbackSolution(solutionId: string): Promise<{
+  private describePatch(patch: PreparedPatch): string {
+    const diff = patch.diff.length > MAX_PR_DIFF
+      ? `${patch.diff.substring(0, MAX_PR_DIFF)}\n… (truncated, see the files changed)`
+      : patch.diff;
+    const changes = `**Code Changes (${patch.paths.length} file(s)):**\n\`\`\`diff\n${diff.trimEnd()}\n\`\`\``;
+
+    const test = patch.regressionTest;
+    if (!test) return changes;
+    const run = (label: string, result?: RegressionTestRun) =>
+      `${label}: ${result ? `${result.status}${result.tests ? ` (${result.tests.passed} passed, ${result.tests.failed} failed)` : ''}` : 'not run'}`;
+    const language = test.path.match(/\.[cm]?([jt]sx?)$/)?.[1] || '';
+    return `${changes}
+
+**Regression Test** (\`${test.path}\`, ${test.framework}):
+${test.description}
+
+Verified in the ${test.verification?.backend || 'test'} sandbox with \`${test.command}\`: ${run('original code', test.verification?.before)}, ${run('patched code', test.verification?.after)}.
+\`\`\`${language}
+${test.content.trimEnd()}
+\`\`\``;
+  }
+
+  /**
+   * Close the PR and delete the branch of a cancelled execution or a failed revert
+   */
+  private async discardHotfix(
+    vcs: SourceControlProvider,
+    branchName: string,
+    prNumber?: number
+  ): Promise<void> {
+    try {
+      if (prNumber) {
+        await vcs.closePullRequest(prNumber);
+      }
+      await vcs.deleteBranch(branchName);
+      logger.info(`🧹 Cleaned up: ${prNumber ? `PR #${prNumber} closed, ` : ''}branch ${branchName} deleted`);
+    } catch (error) {
+      logger.error(`Failed to clean up branch ${branchName}:`, error);
+    }
+  }
+
+  /**
+   * Cancel the deployment triggered by a cancelled execution
+   */
+  private async discardDeployment(
+    vercel: VercelIntegration,
+    deploymentId: string
+  ): Promise<void> {
+    try {
+      await vercel.cancelDeployment(deploymentId);
+      logger.info(`🧹 Cancelled execution cleaned up: deployment ${deploymentId} cancelled`);
+    } catch (error) {
+      logger.error(`Failed to cancel deployment ${deploymentId}:`, error);
+    }
+  }
+
+  /**
+   * Undo an executed solution that didn't fix production: revert the fix's
+   * commit in a merged revert PR, or else redeploy the latest deployment
+   * that was ready before the incident started
+   */
+  async rollbackSolution(
+    solution: Solution,
+    execution: { merged?: boolean; commitSha?: string; deploymentId?: string },
+    userId: string = 'demo-user',
+    healthyBefore: Date
+  ): Promise<{
     success: boolean;
     message: string;
+    method?: 'revert' | 'redeploy';
+    url?: string;
+    error?: string;
+    prNumber?: number;
+    mergeCommitSha?: string;
+    deploymentId?: string;
   }> {
-    logger.warn(`Rolling back solution: ${solutionId}`);
+    logger.warn(`Rolling back solution: ${solution.id} (${solution.type})`);
+    const errors: string[] = [];
+
+    if (execution.merged && execution.commitSha) {
+      try {
+        return await this.revertCommit(solution, execution.commitSha, userId);
+      } catch (error: any) {
+        logger.error('Error reverting fix commit:', error);
+        errors.push(`Revert failed: ${error.message}`);
+      }
+    }
+
+    try {
+      return await this.redeployHealthy(solution, execution.deploymentId, userId, healthyBefore);
+    } catch (error: any) {
+      logger.error('Error redeploying the last healthy deployment:', error);
+      errors.push(`Redeploy failed: ${error.message}`);
+    }
+
+    return {
+      success: false,
+      message: 'Solution could not be rolled back',
+      error: errors.join('; '),
+    };
+  }
+
+  /**
+   * Revert a fix commit on the default branch through a merged pull request
+   */
+  private async revertCommit(solution: Solution, commitSha: string, userId: string) {
+    const projectId = solution.metadata?.projectId;
+    let project: SourceControlTarget | undefined;
+    if (projectId) {
+      const { db } = await import('../db');
+      const { projects } = await import('../db/schema');
+      const { eq } = await import('drizzle-orm');
 
-    // In production:
-    // - Revert changes
-    // - Restore previous state
-    // - Alert team
+      [project] = await db
+        .select()
+        .from(projects)
+        .where(eq(projects.id, projectId))
+        .limit(1);
+    }
+
+    const vcs = await sourceControlManager.forProject(project || {}, userId);
+    if (!vcs) {
+      throw new Error('No source control integration configured');
+    }
+
+    // The default branch may have moved on since the fix, so the reversed diff is applied like a patch
+    const diff = reverseUnifiedDiff(await vcs.getCommitDiff(commitSha));
+    const { files, validation } = await patchApplier.apply(diff, vcs, vcs.defaultBranch);
+    if (!validation.applies) {
+      throw new Error(`The fix does not revert cleanly on ${vcs.defaultBranch}: ${patchApplier.describeConflicts(validation).join('; ')}`);
+    }
+
+    const revertBranch = `revert/incident-${Date.now()}`;
+    const title = `⏪ Revert: ${solution.description}`;
+    const body = `## Automated Revert
+
+The fix ${commitSha.substring(0, 7)} did not bring production back to its error rate before the incident, so it is reverted.
+
+**Files:** ${files.map((file) => `\`${file.path}\``).join(', ')}
+
+---
+*This PR was automatically generated by OutageX*`;
+
+    logger.info(`Creating branch: ${revertBranch}`);
+    await vcs.createBranch(revertBranch, vcs.defaultBranch);
+
+    // A revert that doesn't merge leaves no branch or PR behind, so the redeploy fallback is the only rollback
+    let prNumber: number | undefined;
+    let pr: PullRequestInfo;
+    let mergeResult: { sha: string };
+    try {
+      await vcs.commitFiles(
+        files.flatMap((file) => [
+          ...(file.oldPath && file.oldPath !== file.path ? [{ path: file.oldPath, content: null }] : []),
+          { path: file.path, content: file.after },
+        ]),
+        `Revert "${solution.description}"\n\nThis reverts commit ${commitSha}.`,
+        revertBranch
+      );
+
+      pr = await vcs.createPullRequest({ title, head: revertBranch, base: vcs.defaultBranch, body });
+      prNumber = pr.number;
+      mergeResult = await vcs.mergePullRequest(pr.number, { title, message: body });
+    } catch (error) {
+      await this.discardHotfix(vcs, revertBranch, prNumber);
+      throw error;
+    }
+    logger.info(`⏪ Fix reverted: PR #${pr.number} merged`);
+
+    return {
+      success: true,
+      message: `Fix reverted (PR #${pr.number} merged)`,
+      method: 'revert' as const,
+      url: pr.url,
+      prNumber: pr.number,
+      mergeCommitSha: mergeResult.sha,
+    };
+  }
+
+  /**
+   * Redeploy the latest deployment that was ready before a point in time
+   */
+  private async redeployHealthy(solution: Solution, fixDeploymentId: string | undefined, userId: string, healthyBefore: Date) {
+    const vercel = await new IntegrationManager(userId).getVercelIntegration();
+    if (!vercel) {
+      throw new Error('No Vercel integration configured');
+    }
+
+    const projectName = solution.metadata?.projectName || process.env.VERCEL_PROJECT_NAME;
+    if (!projectName) {
+      throw new Error('Project name not specified');
+    }
+
+    const deployments = await vercel.getDeployments(projectName, 20);
+    const healthy = deployments.find((d: any) =>
+      d.readyState === 'READY' && d.createdAt < healthyBefore.getTime() && (d.uid || d.id) !== fixDeploymentId
+    );
+    if (!healthy) {
+      throw new Error('No deployment from before the incident found');
+    }
+
+    logger.info(`Redeploying last healthy deployment: ${healthy.uid || healthy.id}`);
+    const result = await vercel.redeploy(healthy.uid || healthy.id);
+    const status = await vercel.waitForDeployment(result.id, 120000);
+    if (!status.ready) {
+      throw new Error(`Redeployment failed with state: ${status.state}`);
+    }
 
     return {
       success: true,
-      message: 'Solution rolled back successfully',
+      message: `Redeployed the last healthy deployment (${healthy.uid || healthy.id})`,
+      method: 'redeploy' as const,
+      url: status.url,
+      deploymentId: result.id,
     };
   }
 }
@@ -0,0 +1,328 @@
+import { randomUUID } from 'crypto';
+import { Server as SocketServer } from 'socket.io';
+import { projects } from '../db/schema';
+import incidentStore from '../services/incident-store';
+import {
+  Incident,
+  TimelineEntry,
+  RootCause,
+  Solution,
+  ChatMessage,
+  AgentPhase,
+  IncidentStatus,
+} from '../utils/types';
+
+export type ProjectRecord = typeof projects.$inferSelect;
+
+/**
+ * Socket.io room for everything belonging to a user
+ */
+export function userRoom(userId: string): string {
+  return `user:${userId}`;
+}
+
+/**
+ * Socket.io room for a single incident
+ */
+export function incidentRoom(incidentId: string): string {
+  return `incident:${incidentId}`;
+}
+
+/**
+ * Incident Run
+ *
+ * Holds the state of one in-flight incident response pipeline (incident,
+ * project, timeline) so several incidents can be processed at the same time.
+ * Every socket event emitted by a run carries its incidentId and is only
+ * delivered to the owning user's room and the incident's room.
+ *
+ * Once the incident has been stored, every timeline change and status change
+ * is checkpointed through the IncidentStore (in order, in the background), so
+ * the run can be rebuilt with IncidentRun.restore() after a backend restart.
+ *
+ * Each run owns an AbortController; its signal is passed to every phase so
+ * cancel() aborts in-flight work (LLM calls, sandboxes, HTTP requests).
+ */
+export class IncidentRun {
+  readonly key: string;
+  readonly userId: string;
+  readonly metadata?: Record<string, any>;
+  readonly startedAt: Date = new Date();
+
+  incident: Incident | null = null;
+  project: ProjectRecord | null = null;
+  timeline: TimelineEntry[] = [];
+
+  private io: SocketServer | null;
+  private sequence: number = 0;
+  private stored: boolean = false;
+  private persistQueue: Promise<void> = Promise.resolve();
+  private abortController: AbortController = new AbortController();
+
+  constructor(io: SocketServer | null, key: string, userId: string, metadata?: Record<string, any>) {
+    this.io = io;
+    this.key = key;
+    this.userId = userId;
+    this.metadata = metadata;
+  }
+
+  /**
+   * Rebuild a run from a persisted incident and its timeline checkpoints
+   */
+  static restore(
+    io: SocketServer | null,
+    key: string,
+    userId: string,
+    incident: Incident,
+    timeline: TimelineEntry[],
+    project: ProjectRecord | null
+  ): IncidentRun {
+    const detectionEntry = timeline.find(t => t.phase === 'detection');
+    const run = new IncidentRun(io, key, userId, detectionEntry?.metadata?.metadata);
+    run.incident = incident;
+    run.project = project;
+    run.timeline = timeline;
+    run.stored = true;
+    return run;
+  }
+
+  /**
+   * Start a new response cycle for a persisted incident (e.g. a regression)
+   */
+  static reopen(
+    io: SocketServer | null,
+    key: string,
+    userId: string,
+    incident: Incident,
+    metadata: Record<string, any>,
+    project: ProjectRecord | null
+  ): IncidentRun {
+    const run = new IncidentRun(io, key, userId, metadata);
+    run.incident = incident;
+    run.project = project;
+    run.stored = true;
+    return run;
+  }
+
+  get incidentId(): string | null {
+    return this.incident?.id || null;
+  }
+
+  /**
+   * Signal aborted when the run is cancelled
+   */
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get isCancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  /**
+   * Cancel the run: aborts everything listening to its signal
+   */
+  cancel(reason: string = 'Stopped by user'): void {
+    if (this.isCancelled) return;
+    this.abortController.abort(reason);
+  }
+
+  /**
+   * Whether the incident has been stored in the database
+   */
+  get isPersisted(): boolean {
+    return this.stored;
+  }
+
+  /**
+   * Set the incident this run is working on. When it has been stored in the
+   * database, the timeline collected so far is checkpointed as well.
+   */
+  attachIncident(incident: Incident, persisted: boolean): void {
+    this.incident = incident;
+    this.stored = persisted;
+    this.timeline.forEach(entry => this.saveTimelineEntry(entry));
+  }
+
+  /**
+   * Whether a phase has already completed (used to resume after a restart)
+   */
+  isPhaseCompleted(phase: AgentPhase): boolean {
+    return this.timeline.some(t => t.phase === phase && t.status === 'completed');
+  }
+
+  /**
+   * Whether a proposed solution awaits approval: the incident is proposing
+   * (without an incident, no execution is running or done)
+   */
+  isAwaitingApproval(): boolean {
+    if (this.incident) return this.incident.status === 'proposing';
+    return !!this.getSolution() && !this.timeline.some(t => t.phase === 'execution' && t.status !== 'failed');
+  }
+
+  /**
+   * Queue a persistence operation for this incident. Operations run in order
+   * and never fail the pipeline; nothing is written for in-memory incidents.
+   */
+  persist(description: string, operation: (incidentId: string) => Promise<void>): void {
+    const incidentId = this.incidentId;
+    if (!this.stored || !incidentId) return;
+
+    this.persistQueue = this.persistQueue.then(() =>
+      incidentStore.safely(description, () => operation(incidentId))
+    );
+  }
+
+  /**
+   * Wait until everything queued so far has been persisted
+   */
+  flush(): Promise<void> {
+    return this.persistQueue;
+  }
+
+  /**
+   * Get the metadata stored on the timeline entry of a phase
+   */
+  getPhaseMetadata(phase: AgentPhase): Record<string, any> | undefined {
+    return this.timeline.find(t => t.phase === phase)?.metadata;
+  }
+
+  /**
+   * Get the solution proposed by this run (if any)
+   */
+  getSolution(): Solution | undefined {
+    return this.getPhaseMetadata('solution_generation')?.solution;
+  }
+
+  /**
+   * Candidate solutions, best ranked first (the proposed solution alone before ranking existed)
+   */
+  getCandidates(): Solution[] {
+    const metadata = this.getPhaseMetadata('solution_generation');
+    return metadata?.candidates || (metadata?.solution ? [metadata.solution] : []);
+  }
+
+  setStatus(status: IncidentStatus): void {
+    if (this.incident) {
+      this.incident.status = status;
+      if (status === 'resolved') {
+        this.incident.resolvedAt = new Date();
+      }
+    }
+    this.persist('incident status', (incidentId) =>
+      incidentStore.updateIncident(incidentId, { status, resolvedAt: this.incident?.resolvedAt })
+    );
+    this.emitStatusChange(status);
+  }
+
+  addTimelineEntry(
+    phase: AgentPhase,
+    title: string,
+    status: TimelineEntry['status'],
+    metadata?: any
+  ): void {
+    const entry: TimelineEntry = {
+      id: randomUUID(),
+      timestamp: new Date(),
+      phase,
+      title,
+      description: '',
+      status,
+      metadata,
+    };
+
+    this.timeline.push(entry);
+    this.saveTimelineEntry(entry);
+    this.emitTimelineAdd(entry);
+  }
+
+  updateTimelineEntry(
+    phase: AgentPhase,
+    status: TimelineEntry['status'],
+    metadata?: any
+  ): void {
+    const entry =
+      this.timeline.find(t => t.phase === phase && t.status === 'in_progress') ||
+      this.timeline.find(t => t.phase === phase);
+    if (entry) {
+      entry.status = status;
+      if (metadata) {
+        entry.metadata = { ...entry.metadata, ...metadata };
+      }
+      this.saveTimelineEntry(entry);
+      this.emitTimelineAdd(entry);
+    }
+  }
+
+  /**
+   * Take an interrupted (in-progress) phase off the timeline so it can be
+   * re-run from scratch. The stored entry is kept as a failed attempt.
+   */
+  discardInterruptedEntries(phase: AgentPhase): void {
+    const interrupted = this.timeline.filter(t => t.phase === phase && t.status === 'in_progress');
+    if (interrupted.length === 0) return;
+
+    this.timeline = this.timeline.filter(t => !interrupted.includes(t));
+    interrupted.forEach(entry => {
+      entry.status = 'failed';
+      entry.metadata = { ...entry.metadata, interrupted: true };
+      this.saveTimelineEntry(entry);
+      this.emitTimelineAdd(entry);
+    });
+  }
+
+  private saveTimelineEntry(entry: TimelineEntry): void {
+    const snapshot = { ...entry };
+    this.persist(`timeline entry "${entry.title}"`, (incidentId) =>
+      incidentStore.saveTimelineEntry(incidentId, snapshot)
+    );
+  }
+
+  // Socket.io emission methods
+  emitIncidentDetected(incident: Incident): void {
+    this.emit('incident:detected', { incident });
+  }
+
+  emitAgentUpdate(phase: AgentPhase, status: string, message: string, data?: any): void {
+    this.emit('agent:update', { phase, status, message, data });
+  }
+
+  emitLogsStream(logs: any[]): void {
+    this.emit('logs:stream', { logs });
+  }
+
+  emitSolutionProposed(solution: Solution, rootCause: RootCause, candidates: Solution[] = [solution]): void {
+    this.emit('solution:proposed', { solution, rootCause, candidates });
+  }
+
+  emitStatusChange(status: string): void {
+    this.emit('status:change', { status, incident: this.incident });
+  }
+
+  emitChatMessage(role: 'user' | 'agent' | 'system', content: string): void {
+    const message: ChatMessage = {
+      id: `msg-${Date.now()}-${this.sequence++}`,
+      role,
+      content,
+      timestamp: new Date(),
+    };
+    this.emit('chat:message', { message });
+  }
+
+  emitTimelineAdd(entry: TimelineEntry): void {
+    this.emit('timeline:add', { entry: { ...entry, incidentId: this.incidentId } });
+  }
+
+  private emit(event: string, payload: Record<string, any>): void {
+    if (!this.io) return;
+
+    const rooms = [userRoom(this.userId)];
+    if (this.incidentId) {
+      rooms.push(incidentRoom(this.incidentId));
+    }
+
+    this.io.to(rooms).emit(event, { ...payload, incidentId: this.incidentId });
+  }
+}
+
+export default IncidentRun;
@@ -4,18 +4,29 @@ import logAnalyzer from './analyzer';
 import incidentResearcher from './researcher';
 import solutionSolver from './solver';
 import solutionExecutor from './executor';
+import IncidentRun, { ProjectRecord } from './incident-run';
+import incidentStore from '../services/incident-store';
+import issueTracker from '../services/issue-tracker';
+import logTemplateMiner from '../services/log-template-miner';
+import incidentKnowledgeBase, { SimilarIncident } from '../services/incident-knowledge-base';
+import knownFixLibrary, { KnownFix } from '../services/known-fix-library';
+import { PatchCheckout } from '../services/patch-tester';
+import solutionRanker, { assessBlastRadius, evaluatePolicy } from '../services/solution-ranker';
+import { extractStackFiles } from '../services/deployment-correlator';
+import { extractBlameTargets } from '../services/blame-ranker';
+import { extractErrorReport } from '../services/regression-test-planner';
+import fixVerifier, { resolveVerificationConfig } from '../services/fix-verifier';
+import sourceControlManager, { SourceControlProvider } from '../integrations/vcs';
 import logger from '../utils/logger';
 import { db } from '../db';
-import { projects, incidents } from '../db/schema';
+import { projects } from '../db/schema';
 import { eq } from 'drizzle-orm';
-import {
-  Incident,
-  TimelineEntry,
-  RootCause,
-  Solution,
-  ChatMessage,
-  AgentPhase,
-} from '../utils/types';
+import { AgentPhase, FixVerification, RootCause, Solution } from '../utils/types';
+import { isCancelledError, sleep, throwIfCancelled } from '../utils/cancellation';
+import { LLMOutputError } from '../llm/structured';
+import { LLMNotConfiguredError } from '../llm';
+import { PromptContext } from '../llm/context-packer';
+import llmCallLog from '../llm/call-log';
 
 /**
  * Agent Orchestrator
@@ -28,14 +39,35 @@ import {
  * 5. Diagnosis
  * 6. Solution Generation
  * 7. Execution
+ * 8. Verification (the incident is resolved only if production recovered)
+ *
+ * Each pipeline runs in its own IncidentRun, so incidents from different
+ * issues, projects and users are processed concurrently. Only one run per
+ * issue (or per project, for incidents without an issue) is in flight at a time.
+ *
+ * When a resolved issue comes back on a newer deployment, its incident is
+ * reopened as a regression and the pipeline runs again on the same incident.
+ *
+ * Every phase is checkpointed to the database before the next one starts, so
+ * unfinished incidents are resumed from their last completed phase on startup.
+ *
+ * Runs are cancelled cooperatively: stopIncidentResponse() aborts the run's
+ * signal, which every phase and service call receives.
  */
 export class AgentOrchestrator {
   private io: SocketServer | null = null;
-  private currentIncident: Incident | null = null;
-  private timeline: TimelineEntry[] = [];
-  private isProcessing: boolean = false;
-  private currentProject: typeof projects.$inferSelect | null = null;
-  private userId: string = 'demo-user';
+  private runs: Map<string, IncidentRun> = new Map(); // run key -> in-flight run
+  private finishedRuns: IncidentRun[] = []; // recently finished runs (awaiting approval, etc.)
+  private readonly MAX_FINISHED_RUNS = 50;
+
+  // Resumable pipeline phases, in order (diagnosis completes together with solution generation)
+  private readonly phases: Array<[AgentPhase, (run: IncidentRun) => Promise<void>]> = [
+    ['detection', (run) => this.phaseDetection(run)],
+    ['log_analysis', (run) => this.phaseLogAnalysis(run)],
+    ['commit_correlation', (run) => this.phaseCommitCorrelation(run)],
+    ['research', (run) => this.phaseResearch(run)],
+    ['solution_generation', (run) => this.phaseDiagnosisAndSolution(run)],
+  ];
 
   /**
    * Initialize with Socket.io server
@@ -45,21 +77,41 @@ export class AgentOrchestrator {
     logger.info('Agent Orchestrator initialized');
   }
 
+  /**
+   * Get all in-flight incident runs (optionally for a single user)
+   */
+  getActiveRuns(userId?: string): IncidentRun[] {
+    return Array.from(this.runs.values()).filter(run => !userId || run.userId === userId);
+  }
+
+  /**
+   * Key of the run handling an incident
+   *
+   * Runs are keyed by issue (error fingerprint group) when known, otherwise by
+   * project, so the same bug cannot have two pipelines in flight while
+   * different bugs and other projects proceed independently
+   */
+  private runKeyFor(userId: string, metadata?: Record<string, any>): string {
+    if (metadata?.issueId) return `issue:${metadata.issueId}`;
+    return metadata?.projectId ? `project:${metadata.projectId}` : `user:${userId}`;
+  }
+
   /**
    * Start incident response pipeline
    */
   async startIncidentResponse(userId: string = 'demo-user', metadata?: Record<string, any>): Promise<void> {
-    this.userId = userId; // Store userId for use in other methods
-    if (this.isProcessing) {
-      logger.warn('Incident response already in progress');
+    const runKey = this.runKeyFor(userId, metadata);
+
+    if (this.runs.has(runKey)) {
+      logger.warn(`Incident response already in progress for ${runKey}`);
       return;
     }
 
-    this.isProcessing = true;
-    this.timeline = [];
+    const run = new IncidentRun(this.io, runKey, userId, metadata);
+    this.runs.set(runKey, run);
     
     // Log ALL metadata details for debugging
-    logger.info(`🚨 Starting incident response for user: ${userId}`);
+    logger.info(`🚨 Starting incident response for user: ${userId} (${runKey}, ${this.runs.size} active)`);
     logger.info(`📋 FULL METADATA RECEIVED:`, JSON.stringify(metadata, null, 2));
     
     if (metadata) {
@@ -86,7 +138,7 @@ export class AgentOrchestrator {
 
     // Store metadata in timeline for later retrieval
     if (metadata) {
-      this.addTimelineEntry('detection', 'Incident detected', 'in_progress', {
+      run.addTimelineEntry('detection', 'Incident detected', 'in_progress', {
         metadata: metadata,
         errors: metadata.errors || [],
         errorMessage: metadata.errorMessage,
@@ -94,275 +146,584 @@ export class AgentOrchestrator {
       });
     }
 
-    // Pass metadata to detector if provided (from runtime monitor or webhook)
-    if (metadata) {
-      incidentDetector.setMetadata(metadata);
+    // Get project info for autoFix check
+    if (metadata?.projectId) {
+      run.project = await this.loadProject(metadata.projectId);
+    } else {
+      logger.warn('No projectId in metadata, cannot check autoFix');
     }
 
-    // Pass userId to executor and researcher for REAL integrations
-    solutionExecutor.setUserId(userId);
-    incidentResearcher.setUserId(userId);
+    await this.runPipeline(run);
+  }
 
-    // Get project info for autoFix check
-    this.currentProject = null;
-    if (metadata?.projectId) {
+  /**
+   * Reopen a resolved incident as a regression and run the pipeline again
+   *
+   * The previous response cycle stays on the incident's timeline; the new
+   * cycle starts with a completed detection entry describing the regression
+   * and the fix that failed.
+   */
+  async reopenIncident(userId: string, incidentId: string, metadata: Record<string, any>): Promise<void> {
+    const runKey = this.runKeyFor(userId, metadata);
+
+    if (this.runs.has(runKey)) {
+      logger.warn(`Incident response already in progress for ${runKey}, not reopening ${incidentId}`);
+      return;
+    }
+
+    const record = await incidentStore.reopenIncident(incidentId);
+    if (!record) {
+      logger.warn(`Incident ${incidentId} not found, cannot reopen`);
+      return;
+    }
+
+    // The previous cycle's run (if still kept for approval) is superseded
+    this.finishedRuns = this.finishedRuns.filter(run => run.incidentId !== incidentId);
+
+    const project = metadata.projectId ? await this.loadProject(metadata.projectId) : null;
+    const run = IncidentRun.reopen(this.io, runKey, userId, incidentStore.toIncident(record), metadata, project);
+    this.runs.set(runKey, run);
+
+    const regression = metadata.regression || {};
+    const fix = regression.fix;
+    logger.info(`🔁 Reopening incident ${incidentId} as regression (${runKey}): ${regression.reason}`);
+
+    run.addTimelineEntry('detection', 'Regression detected', 'completed', {
+      metadata,
+      errors: metadata.errors || [],
+      errorMessage: metadata.errorMessage,
+      source: metadata.source,
+      regression,
+    });
+    run.emitIncidentDetected(run.incident!);
+
+    const fixDescription = [
+      fix?.url && `**Fix:** ${fix.url}`,
+      fix?.commitSha && `**Commit:** ${fix.commitSha.substring(0, 7)}`,
+      fix?.deploymentId && `**Fix Deployment:** ${fix.deploymentId}`,
+    ].filter(Boolean).join('\n') || '**Fix:** resolved manually';
+    run.emitChatMessage(
+      'agent',
+      `🔁 **Regression Detected**\n\n**${record.title}** is back after being resolved (${regression.reason}).\n\n${fixDescription}\n\nReopening the incident...`
+    );
+
+    await this.runPipeline(run);
+  }
+
+  /**
+   * Resume incidents whose pipeline was interrupted (e.g. by a backend restart)
+   *
+   * Each incident is rebuilt from its timeline checkpoints and continues from
+   * its last completed phase. Incidents awaiting approval are made available
+   * for execution again; interrupted executions go back to awaiting approval,
+   * and interrupted verifications start watching again.
+   */
+  async resumeUnfinishedIncidents(): Promise<void> {
+    const records = await incidentStore.loadUnfinishedIncidents();
+    if (records.length === 0) return;
+
+    logger.info(`♻️ Resuming ${records.length} unfinished incident(s)...`);
+
+    for (const record of records) {
       try {
-        const [projectData] = await db
-          .select()
-          .from(projects)
-          .where(eq(projects.id, metadata.projectId))
-          .limit(1);
-        this.currentProject = projectData || null;
-        if (this.currentProject) {
-          logger.info(`Project loaded: ${this.currentProject.vercelProjectName}, autoFix=${this.currentProject.autoFix}, threshold=${this.currentProject.autoFixThreshold}`);
-        } else {
-          logger.warn(`Project not found for ID: ${metadata.projectId}`);
+        const timeline = await incidentStore.loadTimeline(record.id);
+        const incident = incidentStore.toIncident(record);
+        const detectionMetadata = timeline.find(t => t.phase === 'detection')?.metadata?.metadata;
+        const projectId = detectionMetadata?.projectId;
+        const runKey = this.runKeyFor(record.userId, detectionMetadata);
+
+        if (timeline.length === 0) {
+          logger.warn(`Incident ${record.id} has no checkpoints, cannot resume`);
+          await incidentStore.updateIncident(record.id, { status: 'failed' });
+          continue;
+        }
+
+        if (this.runs.has(runKey)) {
+          logger.warn(`Incident response already in progress for ${runKey}, not resuming ${record.id}`);
+          continue;
         }
+
+        const project = projectId ? await this.loadProject(projectId) : null;
+        const run = IncidentRun.restore(this.io, runKey, record.userId, incident, timeline, project);
+
+        if (incident.status === 'verifying') {
+          const execution = run.getPhaseMetadata('execution');
+          const solution = run.getSolution();
+          if (execution?.result?.success && solution) {
+            run.discardInterruptedEntries('verification');
+            this.runs.set(runKey, run);
+            logger.info(`♻️ Resuming verification of incident ${record.id} (${runKey})`);
+            run.emitIncidentDetected(incident);
+            run.emitChatMessage('system', '♻️ **Verification Resumed**\n\nThe backend restarted while the fix was being verified. Watching production again...');
+
+            // The window is measured from the deployment, so time spent down counts towards it
+            this.verifyFix(run, solution, execution.result, new Date(execution.executedAt || incident.startedAt))
+              .catch(error => logger.error(`Failed to verify fix of incident ${record.id}:`, error))
+              .finally(async () => {
+                await run.flush();
+                this.finishRun(run);
+              });
+            continue;
+          }
+          run.setStatus('failed');
+          await run.flush();
+          this.finishRun(run);
+          continue;
+        }
+
+        if (incident.status === 'executing') {
+          // We cannot tell how far the execution got, so hand it back for approval
+          run.updateTimelineEntry('execution', 'failed', {
+            result: { success: false, message: 'Execution interrupted by backend restart' },
+          });
+          run.setStatus('proposing');
+          run.emitChatMessage(
+            'system',
+            '⚠️ **Execution Interrupted**\n\nThe backend restarted while the solution was being executed. Please review the repository and approve the solution again if needed.'
+          );
+        }
+
+        if (run.incident?.status === 'proposing') {
+          if (!run.getSolution()) {
+            run.setStatus('failed');
+          }
+          await run.flush();
+          this.finishRun(run);
+          logger.info(`♻️ Restored incident ${record.id} (awaiting approval)`);
+          continue;
+        }
+
+        this.runs.set(runKey, run);
+        logger.info(`♻️ Resuming incident ${record.id} (${runKey})`);
+        run.emitIncidentDetected(incident);
+        run.emitChatMessage('system', '♻️ **Incident Resumed**\n\nThe backend restarted. Continuing from the last completed phase...');
+
+        // Run in the background so incidents resume concurrently
+        this.runPipeline(run).catch(error => logger.error(`Resumed incident ${record.id} failed:`, error));
       } catch (error) {
-        logger.warn('Could not fetch project info:', error);
+        logger.error(`Failed to resume incident ${record.id}:`, error);
       }
-    } else {
-      logger.warn('No projectId in metadata, cannot check autoFix');
     }
+  }
 
+  /**
+   * Run the pipeline phases that have not completed yet, then hand the
+   * solution over for (auto-)execution
+   */
+  private async runPipeline(run: IncidentRun): Promise<void> {
+    let currentPhase: AgentPhase | null = null;
     try {
-      // Phase 1: Detection
-      await this.phaseDetection();
-
-      // Phase 2: Log Analysis
-      await this.phaseLogAnalysis();
+      for (const [phase, handler] of this.phases) {
+        throwIfCancelled(run.signal);
+        currentPhase = phase;
 
-      // Phase 3: Commit Correlation
-      await this.phaseCommitCorrelation();
+        if (run.isPhaseCompleted(phase)) {
+          logger.info(`⏭️ Skipping completed phase ${phase} for incident ${run.incidentId}`);
+          continue;
+        }
 
-      // Phase 4: Research
-      await this.phaseResearch();
+        if (run.isPersisted) {
+          // Resumed run: drop the attempt that was interrupted mid-phase
+          run.discardInterruptedEntries(phase);
+        }
+        // The phase's LLM calls are recorded for the incident
+        await llmCallLog.run(
+          {
+            userId: run.userId,
+            incidentId: run.isPersisted ? run.incidentId : null,
+            projectId: run.project?.id || null,
+            phase,
+          },
+          () => handler(run)
+        );
 
-      // Phase 5: Diagnosis & Solution
-      await this.phaseDiagnosisAndSolution();
+        // Checkpoint: the phase's results are stored before the next phase starts
+        await run.flush();
+      }
+      currentPhase = null;
 
       // Check if autoFix is enabled
-      const solutionData = this.timeline.find(t => t.phase === 'solution_generation')?.metadata?.solution;
+      const solutionData = run.getSolution();
       
       // Debug logging
-      logger.info(`AutoFix check: project=${this.currentProject?.id || 'null'}, autoFix=${this.currentProject?.autoFix || false}, threshold=${this.currentProject?.autoFixThreshold || 90}, solutionData=${!!solutionData}, confidence=${solutionData?.confidence || 0}`);
+      logger.info(`AutoFix check: project=${run.project?.id || 'null'}, autoFix=${run.project?.autoFix || false}, threshold=${run.project?.autoFixThreshold || 90}, solutionData=${!!solutionData}, confidence=${solutionData?.confidence || 0}`);
       
-      if (this.currentProject?.autoFix && solutionData) {
-        const confidence = solutionData.confidence || 0;
-        const threshold = this.currentProject.autoFixThreshold || 90;
-
-        if (confidence >= threshold) {
-          logger.info(`🚀 AutoFix enabled! Confidence ${confidence}% >= threshold ${threshold}%. Executing automatically...`);
-          this.emitChatMessage(
+      if (!solutionData) {
+        // Nothing to approve or execute - the incident cannot progress any further
+        logger.warn(`No solution generated for incident ${run.incidentId}`);
+        run.setStatus('failed');
+      } else if (run.project?.autoFix) {
+        const threshold = run.project.autoFixThreshold || 90;
+        // The best ranked candidate the AutoFix policy allows
+        const policies = run.getCandidates().map((candidate) => ({
+          candidate,
+          policy: evaluatePolicy(candidate, candidate.ranking?.blastRadius ?? assessBlastRadius(candidate), threshold),
+        }));
+        const eligible = policies.find(({ policy }) => policy.passed)?.candidate;
+
+        if (eligible) {
+          const confidence = eligible.confidence || 0;
+          logger.info(`🚀 AutoFix enabled! ${eligible.type} passes the policy (confidence ${confidence}% >= threshold ${threshold}%). Executing automatically...`);
+          run.emitChatMessage(
             'agent',
-            `🤖 **AutoFix Enabled**\n\nConfidence: ${confidence}% (threshold: ${threshold}%)\n\nAutomatically executing solution...`
+            `🤖 **AutoFix Enabled**\n\n${eligible.id === solutionData.id ? 'Top ranked solution' : `Best ranked solution passing the policy: ${eligible.type}`}\n` +
+              `Confidence: ${confidence}% (threshold: ${threshold}%)\n\nAutomatically executing solution...`
           );
 
           // Automatically execute solution
-          await this.executeSolution(solutionData.id);
+          await this.executeSolution(eligible.id, run);
         } else {
-          logger.info(`AutoFix enabled but confidence ${confidence}% < threshold ${threshold}%. Awaiting approval.`);
-          this.emitChatMessage(
+          const violations = policies[0]?.policy.violations || [];
+          logger.info(`AutoFix enabled but no candidate passes the policy (${violations.join('; ')}). Awaiting approval.`);
+          run.emitChatMessage(
             'agent',
-            `⚠️ **AutoFix Enabled** but confidence (${confidence}%) is below threshold (${threshold}%)\n\nAwaiting manual approval for safety.`
+            `⚠️ **AutoFix Enabled** but no candidate solution passes the AutoFix policy\n\n${violations.map((v) => `• ${v}`).join('\n')}\n\nAwaiting manual approval for safety.`
           );
         }
       } else {
         // Await user approval for execution
-        const reason = !this.currentProject 
-          ? 'Project not found' 
-          : !this.currentProject.autoFix 
-          ? 'AutoFix disabled' 
-          : !solutionData 
-          ? 'Solution data not found' 
-          : 'Unknown';
+        const reason = !run.project ? 'Project not found' : 'AutoFix disabled';
         logger.info(`Awaiting user approval for solution execution... (Reason: ${reason})`);
-        this.emitChatMessage(
+        run.emitChatMessage(
           'agent',
           '👤 **Manual Approval Required**\n\nPlease review and approve the solution to execute.'
         );
       }
       
     } catch (error) {
+      if (isCancelledError(error, run.signal)) {
+        this.markCancelled(run);
+        return;
+      }
       logger.error('Error in incident response pipeline:', error);
-      this.emitStatusChange('failed');
-      this.emitChatMessage(
-        'system',
-        '❌ An error occurred during incident response. Please check logs.'
-      );
+
+      // The phase that was running is marked failed with the reason, instead of staying in progress
+      if (currentPhase && run.timeline.some(t => t.phase === currentPhase && t.status === 'in_progress')) {
+        run.updateTimelineEntry(currentPhase, 'failed', {
+          error: (error as Error).message,
+          ...(error instanceof LLMOutputError && { validationErrors: error.issues, attempts: error.attempts }),
+        });
+      }
+      run.setStatus('failed');
+
+      if (error instanceof LLMOutputError) {
+        run.emitChatMessage(
+          'system',
+          `❌ **${currentPhase ? currentPhase.replace(/_/g, ' ') : 'Incident response'} failed**\n\nThe LLM's ${error.task.replace(/_/g, ' ')} answer was still invalid after ${error.attempts} attempts, so nothing was made up in its place:\n${error.issues.slice(0, 5).map((issue) => `- ${issue}`).join('\n')}`
+        );
+      } else if (error instanceof LLMNotConfiguredError) {
+        run.emitChatMessage(
+          'system',
+          `❌ **${currentPhase ? currentPhase.replace(/_/g, ' ') : 'Incident response'} failed**\n\n${error.message}.`
+        );
+      } else {
+        run.emitChatMessage(
+          'system',
+          '❌ An error occurred during incident response. Please check logs.'
+        );
+      }
     } finally {
-      this.isProcessing = false;
+      await run.flush();
+      this.finishRun(run);
+    }
+  }
+
+  /**
+   * Load the project an incident belongs to
+   */
+  private async loadProject(projectId: string): Promise<ProjectRecord | null> {
+    try {
+      const [projectData] = await db
+        .select()
+        .from(projects)
+        .where(eq(projects.id, projectId))
+        .limit(1);
+
+      if (projectData) {
+        logger.info(`Project loaded: ${projectData.vercelProjectName}, autoFix=${projectData.autoFix}, threshold=${projectData.autoFixThreshold}`);
+      } else {
+        logger.warn(`Project not found for ID: ${projectId}`);
+      }
+      return projectData || null;
+    } catch (error) {
+      logger.warn('Could not fetch project info:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Stop in-flight incident responses (pipelines, executions and verifications) of a user,
+   * or of a single incident. Returns the number of runs that were cancelled.
+   */
+  stopIncidentResponse(userId: string, incidentId?: string): number {
+    const inFlight = [
+      ...this.runs.values(),
+      ...this.finishedRuns.filter(run => run.incident?.status === 'executing' || run.incident?.status === 'verifying'),
+    ];
+    const targets = inFlight.filter(
+      run => run.userId === userId && !run.isCancelled && (!incidentId || run.incidentId === incidentId)
+    );
+
+    targets.forEach(run => {
+      logger.info(`🛑 Stopping incident response: ${run.key} (incident ${run.incidentId || 'pending'})`);
+      run.cancel();
+    });
+
+    return targets.length;
+  }
+
+  /**
+   * Record that a run was stopped: interrupted phases fail, the incident is cancelled
+   */
+  private markCancelled(run: IncidentRun): void {
+    logger.info(`🛑 Incident response cancelled: ${run.key}`);
+
+    run.timeline
+      .filter(t => t.status === 'in_progress')
+      .forEach(t => run.updateTimelineEntry(t.phase, 'failed', { cancelled: true }));
+    run.setStatus('cancelled');
+    run.emitChatMessage('system', '🛑 **Incident Response Stopped**\n\nIn-flight work was aborted.');
+  }
+
+  /**
+   * Move a run out of the in-flight set, keeping it around for approval/execution
+   */
+  private finishRun(run: IncidentRun): void {
+    this.runs.delete(run.key);
+    this.finishedRuns.unshift(run);
+    if (this.finishedRuns.length > this.MAX_FINISHED_RUNS) {
+      this.finishedRuns.length = this.MAX_FINISHED_RUNS;
     }
+    logger.info(`Incident run finished: ${run.key} (${this.runs.size} still active)`);
+  }
+
+  /**
+   * Find the run (in-flight or recently finished) that proposed a solution
+   */
+  private findRunBySolutionId(solutionId: string): IncidentRun | undefined {
+    return [...this.runs.values(), ...this.finishedRuns].find(
+      run => run.getCandidates().some(candidate => candidate.id === solutionId)
+    );
   }
 
   /**
    * Phase 1: Incident Detection
    */
-  private async phaseDetection(): Promise<void> {
-    this.addTimelineEntry('detection', 'Detecting incident', 'in_progress');
-    this.emitAgentUpdate('detection', 'Detecting incident', 'Analyzing system metrics and health checks...');
+  private async phaseDetection(run: IncidentRun): Promise<void> {
+    run.addTimelineEntry('detection', 'Detecting incident', 'in_progress');
+    run.emitAgentUpdate('detection', 'Detecting incident', 'Analyzing system metrics and health checks...');
 
-    await this.sleep(1500);
+    await this.sleep(1500, run.signal);
 
-    const incident = await incidentDetector.detectIncident();
+    const incident = await incidentDetector.detectIncident(run.metadata);
     
     // Store incident in database
     try {
-      const userId = this.currentProject?.userId || 'demo-user';
-      const [savedIncident] = await db
-        .insert(incidents)
-        .values({
-          userId,
-          title: incident.title,
-          description: incident.description,
-          status: incident.status as any,
-          severity: incident.severity as any,
-          affectedServices: incident.affectedServices,
-          detectedAt: incident.startedAt,
-        })
-        .returning();
+      const userId = run.project?.userId || run.userId;
+      const savedIncident = await incidentStore.createIncident(userId, incident, run.metadata?.issueId);
       
       // Update incident with database ID
-      this.currentIncident = {
-        ...incident,
-        id: savedIncident.id,
-      };
+      run.attachIncident({ ...incident, id: savedIncident.id }, true);
       
       logger.info(`✅ Incident stored in database: ${savedIncident.id}`);
       
       // Emit with database ID
-      this.emitIncidentDetected({
+      run.emitIncidentDetected({
         ...incident,
         id: savedIncident.id,
       });
     } catch (error: any) {
       logger.error('Failed to store incident in database:', error);
       // Continue with in-memory incident
-      this.currentIncident = incident;
-      this.emitIncidentDetected(incident);
+      run.attachIncident(incident, false);
+      run.emitIncidentDetected(incident);
     }
 
-    this.updateTimelineEntry('detection', 'completed');
-    this.emitChatMessage(
+    run.updateTimelineEntry('detection', 'completed');
+    run.emitChatMessage(
       'agent',
-      `🚨 **Incident Detected**\n\n**${this.currentIncident.title}**\n\n${this.currentIncident.description}\n\n**Severity:** ${this.currentIncident.severity}\n**Affected Services:** ${this.currentIncident.affectedServices.join(', ')}`
+      `🚨 **Incident Detected**\n\n**${run.incident!.title}**\n\n${run.incident!.description}\n\n**Severity:** ${run.incident!.severity}\n**Affected Services:** ${run.incident!.affectedServices.join(', ')}`
     );
 
-    await this.sleep(1000);
+    await this.sleep(1000, run.signal);
   }
 
   /**
    * Phase 2: Log Analysis
    */
-  private async phaseLogAnalysis(): Promise<void> {
-    if (!this.currentIncident) return;
+  private async phaseLogAnalysis(run: IncidentRun): Promise<void> {
+    if (!run.incident) return;
 
-    this.addTimelineEntry('log_analysis', 'Analyzing logs', 'in_progress');
-    this.emitAgentUpdate('log_analysis', 'Analyzing logs', 'Fetching logs from affected services...');
+    run.addTimelineEntry('log_analysis', 'Analyzing logs', 'in_progress');
+    run.emitAgentUpdate('log_analysis', 'Analyzing logs', 'Fetching logs from affected services...');
 
     // Fetch logs
-    const logs = await logAnalyzer.fetchLogs(this.currentIncident.affectedServices);
-    this.emitLogsStream(logs);
+    const logs = await logAnalyzer.fetchLogs(run.incident.affectedServices, 3600000, {
+      project: run.project,
+      startedAt: run.incident.startedAt,
+      signal: run.signal,
+    });
+    run.emitLogsStream(logs);
 
-    await this.sleep(2000);
+    await this.sleep(2000, run.signal);
 
     // Analyze logs with E2B
-    this.emitAgentUpdate('log_analysis', 'Analyzing patterns', 'Running Python analysis in E2B sandbox...');
-    const analysis = await logAnalyzer.analyzeLogs(logs);
+    run.emitAgentUpdate('log_analysis', 'Analyzing patterns', 'Running Python analysis in E2B sandbox...');
+    const newTemplates = run.project ? await logTemplateMiner.getNewTemplates(run.project.id) : undefined;
+    const analysis = await logAnalyzer.analyzeLogs(logs, { anomaly: run.metadata?.anomaly, newTemplates });
 
     // Store analysis
     const insights = logAnalyzer.extractInsights(logs, analysis);
     
-    this.updateTimelineEntry('log_analysis', 'completed', { analysis });
-    this.emitChatMessage(
+    run.updateTimelineEntry('log_analysis', 'completed', { analysis });
+    run.emitChatMessage(
       'agent',
-      `📊 **Log Analysis Complete**\n\n${insights.map(i => `• ${i}`).join('\n')}\n\n**Key Finding:** ${analysis.most_common_errors[0]?.message}`
+      `📊 **Log Analysis Complete**\n\n${insights.map(i => `• ${i}`).join('\n')}\n\n**Key Finding:** ${analysis.most_common_errors[0]?.message || 'No errors in the fetched logs'}`
     );
 
-    await this.sleep(1000);
+    await this.sleep(1000, run.signal);
   }
 
   /**
    * Phase 3: Commit Correlation
    */
-  private async phaseCommitCorrelation(): Promise<void> {
-    this.addTimelineEntry('commit_correlation', 'Correlating commits', 'in_progress');
-    this.emitAgentUpdate('commit_correlation', 'Checking recent changes', 'Fetching commit history from GitHub...');
+  private async phaseCommitCorrelation(run: IncidentRun): Promise<void> {
+    run.addTimelineEntry('commit_correlation', 'Correlating commits', 'in_progress');
+    run.emitAgentUpdate('commit_correlation', 'Checking recent changes', 'Fetching commit history...');
 
-    const logAnalysis = this.timeline.find(t => t.phase === 'log_analysis')?.metadata?.analysis;
-    const errorPattern = logAnalysis?.most_common_errors[0]?.message || 'CPU time limit exceeded';
+    const logAnalysis = run.getPhaseMetadata('log_analysis')?.analysis;
+    // The template has <*> placeholders, so commits are matched against a real message
+    const topError = logAnalysis?.most_common_errors[0];
+    const errorPattern = topError?.example || topError?.message || 'CPU time limit exceeded';
 
-    await this.sleep(2000);
+    await this.sleep(2000, run.signal);
 
-    // Pass project GitHub info to researcher for real API calls
-    const githubOwner = this.currentProject?.githubOwner;
-    const githubRepo = this.currentProject?.githubRepo;
-    const { commits: _commits, suspectedCommit, diff } = await incidentResearcher.correlateCommits(
+    // Pass the project to the researcher so it reads its repository
+    const githubOwner = run.project?.githubOwner;
+    const githubRepo = run.project?.githubRepo;
+    const { commits, suspectedCommit, diff, blameSuspects } = await incidentResearcher.correlateCommits(
       errorPattern,
       githubOwner,
-      githubRepo
+      githubRepo,
+      run.userId,
+      run.signal,
+      { project: run.project, metadata: run.metadata }
+    );
+
+    run.persist('commits', (incidentId) =>
+      incidentStore.saveCommits(incidentId, commits, suspectedCommit, diff)
     );
 
     if (suspectedCommit) {
-      this.updateTimelineEntry('commit_correlation', 'completed', { suspectedCommit, diff });
-      this.emitAgentUpdate('commit_correlation', 'Suspicious commit identified', `Analyzing commit ${suspectedCommit.sha}...`);
-      this.emitChatMessage(
+      run.updateTimelineEntry('commit_correlation', 'completed', { suspectedCommit, diff, blameSuspects });
+      run.emitAgentUpdate('commit_correlation', 'Suspicious commit identified', `Analyzing commit ${suspectedCommit.sha}...`);
+      run.emitChatMessage(
         'agent',
-        `🔍 **Suspicious Commit Identified**\n\n**SHA:** \`${suspectedCommit.sha}\`\n**Author:** ${suspectedCommit.author}\n**Message:** ${suspectedCommit.message}\n\n**Files Changed:** ${suspectedCommit.filesChanged.join(', ')}`
+        `🔍 **Suspicious Commit Identified**\n\n**SHA:** \`${suspectedCommit.sha}\`\n**Author:** ${suspectedCommit.author}\n**Message:** ${suspectedCommit.message}\n\n**Files Changed:** ${suspectedCommit.filesChanged.join(', ')}` +
+          (suspectedCommit.evidence
+            ? `\n\n**Evidence:**\n${suspectedCommit.evidence.reasons.map((reason) => `- ${reason}`).join('\n')}`
+            : '') +
+          (blameSuspects.length > 0
+            ? `\n\n**Blame of the failing lines:**\n${blameSuspects
+                .slice(0, 3)
+                .map((s) => `- \`${s.sha}\` ${s.message} (${s.author}, score ${s.score})`)
+                .join('\n')}`
+            : '')
       );
     } else {
-      this.updateTimelineEntry('commit_correlation', 'completed');
-      this.emitChatMessage('agent', '⚠️ Could not identify suspicious commit from recent changes.');
+      run.updateTimelineEntry('commit_correlation', 'completed', { blameSuspects });
+      run.emitChatMessage('agent', '⚠️ Could not identify suspicious commit from recent changes.');
     }
 
-    await this.sleep(1000);
+    await this.sleep(1000, run.signal);
   }
 
   /**
    * Phase 4: Research
    */
-  private async phaseResearch(): Promise<void> {
-    this.addTimelineEntry('research', 'Researching similar incidents', 'in_progress');
-    this.emitAgentUpdate('research', 'Researching solutions', 'Querying Perplexity and web search...');
+  private async phaseResearch(run: IncidentRun): Promise<void> {
+    run.addTimelineEntry('research', 'Researching similar incidents', 'in_progress');
+    run.emitAgentUpdate('research', 'Researching solutions', 'Querying Perplexity and web search...');
+
+    const logAnalysis = run.getPhaseMetadata('log_analysis')?.analysis;
+    // The template has <*> placeholders, so searches use a real message
+    const topError = logAnalysis?.most_common_errors[0];
+    const errorPattern = topError?.example || topError?.message || 'Worker CPU time limit';
+
+    // Our own resolved incidents first: the most relevant prior art
+    const stackFiles = extractStackFiles(run.metadata || {}).map(f => f.file);
+    const similarIncidents = await incidentKnowledgeBase.findSimilar({
+      userId: run.userId,
+      excludeIncidentId: run.incidentId,
+      issueId: run.metadata?.issueId,
+      text: [
+        run.incident?.title,
+        errorPattern,
+        ...(logAnalysis?.most_common_errors || []).map((e: { message: string; example?: string }) => e.example || e.message),
+        ...(logAnalysis?.new_templates || []).map((t: { template: string; sample?: string }) => t.sample || t.template),
+        ...stackFiles,
+      ].filter(Boolean).join('\n'),
+      files: stackFiles,
+    }).catch((error): SimilarIncident[] => {
+      logger.warn(`Knowledge base search failed: ${error.message}`);
+      return [];
+    });
+    throwIfCancelled(run.signal);
 
-    const logAnalysis = this.timeline.find(t => t.phase === 'log_analysis')?.metadata?.analysis;
-    const errorPattern = logAnalysis?.most_common_errors[0]?.message || 'Worker CPU time limit';
+    if (similarIncidents.length > 0) {
+      run.emitChatMessage(
+        'agent',
+        `🧠 **We've seen this before**\n\n${similarIncidents.map(s =>
+          `• [${s.title}](${s.url})${s.sameFingerprint ? ' (same error)' : ''}` +
+          (s.fix ? ` - fixed by ${s.fix.type}: ${s.fix.description}${s.fix.url ? ` ([fix](${s.fix.url}))` : ''}` : '') +
+          (s.regressed ? ' ⚠️ came back after the fix' : '')
+        ).join('\n')}`
+      );
+    }
 
-    await this.sleep(2500);
+    await this.sleep(2500, run.signal);
 
     const research = await incidentResearcher.comprehensiveResearch(
       errorPattern,
-      'Cloudflare Workers'
+      'Cloudflare Workers',
+      undefined,
+      run.signal
     );
+    const allResults = [...similarIncidents.map(s => incidentKnowledgeBase.toResearchResult(s)), ...research.allResults];
 
-    const keyFindings = incidentResearcher.extractKeyFindings(research.allResults);
+    const keyFindings = incidentResearcher.extractKeyFindings(allResults);
+
+    run.persist('research results', (incidentId) =>
+      incidentStore.saveResearchResults(incidentId, errorPattern, allResults)
+    );
 
-    this.updateTimelineEntry('research', 'completed', { research: research.allResults });
-    this.emitChatMessage(
+    run.updateTimelineEntry('research', 'completed', { research: allResults, similarIncidents, searchProviders: research.providers });
+    run.emitChatMessage(
       'agent',
-      `🔬 **Research Complete**\n\nFound ${research.allResults.length} relevant resources:\n\n${keyFindings.slice(0, 3).map(f => `• ${f}`).join('\n')}`
+      `🔬 **Research Complete**\n\nFound ${allResults.length} relevant resources:\n\n${keyFindings.slice(0, 3).map(f => `• ${f}`).join('\n')}`
     );
 
-    await this.sleep(1000);
+    await this.sleep(1000, run.signal);
   }
 
   /**
    * Phase 5: Diagnosis and Solution Generation
    */
-  private async phaseDiagnosisAndSolution(): Promise<void> {
-    this.addTimelineEntry('diagnosis', 'Diagnosing root cause', 'in_progress');
-    this.emitAgentUpdate('diagnosis', 'Analyzing data', 'Using Groq AI to diagnose root cause...');
+  private async phaseDiagnosisAndSolution(run: IncidentRun): Promise<void> {
+    run.discardInterruptedEntries('diagnosis');
+    run.addTimelineEntry('diagnosis', 'Diagnosing root cause', 'in_progress');
+    run.emitAgentUpdate('diagnosis', 'Analyzing data', 'Using the LLM to diagnose root cause...');
 
-    const logAnalysis = this.timeline.find(t => t.phase === 'log_analysis')?.metadata?.analysis;
-    const commitData = this.timeline.find(t => t.phase === 'commit_correlation')?.metadata;
-    const researchData = this.timeline.find(t => t.phase === 'research')?.metadata?.research || [];
+    const logAnalysis = run.getPhaseMetadata('log_analysis')?.analysis;
+    const commitData = run.getPhaseMetadata('commit_correlation');
+    const researchData = run.getPhaseMetadata('research')?.research || [];
 
     if (!commitData?.suspectedCommit) {
-      this.emitChatMessage('agent', '❌ Cannot proceed without suspected commit data.');
+      run.emitChatMessage('agent', '❌ Cannot proceed without suspected commit data.');
       return;
     }
 
-    await this.sleep(3000);
+    await this.sleep(3000, run.signal);
 
     // Determine file path from suspected commit or diff
     const suspectedCommit = commitData.suspectedCommit;
@@ -379,7 +740,7 @@ export class AgentOrchestrator {
     let filePath: string | undefined;
     
     // Check if error metadata has file information
-    const detectionEntry = this.timeline.find(t => t.phase === 'detection');
+    const detectionEntry = run.timeline.find(t => t.phase === 'detection');
     const errorMetadata = detectionEntry?.metadata;
     
     logger.info(`🔍 Searching for file path in error metadata...`, {
@@ -578,8 +939,8 @@ export class AgentOrchestrator {
 
     logger.info(`📂 Final file path to read: ${filePath || 'NOT FOUND - will search repository'}`, {
       project: {
-        githubOwner: this.currentProject?.githubOwner,
-        githubRepo: this.currentProject?.githubRepo,
+        githubOwner: run.project?.githubOwner,
+        githubRepo: run.project?.githubRepo,
       },
       source: filePath ? 'extracted from error' : 'not found in error',
       errorMetadata: errorMetadata?.errors?.[0] ? {
@@ -606,33 +967,26 @@ export class AgentOrchestrator {
     }
 
     let fileContent: string | undefined;
+    let vcs: SourceControlProvider | null = null;
 
-    // Read the actual file from GitHub before generating solution
-    if (this.currentProject?.githubOwner && this.currentProject?.githubRepo) {
-      const IntegrationManager = (await import('../services/integration-manager')).IntegrationManager;
-      const integrationManager = new IntegrationManager(this.userId || 'demo-user');
-      const github = await integrationManager.getGitHubIntegration();
+    // Read the actual file from the project's repository before generating solution
+    if (run.project) {
+      vcs = await sourceControlManager.forProject(run.project, run.userId || 'demo-user', run.signal);
       
-      if (!github) {
-        logger.warn('⚠️ GitHub integration not available');
+      if (!vcs) {
+        logger.warn('⚠️ Source control not available (no GitHub integration)');
       } else {
         // If we have a file path, try to read it
         if (filePath) {
           try {
-            logger.info(`📖 Reading actual file from GitHub: ${filePath}`, {
-              owner: this.currentProject.githubOwner,
-              repo: this.currentProject.githubRepo,
-              branch: 'main',
+            logger.info(`📖 Reading actual file from ${vcs.repository}: ${filePath}`, {
+              provider: vcs.type,
+              branch: vcs.defaultBranch,
             });
             
-            const fileData = await github.getFileContent(
-              filePath, 
-              'main', 
-              this.currentProject.githubOwner, 
-              this.currentProject.githubRepo
-            );
+            const fileData = await vcs.getFileContent(filePath);
             fileContent = fileData.content;
-            logger.info(`✅ Successfully read ${filePath} from GitHub:`, {
+            logger.info(`✅ Successfully read ${filePath} from ${vcs.repository}:`, {
               size: fileContent.length,
               sha: fileData.sha,
               actualPath: fileData.path,
@@ -652,12 +1006,7 @@ export class AgentOrchestrator {
               // First, try to list root directory to see what actually exists
               try {
                 logger.info(`📁 Listing root directory to see actual repository structure...`);
-                const rootContents = await github.getDirectoryContents(
-                  '.',
-                  'main',
-                  this.currentProject.githubOwner,
-                  this.currentProject.githubRepo
-                );
+                const rootContents = await vcs.listDirectory('.');
                 
                 const files = Array.isArray(rootContents) ? rootContents : [rootContents];
                 logger.info(`📁 Root directory contents:`, {
@@ -681,14 +1030,9 @@ export class AgentOrchestrator {
                     if (!filePath) {
                       logger.warn('⚠️ No file path available to read');
                     } else {
-                      const fileData = await github.getFileContent(
-                        filePath,
-                        'main',
-                        this.currentProject.githubOwner,
-                        this.currentProject.githubRepo
-                      );
+                      const fileData = await vcs.getFileContent(filePath);
                       fileContent = fileData.content;
-                      logger.info(`✅ Successfully read ${filePath} from GitHub:`, {
+                      logger.info(`✅ Successfully read ${filePath} from ${vcs.repository}:`, {
                         size: fileContent.length,
                         sha: fileData.sha,
                       });
@@ -709,26 +1053,16 @@ export class AgentOrchestrator {
                 logger.info(`🔍 Searching repository for files matching: ${fileName}`);
                 
                 try {
-                  const matchingFiles = await github.searchFiles(
-                    fileName,
-                    'main',
-                    this.currentProject.githubOwner,
-                    this.currentProject.githubRepo
-                  );
+                  const matchingFiles = await vcs.searchFiles(fileName);
                   
                   if (matchingFiles.length > 0) {
                     filePath = matchingFiles[0].path;
                     logger.info(`✅ Found matching file in repository: ${filePath}`);
                     
                     try {
-                      const fileData = await github.getFileContent(
-                        filePath,
-                        'main',
-                        this.currentProject.githubOwner,
-                        this.currentProject.githubRepo
-                      );
+                      const fileData = await vcs.getFileContent(filePath);
                       fileContent = fileData.content;
-                      logger.info(`✅ Successfully read ${filePath} from GitHub:`, {
+                      logger.info(`✅ Successfully read ${filePath} from ${vcs.repository}:`, {
                         size: fileContent.length,
                         sha: fileData.sha,
                       });
@@ -745,25 +1079,16 @@ export class AgentOrchestrator {
               if (!fileContent) {
                 logger.info(`🔍 No matching files found. Searching for main entry point...`);
                 try {
-                  const mainEntryPoint = await github.findMainEntryPoint(
-                    'main',
-                    this.currentProject.githubOwner,
-                    this.currentProject.githubRepo
-                  );
+                  const mainEntryPoint = await vcs.findMainEntryPoint();
                   
                   if (mainEntryPoint) {
                     filePath = mainEntryPoint;
                     logger.info(`✅ Using main entry point: ${filePath}`);
                     
                     try {
-                      const fileData = await github.getFileContent(
-                        filePath,
-                        'main',
-                        this.currentProject.githubOwner,
-                        this.currentProject.githubRepo
-                      );
+                      const fileData = await vcs.getFileContent(filePath);
                       fileContent = fileData.content;
-                      logger.info(`✅ Successfully read ${filePath} from GitHub:`, {
+                      logger.info(`✅ Successfully read ${filePath} from ${vcs.repository}:`, {
                         size: fileContent.length,
                         sha: fileData.sha,
                       });
@@ -782,11 +1107,9 @@ export class AgentOrchestrator {
                 logger.warn(`💡 Could not find any file in repository. Will generate solution without file content (using diff only)`);
               }
             } else {
-              logger.warn(`⚠️ Could not read file ${filePath} from GitHub (status: ${status}):`, {
+              logger.warn(`⚠️ Could not read file ${filePath} from ${vcs.repository} (status: ${status}):`, {
                 error: error.message,
                 status: status,
-                owner: this.currentProject?.githubOwner,
-                repo: this.currentProject?.githubRepo,
                 path: filePath,
               });
               logger.warn(`💡 Will generate solution without file content (using diff only)`);
@@ -796,25 +1119,16 @@ export class AgentOrchestrator {
           // No file path available, try to find main entry point
           logger.info(`🔍 No file path available. Searching for main entry point...`);
           try {
-            const mainEntryPoint = await github.findMainEntryPoint(
-              'main',
-              this.currentProject.githubOwner,
-              this.currentProject.githubRepo
-            );
+            const mainEntryPoint = await vcs.findMainEntryPoint();
             
             if (mainEntryPoint) {
               filePath = mainEntryPoint;
               logger.info(`✅ Found main entry point: ${filePath}`);
               
               try {
-                const fileData = await github.getFileContent(
-                  filePath,
-                  'main',
-                  this.currentProject.githubOwner,
-                  this.currentProject.githubRepo
-                );
+                const fileData = await vcs.getFileContent(filePath);
                 fileContent = fileData.content;
-                logger.info(`✅ Successfully read ${filePath} from GitHub:`, {
+                logger.info(`✅ Successfully read ${filePath} from ${vcs.repository}:`, {
                   size: fileContent.length,
                   sha: fileData.sha,
                 });
@@ -830,210 +1144,376 @@ export class AgentOrchestrator {
         }
       }
     } else {
-      logger.warn('⚠️ Cannot read file from GitHub - project GitHub info missing:', {
-        hasOwner: !!this.currentProject?.githubOwner,
-        hasRepo: !!this.currentProject?.githubRepo,
-        projectId: this.currentProject?.id,
-      });
+      logger.warn('⚠️ Cannot read file from the repository - incident has no project');
     }
 
-    const { rootCause, solution } = await solutionSolver.solve(
-      logAnalysis,
-      commitData.suspectedCommit,
-      commitData.diff,
-      researchData,
-      filePath,
-      fileContent,
-      this.currentProject?.githubOwner,
-      this.currentProject?.githubRepo
-    );
+    // A fix that already resolved this error is proposed without asking the LLM
+    const knownFix = await this.findKnownFix(run, vcs, suspectedCommit.evidence?.goodDeployment?.id);
 
-    // Add project info and file path to solution metadata for autoFix
-    if (this.currentProject && solution) {
-      solution.metadata = {
-        ...solution.metadata,
-        projectId: this.currentProject.id,
-        projectName: this.currentProject.vercelProjectName,
-        githubOwner: this.currentProject.githubOwner,
-        githubRepo: this.currentProject.githubRepo,
-        filePath: filePath || solution.metadata?.filePath, // Ensure file path is stored
-      };
-      
-      logger.info(`✅ Solution metadata updated:`, {
-        projectId: solution.metadata.projectId,
-        filePath: solution.metadata.filePath,
-        hasFilePath: !!solution.metadata.filePath,
-      });
-    } else if (filePath && solution) {
-      // Even if no project, store file path
-      solution.metadata = {
-        ...solution.metadata,
-        filePath: filePath,
-      };
-      logger.info(`✅ File path stored in solution metadata: ${filePath}`);
+    // Patches are tested against the repository at the suspected commit
+    const checkout: PatchCheckout | null = vcs
+      ? { vcs, ref: commitData.suspectedCommit?.sha || vcs.defaultBranch, testConfig: run.project?.testConfig }
+      : null;
+
+    let rootCause: RootCause;
+    let solution: Solution;
+    let promptContexts: PromptContext[] = [];
+    if (knownFix) {
+      rootCause = knownFixLibrary.toRootCause(knownFix);
+      solution = await solutionSolver.testSolution(knownFix.solution, checkout, run.signal);
+      filePath = solution.metadata?.filePath || filePath;
+
+      run.emitChatMessage(
+        'agent',
+        `📚 **Known Fix Found**\n\nThis error was resolved before in [${knownFix.sourceIncident.title}](${knownFix.sourceIncident.url}). ` +
+          `Its ${solution.type} succeeded in ${knownFix.successes} of ${knownFix.attempts} execution(s).\n\n${knownFix.adaptation}`
+      );
     } else {
+      ({ rootCause, solution, promptContexts } = await solutionSolver.solve(
+        logAnalysis,
+        commitData.suspectedCommit,
+        commitData.diff,
+        researchData,
+        commitData.blameSuspects || [],
+        extractBlameTargets(run.metadata || {}),
+        filePath,
+        fileContent,
+        run.project,
+        run.userId,
+        checkout,
+        run.signal
+      ));
+    }
+
+    // A patch that passed its tests gets a regression test of the reported error
+    solution = await solutionSolver.addRegressionTest(
+      solution,
+      extractErrorReport(run.metadata || {}),
+      checkout,
+      run.project?.llmConfig,
+      run.signal
+    );
+    if (solution.regressionTest) {
+      const test = solution.regressionTest;
+      run.emitChatMessage(
+        'agent',
+        test.status === 'verified'
+          ? `🧪 **Regression Test Verified**\n\n${test.description}\n\n\`${test.path}\` fails on the original code and passes with the fix; it will be committed with the fix.`
+          : `🧪 **Regression Test Not Verified**\n\n${test.description}\n\n\`${test.path}\` won't be committed: ${test.reason}.`
+      );
+    }
+
+    // Alternatives (rollback to the last healthy deployment, restart), ranked with the solution
+    const alternatives = await solutionSolver.proposeAlternatives(solution, commitData.suspectedCommit, run.signal);
+    const candidates = [solution, ...alternatives].map((candidate) => {
+      // Add project info and file path to solution metadata for autoFix
+      if (run.project) {
+        candidate.metadata = {
+          ...candidate.metadata,
+          projectId: run.project.id,
+          projectName: run.project.vercelProjectName,
+          githubOwner: run.project.githubOwner,
+          githubRepo: run.project.githubRepo,
+          filePath: candidate.metadata?.filePath || filePath, // First file of the diff, else the file diagnosed
+        };
+      } else if (filePath) {
+        // Even if no project, store file path
+        candidate.metadata = { ...candidate.metadata, filePath: candidate.metadata?.filePath || filePath };
+      }
+      return candidate;
+    });
+
+    if (!filePath && !solution.metadata?.filePath) {
       logger.warn(`⚠️ Solution created but file path not stored!`, {
-        hasProject: !!this.currentProject,
-        hasSolution: !!solution,
-        filePath: filePath,
-        solutionMetadata: solution?.metadata,
+        hasProject: !!run.project,
+        solutionMetadata: solution.metadata,
       });
     }
 
-    this.updateTimelineEntry('diagnosis', 'completed', { rootCause });
-    
-    this.addTimelineEntry('solution_generation', 'Generating solution', 'completed', { solution });
+    const ranked = solutionRanker.rank(candidates, {
+      autoFixThreshold: run.project?.autoFixThreshold || 90,
+      rangeSize: commitData.suspectedCommit?.evidence?.rangeSize,
+    });
+    logger.info(`✅ Ranked ${ranked.length} candidate solution(s): ${ranked.map((c) => `${c.type} (${c.ranking?.score})`).join(', ')}`);
+
+    // What each prompt contained, so reviewers can audit what the model saw
+    const promptContextOf = (task: PromptContext['task']) => promptContexts.find((context) => context.task === task);
+    run.updateTimelineEntry('diagnosis', 'completed', { rootCause, promptContext: promptContextOf('diagnosis') });
+    run.persist('root cause', (incidentId) =>
+      incidentStore.updateIncident(incidentId, {
+        rootCause: rootCause.description,
+        rootCauseConfidence: Math.round(rootCause.confidence),
+      })
+    );
 
-    this.emitChatMessage(
+    if (run.isPersisted && run.incidentId) {
+      for (const candidate of ranked) {
+        const recordId = await incidentStore.saveSolution(run.incidentId, candidate).catch((error) => {
+          logger.error('Failed to persist solution:', error);
+          return undefined;
+        });
+        if (recordId) {
+          candidate.metadata = { ...candidate.metadata, solutionRecordId: recordId };
+        }
+      }
+    }
+
+    // The top candidate is the proposed solution until another one is picked for execution
+    const top = ranked[0];
+    run.addTimelineEntry('solution_generation', 'Generating solution', 'completed', {
+      solution: top,
+      solutionRecordId: top.metadata?.solutionRecordId,
+      candidates: ranked,
+      promptContext: promptContextOf('patch_generation'),
+    });
+
+    run.emitChatMessage(
       'agent',
       `🎯 **Root Cause Identified**\n\n${rootCause.description}\n\n**Confidence:** ${rootCause.confidence}%\n\n**Evidence:**\n${rootCause.evidence.map(e => `• ${e}`).join('\n')}`
     );
 
-    await this.sleep(1500);
+    await this.sleep(1500, run.signal);
 
-    this.emitSolutionProposed(solution, rootCause);
-    this.emitChatMessage(
+    run.emitSolutionProposed(top, rootCause, ranked);
+    run.emitChatMessage(
       'agent',
-      `✅ **Solution Ready**\n\n${solution.description}\n\n**Type:** ${solution.type}\n**Risk:** ${solution.risk}\n**Confidence:** ${solution.confidence}%\n**Estimated Time:** ${solution.estimatedTime}\n\nPlease review and approve the solution to execute.`
+      `✅ **Solution Ready**\n\n${top.description}\n\n**Type:** ${top.type}\n**Risk:** ${top.risk}\n**Confidence:** ${top.confidence}%\n**Estimated Time:** ${top.estimatedTime}` +
+        (ranked.length > 1
+          ? `\n\n**Candidates:**\n${ranked.map((c) => `${c.ranking?.rank}. ${c.type}: ${c.description} (score ${c.ranking?.score}, ~${c.ranking?.timeToRecoverMinutes} min to recover)`).join('\n')}`
+          : '') +
+        '\n\nPlease review and approve a solution to execute.'
     );
 
-    if (this.currentIncident) {
-      this.currentIncident.status = 'proposing';
-      this.emitStatusChange('proposing');
+    if (run.incident) {
+      run.setStatus('proposing');
     }
   }
 
+  /**
+   * A proven fix for the incident's issue, adapted to the current code
+   */
+  private async findKnownFix(
+    run: IncidentRun,
+    vcs: SourceControlProvider | null,
+    rollbackTarget?: string | null
+  ): Promise<KnownFix | null> {
+    const issueId = run.metadata?.issueId;
+    if (!issueId) return null;
+
+    return knownFixLibrary.findKnownFix({
+      userId: run.userId,
+      issueId,
+      excludeIncidentId: run.incidentId,
+      vcs,
+      rollbackTarget,
+      signal: run.signal,
+    }).catch((error): KnownFix | null => {
+      if (isCancelledError(error, run.signal)) throw error;
+      logger.warn(`Known fix lookup failed: ${error.message}`);
+      return null;
+    });
+  }
+
   /**
    * Execute approved solution
    */
-  async executeSolution(solutionId: string): Promise<void> {
+  async executeSolution(solutionId: string, incidentRun?: IncidentRun): Promise<void> {
     logger.info(`Executing solution: ${solutionId}`);
 
-    this.addTimelineEntry('execution', 'Executing solution', 'in_progress');
-    this.emitAgentUpdate('execution', 'Executing fix', 'Applying solution...');
-    this.emitStatusChange('executing');
+    const run = incidentRun || this.findRunBySolutionId(solutionId);
+    if (!run) {
+      logger.warn(`No incident run found for solution ${solutionId}`);
+      throw new Error(`Solution ${solutionId} not found`);
+    }
+    if (run.isCancelled) {
+      throw new Error(`Incident response for solution ${solutionId} was stopped`);
+    }
+    // A second approval (another tab, a double click) must not execute the fix again
+    if (!run.isAwaitingApproval()) {
+      throw new Error(`Solution ${solutionId} is not awaiting approval${run.incident ? ` (incident is ${run.incident.status})` : ''}`);
+    }
+
+    // Claimed before anything is awaited, so a concurrent request is rejected above
+    run.setStatus('executing');
+    run.addTimelineEntry('execution', 'Executing solution', 'in_progress');
+    run.emitAgentUpdate('execution', 'Executing fix', 'Applying solution...');
 
-    const solutionData = this.timeline.find(t => t.phase === 'solution_generation')?.metadata?.solution;
+    const solutionData = run.getCandidates().find(candidate => candidate.id === solutionId) || run.getSolution();
     
     if (!solutionData) {
-      this.emitChatMessage('agent', '❌ Solution data not found.');
+      run.emitChatMessage('agent', '❌ Solution data not found.');
       return;
     }
 
-    await this.sleep(2000);
+    // The picked candidate becomes the incident's solution (what a known fix is later learned from)
+    if (solutionData.id !== run.getSolution()?.id) {
+      run.updateTimelineEntry('solution_generation', 'completed', {
+        solution: solutionData,
+        solutionRecordId: solutionData.metadata?.solutionRecordId,
+      });
+    }
 
-    const result = await solutionExecutor.execute(solutionData);
+    let result: Awaited<ReturnType<typeof solutionExecutor.execute>>;
+    try {
+      await this.sleep(2000, run.signal);
+      result = await solutionExecutor.execute(solutionData, run.userId, run.signal);
+    } catch (error) {
+      if (!isCancelledError(error, run.signal)) throw error;
+      this.markCancelled(run);
+      return;
+    }
+
+    const solutionRecordId = run.getPhaseMetadata('solution_generation')?.solutionRecordId;
+    if (solutionRecordId) {
+      run.persist('execution result', () => incidentStore.saveExecutionResult(solutionRecordId, result));
+    }
 
     if (result.success) {
-      this.updateTimelineEntry('execution', 'completed', { result });
+      const executedAt = new Date();
+      run.updateTimelineEntry('execution', 'completed', { result, executedAt: executedAt.toISOString() });
       
-      const mergeMessage = (result as any).merged 
-        ? `\n\n🚀 **PR Merged Automatically**\n\nPull request #${(result as any).prNumber} has been created and merged.\n**Merge Commit:** ${(result as any).mergeCommitSha?.substring(0, 7) || 'N/A'}`
+      const mergeMessage = result.merged
+        ? `\n\n🚀 **PR Merged Automatically**\n\nPull request #${result.prNumber} has been created and merged.\n**Merge Commit:** ${result.mergeCommitSha?.substring(0, 7) || 'N/A'}`
         : '';
       
-      this.emitChatMessage(
-        'agent',
-        `🎉 **Solution Executed Successfully**\n\n${result.message}${mergeMessage}\n\n${result.url ? `**Link:** ${result.url}` : ''}\n\nMonitoring system health...`
-      );
-
-      await this.sleep(2000);
-
-      // Monitor results
-      const monitoring = await solutionExecutor.monitorSolution(solutionId);
-      this.emitChatMessage(
+      run.emitChatMessage(
         'agent',
-        `📈 **Monitoring Results**\n\nError rate: ${monitoring.errorRate}%\nSuccess rate: ${monitoring.successRate}%\n\n${monitoring.recommendation}`
+        `🎉 **Solution Executed Successfully**\n\n${result.message}${mergeMessage}\n\n${result.url ? `**Link:** ${result.url}` : ''}\n\nVerifying the fix in production...`
       );
 
-      if (this.currentIncident) {
-        this.currentIncident.status = 'resolved';
-        this.currentIncident.resolvedAt = new Date();
-        this.emitStatusChange('resolved');
-      }
-
-      this.emitChatMessage('agent', '✅ **Incident Resolved** - All systems nominal.');
+      await this.verifyFix(run, solutionData, result, executedAt);
     } else {
-      this.updateTimelineEntry('execution', 'failed', { result });
-      this.emitChatMessage('agent', `❌ **Execution Failed**\n\n${result.error || result.message}`);
-      this.emitStatusChange('failed');
+      run.updateTimelineEntry('execution', 'failed', { result });
+      run.emitChatMessage('agent', `❌ **Execution Failed**\n\n${result.error || result.message}`);
+      run.setStatus('failed');
     }
   }
 
-  // Helper methods
-  private addTimelineEntry(
-    phase: AgentPhase,
-    title: string,
-    status: TimelineEntry['status'],
-    metadata?: any
-  ): void {
-    const entry: TimelineEntry = {
-      id: `timeline-${Date.now()}`,
-      timestamp: new Date(),
-      phase,
-      title,
-      description: '',
-      status,
-      metadata,
-    };
-
-    this.timeline.push(entry);
-    this.emitTimelineAdd(entry);
-  }
-
-  private updateTimelineEntry(
-    phase: AgentPhase,
-    status: TimelineEntry['status'],
-    metadata?: any
-  ): void {
-    const entry = this.timeline.find(t => t.phase === phase);
-    if (entry) {
-      entry.status = status;
-      if (metadata) {
-        entry.metadata = { ...entry.metadata, ...metadata };
+  /**
+   * Watch production after an executed fix: the incident is resolved only if
+   * it recovered. A fix that didn't is rolled back (unless AutoRevert is off)
+   * and the incident fails; one that never deployed fails without a rollback.
+   * A pull request awaiting review keeps the incident verifying until it is
+   * merged, or back to proposing when it is closed.
+   */
+  private async verifyFix(
+    run: IncidentRun,
+    solution: Solution,
+    result: Awaited<ReturnType<typeof solutionExecutor.execute>>,
+    executedAt: Date
+  ): Promise<void> {
+    run.addTimelineEntry('verification', 'Verifying fix in production', 'in_progress');
+    run.emitAgentUpdate('verification', 'Verifying fix', 'Comparing the error rate with before the incident...');
+    run.setStatus('verifying');
+
+    const incidentStartedAt = new Date(run.incident?.startedAt || run.startedAt);
+    const issueId = run.metadata?.issueId;
+    let verification: FixVerification;
+    try {
+      verification = run.project
+        ? await fixVerifier.verify(run.project, { solution, ...result, executedAt }, {
+            incidentStartedAt,
+            issueId,
+            userId: run.userId,
+            signal: run.signal,
+            onAwaitingMerge: (prNumber) => {
+              run.updateTimelineEntry('verification', 'in_progress', { awaitingMerge: prNumber });
+              run.emitChatMessage(
+                'agent',
+                `⏳ **Awaiting Merge**\n\nPull request #${prNumber} needs to be merged before the fix can be verified. Verification starts once it is merged and deployed.`
+              );
+            },
+          })
+        : { outcome: 'not_deployed', reason: 'The incident has no project whose logs could be watched' };
+    } catch (error: any) {
+      if (isCancelledError(error, run.signal)) {
+        this.markCancelled(run);
+        return;
       }
-      this.emitTimelineAdd(entry);
+      logger.error('Error verifying fix:', error);
+      run.updateTimelineEntry('verification', 'failed', { error: error.message });
+      run.emitChatMessage('agent', `⚠️ **Verification Failed**\n\n${error.message}\n\nThe fix stays in place, but the incident is not marked resolved.`);
+      run.setStatus('failed');
+      return;
     }
-  }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
+    // A pull request merged while verification waited is recorded and reverted by its merge
+    const executed = verification.mergedAt
+      ? { ...result, merged: true, mergeCommitSha: verification.mergeCommitSha }
+      : result;
+
+    const observed = verification.observed && verification.baseline
+      ? `\n\n**Error rate:** ${verification.observed.errorsPerMinute.toFixed(2)}/min after the fix (${verification.observed.errors} errors), ${verification.baseline.errorsPerMinute.toFixed(2)}/min before the incident`
+      : '';
+
+    if (verification.outcome === 'recovered') {
+      run.updateTimelineEntry('verification', 'completed', { verification });
+      run.setStatus('resolved');
+
+      // Remember the fix, so the issue coming back is recognised as a regression
+      if (issueId) {
+        const solutionRecordId = run.getPhaseMetadata('solution_generation')?.solutionRecordId;
+        run.persist('issue resolution', (incidentId) =>
+          issueTracker.markResolved(issueId, {
+            incidentId,
+            solutionId: solutionRecordId,
+            type: solution.type,
+            url: executed.url,
+            prNumber: executed.prNumber,
+            commitSha: executed.mergeCommitSha,
+            deploymentId: verification.deploymentId || executed.deploymentId,
+          })
+        );
+      }
 
-  // Socket.io emission methods
-  private emitIncidentDetected(incident: Incident): void {
-    this.io?.emit('incident:detected', { incident });
-  }
+      run.emitChatMessage('agent', `✅ **Incident Resolved** - Verified in production.\n\n${verification.reason}${observed}`);
+      return;
+    }
 
-  private emitAgentUpdate(phase: AgentPhase, status: string, message: string, data?: any): void {
-    this.io?.emit('agent:update', { phase, status, message, data });
-  }
+    if (verification.outcome === 'not_merged') {
+      // The fix was turned down in review, so another candidate can be executed
+      run.updateTimelineEntry('verification', 'failed', { verification });
+      run.emitChatMessage('agent', `🚫 **Fix Not Merged**\n\n${verification.reason}. The incident is open again: approve another solution when ready.`);
+      run.setStatus('proposing');
+      return;
+    }
 
-  private emitLogsStream(logs: any[]): void {
-    this.io?.emit('logs:stream', { logs });
-  }
+    if (verification.outcome === 'not_deployed' || verification.outcome === 'no_source_control') {
+      run.updateTimelineEntry('verification', 'failed', { verification });
+      run.emitChatMessage(
+        'agent',
+        `⏳ **Fix Not Verified**\n\n${verification.reason}.\n\nThe incident is not marked resolved; resolve it once the fix is live and errors are back to normal.`
+      );
+      run.setStatus('failed');
+      return;
+    }
 
-  private emitSolutionProposed(solution: Solution, rootCause: RootCause): void {
-    this.io?.emit('solution:proposed', { solution, rootCause });
-  }
+    run.emitChatMessage('agent', `📉 **Fix Did Not Recover Production**\n\n${verification.reason}${observed}`);
 
-  private emitStatusChange(status: string): void {
-    this.io?.emit('status:change', { status, incident: this.currentIncident });
-  }
+    if (!resolveVerificationConfig(run.project?.verificationConfig).autoRevert) {
+      run.updateTimelineEntry('verification', 'failed', { verification });
+      run.emitChatMessage('agent', 'AutoRevert is disabled for this project, so the fix stays in place. Please roll it back if needed.');
+      run.setStatus('failed');
+      return;
+    }
 
-  private emitChatMessage(role: 'user' | 'agent' | 'system', content: string): void {
-    const message: ChatMessage = {
-      id: `msg-${Date.now()}`,
-      role,
-      content,
-      timestamp: new Date(),
-    };
-    this.io?.emit('chat:message', { message });
+    // The fix is live, so rolling it back is not cancellable
+    run.emitAgentUpdate('verification', 'Rolling back fix', 'Reverting the fix...');
+    const rollback = await solutionExecutor.rollbackSolution(solution, executed, run.userId, incidentStartedAt);
+    run.updateTimelineEntry('verification', 'failed', { verification, rollback });
+    run.emitChatMessage(
+      'agent',
+      rollback.success
+        ? `⏪ **Fix Rolled Back**\n\n${rollback.message}${rollback.url ? `\n\n**Link:** ${rollback.url}` : ''}`
+        : `❌ **Rollback Failed**\n\n${rollback.error || rollback.message}\n\nPlease roll the fix back manually.`
+    );
+    run.setStatus('failed');
   }
 
-  private emitTimelineAdd(entry: TimelineEntry): void {
-    this.io?.emit('timeline:add', { entry });
+  // Helper methods
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return sleep(ms, signal);
   }
 }
 
 export default new AgentOrchestrator();
-
@@ -1,106 +1,158 @@
 import GitHubMCPClient from '../mcp/github';
-import SearchMCPClient from '../mcp/search';
-import groqClient from '../groq/client';
+import llmClient from '../llm/client';
 import IntegrationManager from '../services/integration-manager';
+import sourceControlManager, { SourceControlProvider } from '../integrations/vcs';
+import deploymentCorrelator from '../services/deployment-correlator';
+import blameRanker, { extractBlameTargets } from '../services/blame-ranker';
+import searchProviderManager, { ProviderOutcome } from '../services/search-providers';
+import { mockResearchResults } from '../data/mock-scenarios';
 import logger from '../utils/logger';
-import { CommitInfo, ResearchResult } from '../utils/types';
+import { isCancelledError, throwIfCancelled } from '../utils/cancellation';
+import { BlameSuspect, CommitInfo, ResearchResult } from '../utils/types';
+import type { ProjectRecord } from './incident-run';
 
 /**
  * Incident Researcher (Using REAL APIs and E2B MCP Servers)
  * 
  * Researches incidents using:
- * - REAL GitHub API for commit history (not MCP)
- * - Perplexity MCP for AI-powered research
- * - Brave Search MCP for web search
- * - Exa MCP for semantic search
+ * - The project's source control (GitHub or a local git repository) for commit history
+ * - The configured search providers (Perplexity, Exa, Brave via MCP, HTTP endpoints)
  */
 export class IncidentResearcher {
   private githubMCPClient: GitHubMCPClient;
-  private searchClient: SearchMCPClient;
-  private userId: string = 'demo-user';
 
   constructor() {
     this.githubMCPClient = new GitHubMCPClient();
-    this.searchClient = new SearchMCPClient();
-  }
-
-  setUserId(userId: string): void {
-    this.userId = userId;
   }
 
   /**
-   * Correlate incident with recent commits via REAL GitHub API
+   * Correlate incident with commits of the project's repository
+   *
+   * With the incident's project and metadata, the commits deployed between the
+   * last healthy and the first failing deployment are ranked first; recent
+   * commits are used when no deployment range can be found.
    */
-  async correlateCommits(errorPattern: string, owner?: string, repo?: string): Promise<{
+  async correlateCommits(
+    errorPattern: string,
+    owner?: string,
+    repo?: string,
+    userId: string = 'demo-user',
+    signal?: AbortSignal,
+    context?: { project?: ProjectRecord | null; metadata?: Record<string, any> }
+  ): Promise<{
     commits: CommitInfo[];
     suspectedCommit: CommitInfo | null;
     diff: string;
+    blameSuspects: BlameSuspect[]; // Commits that last touched the top stack frame lines
   }> {
-    logger.info('Correlating commits with error pattern via REAL GitHub API...');
-
-    if (!owner || !repo) {
-      logger.warn('GitHub owner/repo not provided. Cannot fetch commits.');
-      return { commits: [], suspectedCommit: null, diff: '' };
-    }
+    logger.info('Correlating commits with error pattern...');
 
     let commits: CommitInfo[] = [];
+    let suspectedCommit: CommitInfo | null = null;
+    let blameSuspects: BlameSuspect[] = [];
+    let failingSha: string | undefined;
+    let vcs: SourceControlProvider | null = null;
 
     try {
-      // Try REAL GitHub API first
-      const integrationManager = new IntegrationManager(this.userId);
-      const github = await integrationManager.getGitHubIntegration();
-
-      if (github) {
-        logger.info(`Using REAL GitHub API for ${owner}/${repo}`);
-        const githubCommits = await github.getCommits(owner, repo, { per_page: 10 });
-        
-        commits = githubCommits.map((commit: any) => ({
-          sha: commit.sha?.substring(0, 12) || '',
-          author: commit.commit.author.name || commit.author?.login || 'Unknown',
-          message: commit.commit.message || '',
-          timestamp: new Date(commit.commit.author.date),
-          filesChanged: commit.files?.map((f: any) => f.filename) || [],
-          additions: commit.stats?.additions || 0,
-          deletions: commit.stats?.deletions || 0,
-        }));
-
-        logger.info(`Found ${commits.length} recent commits via REAL GitHub API`);
-      } else {
-        logger.warn('No GitHub integration found. Cannot fetch commits.');
-        return { commits: [], suspectedCommit: null, diff: '' };
+      const integrationManager = new IntegrationManager(userId);
+      vcs = await sourceControlManager.forProject(
+        { githubOwner: owner, githubRepo: repo, sourceControl: context?.project?.sourceControl },
+        userId,
+        signal
+      );
+      if (!vcs) {
+        logger.warn('No source control available for the project. Cannot fetch commits.');
+        return { commits: [], suspectedCommit: null, diff: '', blameSuspects: [] };
+      }
+
+      if (context?.project && context.metadata) {
+        try {
+          const correlation = await deploymentCorrelator.correlate({
+            project: context.project,
+            metadata: context.metadata,
+            vcs,
+            vercel: await integrationManager.getVercelIntegration(),
+            signal,
+          });
+          if (correlation && correlation.commits.length > 0) {
+            commits = correlation.commits;
+            suspectedCommit = correlation.suspect;
+            failingSha = correlation.bad.sha || undefined;
+            logger.info(`Found ${commits.length} commits between deployments ${correlation.good?.id} and ${correlation.bad.id}`);
+          }
+        } catch (error: any) {
+          if (isCancelledError(error, signal)) throw error;
+          logger.warn(`Deployment correlation failed, falling back to recent commits: ${error.message}`);
+        }
+      }
+
+      if (commits.length === 0) {
+        logger.info(`Fetching recent commits of ${vcs.repository} (${vcs.type})`);
+        commits = await vcs.getCommits({ limit: 10 });
+        logger.info(`Found ${commits.length} recent commits`);
+      }
+
+      // Blame the lines of the top stack frames (at the failing deployment's commit when known)
+      const targets = extractBlameTargets(context?.metadata || {});
+      if (targets.length > 0) {
+        try {
+          blameSuspects = await blameRanker.rank({ vcs, ref: failingSha, targets, signal });
+        } catch (error: any) {
+          if (isCancelledError(error, signal)) throw error;
+          logger.warn(`Blame ranking failed: ${error.message}`);
+        }
       }
     } catch (error: any) {
-      logger.error('Error fetching commits via REAL GitHub API:', error);
-      return { commits: [], suspectedCommit: null, diff: '' };
+      if (isCancelledError(error, signal)) throw error;
+      logger.error('Error fetching commits:', error);
+      return { commits: [], suspectedCommit: null, diff: '', blameSuspects: [] };
     }
 
     if (commits.length === 0) {
       logger.warn('No commits found');
-      return { commits: [], suspectedCommit: null, diff: '' };
+      return { commits: [], suspectedCommit: null, diff: '', blameSuspects: [] };
     }
 
-    // Use Groq to analyze which commit is suspicious
-    const suspectedCommit = await groqClient.analyzeCommits(commits, errorPattern);
+    // Then the commit that most recently and closely touched the failing lines
+    if (!suspectedCommit) {
+      suspectedCommit = this.pickBlamedCommit(commits, blameSuspects);
+    }
+
+    // Use the LLM to analyze which commit is suspicious when the evidence doesn't single one out
+    if (!suspectedCommit) {
+      const analysis = await llmClient.analyzeCommits(commits, errorPattern, context?.project?.llmConfig, signal);
+      suspectedCommit = analysis ? analysis.commit : null;
+      if (analysis && suspectedCommit?.evidence) {
+        suspectedCommit = {
+          ...suspectedCommit,
+          evidence: {
+            ...suspectedCommit.evidence,
+            method: 'llm',
+            reasons: [
+              ...suspectedCommit.evidence.reasons,
+              'No commit in the range touched the stack trace files; picked by the LLM from the error pattern',
+              analysis.reasoning,
+            ],
+          },
+        };
+      }
+    }
     
     if (!suspectedCommit) {
       logger.warn('Could not identify suspected commit');
-      return { commits, suspectedCommit: null, diff: '' };
+      return { commits, suspectedCommit: null, diff: '', blameSuspects };
     }
 
     logger.info(`Suspected commit identified: ${suspectedCommit.sha}`);
 
-    // Fetch diff via REAL GitHub API
+    // Fetch the diff of the suspected commit
     let diff = '';
     try {
-      const integrationManager = new IntegrationManager(this.userId);
-      const github = await integrationManager.getGitHubIntegration();
-      
-      if (github) {
-        diff = await github.getCommitDiff(suspectedCommit.sha, owner, repo);
-        logger.info(`Fetched diff via REAL GitHub API (${diff.length} chars)`);
-      }
+      diff = await vcs!.getCommitDiff(suspectedCommit.sha);
+      logger.info(`Fetched diff of ${suspectedCommit.sha} (${diff.length} chars)`);
     } catch (error: any) {
-      logger.error('Error fetching diff via REAL GitHub API:', error);
+      if (isCancelledError(error, signal)) throw error;
+      logger.error('Error fetching diff:', error);
       diff = '';
     }
 
@@ -108,77 +160,61 @@ export class IncidentResearcher {
       commits,
       suspectedCommit,
       diff,
+      blameSuspects,
     };
   }
 
   /**
-   * Research with Perplexity MCP
+   * The correlated commit ranked first by blame, with the blamed lines as evidence
    */
-  async researchWithPerplexity(
-    errorMessage: string,
-    context: string
-  ): Promise<ResearchResult[]> {
-    logger.info('Researching with Perplexity MCP...');
-    
-    const response = await this.searchClient.researchError(errorMessage, context);
-    
-    logger.info(`Found research results from Perplexity MCP: ${response.sources.length} sources`);
-    return response.sources;
-  }
-
-  /**
-   * Search web with Brave Search MCP
-   */
-  async searchWeb(
-    errorMessage: string,
-    technology: string
-  ): Promise<ResearchResult[]> {
-    logger.info('Searching web with Brave Search MCP...');
-
-    const response = await this.searchClient.searchSimilarIssues(errorMessage, technology);
-    
-    logger.info(`Found ${response.results.length} Brave search results via MCP`);
-    return response.results;
-  }
-
-  /**
-   * Search with Exa AI MCP
-   */
-  async searchWithExa(
-    errorMessage: string,
-    context: string
-  ): Promise<ResearchResult[]> {
-    logger.info('Searching with Exa AI MCP...');
-
-    const response = await this.searchClient.searchSimilarIncidents(errorMessage, context);
-    
-    logger.info(`Found ${response.results.length} Exa search results via MCP`);
-    return response.results;
+  private pickBlamedCommit(commits: CommitInfo[], blameSuspects: BlameSuspect[]): CommitInfo | null {
+    for (const suspect of blameSuspects) {
+      const commit = commits.find((c) => c.sha === suspect.sha);
+      if (!commit) continue;
+
+      const reasons = (commit.evidence?.reasons || []).filter((reason) => !reason.startsWith('None of its files'));
+      return {
+        ...commit,
+        evidence: {
+          matchedFiles: [],
+          ...commit.evidence,
+          method: 'blame',
+          score: suspect.score,
+          reasons: [
+            ...reasons,
+            ...suspect.lines.map((line) => `Last changed ${line.file}:${line.line}, near stack frame #${line.frame}`),
+          ],
+        },
+      };
+    }
+    return null;
   }
 
   /**
-   * Comprehensive research combining all MCP sources
+   * Research the error with the search providers
    */
   async comprehensiveResearch(
     errorPattern: string,
     technology: string,
-    _commitContext?: CommitInfo
+    _commitContext?: CommitInfo,
+    signal?: AbortSignal
   ): Promise<{
-    perplexityResults: ResearchResult[];
-    braveResults: ResearchResult[];
-    exaResults: ResearchResult[];
     allResults: ResearchResult[];
+    providers: ProviderOutcome[];
   }> {
-    logger.info('Starting comprehensive research via E2B MCP servers...');
+    logger.info(`Starting research via search providers: ${searchProviderManager.getProviderNames().join(', ')}`);
 
-    // Use comprehensive search from SearchMCPClient
     const query = `${errorPattern} ${technology}`;
-    const results = await this.searchClient.comprehensiveSearch(query);
+    const { results, providers } = await searchProviderManager.search(query, { signal });
+    throwIfCancelled(signal);
 
-    logger.info(`Research complete via MCP: ${results.allResults.length} total results`);
-    logger.info(`Available MCP servers: ${this.searchClient.getAvailableServers().join(', ')}`);
+    if (results.length === 0) {
+      logger.info('Using mock research results (no search provider returned results)');
+      return { allResults: mockResearchResults.slice(0, 3), providers };
+    }
 
-    return results;
+    logger.info(`Research complete: ${results.length} total results`);
+    return { allResults: results, providers };
   }
 
   /**
@@ -1,13 +1,42 @@
-import groqClient from '../groq/client';
+import llmClient, { RejectedPatch } from '../llm/client';
+import { LLMConfig } from '../llm';
+import { PromptContext } from '../llm/context-packer';
+import { StackFrameRef } from '../llm/evidence';
 import logger from '../utils/logger';
-import { RootCause, Solution, CommitInfo, ResearchResult } from '../utils/types';
-import Sandbox from 'e2b';
+import {
+  RootCause,
+  Solution,
+  CommitInfo,
+  ResearchResult,
+  BlameSuspect,
+  TestResult,
+  PatchValidation,
+  TypeCheckResult,
+  ErrorReport,
+  RegressionTest,
+} from '../utils/types';
+import { isCancelledError } from '../utils/cancellation';
+import patchApplier, { PatchedFile } from '../services/patch-applier';
+import patchTester, { PatchCheckout } from '../services/patch-tester';
+import typeChecker from '../services/type-checker';
+import regressionTestPlanner from '../services/regression-test-planner';
+import { formatDiagnostic } from '../utils/test-output';
+import { parseUnifiedDiff } from '../utils/unified-diff';
+import sourceControlManager, { SourceControlTarget } from '../integrations/vcs';
+
+const MAX_TYPE_REPAIRS = 1; // Regenerations of a patch that adds type errors
+
+/**
+ * Project a solution is generated for: its repository and LLM configuration
+ */
+export type SolverProject = SourceControlTarget & { llmConfig?: LLMConfig | null };
 
 /**
  * Solution Solver
  * 
- * Uses Groq AI to diagnose root cause and generate solutions.
- * Tests solutions in E2B sandbox before proposing.
+ * Uses the project's LLM to diagnose root cause and generate solutions.
+ * Tests solutions against the repository in a sandbox before proposing, and
+ * adds a verified regression test of the reported error to patches.
  */
 export class SolutionSolver {
   /**
@@ -17,77 +46,94 @@ export class SolutionSolver {
     logAnalysis: any,
     suspectedCommit: CommitInfo,
     diff: string,
-    researchResults: ResearchResult[]
-  ): Promise<RootCause> {
-    logger.info('Diagnosing root cause with Groq AI...');
-
-    const rootCause = await groqClient.diagnoseRootCause(
+    researchResults: ResearchResult[],
+    blameSuspects: BlameSuspect[] = [],
+    stack: { frames: StackFrameRef[]; filePath?: string; fileContent?: string } = { frames: [] },
+    llmConfig?: LLMConfig | null,
+    signal?: AbortSignal
+  ): Promise<{ rootCause: RootCause; promptContext: PromptContext }> {
+    logger.info('Diagnosing root cause with the LLM...');
+
+    const diagnosis = await llmClient.diagnoseRootCause(
       logAnalysis,
       suspectedCommit,
       diff,
-      researchResults
+      researchResults,
+      blameSuspects,
+      stack,
+      llmConfig,
+      signal
     );
 
-    logger.info(`Root cause diagnosed with ${rootCause.confidence}% confidence`);
-    return rootCause;
+    logger.info(`Root cause diagnosed with ${diagnosis.rootCause.confidence}% confidence`);
+    return diagnosis;
   }
 
   /**
    * Generate solution based on root cause
-   * Now reads the actual file from GitHub to generate REAL code fixes
+   * Now reads the actual file from the project's repository to generate REAL code fixes
    */
   async generateSolution(
     rootCause: RootCause,
     diff: string,
     filePath?: string,
     fileContent?: string,
-    githubOwner?: string,
-    githubRepo?: string
-  ): Promise<Solution> {
-    logger.info('Generating solution with Groq AI...');
-
-    // If file path is provided but content is not, fetch it from GitHub
+    frames: StackFrameRef[] = [],
+    project?: SolverProject | null,
+    userId: string = 'demo-user',
+    rejected?: RejectedPatch | null,
+    signal?: AbortSignal
+  ): Promise<{ solution: Solution; promptContext: PromptContext }> {
+    logger.info(rejected ? 'Regenerating the rejected solution with the LLM...' : 'Generating solution with the LLM...');
+
+    // If file path is provided but content is not, fetch it from the repository
     let actualFileContent = fileContent;
-    if (filePath && !actualFileContent && githubOwner && githubRepo) {
+    if (filePath && !actualFileContent && project) {
       try {
-        logger.info(`Reading actual file from GitHub: ${filePath}`);
-        const IntegrationManager = (await import('../services/integration-manager')).IntegrationManager;
-        const integrationManager = new IntegrationManager('demo-user');
-        const github = await integrationManager.getGitHubIntegration();
+        logger.info(`Reading actual file from the repository: ${filePath}`);
+        const vcs = await sourceControlManager.forProject(project, userId, signal);
         
-        if (github) {
-          const fileData = await github.getFileContent(filePath, 'main', githubOwner, githubRepo);
+        if (vcs) {
+          const fileData = await vcs.getFileContent(filePath);
           actualFileContent = fileData.content;
-          logger.info(`✅ Read ${filePath} from GitHub (${actualFileContent.length} chars)`);
+          logger.info(`✅ Read ${filePath} from ${vcs.repository} (${actualFileContent.length} chars)`);
         }
       } catch (error: any) {
-        logger.warn(`Could not read file ${filePath} from GitHub: ${error.message}`);
+        if (isCancelledError(error, signal)) throw error;
+        logger.warn(`Could not read file ${filePath} from the repository: ${error.message}`);
       }
     }
 
-    const solution = await groqClient.generateSolution(
+    const generated = await llmClient.generateSolution(
       rootCause, 
       diff, 
       actualFileContent || undefined,
-      filePath || undefined
+      filePath || undefined,
+      frames,
+      project?.llmConfig,
+      rejected,
+      signal
     );
     
-    logger.info(`Solution generated: ${solution.type} (${solution.confidence}% confidence)`);
-    return solution;
+    logger.info(`Solution generated: ${generated.solution.type} (${generated.solution.confidence}% confidence)`);
+    return generated;
   }
 
   /**
-   * Test solution in E2B sandbox before proposing
+   * Test a solution before proposing it: patches are checked to apply to the
+   * default branch, then tested in a sandbox against the repository (install,
+   * type-check, lint and the project's tests)
    */
-  async testSolution(solution: Solution): Promise<Solution> {
-    logger.info('Testing solution in E2B sandbox...');
+  async testSolution(solution: Solution, checkout?: PatchCheckout | null, signal?: AbortSignal): Promise<Solution> {
+    logger.info('Testing solution...');
 
     try {
-      let testResult;
+      let testResult: TestResult;
+      let patchValidation: PatchValidation | undefined;
+      let typeCheck: TypeCheckResult | undefined;
 
-      if (solution.code) {
-        // Test code in E2B sandbox
-        testResult = await this.testCodeInSandbox(solution);
+      if (solution.type === 'patch' || solution.type === 'config_fix') {
+        ({ testResult, patchValidation, typeCheck } = await this.testPatch(solution, checkout, signal));
       } else {
         // No code to test (rollback, restart, etc.)
         testResult = { success: true, output: 'No code validation required' };
@@ -98,8 +144,11 @@ export class SolutionSolver {
       return {
         ...solution,
         testResults: testResult,
+        ...(patchValidation && { patchValidation }),
+        ...(typeCheck && { typeCheck }),
       };
     } catch (error) {
+      if (isCancelledError(error, signal)) throw error;
       logger.error('Error testing solution:', error);
       
       return {
@@ -114,187 +163,188 @@ export class SolutionSolver {
   }
 
   /**
-   * Test code in E2B sandbox
+   * Test a patch: static checks of the diff, whether it applies to the
+   * branch the hotfix targets and type-checks there, then the project's checks
+   * in a sandbox (skipped, without failing, when no sandbox or repository is
+   * available)
    */
-  private async testCodeInSandbox(solution: Solution): Promise<{
-    success: boolean;
-    output: string;
-    errors?: string[];
-  }> {
-    const apiKey = process.env.E2B_API_KEY;
-    if (!apiKey) {
-      logger.warn('E2B_API_KEY not set. Skipping sandbox testing.');
+  private async testPatch(
+    solution: Solution,
+    checkout: PatchCheckout | null | undefined,
+    signal?: AbortSignal
+  ): Promise<{ testResult: TestResult; patchValidation?: PatchValidation; typeCheck?: TypeCheckResult }> {
+    const diffErrors = this.checkDiff(solution);
+    if (diffErrors.length > 0) {
       return {
-        success: true, // Don't block if E2B not configured
-        output: 'E2B not configured - skipped sandbox testing',
+        testResult: {
+          success: false,
+          output: `❌ Patch testing failed:\n${diffErrors.join('\n')}`,
+          errors: diffErrors,
+        },
       };
     }
 
-    let sandbox: Sandbox | null = null;
-
-    try {
-      // Create E2B sandbox
-      logger.info('Creating E2B sandbox for code testing...');
-      sandbox = await Sandbox.create({
-        apiKey,
-        timeoutMs: 30000, // 30 seconds for testing
-      });
+    if (!checkout) {
+      logger.warn('No repository for the patch. Skipping sandbox testing.');
+      return {
+        testResult: {
+          success: true, // Don't block if the patch can't be placed in the repository
+          output: 'Repository not available - skipped sandbox testing',
+          warnings: ['The patch was not tested against the repository'],
+        },
+      };
+    }
 
-      // Determine file extension from code or metadata
-      const filePath = solution.metadata?.filePath || 'test_fix.ts';
-      const extension = filePath.split('.').pop() || 'ts';
-      
-      // Write code to sandbox using echo command (E2B doesn't expose filesystem directly)
-      const testFilePath = `/tmp/test_fix.${extension}`;
-      if (!solution.code) {
-        return {
+    const target = checkout.vcs.defaultBranch;
+    const { files, validation } = await patchApplier.apply(solution.diff!, checkout.vcs, target);
+    if (!validation.applies) {
+      const conflicts = patchApplier.describeConflicts(validation);
+      logger.warn(`❌ Patch does not apply to ${target}: ${conflicts.join('; ')}`);
+      return {
+        testResult: {
           success: false,
-          output: '',
-          errors: ['Solution code is missing'],
-        };
-      }
-      const escapedCode = solution.code.replace(/'/g, "'\\''").replace(/\n/g, '\\n');
-      await sandbox.commands.run(
-        `echo '${escapedCode}' > ${testFilePath}`,
-        { timeoutMs: 5000 }
-      );
+          output: `❌ The patch does not apply to ${target}:\n${conflicts.join('\n')}`,
+          errors: conflicts,
+        },
+        patchValidation: validation,
+      };
+    }
 
-      // Test based on file type
-      let testOutput = '';
-      let testErrors: string[] = [];
-
-      if (extension === 'ts' || extension === 'tsx' || extension === 'js' || extension === 'jsx') {
-        // Test JavaScript/TypeScript syntax
-        try {
-          // Try to compile/check syntax
-          if (extension === 'ts' || extension === 'tsx') {
-            const result = await sandbox.commands.run(
-              `npx tsc --noEmit ${testFilePath} 2>&1 || echo "Syntax check complete"`,
-              { timeoutMs: 10000 }
-            );
-            testOutput = result.stdout || '';
-            if (result.exitCode !== 0 && result.stderr) {
-              testErrors.push(`TypeScript compilation error: ${result.stderr}`);
-            }
-          } else {
-            // For JS, just check if it can be parsed
-            const result = await sandbox.commands.run(
-              `node -c ${testFilePath} 2>&1 || echo "Syntax check complete"`,
-              { timeoutMs: 10000 }
-            );
-            testOutput = result.stdout || '';
-            if (result.exitCode !== 0 && result.stderr) {
-              testErrors.push(`JavaScript syntax error: ${result.stderr}`);
-            }
-          }
-        } catch (error: any) {
-          testErrors.push(`Syntax check failed: ${error.message}`);
-        }
-      } else if (extension === 'py') {
-        // Test Python syntax
-        try {
-          const result = await sandbox.commands.run(
-            `python3 -m py_compile ${testFilePath} 2>&1 || echo "Syntax check complete"`,
-            { timeoutMs: 10000 }
-          );
-          testOutput = result.stdout || '';
-          if (result.exitCode !== 0 && result.stderr) {
-            testErrors.push(`Python syntax error: ${result.stderr}`);
-          }
-        } catch (error: any) {
-          testErrors.push(`Python syntax check failed: ${error.message}`);
-        }
-      } else {
-        // For other file types, verify file exists
-        const checkResult = await sandbox.commands.run(
-          `test -f ${testFilePath} && echo "File exists" || echo "File not found"`,
-          { timeoutMs: 5000 }
-        );
-        if (checkResult.stdout?.includes('File exists')) {
-          testOutput = 'File written successfully - basic validation passed';
-        } else {
-          testErrors.push('File was not created');
-        }
-      }
+    const typeCheck = await this.typeCheck(files, checkout, target, signal);
+    if (typeCheck && !typeCheck.success) {
+      const errors = typeCheck.diagnostics.filter((d) => d.severity === 'error').map(formatDiagnostic);
+      logger.warn(`❌ Patch adds ${errors.length} type error(s) on ${target}`);
+      return {
+        testResult: {
+          success: false,
+          output: `❌ The patch adds ${errors.length} type error(s) on ${target}:\n${errors.join('\n')}`,
+          errors,
+          diagnostics: typeCheck.diagnostics,
+        },
+        patchValidation: validation,
+        typeCheck,
+      };
+    }
 
-      // CRITICAL: Validate that code is actual code, not just text/description
-      const codeText = solution.code || '';
-      const isTextDescription = 
-        codeText.toLowerCase().includes('optimized code will be provided') ||
-        codeText.toLowerCase().includes('code will be provided') ||
-        codeText.toLowerCase().includes('after refactoring') ||
-        codeText.toLowerCase().includes('focusing on') ||
-        (codeText.length < 50 && !codeText.includes('function') && !codeText.includes('const') && !codeText.includes('import') && !codeText.includes('export'));
-
-      if (isTextDescription) {
-        testErrors.push('Code appears to be a text description, not actual code. Must contain real code.');
-        logger.error('❌ E2B TEST FAILED: Solution code is text description, not actual code!');
-        logger.error(`Code content: ${codeText.substring(0, 200)}...`);
-      }
+    const result = await patchTester.test(solution.diff!, checkout, signal);
+    if (!result) {
+      logger.warn('No sandbox configured (E2B_API_KEY or SANDBOX_CONFIG). Skipping sandbox testing.');
+      return {
+        testResult: {
+          success: true, // Don't block if no sandbox is configured
+          output: `Patch applies to ${target}${validation.clean ? '' : ' (with offset or fuzz)'}; sandbox not configured - skipped sandbox testing`,
+          warnings: ['The patch was not tested against the repository'],
+        },
+        patchValidation: validation,
+        typeCheck: typeCheck || undefined,
+      };
+    }
+    return { testResult: result, patchValidation: validation, typeCheck: typeCheck || undefined };
+  }
 
-      // Basic validation checks
-      const hasDescription = solution.description.length > 0;
-      const hasSteps = solution.steps.length > 0;
-      const hasValidCode = codeText.length > 0;
+  /**
+   * Add a regression test to a patch that passed testing: the LLM writes a
+   * test reproducing the reported error, which must fail on the original code
+   * and pass on the patched code in the sandbox. A test that can't be
+   * generated or verified doesn't block the patch, but isn't committed.
+   */
+  async addRegressionTest(
+    solution: Solution,
+    report: ErrorReport | null,
+    checkout: PatchCheckout | null | undefined,
+    llmConfig?: LLMConfig | null,
+    signal?: AbortSignal
+  ): Promise<Solution> {
+    if (solution.type !== 'patch' || !solution.diff || !solution.testResults?.success || !report || !checkout) {
+      return solution;
+    }
 
-      if (!hasValidCode) {
-        testErrors.push('Code is empty');
-      } else if (codeText.length < 50) {
-        testErrors.push('Code is too short - likely not a complete file');
-      }
-      if (!hasDescription) {
-        testErrors.push('Description is missing');
-      }
-      if (!hasSteps) {
-        testErrors.push('Solution steps are missing');
+    try {
+      const { files, validation } = await patchApplier.apply(solution.diff, checkout.vcs, checkout.ref);
+      const plan = validation.applies ? await regressionTestPlanner.plan(files, checkout.vcs, checkout.ref) : null;
+      if (!plan) {
+        logger.info('No Vitest, Jest or Mocha setup for the patched files - skipping the regression test');
+        return solution;
       }
 
-      // Check for actual code patterns
-      const hasCodePatterns = 
-        codeText.includes('function') ||
-        codeText.includes('const') ||
-        codeText.includes('let') ||
-        codeText.includes('var') ||
-        codeText.includes('import') ||
-        codeText.includes('export') ||
-        codeText.includes('class') ||
-        codeText.includes('interface') ||
-        codeText.includes('type') ||
-        codeText.includes('=') ||
-        codeText.includes('{') ||
-        codeText.includes('(');
-
-      if (!hasCodePatterns && codeText.length > 0) {
-        testErrors.push('Code does not contain valid code patterns (functions, variables, imports, etc.)');
-      }
+      logger.info(`Generating a ${plan.framework} regression test (${plan.path}) with the LLM...`);
+      const generated = await llmClient.generateRegressionTest(
+        report,
+        solution.diff,
+        { path: plan.target.oldPath || plan.target.path, content: plan.target.before || '' },
+        plan,
+        llmConfig,
+        signal
+      );
+      const test = { path: plan.path, ...generated, framework: plan.framework, command: plan.command };
+
+      const result = await patchTester.verifyRegressionTest(test, solution.diff, checkout, signal);
+      const regressionTest: RegressionTest = result
+        ? {
+            ...test,
+            status: result.verified ? 'verified' : 'rejected',
+            ...(result.reason && { reason: result.reason }),
+            ...(result.verification && { verification: result.verification }),
+          }
+        : { ...test, status: 'unverified', reason: 'No sandbox configured to run the test' };
 
-      const success = testErrors.length === 0;
+      logger.info(`Regression test ${plan.path}: ${regressionTest.status.toUpperCase()}${regressionTest.reason ? ` (${regressionTest.reason})` : ''}`);
+      return { ...solution, regressionTest };
+    } catch (error: any) {
+      if (isCancelledError(error, signal)) throw error;
+      logger.warn(`Could not add a regression test: ${error.message}`);
+      return solution;
+    }
+  }
 
-      return {
-        success,
-        output: success 
-          ? `✅ Code tested successfully in E2B sandbox\n${testOutput || 'Syntax validation passed'}`
-          : `❌ Code testing failed:\n${testErrors.join('\n')}`,
-        errors: testErrors.length > 0 ? testErrors : undefined,
-      };
+  /**
+   * Type-check the patched files in process; a check that can't run doesn't block the sandbox tests
+   */
+  private async typeCheck(
+    files: PatchedFile[],
+    checkout: PatchCheckout,
+    ref: string,
+    signal?: AbortSignal
+  ): Promise<TypeCheckResult | null> {
+    try {
+      return await typeChecker.check(files, checkout.vcs, ref, signal);
     } catch (error: any) {
-      logger.error('Error testing code in E2B sandbox:', error);
-      return {
-        success: false,
-        output: '',
-        errors: [`E2B sandbox test failed: ${error.message}`],
-      };
-    } finally {
-      // Cleanup sandbox
-      if (sandbox) {
-        try {
-          await sandbox.kill();
-          logger.info('E2B sandbox closed after testing');
-        } catch (error) {
-          logger.warn('Error closing E2B sandbox:', error);
+      if (isCancelledError(error, signal)) throw error;
+      logger.warn(`Could not type-check the patch: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Problems of a patch that make testing it pointless: no diff, a diff that
+   * changes nothing, or a missing description
+   */
+  private checkDiff(solution: Solution): string[] {
+    const errors: string[] = [];
+
+    if (!solution.diff?.trim()) {
+      errors.push('The patch has no diff');
+    } else {
+      try {
+        const changes = parseUnifiedDiff(solution.diff)
+          .flatMap((patch) => patch.hunks)
+          .flatMap((hunk) => hunk.lines)
+          .filter((line) => line[0] === '+' || line[0] === '-');
+        if (changes.length === 0) {
+          errors.push('The diff does not change any file');
         }
+      } catch (error: any) {
+        errors.push(`The diff is not a valid unified diff: ${error.message}`);
       }
     }
+    if (!solution.description) {
+      errors.push('Description is missing');
+    }
+    if (solution.steps.length === 0) {
+      errors.push('Solution steps are missing');
+    }
+
+    return errors;
   }
 
   /**
@@ -305,49 +355,132 @@ export class SolutionSolver {
     suspectedCommit: CommitInfo,
     diff: string,
     researchResults: ResearchResult[],
+    blameSuspects: BlameSuspect[],
+    frames: StackFrameRef[],
     filePath?: string,
     fileContent?: string,
-    githubOwner?: string,
-    githubRepo?: string
+    project?: SolverProject | null,
+    userId: string = 'demo-user',
+    checkout?: PatchCheckout | null,
+    signal?: AbortSignal
   ): Promise<{
     rootCause: RootCause;
     solution: Solution;
+    promptContexts: PromptContext[]; // What the diagnosis and solution prompts contained
   }> {
     // Step 1: Diagnose root cause
-    const rootCause = await this.diagnoseRootCause(
+    const diagnosis = await this.diagnoseRootCause(
       logAnalysis,
       suspectedCommit,
       diff,
-      researchResults
+      researchResults,
+      blameSuspects,
+      { frames, filePath, fileContent },
+      project?.llmConfig,
+      signal
     );
+    const rootCause = diagnosis.rootCause;
+
+    // Step 2: Generate solution (with actual file content), then test it (Step 3)
+    let rejected: RejectedPatch | null = null;
+    let generated: { solution: Solution; promptContext: PromptContext };
+    let solution: Solution;
+    for (let attempt = 0; ; attempt++) {
+      generated = await this.generateSolution(
+        rootCause, 
+        diff,
+        filePath,
+        fileContent,
+        frames,
+        project,
+        userId,
+        rejected,
+        signal
+      );
+      solution = generated.solution;
 
-    // Step 2: Generate solution (with actual file content)
-    let solution = await this.generateSolution(
-      rootCause, 
-      diff,
-      filePath,
-      fileContent,
-      githubOwner,
-      githubRepo
-    );
+      // Add file path to solution metadata if not present
+      if (!solution.metadata?.filePath && filePath) {
+        solution.metadata = {
+          ...solution.metadata,
+          filePath,
+        };
+      }
 
-    // Add file path to solution metadata if not present
-    if (!solution.metadata?.filePath && filePath) {
-      solution.metadata = {
-        ...solution.metadata,
-        filePath,
-      };
-    }
+      // Step 3: Test solution
+      solution = await this.testSolution(solution, checkout, signal);
 
-    // Step 3: Test solution
-    solution = await this.testSolution(solution);
+      // A patch that adds type errors goes back to the model with the diagnostics
+      const typeErrors = solution.typeCheck?.diagnostics.filter((d) => d.severity === 'error') || [];
+      if (typeErrors.length === 0 || attempt >= MAX_TYPE_REPAIRS) break;
+      logger.warn(`🔁 Patch adds ${typeErrors.length} type error(s); asking the LLM to repair it`);
+      rejected = { diff: solution.diff || '', reason: 'it adds type errors', errors: typeErrors.map(formatDiagnostic) };
+    }
 
     return {
       rootCause,
       solution,
+      promptContexts: [diagnosis.promptContext, generated.promptContext],
     };
   }
 
+  /**
+   * Alternatives to a solution that need no LLM: rolling back to the last
+   * healthy deployment (when the deployment bisection found one) and
+   * restarting the current deployment. Each is tested like any solution.
+   */
+  async proposeAlternatives(
+    primary: Solution,
+    suspectedCommit: CommitInfo | null,
+    signal?: AbortSignal
+  ): Promise<Solution[]> {
+    const alternatives: Solution[] = [];
+    const evidence = suspectedCommit?.evidence;
+    const goodDeployment = evidence?.goodDeployment;
+
+    if (goodDeployment && primary.type !== 'rollback') {
+      const reverted = evidence?.rangeSize;
+      alternatives.push({
+        id: `solution-${Date.now()}-rollback`,
+        type: 'rollback',
+        description: `Roll back to the last healthy deployment ${goodDeployment.id}`,
+        reasoning: `The errors started with deployment ${evidence?.badDeployment?.id || 'after it'}; ${goodDeployment.id}` +
+          `${goodDeployment.sha ? ` (${goodDeployment.sha.substring(0, 7)})` : ''} served traffic without them. ` +
+          `Rolling back reverts ${reverted !== undefined ? `${reverted} commit(s)` : 'every change since'} until a fix is deployed.`,
+        risk: 'low',
+        // Surest when the deployment bisection saw the healthy deployment serve logs without the errors
+        confidence: evidence?.method === 'deployment_bisection' && goodDeployment.logs > 0 && goodDeployment.errors === 0 ? 80 : 65,
+        estimatedTime: '1 minute',
+        steps: [
+          `Promote deployment ${goodDeployment.id} to production`,
+          'Verify the errors stopped',
+          'Fix forward and redeploy',
+        ],
+        metadata: { rollbackTarget: goodDeployment.id },
+      });
+    }
+
+    if (primary.type !== 'restart') {
+      alternatives.push({
+        id: `solution-${Date.now()}-restart`,
+        type: 'restart',
+        description: 'Redeploy the current deployment',
+        reasoning: 'Clears transient state (caches, connections, stuck instances) but keeps the current code, ' +
+          'so it only helps if the failure is not caused by a code change.',
+        risk: 'low',
+        confidence: 20,
+        estimatedTime: '3 minutes',
+        steps: ['Redeploy the current production deployment', 'Verify the errors stopped'],
+      });
+    }
+
+    const tested: Solution[] = [];
+    for (const alternative of alternatives) {
+      tested.push(await this.testSolution(alternative, null, signal));
+    }
+    return tested;
+  }
+
   /**
    * Assess solution risk
    */
@@ -0,0 +1 @@
+ALTER TYPE "incident_status" ADD VALUE 'cancelled';
\ No newline at end of file
@@ -0,0 +1,44 @@
+DO $$ BEGIN
+ CREATE TYPE "issue_status" AS ENUM('open', 'resolved', 'ignored');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "issues" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"fingerprint" text NOT NULL,
+	"status" "issue_status" DEFAULT 'open' NOT NULL,
+	"title" text NOT NULL,
+	"culprit" text,
+	"error_type" text,
+	"occurrences" integer DEFAULT 0 NOT NULL,
+	"first_seen" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_seen" timestamp with time zone DEFAULT now() NOT NULL,
+	"deployments" jsonb DEFAULT '[]'::jsonb,
+	"urls" jsonb DEFAULT '[]'::jsonb,
+	"sample" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "incidents" ADD COLUMN "issue_id" uuid;--> statement-breakpoint
+ALTER TABLE "runtime_logs" ADD COLUMN "issue_id" uuid;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "issues_project_fingerprint_idx" ON "issues" ("project_id","fingerprint");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "incidents" ADD CONSTRAINT "incidents_issue_id_issues_id_fk" FOREIGN KEY ("issue_id") REFERENCES "issues"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "runtime_logs" ADD CONSTRAINT "runtime_logs_issue_id_issues_id_fk" FOREIGN KEY ("issue_id") REFERENCES "issues"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "issues" ADD CONSTRAINT "issues_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
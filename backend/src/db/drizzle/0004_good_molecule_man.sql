@@ -0,0 +1,8 @@
+ALTER TYPE "issue_status" ADD VALUE 'regressed';--> statement-breakpoint
+ALTER TABLE "incidents" ADD COLUMN "regression_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "incidents" ADD COLUMN "reopened_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "issues" ADD COLUMN "resolved_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "issues" ADD COLUMN "fix" jsonb;--> statement-breakpoint
+ALTER TABLE "issues" ADD COLUMN "fixed_deployments" jsonb DEFAULT '[]'::jsonb;--> statement-breakpoint
+ALTER TABLE "issues" ADD COLUMN "regression_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "issues" ADD COLUMN "last_regressed_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,30 @@
+DO $$ BEGIN
+ CREATE TYPE "alert_rule_metric" AS ENUM('count', 'rate');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "alert_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"metric" "alert_rule_metric" DEFAULT 'count' NOT NULL,
+	"threshold" integer NOT NULL,
+	"window_seconds" integer DEFAULT 300 NOT NULL,
+	"levels" jsonb DEFAULT '["error"]'::jsonb,
+	"status_classes" jsonb DEFAULT '[]'::jsonb,
+	"message_pattern" text,
+	"route_pattern" text,
+	"min_distinct_users" integer DEFAULT 0 NOT NULL,
+	"min_distinct_requests" integer DEFAULT 0 NOT NULL,
+	"last_triggered_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,27 @@
+DO $$ BEGIN
+ CREATE TYPE "anomaly_metric" AS ENUM('error_rate', 'server_error_rate', 'request_volume');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "anomaly_baselines" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"route" text NOT NULL,
+	"metric" "anomaly_metric" NOT NULL,
+	"mean" double precision DEFAULT 0 NOT NULL,
+	"variance" double precision DEFAULT 0 NOT NULL,
+	"samples" integer DEFAULT 0 NOT NULL,
+	"last_value" double precision,
+	"last_bucket_at" timestamp with time zone,
+	"last_anomaly_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "anomaly_baselines_project_route_metric_idx" ON "anomaly_baselines" ("project_id","route","metric");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "anomaly_baselines" ADD CONSTRAINT "anomaly_baselines_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
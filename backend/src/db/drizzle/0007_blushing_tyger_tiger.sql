@@ -0,0 +1 @@
+ALTER TABLE "projects" ADD COLUMN "log_sources" jsonb DEFAULT '[]'::jsonb;
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE IF NOT EXISTS "log_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"template" text NOT NULL,
+	"token_count" integer NOT NULL,
+	"sample" text,
+	"occurrences" integer DEFAULT 0 NOT NULL,
+	"levels" jsonb DEFAULT '{}'::jsonb,
+	"first_seen" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_seen" timestamp with time zone DEFAULT now() NOT NULL,
+	"first_deployment_id" text,
+	"deployments" jsonb DEFAULT '{}'::jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "runtime_logs" ADD COLUMN "template_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "runtime_logs" ADD CONSTRAINT "runtime_logs_template_id_log_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "log_templates"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "log_templates" ADD CONSTRAINT "log_templates_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
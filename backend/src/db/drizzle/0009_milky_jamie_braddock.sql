@@ -0,0 +1 @@
+ALTER TABLE "commits" ADD COLUMN "evidence" jsonb;
\ No newline at end of file
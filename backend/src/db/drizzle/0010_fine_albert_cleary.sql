@@ -0,0 +1 @@
+ALTER TABLE "projects" ADD COLUMN "source_control" jsonb;
\ No newline at end of file
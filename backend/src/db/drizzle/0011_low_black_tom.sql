@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "search_cache" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"provider" text NOT NULL,
+	"query_key" text NOT NULL,
+	"query" text NOT NULL,
+	"results" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "search_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"provider" text NOT NULL,
+	"day" text NOT NULL,
+	"requests" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "search_cache_provider_query_idx" ON "search_cache" ("provider","query_key");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "search_usage_provider_day_idx" ON "search_usage" ("provider","day");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "projects" ADD COLUMN "llm_config" jsonb;
\ No newline at end of file
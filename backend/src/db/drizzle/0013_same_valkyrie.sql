@@ -0,0 +1,34 @@
+CREATE TABLE IF NOT EXISTS "llm_calls" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"incident_id" uuid,
+	"project_id" uuid,
+	"phase" text,
+	"task" text NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"attempt" integer DEFAULT 1 NOT NULL,
+	"prompt_hash" text NOT NULL,
+	"prompt" jsonb NOT NULL,
+	"response" text,
+	"error" text,
+	"prompt_tokens" integer,
+	"completion_tokens" integer,
+	"cost_usd" double precision,
+	"latency_ms" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "llm_calls_incident_idx" ON "llm_calls" ("incident_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "llm_calls_project_created_idx" ON "llm_calls" ("project_id","created_at");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "llm_calls" ADD CONSTRAINT "llm_calls_incident_id_incidents_id_fk" FOREIGN KEY ("incident_id") REFERENCES "incidents"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "llm_calls" ADD CONSTRAINT "llm_calls_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
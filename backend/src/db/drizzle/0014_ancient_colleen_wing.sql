@@ -0,0 +1 @@
+ALTER TABLE "projects" ADD COLUMN "test_config" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "solutions" ADD COLUMN "diff" text;
\ No newline at end of file
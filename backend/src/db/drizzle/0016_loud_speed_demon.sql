@@ -0,0 +1,2 @@
+ALTER TYPE "incident_status" ADD VALUE 'verifying';--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "verification_config" jsonb;
\ No newline at end of file
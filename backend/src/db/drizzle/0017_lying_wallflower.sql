@@ -0,0 +1 @@
+ALTER TABLE "alert_rules" ADD COLUMN "issue_triggered_at" jsonb DEFAULT '{}'::jsonb;
\ No newline at end of file
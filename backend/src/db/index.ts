@@ -11,6 +11,13 @@ import {
   timelineEvents,
   chatMessages,
   integrations,
+  issues,
+  alertRules,
+  anomalyBaselines,
+  logTemplates,
+  searchCache,
+  searchUsage,
+  llmCalls,
 } from "./schema";
 
 // Load environment variables first (before accessing process.env)
@@ -41,6 +48,27 @@ export type NewChatMessage = InferInsertModel<typeof chatMessages>;
 export type Integration = InferSelectModel<typeof integrations>;
 export type NewIntegration = InferInsertModel<typeof integrations>;
 
+export type Issue = InferSelectModel<typeof issues>;
+export type NewIssue = InferInsertModel<typeof issues>;
+
+export type AlertRule = InferSelectModel<typeof alertRules>;
+export type NewAlertRule = InferInsertModel<typeof alertRules>;
+
+export type AnomalyBaseline = InferSelectModel<typeof anomalyBaselines>;
+export type NewAnomalyBaseline = InferInsertModel<typeof anomalyBaselines>;
+
+export type LogTemplate = InferSelectModel<typeof logTemplates>;
+export type NewLogTemplate = InferInsertModel<typeof logTemplates>;
+
+export type SearchCacheEntry = InferSelectModel<typeof searchCache>;
+export type NewSearchCacheEntry = InferInsertModel<typeof searchCache>;
+
+export type SearchUsage = InferSelectModel<typeof searchUsage>;
+export type NewSearchUsage = InferInsertModel<typeof searchUsage>;
+
+export type LLMCall = InferSelectModel<typeof llmCalls>;
+export type NewLLMCall = InferInsertModel<typeof llmCalls>;
+
 // Supabase Database Connection
 const connectionString = process.env.DATABASE_URL;
 
@@ -7,6 +7,9 @@ import {
   boolean,
   jsonb,
   uuid,
+  uniqueIndex,
+  index,
+  doublePrecision,
 } from "drizzle-orm/pg-core";
 
 // Enums
@@ -18,8 +21,10 @@ export const incidentStatusEnum = pgEnum("incident_status", [
   "solving",
   "proposing",
   "executing",
+  "verifying",
   "resolved",
   "failed",
+  "cancelled",
 ]);
 
 export const incidentSeverityEnum = pgEnum("incident_severity", [
@@ -36,6 +41,24 @@ export const solutionTypeEnum = pgEnum("solution_type", [
   "restart",
 ]);
 
+export const alertRuleMetricEnum = pgEnum("alert_rule_metric", [
+  "count", // Number of matching logs in the window
+  "rate", // Matching logs as a percentage of all logs (on matching routes) in the window
+]);
+
+export const anomalyMetricEnum = pgEnum("anomaly_metric", [
+  "error_rate", // Share of requests with an error log
+  "server_error_rate", // Share of requests answered with a 5xx status
+  "request_volume", // Requests per bucket
+]);
+
+export const issueStatusEnum = pgEnum("issue_status", [
+  "open",
+  "resolved",
+  "ignored",
+  "regressed",
+]);
+
 // Incidents Table
 export const incidents = pgTable("incidents", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -52,6 +75,13 @@ export const incidents = pgTable("incidents", {
   rootCause: text("root_cause"),
   rootCauseConfidence: integer("root_cause_confidence"),
   
+  // Issue (error fingerprint group) that triggered the incident
+  issueId: uuid("issue_id").references(() => issues.id, { onDelete: "set null" }),
+  
+  // Regressions (the issue came back after the incident was resolved)
+  regressionCount: integer("regression_count").notNull().default(0),
+  reopenedAt: timestamp("reopened_at", { withTimezone: true }),
+  
   // Timestamps
   detectedAt: timestamp("detected_at", { withTimezone: true }).notNull().defaultNow(),
   resolvedAt: timestamp("resolved_at", { withTimezone: true }),
@@ -91,6 +121,9 @@ export const commits = pgTable("commits", {
   diff: text("diff"),
   isSuspicious: boolean("is_suspicious").default(false),
   
+  // Why the commit is suspected (deployment range, stack frame files it touched)
+  evidence: jsonb("evidence").$type<Record<string, any>>(),
+  
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
@@ -115,7 +148,8 @@ export const solutions = pgTable("solutions", {
   description: text("description").notNull(),
   reasoning: text("reasoning").notNull(),
   
-  code: text("code"),
+  code: text("code"), // Legacy single-file solutions
+  diff: text("diff"), // Unified diff, one or more files
   steps: jsonb("steps").$type<string[]>().default([]),
   
   confidence: integer("confidence").notNull(), // 0-100
@@ -196,6 +230,65 @@ export const integrations = pgTable("integrations", {
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
+// External log source of a project (in addition to the stored runtime logs)
+export type LogSourceConfig =
+  | { type: "loki"; name?: string; url: string; query: string; headers?: Record<string, string> }
+  | { type: "elasticsearch"; name?: string; url: string; index: string; query?: string; timestampField?: string; headers?: Record<string, string> }
+  | { type: "file"; name?: string; path: string; format?: "jsonl" | "text" };
+
+// Source control backend of a project (GitHub when not set)
+export type SourceControlConfig =
+  | { type: "github" }
+  | { type: "local"; path: string; defaultBranch?: string }; // Bare repository inside LOCAL_GIT_REPOS_DIR
+
+// What an LLM is used for; each task can have its own provider and model
+export type LLMTask = "commit_analysis" | "diagnosis" | "patch_generation" | "regression_test" | "chat";
+
+// LLM backend: Groq, any OpenAI-compatible endpoint (vLLM, Ollama, Azure, ...) or scripted responses
+export type LLMProviderConfig =
+  | { type: "groq" }
+  | {
+      type: "openai";
+      baseUrl: string; // e.g. http://localhost:11434/v1
+      apiKeyEnv?: string; // Environment variable holding the key (LLM_API_KEY...)
+      headers?: Record<string, string>;
+      query?: Record<string, string>; // e.g. {"api-version": "2024-06-01"} for Azure
+    }
+  | { type: "scripted"; responses?: Partial<Record<LLMTask, string[]>> };
+
+export interface LLMTaskConfig {
+  provider?: LLMProviderConfig;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  contextTokens?: number; // Token budget of the evidence in the task's prompts
+}
+
+// LLM provider and models of a project, with per-task overrides (LLM_CONFIG when not set)
+export interface LLMConfig {
+  provider?: LLMProviderConfig;
+  model?: string;
+  tasks?: Partial<Record<LLMTask, LLMTaskConfig>>;
+}
+
+// Commands a patch is tested with in the sandbox; detected from package.json when not set, null skips a step
+export interface TestConfig {
+  installCommand?: string | null;
+  typecheckCommand?: string | null;
+  lintCommand?: string | null;
+  testCommand?: string | null;
+  timeoutSeconds?: number; // Per step, 300 by default
+}
+
+// How an executed fix is verified once deployed, with the defaults of FixVerifier when not set
+export interface VerificationConfig {
+  windowMinutes?: number; // Watched after the fix deploys, 10 by default
+  baselineMinutes?: number; // Before the incident, the baseline error rate is measured over, 60 by default
+  deployTimeoutMinutes?: number; // Waited for the fix to deploy, 30 by default
+  errorRateTolerance?: number; // Factor the error rate may exceed the baseline by, 1.5 by default
+  autoRevert?: boolean; // Revert a fix that didn't recover, true by default
+}
+
 // Projects Table (user's monitored Vercel projects with auto-webhook setup)
 export const projects = pgTable("projects", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -212,11 +305,26 @@ export const projects = pgTable("projects", {
   githubRepo: text("github_repo").notNull(),
   githubWebhookId: text("github_webhook_id"), // Auto-created webhook ID
   
+  // Where the source lives (GitHub by default, or a local git repository)
+  sourceControl: jsonb("source_control").$type<SourceControlConfig>(),
+  
+  // LLM provider and models per task (the LLM_CONFIG defaults when not set)
+  llmConfig: jsonb("llm_config").$type<LLMConfig>(),
+  
+  // How patches are tested in the sandbox (detected from the repository when not set)
+  testConfig: jsonb("test_config").$type<TestConfig>(),
+  
+  // How executed fixes are verified after they deploy (FixVerifier defaults when not set)
+  verificationConfig: jsonb("verification_config").$type<VerificationConfig>(),
+  
   // Monitoring config
   enabled: boolean("enabled").notNull().default(true),
   autoFix: boolean("auto_fix").notNull().default(false), // Auto-execute fixes if confidence > threshold
   autoFixThreshold: integer("auto_fix_threshold").notNull().default(90), // Only auto-fix if confidence >= 90%
   
+  // Additional log backends queried during log analysis (Loki, Elasticsearch, local files)
+  logSources: jsonb("log_sources").$type<LogSourceConfig[]>().default([]),
+  
   // Metadata
   framework: text("framework"), // nextjs, remix, etc
   lastDeployment: jsonb("last_deployment").$type<Record<string, any>>(),
@@ -244,9 +352,202 @@ export const runtimeLogs = pgTable("runtime_logs", {
   statusCode: integer("status_code"),
   source: text("source"), // function, edge, build, etc.
   
+  // Issue the error was grouped into (error logs only)
+  issueId: uuid("issue_id").references(() => issues.id, { onDelete: "set null" }),
+  
+  // Template the message was mined into
+  templateId: uuid("template_id").references(() => logTemplates.id, { onDelete: "set null" }),
+  
   // Full log payload for reference
   metadata: jsonb("metadata").$type<Record<string, any>>(),
   
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
+
+// Fix that resolved an issue
+export interface IssueFix {
+  incidentId: string | null;
+  solutionId?: string;
+  type?: string; // patch, rollback, config_fix, restart
+  url?: string; // Pull request or deployment URL
+  prNumber?: number;
+  commitSha?: string;
+  deploymentId?: string;
+}
+
+// Issues Table (runtime errors grouped by fingerprint)
+export const issues = pgTable("issues", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  projectId: uuid("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  
+  // Hash of the normalised error type/message and top stack frames
+  fingerprint: text("fingerprint").notNull(),
+  status: issueStatusEnum("status").notNull().default("open"),
+  
+  title: text("title").notNull(), // Normalised error message
+  culprit: text("culprit"), // Top in-app stack frame, e.g. "app/api/contact/route.ts in POST"
+  errorType: text("error_type"), // TypeError, ReferenceError, etc.
+  
+  // Occurrences
+  occurrences: integer("occurrences").notNull().default(0),
+  firstSeen: timestamp("first_seen", { withTimezone: true }).notNull().defaultNow(),
+  lastSeen: timestamp("last_seen", { withTimezone: true }).notNull().defaultNow(),
+  
+  // Where it happens (most recent last, capped)
+  deployments: jsonb("deployments").$type<string[]>().default([]),
+  urls: jsonb("urls").$type<string[]>().default([]),
+  
+  // Latest raw sample (message, stack, frames) for reference
+  sample: jsonb("sample").$type<Record<string, any>>(),
+  
+  // Resolution: the fix and the deployments known to contain the bug when it was fixed
+  resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+  fix: jsonb("fix").$type<IssueFix>(),
+  fixedDeployments: jsonb("fixed_deployments").$type<string[]>().default([]),
+  
+  // Regressions (fingerprint reappeared on a deployment newer than the fix)
+  regressionCount: integer("regression_count").notNull().default(0),
+  lastRegressedAt: timestamp("last_regressed_at", { withTimezone: true }),
+  
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  projectFingerprintIdx: uniqueIndex("issues_project_fingerprint_idx").on(table.projectId, table.fingerprint),
+}));
+
+// Alert Rules Table (per-project conditions that trigger incident response)
+export const alertRules = pgTable("alert_rules", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  projectId: uuid("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  
+  name: text("name").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  
+  // Condition: metric >= threshold over a sliding window
+  metric: alertRuleMetricEnum("metric").notNull().default("count"),
+  threshold: integer("threshold").notNull(), // Log count, or percentage for "rate"
+  windowSeconds: integer("window_seconds").notNull().default(300),
+  
+  // Filters (empty = match everything)
+  levels: jsonb("levels").$type<string[]>().default(["error"]), // error, warn, info, debug
+  statusClasses: jsonb("status_classes").$type<string[]>().default([]), // "5xx", "4xx" or exact codes ("404")
+  messagePattern: text("message_pattern"), // Case-insensitive regex on the message
+  routePattern: text("route_pattern"), // Case-insensitive regex on the URL/path
+  
+  // Minimum spread before alerting
+  minDistinctUsers: integer("min_distinct_users").notNull().default(0),
+  minDistinctRequests: integer("min_distinct_requests").notNull().default(0),
+  
+  lastTriggeredAt: timestamp("last_triggered_at", { withTimezone: true }),
+  issueTriggeredAt: jsonb("issue_triggered_at").$type<Record<string, string>>().default({}), // Issue ID (or "project") -> ISO time it last triggered, for the per-issue cooldown
+  
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Anomaly Baselines Table (rolling EWMA baseline per project, route and metric)
+export const anomalyBaselines = pgTable("anomaly_baselines", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  projectId: uuid("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  
+  route: text("route").notNull(), // Normalised path, "*" for the whole project
+  metric: anomalyMetricEnum("metric").notNull(),
+  
+  // Exponentially weighted mean and variance of the metric per bucket
+  mean: doublePrecision("mean").notNull().default(0),
+  variance: doublePrecision("variance").notNull().default(0),
+  samples: integer("samples").notNull().default(0),
+  
+  lastValue: doublePrecision("last_value"),
+  lastBucketAt: timestamp("last_bucket_at", { withTimezone: true }), // Start of the last bucket folded in
+  lastAnomalyAt: timestamp("last_anomaly_at", { withTimezone: true }),
+  
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  projectRouteMetricIdx: uniqueIndex("anomaly_baselines_project_route_metric_idx").on(table.projectId, table.route, table.metric),
+}));
+
+// Occurrences of a log template on one deployment
+export interface TemplateDeploymentStats {
+  firstSeen: string;
+  count: number;
+}
+
+// Log Templates Table (log messages clustered into templates with variable slots)
+export const logTemplates = pgTable("log_templates", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  projectId: uuid("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  
+  template: text("template").notNull(), // Tokens with "<*>" for variable slots
+  tokenCount: integer("token_count").notNull(),
+  sample: text("sample"), // A raw message of the template
+  
+  occurrences: integer("occurrences").notNull().default(0),
+  levels: jsonb("levels").$type<Record<string, number>>().default({}), // Occurrences per log level
+  firstSeen: timestamp("first_seen", { withTimezone: true }).notNull().defaultNow(),
+  lastSeen: timestamp("last_seen", { withTimezone: true }).notNull().defaultNow(),
+  
+  // First appearance and frequency per deployment (most recent deployments, capped)
+  firstDeploymentId: text("first_deployment_id"),
+  deployments: jsonb("deployments").$type<Record<string, TemplateDeploymentStats>>().default({}),
+  
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Search Cache Table (search provider responses by normalised query)
+export const searchCache = pgTable("search_cache", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  provider: text("provider").notNull(),
+  queryKey: text("query_key").notNull(), // Normalised query
+  query: text("query").notNull(), // Query as last sent
+  results: jsonb("results").$type<any[]>().notNull(),
+  
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+}, (table) => ({
+  providerQueryIdx: uniqueIndex("search_cache_provider_query_idx").on(table.provider, table.queryKey),
+}));
+
+// Search Usage Table (requests per search provider and UTC day, for daily budgets)
+export const searchUsage = pgTable("search_usage", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  provider: text("provider").notNull(),
+  day: text("day").notNull(), // YYYY-MM-DD
+  requests: integer("requests").notNull().default(0),
+  
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  providerDayIdx: uniqueIndex("search_usage_provider_day_idx").on(table.provider, table.day),
+}));
+
+// LLM Calls Table (every LLM request: what was sent and returned, tokens, latency and cost)
+export const llmCalls = pgTable("llm_calls", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id").notNull(),
+  incidentId: uuid("incident_id").references(() => incidents.id, { onDelete: "cascade" }),
+  projectId: uuid("project_id").references(() => projects.id, { onDelete: "set null" }),
+  phase: text("phase"), // Pipeline phase, or "chat"
+  
+  task: text("task").$type<LLMTask>().notNull(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  attempt: integer("attempt").notNull().default(1), // 1, then the repair retries
+  
+  promptHash: text("prompt_hash").notNull(), // SHA-256 of the messages
+  prompt: jsonb("prompt").$type<Array<{ role: string; content: string }>>().notNull(),
+  response: text("response"),
+  error: text("error"),
+  
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  costUsd: doublePrecision("cost_usd"), // Null when the model has no known price
+  latencyMs: integer("latency_ms").notNull(),
+  
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  incidentIdx: index("llm_calls_incident_idx").on(table.incidentId),
+  projectCreatedIdx: index("llm_calls_project_created_idx").on(table.projectId, table.createdAt),
+}));
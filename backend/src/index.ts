@@ -14,7 +14,8 @@ import userIntegrationsRouter from './routes/user-integrations';
 import webhooksRouter, { setSocketIO as setWebhooksSocketIO } from './routes/webhooks';
 import projectsRouter from './routes/projects';
 import aiChatRouter from './routes/ai-chat';
-import { setSocketIO as setRuntimeMonitorSocketIO } from './services/runtime-monitor';
+import runtimeMonitor, { setSocketIO as setRuntimeMonitorSocketIO } from './services/runtime-monitor';
+import anomalyDetector from './services/anomaly-detector';
 
 // Load environment variables
 dotenv.config();
@@ -59,6 +60,7 @@ app.get('/health', (_req: Request, res: Response) => {
     },
     services: {
       groq: !!process.env.GROQ_API_KEY,
+      llm: process.env.LLM_CONFIG ? 'LLM_CONFIG' : process.env.GROQ_API_KEY ? 'groq' : 'not configured',
       e2b: !!process.env.E2B_API_KEY,
       github: 'Check database integrations',
       perplexity: !!process.env.PERPLEXITY_API_KEY,
@@ -96,6 +98,8 @@ app.get('/api/info', (_req: Request, res: Response) => {
           'solution:execute',
           'chat:message',
           'agent:stop',
+          'incident:subscribe',
+          'incident:unsubscribe',
         ],
         server_to_client: [
           'incident:detected',
@@ -158,9 +162,17 @@ async function initializeServices(): Promise<void> {
     // Setup WebSocket handlers
     new WebSocketHandlers(io);
 
-    // Runtime monitor is ready (no polling - errors come from SDK/webhooks)
+    // Runtime monitor is ready (errors come from SDK/webhooks)
     logger.info('✅ Runtime error monitor ready (SDK-based)');
 
+    // Check stored runtime logs against per-route baselines
+    anomalyDetector.start((project, report) => runtimeMonitor.handleAnomalies(project, report));
+
+    // Resume incidents interrupted by the last shutdown (in the background)
+    orchestrator.resumeUnfinishedIncidents().catch((error) => {
+      logger.error('Failed to resume unfinished incidents:', error);
+    });
+
     logger.info('All services initialized successfully');
   } catch (error) {
     logger.error('Error initializing services:', error);
@@ -196,6 +208,8 @@ async function startServer(): Promise<void> {
 async function gracefulShutdown(signal: string): Promise<void> {
   logger.info(`${signal} received, shutting down gracefully...`);
   
+  anomalyDetector.stop();
+  
   // Cleanup E2B MCP Manager
   await e2bMCPManager.cleanup();
   
@@ -9,10 +9,10 @@ import logger from '../utils/logger';
 export class GitHubIntegration {
   private client: AxiosInstance;
   private token: string;
-  private owner?: string;
-  private repo?: string;
+  readonly owner?: string; // Default repository of the integration
+  readonly repo?: string;
 
-  constructor(token: string, owner?: string, repo?: string) {
+  constructor(token: string, owner?: string, repo?: string, signal?: AbortSignal) {
     this.token = token;
     this.owner = owner;
     this.repo = repo;
@@ -24,9 +24,18 @@ export class GitHubIntegration {
         Accept: 'application/vnd.github.v3+json',
         'User-Agent': 'OutageX',
       },
+      signal,
     });
   }
 
+  /**
+   * Get a copy of this integration whose requests are aborted with the signal
+   */
+  withSignal(signal?: AbortSignal): GitHubIntegration {
+    if (!signal) return this;
+    return new GitHubIntegration(this.token, this.owner, this.repo, signal);
+  }
+
   /**
    * Get authenticated user
    */
@@ -89,6 +98,7 @@ export class GitHubIntegration {
    * Get recent commits
    */
   async getCommits(owner?: string, repo?: string, options: {
+    sha?: string; // Branch or commit to start from
     since?: string;
     until?: string;
     per_page?: number;
@@ -104,6 +114,7 @@ export class GitHubIntegration {
     try {
       const response = await this.client.get(`/repos/${repoOwner}/${repoName}/commits`, {
         params: {
+          sha: options.sha,
           since: options.since,
           until: options.until,
           per_page: options.per_page || 10,
@@ -137,6 +148,83 @@ export class GitHubIntegration {
     }
   }
 
+  /**
+   * Compare two commits (commits reachable from head but not from base, oldest first)
+   */
+  async compareCommits(base: string, head: string, owner?: string, repo?: string) {
+    const repoOwner = owner || this.owner;
+    const repoName = repo || this.repo;
+
+    if (!repoOwner || !repoName) {
+      throw new Error('Repository owner and name are required');
+    }
+
+    try {
+      const response = await this.client.get(`/repos/${repoOwner}/${repoName}/compare/${base}...${head}`);
+      return response.data;
+    } catch (error) {
+      logger.error('Error comparing commits:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the blame of a file at a ref (GraphQL API, the REST API has no blame)
+   */
+  async getBlame(path: string, ref: string = 'HEAD', owner?: string, repo?: string): Promise<Array<{
+    startingLine: number;
+    endingLine: number;
+    commit: { oid: string; message: string; committedDate: string; author: string };
+  }> | null> {
+    const repoOwner = owner || this.owner;
+    const repoName = repo || this.repo;
+
+    if (!repoOwner || !repoName) {
+      throw new Error('Repository owner and name are required');
+    }
+
+    const query = `query($owner: String!, $repo: String!, $ref: String!, $path: String!) {
+      repository(owner: $owner, name: $repo) {
+        object(expression: $ref) {
+          ... on Commit {
+            blame(path: $path) {
+              ranges {
+                startingLine
+                endingLine
+                commit { oid messageHeadline committedDate author { name user { login } } }
+              }
+            }
+          }
+        }
+      }
+    }`;
+
+    try {
+      const response = await this.client.post('/graphql', {
+        query,
+        variables: { owner: repoOwner, repo: repoName, ref, path },
+      });
+
+      // Unknown paths come back as GraphQL errors rather than an HTTP error
+      const ranges = response.data?.data?.repository?.object?.blame?.ranges;
+      if (!ranges) return null;
+
+      return ranges.map((range: any) => ({
+        startingLine: range.startingLine,
+        endingLine: range.endingLine,
+        commit: {
+          oid: range.commit.oid,
+          message: range.commit.messageHeadline || '',
+          committedDate: range.commit.committedDate,
+          author: range.commit.author?.name || range.commit.author?.user?.login || 'Unknown',
+        },
+      }));
+    } catch (error) {
+      logger.error('Error fetching blame:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get commit diff
    */
@@ -162,6 +250,28 @@ export class GitHubIntegration {
     }
   }
 
+  /**
+   * Get a gzipped tarball of the repository at a ref (inside an "owner-repo-sha/" directory)
+   */
+  async getTarball(ref: string, owner?: string, repo?: string): Promise<Buffer> {
+    const repoOwner = owner || this.owner;
+    const repoName = repo || this.repo;
+
+    if (!repoOwner || !repoName) {
+      throw new Error('Repository owner and name are required');
+    }
+
+    try {
+      const response = await this.client.get(`/repos/${repoOwner}/${repoName}/tarball/${ref}`, {
+        responseType: 'arraybuffer',
+      });
+      return Buffer.from(response.data);
+    } catch (error) {
+      logger.error('Error fetching repository tarball:', error);
+      throw error;
+    }
+  }
+
   /**
    * Create branch from base branch
    */
@@ -203,6 +313,31 @@ export class GitHubIntegration {
     }
   }
 
+  /**
+   * Delete branch
+   */
+  async deleteBranch(branch: string, owner?: string, repo?: string): Promise<void> {
+    const repoOwner = owner || this.owner;
+    const repoName = repo || this.repo;
+
+    if (!repoOwner || !repoName) {
+      throw new Error('Repository owner and name are required');
+    }
+
+    try {
+      await this.client.delete(`/repos/${repoOwner}/${repoName}/git/refs/heads/${branch}`);
+      logger.info(`Branch deleted: ${branch}`);
+    } catch (error: any) {
+      // Branch is already gone
+      if (error.response?.status === 404 || error.response?.status === 422) {
+        logger.warn(`Branch ${branch} does not exist`);
+        return;
+      }
+      logger.error('Error deleting branch:', error);
+      throw error;
+    }
+  }
+
   /**
    * Create or update file in repository
    */
@@ -256,6 +391,71 @@ export class GitHubIntegration {
     }
   }
 
+  /**
+   * Commit changes to several files (null content deletes the file) as one commit on a branch
+   */
+  async commitFiles(
+    files: Array<{ path: string; content: string | null }>,
+    message: string,
+    branch: string,
+    owner?: string,
+    repo?: string
+  ): Promise<{ sha: string }> {
+    const repoOwner = owner || this.owner;
+    const repoName = repo || this.repo;
+
+    if (!repoOwner || !repoName) {
+      throw new Error('Repository owner and name are required');
+    }
+
+    try {
+      const base = `/repos/${repoOwner}/${repoName}/git`;
+      const refResponse = await this.client.get(`${base}/refs/heads/${branch}`);
+      const parentSha = refResponse.data.object.sha;
+      const parentCommit = await this.client.get(`${base}/commits/${parentSha}`);
+
+      // Files of the base tree not listed keep their content; mode 100644 is only used for new files
+      const existing = await this.client.get(`${base}/trees/${parentCommit.data.tree.sha}`, {
+        params: { recursive: 1 },
+      });
+      const modes = new Map<string, string>(
+        existing.data.tree.map((entry: { path: string; mode: string }) => [entry.path, entry.mode])
+      );
+
+      const tree = [];
+      for (const file of files) {
+        if (file.content === null) {
+          tree.push({ path: file.path, mode: modes.get(file.path) || '100644', type: 'blob', sha: null });
+          continue;
+        }
+        const blob = await this.client.post(`${base}/blobs`, {
+          content: Buffer.from(file.content).toString('base64'),
+          encoding: 'base64',
+        });
+        tree.push({ path: file.path, mode: modes.get(file.path) || '100644', type: 'blob', sha: blob.data.sha });
+      }
+
+      const treeResponse = await this.client.post(`${base}/trees`, {
+        base_tree: parentCommit.data.tree.sha,
+        tree,
+      });
+      const commit = await this.client.post(`${base}/commits`, {
+        message,
+        tree: treeResponse.data.sha,
+        parents: [parentSha],
+      });
+
+      // Not forced: fails if the branch moved in the meantime
+      await this.client.patch(`${base}/refs/heads/${branch}`, { sha: commit.data.sha });
+
+      logger.info(`Committed ${files.length} file(s) to branch ${branch}: ${commit.data.sha.substring(0, 7)}`);
+      return { sha: commit.data.sha };
+    } catch (error) {
+      logger.error('Error committing files:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get file content from repository
    */
@@ -544,6 +744,50 @@ export class GitHubIntegration {
     }
   }
 
+  /**
+   * Close pull request without merging
+   */
+  async closePullRequest(prNumber: number, owner?: string, repo?: string) {
+    const repoOwner = owner || this.owner;
+    const repoName = repo || this.repo;
+
+    if (!repoOwner || !repoName) {
+      throw new Error('Repository owner and name are required');
+    }
+
+    try {
+      const response = await this.client.patch(`/repos/${repoOwner}/${repoName}/pulls/${prNumber}`, {
+        state: 'closed',
+      });
+
+      logger.info(`Pull request #${prNumber} closed`);
+      return response.data;
+    } catch (error: any) {
+      logger.error('Error closing pull request:', error.response?.data || error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a pull request
+   */
+  async getPullRequest(prNumber: number, owner?: string, repo?: string) {
+    const repoOwner = owner || this.owner;
+    const repoName = repo || this.repo;
+
+    if (!repoOwner || !repoName) {
+      throw new Error('Repository owner and name are required');
+    }
+
+    try {
+      const response = await this.client.get(`/repos/${repoOwner}/${repoName}/pulls/${prNumber}`);
+      return response.data;
+    } catch (error: any) {
+      logger.error('Error fetching pull request:', error.response?.data || error.message);
+      throw error;
+    }
+  }
+
   /**
    * Get pull requests
    */
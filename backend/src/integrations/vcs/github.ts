@@ -0,0 +1,158 @@
+import { GitHubIntegration } from '../github';
+import { CommitInfo } from '../../utils/types';
+import { isCancelledError } from '../../utils/cancellation';
+import { BlameRange, FileContent, NotFoundError, PullRequestInfo, PullRequestState, RepoEntry, SourceControlProvider } from './types';
+
+/**
+ * GitHub repository, through the user's GitHub integration
+ */
+export class GitHubSourceControl implements SourceControlProvider {
+  readonly type = 'github';
+  readonly repository: string;
+  readonly defaultBranch = 'main';
+
+  constructor(
+    private github: GitHubIntegration,
+    private owner: string,
+    private repo: string,
+    private signal?: AbortSignal
+  ) {
+    this.repository = `${owner}/${repo}`;
+  }
+
+  withSignal(signal?: AbortSignal): GitHubSourceControl {
+    if (!signal) return this;
+    return new GitHubSourceControl(this.github.withSignal(signal), this.owner, this.repo, signal);
+  }
+
+  async getCommits(options: { ref?: string; since?: Date; limit?: number } = {}): Promise<CommitInfo[]> {
+    const commits = await this.github.getCommits(this.owner, this.repo, {
+      sha: options.ref,
+      since: options.since?.toISOString(),
+      per_page: options.limit || 10,
+    });
+    return commits.map(toCommitInfo);
+  }
+
+  async compareCommits(base: string, head: string, limit: number = 30): Promise<CommitInfo[]> {
+    if (base === head) return [];
+
+    const comparison = await this.github.compareCommits(base, head, this.owner, this.repo);
+    const rangeCommits: any[] = (comparison.commits || []).slice(-limit);
+
+    // The comparison doesn't list files per commit
+    const details = await Promise.all(
+      rangeCommits.map((commit) =>
+        this.github.getCommit(commit.sha, this.owner, this.repo).catch((error: any) => {
+          if (isCancelledError(error, this.signal)) throw error;
+          return commit;
+        })
+      )
+    );
+    return details.map(toCommitInfo);
+  }
+
+  getCommitDiff(sha: string): Promise<string> {
+    return this.github.getCommitDiff(sha, this.owner, this.repo);
+  }
+
+  getBlame(path: string, ref: string = 'HEAD'): Promise<BlameRange[] | null> {
+    return this.github.getBlame(path, ref, this.owner, this.repo);
+  }
+
+  async getFileContent(path: string, ref: string = this.defaultBranch): Promise<FileContent> {
+    try {
+      return await this.github.getFileContent(path, ref, this.owner, this.repo);
+    } catch (error: any) {
+      if (error.is404) {
+        throw new NotFoundError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  async listDirectory(path: string, ref: string = this.defaultBranch): Promise<RepoEntry[]> {
+    const entries = await this.github.getDirectoryContents(path, ref, this.owner, this.repo);
+    return entries.map((entry: any) => ({
+      name: entry.name,
+      path: entry.path,
+      type: entry.type === 'dir' ? 'dir' : 'file',
+      size: entry.size,
+      sha: entry.sha,
+    }));
+  }
+
+  async searchFiles(fileName: string, ref: string = this.defaultBranch): Promise<RepoEntry[]> {
+    const files = await this.github.searchFiles(fileName, ref, this.owner, this.repo);
+    return files.map((file) => ({ name: file.name, path: file.path, type: 'file' }));
+  }
+
+  findMainEntryPoint(ref: string = this.defaultBranch): Promise<string | null> {
+    return this.github.findMainEntryPoint(ref, this.owner, this.repo);
+  }
+
+  getArchive(ref: string = this.defaultBranch): Promise<Buffer> {
+    return this.github.getTarball(ref, this.owner, this.repo);
+  }
+
+  async createBranch(name: string, from: string = this.defaultBranch): Promise<void> {
+    await this.github.createBranch(name, from, this.owner, this.repo);
+  }
+
+  deleteBranch(name: string): Promise<void> {
+    return this.github.deleteBranch(name, this.owner, this.repo);
+  }
+
+  async commitFiles(files: Array<{ path: string; content: string | null }>, message: string, branch: string): Promise<{ sha: string }> {
+    return this.github.commitFiles(files, message, branch, this.owner, this.repo);
+  }
+
+  async createPullRequest(options: { title: string; head: string; base: string; body: string }): Promise<PullRequestInfo> {
+    const pr = await this.github.createPullRequest(
+      options.title,
+      options.head,
+      options.base,
+      options.body,
+      this.owner,
+      this.repo
+    );
+    return { number: pr.number, url: pr.html_url };
+  }
+
+  async mergePullRequest(number: number, options: { title?: string; message?: string } = {}): Promise<{ sha: string }> {
+    const result = await this.github.mergePullRequest(number, this.owner, this.repo, {
+      mergeMethod: 'merge',
+      commitTitle: options.title,
+      commitMessage: options.message,
+    });
+    return { sha: result.sha };
+  }
+
+  async closePullRequest(number: number): Promise<void> {
+    await this.github.closePullRequest(number, this.owner, this.repo);
+  }
+
+  async getPullRequest(number: number): Promise<PullRequestState> {
+    const pr = await this.github.getPullRequest(number, this.owner, this.repo);
+    return {
+      state: pr.merged ? 'merged' : pr.state === 'closed' ? 'closed' : 'open',
+      mergeCommitSha: pr.merged ? pr.merge_commit_sha : undefined,
+      mergedAt: pr.merged ? pr.merged_at : undefined,
+    };
+  }
+}
+
+/**
+ * Commit of the GitHub API (list, compare or single commit)
+ */
+function toCommitInfo(commit: any): CommitInfo {
+  return {
+    sha: commit.sha?.substring(0, 12) || '',
+    author: commit.commit?.author?.name || commit.author?.login || 'Unknown',
+    message: commit.commit?.message || '',
+    timestamp: new Date(commit.commit?.author?.date),
+    filesChanged: commit.files?.map((f: any) => f.filename) || [],
+    additions: commit.stats?.additions || 0,
+    deletions: commit.stats?.deletions || 0,
+  };
+}
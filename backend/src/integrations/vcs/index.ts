@@ -0,0 +1,108 @@
+import path from 'path';
+import { z } from 'zod';
+import { SourceControlConfig } from '../../db/schema';
+import { IntegrationManager } from '../../services/integration-manager';
+import logger from '../../utils/logger';
+import { SourceControlProvider } from './types';
+import { GitHubSourceControl } from './github';
+import { LocalGitSourceControl } from './local-git';
+
+export type { BlameRange, FileContent, PullRequestInfo, PullRequestState, RepoEntry, SourceControlProvider } from './types';
+export { NotFoundError } from './types';
+
+/**
+ * Repository a provider is created for
+ */
+export interface SourceControlTarget {
+  githubOwner?: string | null;
+  githubRepo?: string | null;
+  sourceControl?: SourceControlConfig | null;
+}
+
+type SourceControlFactory = (
+  config: any,
+  target: SourceControlTarget,
+  userId: string
+) => Promise<SourceControlProvider | null>;
+
+/**
+ * Source control configuration as accepted by the API
+ */
+export const sourceControlConfigSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('github') }),
+  z.object({
+    type: z.literal('local'),
+    path: z.string().min(1), // Relative to LOCAL_GIT_REPOS_DIR
+    defaultBranch: z.string().min(1).max(255).optional(),
+  }),
+]);
+
+/**
+ * Source Control Manager
+ *
+ * Creates the source control provider of a project. Backends are pluggable
+ * like log sources: a type is registered with a factory creating a provider
+ * from the project's configuration. Projects without a configuration use
+ * their GitHub repository through the user's GitHub integration.
+ */
+export class SourceControlManager {
+  private factories = new Map<string, SourceControlFactory>();
+
+  constructor() {
+    this.register('github', async (_config, target, userId) => {
+      const github = await new IntegrationManager(userId).getGitHubIntegration();
+      const owner = target.githubOwner || github?.owner;
+      const repo = target.githubRepo || github?.repo;
+      if (!github || !owner || !repo) return null;
+      return new GitHubSourceControl(github, owner, repo);
+    });
+    this.register('local', async (config) => new LocalGitSourceControl(this.resolveLocalPath(config.path), config.defaultBranch));
+  }
+
+  /**
+   * Register a source control type
+   */
+  register(type: string, factory: SourceControlFactory): void {
+    this.factories.set(type, factory);
+  }
+
+  /**
+   * Provider of a project's repository, or null when none is available
+   */
+  async forProject(target: SourceControlTarget, userId: string, signal?: AbortSignal): Promise<SourceControlProvider | null> {
+    const config = target.sourceControl || { type: 'github' };
+    const factory = this.factories.get(config.type);
+    if (!factory) {
+      logger.warn(`Unknown source control type: ${config.type}`);
+      return null;
+    }
+
+    try {
+      const provider = await factory(config, target, userId);
+      return provider ? provider.withSignal(signal) : null;
+    } catch (error: any) {
+      // A misconfigured repository leaves the project without source control, like a missing one
+      logger.warn(`Source control (${config.type}) unavailable: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Path of a local bare repository, which must be inside LOCAL_GIT_REPOS_DIR
+   */
+  private resolveLocalPath(repoPath: string): string {
+    const baseDir = process.env.LOCAL_GIT_REPOS_DIR;
+    if (!baseDir) {
+      throw new Error('Local git repositories are disabled (LOCAL_GIT_REPOS_DIR is not set)');
+    }
+
+    const root = path.resolve(baseDir);
+    const gitDir = path.resolve(root, repoPath);
+    if (gitDir !== root && !gitDir.startsWith(root + path.sep)) {
+      throw new Error(`Repository ${repoPath} is outside of LOCAL_GIT_REPOS_DIR`);
+    }
+    return gitDir;
+  }
+}
+
+export default new SourceControlManager();
@@ -0,0 +1,421 @@
+import { execFile } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CommitInfo } from '../../utils/types';
+import { throwIfCancelled } from '../../utils/cancellation';
+import logger from '../../utils/logger';
+import { BlameRange, FileContent, NotFoundError, PullRequestInfo, PullRequestState, RepoEntry, SourceControlProvider } from './types';
+
+const MAX_OUTPUT = 50 * 1024 * 1024;
+
+// Identity of the commits written by OutageX
+const COMMITTER = {
+  GIT_AUTHOR_NAME: 'OutageX',
+  GIT_AUTHOR_EMAIL: 'outagex@localhost',
+  GIT_COMMITTER_NAME: 'OutageX',
+  GIT_COMMITTER_EMAIL: 'outagex@localhost',
+};
+
+// Field and record separators of the `git log` format
+const FIELD = '\x1f';
+const RECORD = '\x1e';
+const LOG_FORMAT = `--format=${RECORD}%H${FIELD}%an${FIELD}%aI${FIELD}%B${FIELD}`;
+
+interface LocalPullRequest {
+  number: number;
+  title: string;
+  head: string;
+  base: string;
+  body: string;
+  state: 'open' | 'closed' | 'merged';
+  mergeCommitSha?: string;
+  mergedAt?: string;
+  createdAt: string;
+}
+
+/**
+ * Bare git repository on disk
+ *
+ * Works without a network or a working tree: files are committed with git
+ * plumbing (a temporary index, write-tree and commit-tree) and pull requests
+ * are kept in a JSON file inside the repository directory. Merging creates a
+ * merge commit on the base branch, like GitHub's "merge" method.
+ */
+export class LocalGitSourceControl implements SourceControlProvider {
+  readonly type = 'local';
+  readonly repository: string;
+  readonly defaultBranch: string;
+
+  constructor(private gitDir: string, defaultBranch: string = 'main', private signal?: AbortSignal) {
+    this.repository = gitDir;
+    this.defaultBranch = defaultBranch;
+  }
+
+  withSignal(signal?: AbortSignal): LocalGitSourceControl {
+    if (!signal) return this;
+    return new LocalGitSourceControl(this.gitDir, this.defaultBranch, signal);
+  }
+
+  async getCommits(options: { ref?: string; since?: Date; limit?: number } = {}): Promise<CommitInfo[]> {
+    const args = ['log', `-n${options.limit || 10}`, LOG_FORMAT, '--numstat'];
+    if (options.since) args.push(`--since=${options.since.toISOString()}`);
+    args.push(options.ref || this.defaultBranch, '--');
+
+    return parseLog(await this.git(args));
+  }
+
+  async compareCommits(base: string, head: string, limit: number = 30): Promise<CommitInfo[]> {
+    if (base === head) return [];
+    // -n keeps the newest commits, --reverse then lists them oldest first
+    return parseLog(await this.git(['log', `-n${limit}`, '--reverse', LOG_FORMAT, '--numstat', `${base}..${head}`, '--']));
+  }
+
+  getCommitDiff(sha: string): Promise<string> {
+    return this.git(['show', '--format=', '--patch', '--no-color', sha]);
+  }
+
+  async getBlame(file: string, ref: string = 'HEAD'): Promise<BlameRange[] | null> {
+    if (!(await this.exists(`${ref}:${file}`))) return null;
+
+    const output = await this.git(['blame', '--porcelain', ref, '--', file]);
+    const commits = new Map<string, BlameRange['commit']>();
+    const ranges: BlameRange[] = [];
+
+    let current: { oid: string; line: number } | null = null;
+    for (const line of output.split('\n')) {
+      const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+      if (header) {
+        current = { oid: header[1], line: parseInt(header[2], 10) };
+        if (!commits.has(current.oid)) {
+          commits.set(current.oid, { oid: current.oid, message: '', committedDate: '', author: 'Unknown' });
+        }
+        continue;
+      }
+      if (!current) continue;
+
+      const commit = commits.get(current.oid)!;
+      if (line.startsWith('author ')) commit.author = line.substring(7);
+      else if (line.startsWith('committer-time ')) {
+        commit.committedDate = new Date(parseInt(line.substring(15), 10) * 1000).toISOString();
+      } else if (line.startsWith('summary ')) commit.message = line.substring(8);
+      else if (line.startsWith('\t')) {
+        // Content line: extend the previous range when it's the same commit
+        const previous = ranges[ranges.length - 1];
+        if (previous && previous.commit.oid === current.oid && previous.endingLine === current.line - 1) {
+          previous.endingLine = current.line;
+        } else {
+          ranges.push({ startingLine: current.line, endingLine: current.line, commit });
+        }
+      }
+    }
+
+    return ranges;
+  }
+
+  async getFileContent(file: string, ref: string = this.defaultBranch): Promise<FileContent> {
+    const object = `${ref}:${file}`;
+    if (!(await this.exists(object))) {
+      throw new NotFoundError(`File not found: ${file} in ${this.repository} (ref: ${ref})`);
+    }
+
+    const sha = (await this.git(['rev-parse', object])).trim();
+    return { content: await this.git(['cat-file', 'blob', sha]), sha, path: file };
+  }
+
+  async listDirectory(dir: string, ref: string = this.defaultBranch): Promise<RepoEntry[]> {
+    const normalized = dir.replace(/^\.?\/*/, '').replace(/\/+$/, '');
+    let output = await this.git(['ls-tree', '-l', ref, ...(normalized ? ['--', `${normalized}/`] : [])]);
+    if (!output.trim() && normalized) {
+      // A file path lists the file itself
+      output = await this.git(['ls-tree', '-l', ref, '--', normalized]);
+    }
+    if (!output.trim() && normalized) {
+      throw new NotFoundError(`Directory not found: ${dir} in ${this.repository} (ref: ${ref})`);
+    }
+
+    return output
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const [info, entryPath] = line.split('\t');
+        const [, type, sha, size] = info.split(/\s+/);
+        return {
+          name: path.posix.basename(entryPath),
+          path: entryPath,
+          type: type === 'tree' ? 'dir' : 'file',
+          size: size === '-' ? undefined : parseInt(size, 10),
+          sha,
+        };
+      });
+  }
+
+  async searchFiles(fileName: string, ref: string = this.defaultBranch): Promise<RepoEntry[]> {
+    const needle = fileName.toLowerCase();
+    return (await this.listFiles(ref))
+      .filter((file) => path.posix.basename(file).toLowerCase().includes(needle))
+      .slice(0, 20)
+      .map((file) => ({ name: path.posix.basename(file), path: file, type: 'file' as const }));
+  }
+
+  async findMainEntryPoint(ref: string = this.defaultBranch): Promise<string | null> {
+    const files = new Set(await this.listFiles(ref));
+    const code = (name: string) => ['.tsx', '.ts', '.jsx', '.js'].map((ext) => `${name}${ext}`);
+
+    // Same priorities as for GitHub: Next.js app and pages routers, then src/ and root entry files
+    const candidates = [
+      'app/page.tsx',
+      'app/layout.tsx',
+      ...code('pages/index'),
+      'src/app/page.tsx',
+      ...['index', 'main', 'app'].flatMap((name) => code(`src/${name}`)),
+      ...['index', 'main', 'app'].flatMap(code),
+    ];
+    const entryPoint = candidates.find((candidate) => files.has(candidate));
+    if (entryPoint) return entryPoint;
+
+    return [...files].find((file) => /^app\/[^/]+\.tsx?$/.test(file)) || null;
+  }
+
+  getArchive(ref: string = this.defaultBranch): Promise<Buffer> {
+    throwIfCancelled(this.signal);
+
+    return new Promise((resolve, reject) => {
+      execFile(
+        'git',
+        ['--git-dir', this.gitDir, 'archive', '--format=tar.gz', '--prefix=repository/', ref],
+        { encoding: 'buffer', maxBuffer: MAX_OUTPUT * 4, signal: this.signal },
+        (error, stdout, stderr) => {
+          if (error) {
+            reject(Object.assign(new Error(`git archive failed: ${stderr.toString().trim() || error.message}`), { name: error.name }));
+          } else {
+            resolve(stdout);
+          }
+        }
+      );
+    });
+  }
+
+  async createBranch(name: string, from: string = this.defaultBranch): Promise<void> {
+    const sha = (await this.git(['rev-parse', '--verify', `${from}^{commit}`])).trim();
+    if (await this.exists(`refs/heads/${name}`)) {
+      logger.warn(`Branch ${name} already exists`);
+      return;
+    }
+    await this.git(['update-ref', `refs/heads/${name}`, sha, '']);
+    logger.info(`Branch created: ${name} from ${from}`);
+  }
+
+  async deleteBranch(name: string): Promise<void> {
+    if (!(await this.exists(`refs/heads/${name}`))) {
+      logger.warn(`Branch ${name} does not exist`);
+      return;
+    }
+    await this.git(['update-ref', '-d', `refs/heads/${name}`]);
+    logger.info(`Branch deleted: ${name}`);
+  }
+
+  async commitFiles(files: Array<{ path: string; content: string | null }>, message: string, branch: string): Promise<{ sha: string }> {
+    const ref = `refs/heads/${branch}`;
+    const parent = (await this.git(['rev-parse', '--verify', `${ref}^{commit}`])).trim();
+    const indexFile = path.join(os.tmpdir(), `outagex-index-${crypto.randomUUID()}`);
+    const env = { GIT_INDEX_FILE: indexFile };
+
+    try {
+      // One index entry per file: mode 0 removes it
+      const entries: string[] = [];
+      for (const file of files) {
+        if (file.content === null) {
+          entries.push(`0 ${'0'.repeat(40)}\t${file.path}`);
+          continue;
+        }
+        // Keep the mode of an existing file (e.g. executables)
+        const existing = (await this.git(['ls-tree', parent, '--', file.path])).trim();
+        const mode = existing ? existing.split(/\s+/)[0] : '100644';
+        const blob = (await this.git(['hash-object', '-w', '--stdin'], { input: file.content })).trim();
+        entries.push(`${mode} ${blob}\t${file.path}`);
+      }
+
+      await this.git(['read-tree', parent], { env });
+      await this.git(['update-index', '--index-info'], { env, input: `${entries.join('\n')}\n` });
+      const tree = (await this.git(['write-tree'], { env })).trim();
+      const commit = (await this.git(['commit-tree', tree, '-p', parent, '-m', message])).trim();
+
+      // Fails if the branch moved in the meantime
+      await this.git(['update-ref', ref, commit, parent]);
+      logger.info(`Committed ${files.length} file(s) to branch ${branch}: ${commit.substring(0, 7)}`);
+      return { sha: commit };
+    } finally {
+      await fs.rm(indexFile, { force: true });
+    }
+  }
+
+  async createPullRequest(options: { title: string; head: string; base: string; body: string }): Promise<PullRequestInfo> {
+    const ahead = parseInt((await this.git(['rev-list', '--count', `${options.base}..${options.head}`])).trim(), 10);
+    if (!ahead) {
+      throw new Error(`Failed to create PR: no commits between ${options.base} and ${options.head}`);
+    }
+
+    const pulls = await this.readPulls();
+    const pull: LocalPullRequest = {
+      number: pulls.reduce((max, pr) => Math.max(max, pr.number), 0) + 1,
+      ...options,
+      state: 'open',
+      createdAt: new Date().toISOString(),
+    };
+    await this.writePulls([...pulls, pull]);
+
+    logger.info(`✅ Pull request created: #${pull.number} (${options.head} -> ${options.base})`);
+    return { number: pull.number, url: this.pullUrl(pull.number) };
+  }
+
+  async mergePullRequest(number: number, options: { title?: string; message?: string } = {}): Promise<{ sha: string }> {
+    const pulls = await this.readPulls();
+    const pull = pulls.find((pr) => pr.number === number);
+    if (!pull || pull.state !== 'open') {
+      throw new Error(`Pull request #${number} is not open`);
+    }
+
+    const baseRef = `refs/heads/${pull.base}`;
+    const base = (await this.git(['rev-parse', '--verify', baseRef])).trim();
+    const head = (await this.git(['rev-parse', '--verify', `refs/heads/${pull.head}`])).trim();
+
+    let tree: string;
+    try {
+      tree = (await this.git(['merge-tree', '--write-tree', base, head])).split('\n')[0].trim();
+    } catch (error: any) {
+      throw new Error(`Pull request #${number} has merge conflicts: ${error.message}`);
+    }
+
+    const message = [options.title || `Merge pull request #${number} from ${pull.head}`, options.message]
+      .filter(Boolean)
+      .join('\n\n');
+    const sha = (await this.git(['commit-tree', tree, '-p', base, '-p', head, '-m', message])).trim();
+    await this.git(['update-ref', baseRef, sha, base]);
+
+    pull.state = 'merged';
+    pull.mergeCommitSha = sha;
+    pull.mergedAt = new Date().toISOString();
+    await this.writePulls(pulls);
+
+    logger.info(`Pull request #${number} merged successfully`);
+    return { sha };
+  }
+
+  async closePullRequest(number: number): Promise<void> {
+    const pulls = await this.readPulls();
+    const pull = pulls.find((pr) => pr.number === number);
+    if (!pull) {
+      throw new Error(`Pull request #${number} not found`);
+    }
+    pull.state = 'closed';
+    await this.writePulls(pulls);
+    logger.info(`Pull request #${number} closed`);
+  }
+
+  async getPullRequest(number: number): Promise<PullRequestState> {
+    const pull = (await this.readPulls()).find((pr) => pr.number === number);
+    if (!pull) {
+      throw new Error(`Pull request #${number} not found`);
+    }
+    return { state: pull.state, mergeCommitSha: pull.mergeCommitSha, mergedAt: pull.mergedAt };
+  }
+
+  private pullUrl(number: number): string {
+    return `file://${this.gitDir}#pull-${number}`;
+  }
+
+  private get pullsFile(): string {
+    return path.join(this.gitDir, 'outagex-pulls.json');
+  }
+
+  private async readPulls(): Promise<LocalPullRequest[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.pullsFile, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async writePulls(pulls: LocalPullRequest[]): Promise<void> {
+    await fs.writeFile(this.pullsFile, JSON.stringify(pulls, null, 2));
+  }
+
+  private async listFiles(ref: string): Promise<string[]> {
+    return (await this.git(['ls-tree', '-r', '--name-only', ref])).split('\n').filter(Boolean);
+  }
+
+  private async exists(object: string): Promise<boolean> {
+    try {
+      await this.git(['rev-parse', '--verify', '--quiet', object]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Run a git command against the repository
+   */
+  private git(args: string[], options: { input?: string; env?: Record<string, string> } = {}): Promise<string> {
+    throwIfCancelled(this.signal);
+
+    return new Promise((resolve, reject) => {
+      const child = execFile(
+        'git',
+        ['--git-dir', this.gitDir, ...args],
+        {
+          maxBuffer: MAX_OUTPUT,
+          signal: this.signal,
+          env: { ...process.env, ...COMMITTER, ...options.env },
+        },
+        (error, stdout, stderr) => {
+          if (error) {
+            reject(Object.assign(new Error(`git ${args[0]} failed: ${stderr.trim() || error.message}`), { name: error.name }));
+          } else {
+            resolve(stdout);
+          }
+        }
+      );
+
+      if (options.input !== undefined) {
+        child.stdin?.end(options.input);
+      }
+    });
+  }
+}
+
+/**
+ * Parse `git log` output in LOG_FORMAT with --numstat
+ */
+function parseLog(output: string): CommitInfo[] {
+  return output
+    .split(RECORD)
+    .filter((record) => record.trim())
+    .map((record) => {
+      const [sha, author, date, message, numstat = ''] = record.split(FIELD);
+
+      const filesChanged: string[] = [];
+      let additions = 0;
+      let deletions = 0;
+      for (const line of numstat.split('\n')) {
+        const [added, deleted, file] = line.split('\t');
+        if (!file) continue;
+        filesChanged.push(file);
+        additions += parseInt(added, 10) || 0; // "-" for binary files
+        deletions += parseInt(deleted, 10) || 0;
+      }
+
+      return {
+        sha: sha.substring(0, 12),
+        author,
+        message: message.trim(),
+        timestamp: new Date(date),
+        filesChanged,
+        additions,
+        deletions,
+      };
+    });
+}
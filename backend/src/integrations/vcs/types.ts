@@ -0,0 +1,86 @@
+import { CommitInfo } from '../../utils/types';
+
+export interface RepoEntry {
+  name: string;
+  path: string;
+  type: 'file' | 'dir';
+  size?: number;
+  sha?: string;
+}
+
+export interface FileContent {
+  content: string;
+  sha: string;
+  path: string;
+}
+
+export interface BlameRange {
+  startingLine: number;
+  endingLine: number;
+  commit: { oid: string; message: string; committedDate: string; author: string };
+}
+
+export interface PullRequestInfo {
+  number: number;
+  url: string;
+}
+
+export interface PullRequestState {
+  state: 'open' | 'closed' | 'merged';
+  mergeCommitSha?: string;
+  mergedAt?: string; // ISO time of the merge
+}
+
+/**
+ * Source control provider
+ *
+ * A repository as seen by the pipeline: history for commit correlation and
+ * blame, file access for diagnosis and the AI chat, and branches plus pull
+ * requests for executing fixes. Every provider is bound to one repository.
+ * Reading a missing file rejects with an error whose `status` is 404.
+ */
+export interface SourceControlProvider {
+  readonly type: string;
+  readonly repository: string; // Human readable, e.g. "owner/repo"
+  readonly defaultBranch: string;
+
+  /**
+   * Copy of the provider whose operations are aborted with the signal
+   */
+  withSignal(signal?: AbortSignal): SourceControlProvider;
+
+  // History
+  getCommits(options?: { ref?: string; since?: Date; limit?: number }): Promise<CommitInfo[]>; // Newest first
+  compareCommits(base: string, head: string, limit?: number): Promise<CommitInfo[]>; // In head, not in base; oldest first, with files
+  getCommitDiff(sha: string): Promise<string>;
+  getBlame(path: string, ref?: string): Promise<BlameRange[] | null>; // null when the file doesn't exist
+
+  // Files
+  getFileContent(path: string, ref?: string): Promise<FileContent>;
+  listDirectory(path: string, ref?: string): Promise<RepoEntry[]>;
+  searchFiles(fileName: string, ref?: string): Promise<RepoEntry[]>;
+  findMainEntryPoint(ref?: string): Promise<string | null>;
+  getArchive(ref?: string): Promise<Buffer>; // Gzipped tarball of the tree, inside one top-level directory
+
+  // Changes
+  createBranch(name: string, from?: string): Promise<void>;
+  deleteBranch(name: string): Promise<void>;
+  commitFiles(files: Array<{ path: string; content: string | null }>, message: string, branch: string): Promise<{ sha: string }>; // One commit; null content deletes the file
+  createPullRequest(options: { title: string; head: string; base: string; body: string }): Promise<PullRequestInfo>;
+  mergePullRequest(number: number, options?: { title?: string; message?: string }): Promise<{ sha: string }>;
+  getPullRequest(number: number): Promise<PullRequestState>;
+  closePullRequest(number: number): Promise<void>;
+}
+
+/**
+ * Error for a file or path that doesn't exist in the repository
+ */
+export class NotFoundError extends Error {
+  readonly status = 404;
+  readonly is404 = true;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
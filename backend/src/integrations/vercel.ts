@@ -1,5 +1,6 @@
 import axios from 'axios';
 import logger from '../utils/logger';
+import { sleep } from '../utils/cancellation';
 
 /**
  * Vercel Integration
@@ -19,7 +20,7 @@ export class VercelIntegration {
   /**
    * Get all deployments for a project
    */
-  async getDeployments(projectName: string, limit: number = 10) {
+  async getDeployments(projectName: string, limit: number = 10, signal?: AbortSignal) {
     try {
       const url = this.teamId
         ? `${this.baseUrl}/v6/deployments?teamId=${this.teamId}&projectId=${projectName}&limit=${limit}`
@@ -29,11 +30,13 @@ export class VercelIntegration {
         headers: {
           Authorization: `Bearer ${this.token}`,
         },
+        signal,
       });
 
       logger.info(`Fetched ${response.data.deployments.length} deployments from Vercel`);
       return response.data.deployments;
     } catch (error: any) {
+      if (signal?.aborted) throw error;
       logger.error('Error fetching Vercel deployments:', error.message);
       return [];
     }
@@ -42,7 +45,7 @@ export class VercelIntegration {
   /**
    * Get deployment by ID with full details
    */
-  async getDeployment(deploymentId: string) {
+  async getDeployment(deploymentId: string, signal?: AbortSignal) {
     try {
       const url = this.teamId
         ? `${this.baseUrl}/v13/deployments/${deploymentId}?teamId=${this.teamId}`
@@ -52,10 +55,12 @@ export class VercelIntegration {
         headers: {
           Authorization: `Bearer ${this.token}`,
         },
+        signal,
       });
 
       return response.data;
     } catch (error: any) {
+      if (signal?.aborted) throw error;
       logger.error('Error fetching Vercel deployment:', error.message);
       return null;
     }
@@ -433,7 +438,7 @@ export class VercelIntegration {
    * Note: Vercel's redeploy endpoint may not work for all deployments.
    * For config fixes, it's better to commit changes to GitHub and let Vercel auto-deploy.
    */
-  async redeploy(deploymentId: string) {
+  async redeploy(deploymentId: string, signal?: AbortSignal) {
     try {
       logger.info(`Attempting to redeploy deployment: ${deploymentId}`, {
         teamId: this.teamId,
@@ -450,6 +455,7 @@ export class VercelIntegration {
         headers: {
           Authorization: `Bearer ${this.token}`,
         },
+        signal,
       });
 
       logger.info(`✅ Triggered redeploy for ${deploymentId}`);
@@ -471,6 +477,29 @@ export class VercelIntegration {
     }
   }
 
+  /**
+   * Cancel a deployment that is still building
+   */
+  async cancelDeployment(deploymentId: string) {
+    try {
+      const url = this.teamId
+        ? `${this.baseUrl}/v12/deployments/${deploymentId}/cancel?teamId=${this.teamId}`
+        : `${this.baseUrl}/v12/deployments/${deploymentId}/cancel`;
+
+      const response = await axios.patch(url, {}, {
+        headers: {
+          Authorization: `Bearer ${this.token}`,
+        },
+      });
+
+      logger.info(`Deployment ${deploymentId} cancelled`);
+      return response.data;
+    } catch (error: any) {
+      logger.error('Error cancelling deployment:', error.message);
+      throw error;
+    }
+  }
+
   /**
    * Create webhook for project
    */
@@ -568,13 +597,14 @@ export class VercelIntegration {
    */
   async waitForDeployment(
     deploymentId: string,
-    timeoutMs: number = 300000 // 5 minutes
+    timeoutMs: number = 300000, // 5 minutes
+    signal?: AbortSignal
   ): Promise<{ ready: boolean; state: string; url?: string }> {
     const startTime = Date.now();
     
     while (Date.now() - startTime < timeoutMs) {
       try {
-        const deployment = await this.getDeployment(deploymentId);
+        const deployment = await this.getDeployment(deploymentId, signal);
         
         logger.info(`Deployment ${deploymentId} state: ${deployment.readyState}`);
         
@@ -594,7 +624,7 @@ export class VercelIntegration {
         }
         
         // Wait 5 seconds before checking again
-        await new Promise(resolve => setTimeout(resolve, 5000));
+        await sleep(5000, signal);
       } catch (error: any) {
         logger.error('Error checking deployment status:', error.message);
         throw error;
@@ -0,0 +1,173 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { and, asc, eq, gte, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { llmCalls } from '../db/schema';
+import logger from '../utils/logger';
+import { LLMMessage, LLMTask } from './types';
+
+/**
+ * What LLM calls are made for: set around a pipeline phase or a chat request
+ */
+export interface LLMCallContext {
+  userId: string;
+  incidentId?: string | null;
+  projectId?: string | null;
+  phase?: string;
+}
+
+export interface LLMCallRecord {
+  task: LLMTask;
+  provider: string;
+  model: string;
+  attempt?: number;
+  messages: LLMMessage[];
+  response?: string;
+  error?: string;
+  usage?: { promptTokens: number; completionTokens: number };
+  latencyMs: number;
+}
+
+export interface LLMUsageTotals {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  unpricedCalls: number; // Calls of models without a known price, not in costUsd
+  latencyMs: number;
+}
+
+// USD per million tokens; LLM_PRICING adds to or overrides these
+const DEFAULT_PRICING: Record<string, { input: number; output: number }> = {
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  scripted: { input: 0, output: 0 },
+};
+
+const totalsColumns = {
+  calls: sql<number>`count(*)::int`,
+  failedCalls: sql<number>`count(${llmCalls.error})::int`,
+  promptTokens: sql<number>`coalesce(sum(${llmCalls.promptTokens}), 0)::int`,
+  completionTokens: sql<number>`coalesce(sum(${llmCalls.completionTokens}), 0)::int`,
+  costUsd: sql<number>`coalesce(sum(${llmCalls.costUsd}), 0)::float8`,
+  unpricedCalls: sql<number>`(count(*) - count(${llmCalls.costUsd}))::int`,
+  latencyMs: sql<number>`coalesce(sum(${llmCalls.latencyMs}), 0)::int`,
+};
+
+/**
+ * LLM Call Log
+ *
+ * Records every LLM request with the incident, project and phase it was made
+ * for (taken from the context the call runs in), and sums up tokens and cost
+ * per incident and per project and month.
+ */
+export class LLMCallLog {
+  private context = new AsyncLocalStorage<LLMCallContext>();
+  private pricing: Record<string, { input: number; output: number }> | null = null;
+
+  /**
+   * Run a function whose LLM calls are recorded for this context
+   */
+  run<T>(context: LLMCallContext, fn: () => Promise<T>): Promise<T> {
+    return this.context.run(context, fn);
+  }
+
+  /**
+   * Store a call; calls outside of any context are not recorded
+   */
+  record(call: LLMCallRecord): void {
+    const context = this.context.getStore();
+    if (!context) return;
+
+    const prompt = call.messages.map(({ role, content }) => ({ role, content }));
+    db.insert(llmCalls)
+      .values({
+        userId: context.userId,
+        incidentId: context.incidentId || null,
+        projectId: context.projectId || null,
+        phase: context.phase || null,
+        task: call.task,
+        provider: call.provider,
+        model: call.model,
+        attempt: call.attempt || 1,
+        promptHash: createHash('sha256').update(JSON.stringify(prompt)).digest('hex'),
+        prompt,
+        response: call.response ?? null,
+        error: call.error || null,
+        promptTokens: call.usage?.promptTokens ?? null,
+        completionTokens: call.usage?.completionTokens ?? null,
+        costUsd: this.cost(call.model, call.usage),
+        latencyMs: Math.round(call.latencyMs),
+      })
+      .catch((error) => logger.warn(`Failed to record LLM call: ${error.message}`));
+  }
+
+  /**
+   * Price of a call in USD, or null when the model's price is unknown
+   */
+  cost(model: string, usage?: { promptTokens: number; completionTokens: number }): number | null {
+    const price = this.getPricing()[model];
+    if (!price || !usage) return null;
+    return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * Calls of an incident in order, with their totals
+   */
+  async getIncidentCalls(incidentId: string) {
+    const [calls, totals] = await Promise.all([
+      db.select().from(llmCalls).where(eq(llmCalls.incidentId, incidentId)).orderBy(asc(llmCalls.createdAt)),
+      this.getIncidentTotals(incidentId),
+    ]);
+    return { calls, totals };
+  }
+
+  /**
+   * Totals of an incident's calls
+   */
+  async getIncidentTotals(incidentId: string): Promise<LLMUsageTotals> {
+    const [totals] = await db.select(totalsColumns).from(llmCalls).where(eq(llmCalls.incidentId, incidentId));
+    return totals;
+  }
+
+  /**
+   * Totals of a project per month (UTC), most recent first
+   */
+  async getProjectMonthlyUsage(projectId: string, months: number = 6) {
+    const since = new Date();
+    since.setUTCDate(1);
+    since.setUTCHours(0, 0, 0, 0);
+    since.setUTCMonth(since.getUTCMonth() - (months - 1));
+
+    const month = sql<string>`to_char(${llmCalls.createdAt} at time zone 'UTC', 'YYYY-MM')`;
+    return db
+      .select({
+        month,
+        incidents: sql<number>`count(distinct ${llmCalls.incidentId})::int`,
+        ...totalsColumns,
+      })
+      .from(llmCalls)
+      .where(and(eq(llmCalls.projectId, projectId), gte(llmCalls.createdAt, since)))
+      .groupBy(month)
+      .orderBy(sql`1 desc`);
+  }
+
+  private getPricing(): Record<string, { input: number; output: number }> {
+    if (!this.pricing) {
+      this.pricing = { ...DEFAULT_PRICING };
+      if (process.env.LLM_PRICING) {
+        try {
+          Object.assign(this.pricing, JSON.parse(process.env.LLM_PRICING));
+        } catch (error: any) {
+          logger.error(`LLM_PRICING is not valid JSON, ignoring it: ${error.message}`);
+        }
+      }
+    }
+    return this.pricing;
+  }
+}
+
+export default new LLMCallLog();
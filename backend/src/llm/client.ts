@@ -0,0 +1,380 @@
+import path from 'path';
+import logger from '../utils/logger';
+import { RootCause, Solution, CommitInfo, ResearchResult, BlameSuspect, ErrorReport, TestFramework } from '../utils/types';
+import llmProviderManager, { LLMConfig, LLMNotConfiguredError, LLMTask } from './index';
+import { completeStructured } from './structured';
+import { EvidenceItem, PromptContext, packEvidence } from './context-packer';
+import {
+  StackFrameRef,
+  blameEvidence,
+  diffEvidence,
+  fileEvidence,
+  logEvidence,
+  researchEvidence,
+  rootCauseEvidence,
+  stackCodeEvidence,
+} from './evidence';
+import {
+  ChatOutput,
+  chatOutputSchema,
+  commitAnalysisOutputSchema,
+  regressionTestOutputSchema,
+  rootCauseOutputSchema,
+  solutionOutputSchema,
+} from './schemas';
+import { createUnifiedDiff, parseUnifiedDiff } from '../utils/unified-diff';
+
+/**
+ * A generated patch that failed a check, sent back to the model with its errors
+ */
+export interface RejectedPatch {
+  diff: string;
+  reason: string; // e.g. "it adds type errors"
+  errors: string[];
+}
+
+// Characters of the patched file and of the fix shown for a regression test
+const MAX_TEST_SOURCE_CHARS = 12000;
+const MAX_TEST_DIFF_CHARS = 8000;
+
+// Token budget of the evidence in a task's prompts, unless configured (contextTokens)
+const DEFAULT_CONTEXT_TOKENS: Partial<Record<LLMTask, number>> = {
+  diagnosis: 6000,
+  patch_generation: 12000,
+};
+
+/**
+ * Evidence of the given kinds, as packed for a prompt
+ */
+function render(items: Array<EvidenceItem & { status: string }>, ...kinds: EvidenceItem['kind'][]): string {
+  return items
+    .filter((item) => kinds.includes(item.kind))
+    .map((item) => (item.status === 'summarized' ? `${item.content} (summary)` : item.content))
+    .join('\n');
+}
+
+/**
+ * LLM Client
+ *
+ * The prompts of the agent's LLM tasks. Each task runs on the provider and
+ * model configured for it (see LLMProviderManager), Groq by default, and its
+ * answer is validated against the task's schema. Answers that stay invalid
+ * after the repair retries throw an LLMOutputError: nothing is made up.
+ * Diagnosis and solution prompts are packed into a token budget, and return
+ * what they contained (PromptContext).
+ */
+export class LLMClient {
+  /**
+   * Analyze which commit is most likely causing the issue
+   */
+  async analyzeCommits(
+    commits: CommitInfo[],
+    errorPattern: string,
+    llmConfig?: LLMConfig | null,
+    signal?: AbortSignal
+  ): Promise<{ commit: CommitInfo; reasoning: string } | null> {
+    if (commits.length === 0) return null;
+
+    const prompt = `You are a senior SRE analyzing a production incident.
+
+ERROR PATTERN: ${errorPattern}
+
+RECENT COMMITS:
+${commits.map((c, i) => `
+${i + 1}. SHA: ${c.sha}
+   Author: ${c.author}
+   Time: ${c.timestamp}
+   Message: ${c.message}
+   Files: ${c.filesChanged.join(', ')}
+`).join('\n')}
+
+Which commit is most likely causing this error? Return ONLY valid JSON, no markdown, no explanatory text:
+{
+  "sha": "full SHA of one of the commits above",
+  "reasoning": "Why this commit is the most likely cause"
+}`;
+
+    const analysis = await completeStructured('commit_analysis', llmConfig, {
+      messages: [{ role: 'user', content: prompt }],
+      schema: commitAnalysisOutputSchema(commits.map((c) => c.sha)),
+      temperature: 0.3,
+      maxTokens: 300,
+      signal,
+    });
+
+    const commit = commits.find((c) => c.sha.startsWith(analysis.sha) || analysis.sha.startsWith(c.sha))!;
+    return { commit, reasoning: analysis.reasoning };
+  }
+
+  /**
+   * Perform root cause analysis
+   */
+  async diagnoseRootCause(
+    logAnalysis: any,
+    suspectedCommit: CommitInfo,
+    diff: string,
+    researchResults: ResearchResult[],
+    blameSuspects: BlameSuspect[] = [],
+    stack: { frames: StackFrameRef[]; filePath?: string; fileContent?: string } = { frames: [] },
+    llmConfig?: LLMConfig | null,
+    signal?: AbortSignal
+  ): Promise<{ rootCause: RootCause; promptContext: PromptContext }> {
+    const { items, context } = packEvidence('diagnosis', [
+      ...logEvidence(logAnalysis),
+      ...stackCodeEvidence(stack.filePath, stack.fileContent, stack.frames),
+      ...diffEvidence(diff, stack.frames),
+      ...blameEvidence(blameSuspects),
+      ...researchEvidence(researchResults),
+    ], this.contextBudget('diagnosis', llmConfig));
+
+    const newTemplates = render(items, 'new_template');
+    const stackCode = render(items, 'stack_code');
+    const blame = render(items, 'blame');
+    const prompt = `You are a senior SRE performing root cause analysis.
+
+LOG ANALYSIS:
+${render(items, 'log_analysis') || 'Not available'}
+${newTemplates ? `
+NEW LOG TEMPLATES SINCE THE LAST DEPLOYMENT (never logged before it; strong evidence of what changed):
+${newTemplates}
+` : ''}
+SUSPECTED COMMIT:
+SHA: ${suspectedCommit.sha}
+Author: ${suspectedCommit.author}
+Message: ${suspectedCommit.message}
+${stackCode ? `
+CODE AT THE STACK FRAMES (">" marks the frame line):
+${stackCode}
+` : ''}
+CODE DIFF:
+${render(items, 'diff_hunk') || 'Not available'}
+${blame ? `
+COMMITS THAT LAST CHANGED THE FAILING LINES (git blame of the top stack frames, most suspicious first):
+${blame}
+` : ''}
+RESEARCH FINDINGS:
+${render(items, 'research') || 'None'}
+
+Provide a root cause analysis in JSON format. Return ONLY valid JSON, no markdown, no explanatory text, no code blocks. Just the JSON object:
+{
+  "description": "Brief description of root cause",
+  "reasoning": "Detailed technical explanation",
+  "evidence": ["evidence point 1", "evidence point 2", "evidence point 3"],
+  "confidence": 0-100
+}`;
+
+    const analysis = await completeStructured('diagnosis', llmConfig, {
+      messages: [{ role: 'user', content: prompt }],
+      schema: rootCauseOutputSchema,
+      temperature: 0.4,
+      maxTokens: 800,
+      signal,
+    });
+
+    return { rootCause: { ...analysis, suspectedCommit }, promptContext: context };
+  }
+
+  /**
+   * Generate a solution, with patches as a unified diff
+   */
+  async generateSolution(
+    rootCause: RootCause,
+    diff: string,
+    fileContent?: string,
+    filePath?: string,
+    frames: StackFrameRef[] = [],
+    llmConfig?: LLMConfig | null,
+    rejected?: RejectedPatch | null,
+    signal?: AbortSignal
+  ): Promise<{ solution: Solution; promptContext: PromptContext }> {
+    const { items, context } = packEvidence('patch_generation', [
+      rootCauseEvidence(rootCause),
+      ...(fileContent ? [fileEvidence(filePath, fileContent)] : []),
+      ...diffEvidence(diff, frames),
+    ], this.contextBudget('patch_generation', llmConfig));
+
+    // Build prompt with actual file content if available
+    const fileContext = fileContent 
+      ? `\n\nCURRENT FILE CONTENT (${filePath || 'unknown'}):\n\`\`\`\n${render(items, 'file')}\n\`\`\``
+      : '\n\nNOTE: Full file content not available. Generate fix based on diff only.';
+
+    // A previous answer that was rejected, with why, so the model can correct it
+    const rejectedContext = rejected
+      ? `\n\nPREVIOUS ATTEMPT (rejected: ${rejected.reason}):\n\`\`\`diff\n${rejected.diff.trimEnd()}\n\`\`\`\n` +
+        `Errors:\n${rejected.errors.map((error) => `- ${error}`).join('\n')}\n` +
+        'Generate a corrected diff against the current file content that fixes the incident without these errors.'
+      : '';
+
+    const prompt = `You are a senior SRE generating a solution for a production incident.
+
+${render(items, 'root_cause')}
+
+ORIGINAL CODE DIFF (what changed):
+${render(items, 'diff_hunk') || 'Not available'}
+${fileContext}${rejectedContext}
+
+CRITICAL REQUIREMENTS:
+1. The "diff" field MUST contain the fix as a unified diff (like \`git diff\`), not a description or comment
+2. Use paths relative to the repository root: "--- a/path" and "+++ b/path" ("--- /dev/null" for a new file, "+++ /dev/null" for a deleted one)
+3. The diff may change several files; each file gets its own "---"/"+++" header and "@@ -start,count +start,count @@" hunks
+4. Context (" ") and removed ("-") lines must be copied exactly from the current file, with 3 lines of context around each change
+5. The changed code must be valid, compilable code in the same language as the original file
+
+Generate a solution in JSON format. Return ONLY valid JSON, no markdown, no explanatory text, no code blocks. Just the JSON object.
+
+IMPORTANT: The "diff" field must contain properly escaped JSON. All newlines must be escaped as \\n, tabs as \\t, etc.
+Example: "diff": "--- a/src/util.ts\\n+++ b/src/util.ts\\n@@ -1,3 +1,3 @@\\n function test() {\\n-  return false;\\n+  return true;\\n }\\n"
+
+{
+  "type": "patch|rollback|config_fix|restart",
+  "description": "Brief description",
+  "reasoning": "Why this solution works",
+  "risk": "low|medium|high",
+  "confidence": 0-100,
+  "estimatedTime": "e.g., 2 minutes",
+  "steps": ["step 1", "step 2"],
+  "diff": "UNIFIED DIFF of every changed file with properly escaped newlines (\\n), or omitted for a rollback or restart"
+}`;
+
+    const { code, diff: patch, ...answer } = await completeStructured('patch_generation', llmConfig, {
+      messages: [{ role: 'user', content: prompt }],
+      schema: solutionOutputSchema(fileContent !== undefined ? { path: filePath, content: fileContent } : undefined),
+      temperature: 0.3,
+      maxTokens: 4000,
+      signal,
+    });
+
+    // Answers with a complete file instead of a diff become a diff of that file
+    const solutionDiff = patch?.trim()
+      ? `${patch.trimStart().replace(/\n+$/, '')}\n` // A blank last line can be context
+      : code && filePath
+        ? createUnifiedDiff(filePath, fileContent || '', code) || undefined
+        : undefined;
+    const changedFile = solutionDiff && parseUnifiedDiff(solutionDiff).map((p) => p.newPath || p.oldPath).find(Boolean);
+
+    return {
+      solution: {
+        id: `solution-${Date.now()}`,
+        ...answer,
+        ...(!solutionDiff && code && { code }),
+        diff: solutionDiff,
+        ...(changedFile && { metadata: { filePath: changedFile } }),
+      },
+      promptContext: context,
+    };
+  }
+
+  /**
+   * Generate a test that reproduces the incident's error on the original code
+   * and passes once the patch is applied
+   */
+  async generateRegressionTest(
+    report: ErrorReport,
+    patchDiff: string,
+    target: { path: string; content: string }, // Patched file the test exercises, before the patch
+    test: { path: string; framework: TestFramework },
+    llmConfig?: LLMConfig | null,
+    signal?: AbortSignal
+  ): Promise<{ description: string; content: string }> {
+    const cap = (text: string, max: number) => (text.length > max ? `${text.substring(0, max)}\n… [truncated]` : text);
+    const modulePath = path.posix.relative(path.posix.dirname(test.path), target.path).replace(/\.[cm]?[jt]sx?$/, '');
+    const importPath = modulePath.startsWith('.') ? modulePath : `./${modulePath}`;
+
+    const prompt = `You are a senior engineer writing a regression test for a production incident that was just fixed.
+
+ERROR REPORTED BY THE SDK:
+Message: ${report.message}
+${report.url ? `URL: ${report.url}\n` : ''}${report.source ? `Source: ${report.source}${report.line ? `:${report.line}` : ''}\n` : ''}${report.stack ? `Stack:\n${report.stack}\n` : ''}${report.request ? `Request metadata: ${JSON.stringify(report.request)}\n` : ''}
+FILE UNDER TEST, BEFORE THE FIX (${target.path}):
+\`\`\`
+${cap(target.content, MAX_TEST_SOURCE_CHARS)}
+\`\`\`
+
+THE FIX (unified diff):
+\`\`\`diff
+${cap(patchDiff.trimEnd(), MAX_TEST_DIFF_CHARS)}
+\`\`\`
+
+Write ONE focused ${test.framework} test file, saved as ${test.path}, that:
+1. Reproduces the reported error with the inputs the report shows (message, URL, request metadata): it must FAIL on the code before the fix
+2. PASSES once the fix is applied, asserting the corrected behaviour rather than the absence of any error
+3. Imports the code under test with the relative path "${importPath}" and only uses modules the file under test already uses${test.framework === 'mocha' ? ', with node:assert for assertions' : `, with ${test.framework}'s own test functions`}
+4. Mocks network, database and other external calls instead of performing them
+
+Return ONLY valid JSON, no markdown, no explanatory text, no code blocks. The "content" field must contain properly escaped JSON (newlines as \\n):
+{
+  "description": "What the test checks, in one sentence",
+  "content": "The complete test file"
+}`;
+
+    const answer = await completeStructured('regression_test', llmConfig, {
+      messages: [{ role: 'user', content: prompt }],
+      schema: regressionTestOutputSchema,
+      temperature: 0.2,
+      maxTokens: 2500,
+      signal,
+    });
+
+    // Models sometimes fence the file anyway
+    const content = answer.content.trim().replace(/^```[\w-]*\n/, '').replace(/\n```$/, '');
+    return { description: answer.description, content: `${content}\n` };
+  }
+
+  /**
+   * Generate chat response for AI Chat feature
+   */
+  async generateChatResponse(
+    userMessage: string,
+    context: string,
+    llmConfig?: LLMConfig | null
+  ): Promise<ChatOutput> {
+    try {
+      const prompt = `You are a senior SRE and code expert assistant. You help developers understand their codebase, identify issues, and provide technical guidance.
+
+REPOSITORY CONTEXT:
+${context}
+
+USER QUESTION: ${userMessage}
+
+INSTRUCTIONS:
+- Analyze the repository structure and code provided in the context
+- Answer questions about the codebase, code structure, potential issues, and best practices
+- If asked about specific files or code, reference the actual code from the context
+- If code is provided, analyze it for bugs, performance issues, security concerns, or improvements
+- Be specific, technical, and helpful
+- If you don't have enough information, say so and suggest what would help
+
+Return ONLY valid JSON, no markdown around it, no explanatory text:
+{
+  "answer": "Your clear, detailed response (markdown allowed)",
+  "actions": [
+    { "type": "open_file", "path": "path/of/a/file/you/refer/to", "line": 42 },
+    { "type": "open_url", "url": "https://documentation/you/refer/to", "title": "Title" }
+  ]
+}
+"actions" lists up to 5 files or pages worth opening next; use [] when there are none.`;
+
+      return await completeStructured('chat', llmConfig, {
+        messages: [{ role: 'user', content: prompt }],
+        schema: chatOutputSchema,
+        temperature: 0.7,
+        maxTokens: 2000, // Increased for detailed code analysis
+      });
+    } catch (error: any) {
+      logger.error('Error generating chat response:', error);
+      if (error instanceof LLMNotConfiguredError) {
+        return { answer: `I can't answer yet: ${error.message}.`, actions: [] };
+      }
+      if (error?.message?.includes('Invalid API Key') || error?.code === 'invalid_api_key' || error?.response?.status === 401) {
+        return { answer: 'I apologize, but the AI service API key is invalid. Please check the LLM configuration.', actions: [] };
+      }
+      return { answer: 'I apologize, but I encountered an error processing your request. Please try again.', actions: [] };
+    }
+  }
+
+  private contextBudget(task: LLMTask, llmConfig?: LLMConfig | null): number {
+    return llmProviderManager.resolve(task, llmConfig).contextTokens ?? DEFAULT_CONTEXT_TOKENS[task] ?? 4000;
+  }
+}
+
+export default new LLMClient();
@@ -0,0 +1,140 @@
+import { LLMTask } from './types';
+
+/**
+ * Context packing
+ *
+ * Prompts are assembled from pieces of evidence ranked by priority. The ones
+ * that fit the task's token budget are included whole; the rest is cut
+ * (when most of it fits), replaced by its summary, or left out. What was
+ * included, and how, is kept as the prompt's context so it can be audited.
+ */
+
+const CHARS_PER_TOKEN = 4; // Rough average of code and English text for BPE tokenizers
+const MIN_TRUNCATED_TOKENS = 100; // Smaller cuts aren't worth including
+
+export type EvidenceKind =
+  | 'log_analysis'
+  | 'new_template'
+  | 'stack_code'
+  | 'diff_hunk'
+  | 'blame'
+  | 'research'
+  | 'root_cause'
+  | 'file';
+
+export interface EvidenceItem {
+  id: string;
+  kind: EvidenceKind;
+  label: string;
+  content: string;
+  priority: number; // Higher first
+  summary?: string; // Short form used when the content doesn't fit
+  required?: boolean; // Always included whole, even over budget
+}
+
+export type PackStatus = 'full' | 'truncated' | 'summarized' | 'omitted';
+
+export interface PromptContextEntry {
+  id: string;
+  kind: EvidenceKind;
+  label: string;
+  status: PackStatus;
+  tokens: number; // As included
+  originalTokens: number;
+}
+
+/**
+ * What a prompt contained, as recorded on the incident timeline
+ */
+export interface PromptContext {
+  task: LLMTask;
+  budgetTokens: number;
+  usedTokens: number;
+  entries: PromptContextEntry[];
+}
+
+export interface PackedEvidence {
+  items: Array<EvidenceItem & { status: Exclude<PackStatus, 'omitted'> }>; // In the order they were given
+  context: PromptContext;
+}
+
+/**
+ * Approximate token count of a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cut a text to a token budget at a line boundary
+ */
+function truncate(text: string, tokens: number): string {
+  const cut = text.substring(0, tokens * CHARS_PER_TOKEN - 40);
+  const lastLine = cut.lastIndexOf('\n');
+  const kept = lastLine > cut.length / 2 ? cut.substring(0, lastLine) : cut;
+  const droppedLines = text.substring(kept.length).split('\n').filter(Boolean).length;
+  return `${kept}\n… [truncated, ${droppedLines} more line(s)]`;
+}
+
+/**
+ * Fit evidence into a token budget, highest priority first
+ */
+export function packEvidence(task: LLMTask, evidence: EvidenceItem[], budgetTokens: number): PackedEvidence {
+  const ranked = evidence
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) =>
+      Number(!!b.item.required) - Number(!!a.item.required) ||
+      b.item.priority - a.item.priority ||
+      a.index - b.index
+    );
+
+  const packed = new Map<number, { content: string; status: PackStatus }>();
+  let usedTokens = 0;
+
+  for (const { item, index } of ranked) {
+    const tokens = estimateTokens(item.content);
+    const remaining = budgetTokens - usedTokens;
+
+    let content = '';
+    let status: PackStatus = 'omitted';
+    if (item.required || tokens <= remaining) {
+      content = item.content;
+      status = 'full';
+    } else if (remaining >= Math.max(MIN_TRUNCATED_TOKENS, tokens / 2)) {
+      content = truncate(item.content, remaining);
+      status = 'truncated';
+    } else if (item.summary && estimateTokens(item.summary) <= remaining) {
+      content = item.summary;
+      status = 'summarized';
+    } else if (remaining >= MIN_TRUNCATED_TOKENS) {
+      content = truncate(item.content, remaining);
+      status = 'truncated';
+    }
+
+    usedTokens += estimateTokens(content);
+    packed.set(index, { content, status });
+  }
+
+  return {
+    items: evidence.flatMap((item, index) => {
+      const { content, status } = packed.get(index)!;
+      return status === 'omitted' ? [] : [{ ...item, content, status }];
+    }),
+    context: {
+      task,
+      budgetTokens,
+      usedTokens,
+      entries: evidence.map((item, index) => {
+        const { content, status } = packed.get(index)!;
+        return {
+          id: item.id,
+          kind: item.kind,
+          label: item.label,
+          status,
+          tokens: estimateTokens(content),
+          originalTokens: estimateTokens(item.content),
+        };
+      }),
+    },
+  };
+}
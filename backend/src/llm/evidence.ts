@@ -0,0 +1,189 @@
+import { BlameSuspect, ResearchResult, RootCause } from '../utils/types';
+import { FilePatch, parseUnifiedDiff } from '../utils/unified-diff';
+import { EvidenceItem } from './context-packer';
+
+/**
+ * Evidence of an incident, as ranked pieces of prompt context
+ */
+
+export interface StackFrameRef {
+  file: string; // Relative to the repository
+  line: number;
+}
+
+const STACK_CODE_LINES = 10; // Lines shown on each side of a frame
+const FRAME_PROXIMITY = 15; // Lines around a frame within which a hunk counts as touching it
+
+function samePath(a: string, b: string): boolean {
+  return a === b || a.endsWith(`/${b}`) || b.endsWith(`/${a}`);
+}
+
+/**
+ * The log analysis and each log template new since the last deployment
+ */
+export function logEvidence(logAnalysis: any): EvidenceItem[] {
+  if (!logAnalysis) return [];
+  const { new_templates: newTemplates = [], ...analysis } = logAnalysis;
+
+  const topError = analysis.most_common_errors?.[0];
+  return [
+    {
+      id: 'log-analysis',
+      kind: 'log_analysis',
+      label: 'Log analysis',
+      content: JSON.stringify(analysis, null, 2),
+      summary: [analysis.analysis, topError && `Most common error (${topError.count}x): ${topError.message}`]
+        .filter(Boolean)
+        .join('\n'),
+      priority: 90,
+    },
+    ...newTemplates.map((template: any, index: number) => ({
+      id: `new-template-${index + 1}`,
+      kind: 'new_template' as const,
+      label: `New log template: ${template.template.substring(0, 80)}`,
+      content: `- "${template.template}" (${template.occurrences}x, e.g. ${JSON.stringify(template.sample)})`,
+      summary: `- "${template.template.substring(0, 200)}" (${template.occurrences}x)`,
+      priority: 85 - Math.min(index, 10),
+    })),
+  ];
+}
+
+/**
+ * Code around the stack frames that fall in a file, innermost frame first
+ */
+export function stackCodeEvidence(filePath: string | undefined, content: string | undefined, frames: StackFrameRef[]): EvidenceItem[] {
+  if (!filePath || !content) return [];
+
+  const lines = content.split('\n');
+  const windows: Array<{ start: number; end: number }> = [];
+  const items: EvidenceItem[] = [];
+
+  frames.forEach((frame, position) => {
+    if (!samePath(frame.file, filePath) || frame.line > lines.length) return;
+    if (windows.some((w) => frame.line >= w.start && frame.line <= w.end)) return;
+
+    const start = Math.max(1, frame.line - STACK_CODE_LINES);
+    const end = Math.min(lines.length, frame.line + STACK_CODE_LINES);
+    windows.push({ start, end });
+
+    const numbered = lines
+      .slice(start - 1, end)
+      .map((line, i) => `${start + i === frame.line ? '>' : ' '}${String(start + i).padStart(5)} | ${line}`)
+      .join('\n');
+    items.push({
+      id: `stack-code-${filePath}:${frame.line}`,
+      kind: 'stack_code',
+      label: `${filePath}:${frame.line} (frame #${position + 1})`,
+      content: `${filePath}:${frame.line} (frame #${position + 1})\n${numbered}`,
+      summary: `${filePath}:${frame.line} (frame #${position + 1}): ${lines[frame.line - 1]?.trim()}`,
+      priority: 95 - Math.min(position, 10),
+    });
+  });
+
+  return items;
+}
+
+/**
+ * Each hunk of a diff, ranked by how close it is to the stack frames
+ */
+export function diffEvidence(diff: string, frames: StackFrameRef[]): EvidenceItem[] {
+  if (!diff.trim()) return [];
+
+  let patches: FilePatch[];
+  try {
+    patches = parseUnifiedDiff(diff);
+  } catch {
+    patches = [];
+  }
+  if (patches.every((patch) => patch.hunks.length === 0)) {
+    return [{ id: 'diff', kind: 'diff_hunk', label: 'Code diff', content: diff, priority: 70 }];
+  }
+
+  return patches.flatMap((patch) => {
+    const path = patch.newPath || patch.oldPath || 'unknown';
+    const fileFrames = frames
+      .map((frame, position) => ({ ...frame, position }))
+      .filter((frame) => samePath(frame.file, path));
+
+    return patch.hunks.map((hunk, index) => {
+      const header = `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+      const added = hunk.lines.filter((line) => line[0] === '+').length;
+      const removed = hunk.lines.filter((line) => line[0] === '-').length;
+      const nearest = fileFrames.find((frame) =>
+        frame.line >= hunk.newStart - FRAME_PROXIMITY && frame.line <= hunk.newStart + hunk.newLines + FRAME_PROXIMITY
+      );
+
+      return {
+        id: `diff-${path}#${index + 1}`,
+        kind: 'diff_hunk' as const,
+        label: `${path} ${header}`,
+        content: `--- ${patch.oldPath ? `a/${patch.oldPath}` : '/dev/null'}\n+++ ${patch.newPath ? `b/${patch.newPath}` : '/dev/null'}\n${header}\n${hunk.lines.join('\n')}`,
+        summary: `${path} ${header}: +${added}/-${removed} line(s)`,
+        // Hunks at a frame first (innermost frames higher), then the other hunks of stack files
+        priority: nearest ? 80 - Math.min(nearest.position, 10) : fileFrames.length > 0 ? 65 : 50,
+      };
+    });
+  });
+}
+
+/**
+ * Commits that last changed the failing lines
+ */
+export function blameEvidence(blameSuspects: BlameSuspect[]): EvidenceItem[] {
+  if (blameSuspects.length === 0) return [];
+
+  const describe = (s: BlameSuspect) =>
+    `- ${s.sha} by ${s.author} at ${new Date(s.committedAt).toISOString()} (score ${s.score}): ${s.message}`;
+  return [{
+    id: 'blame',
+    kind: 'blame',
+    label: 'Commits that last changed the failing lines',
+    content: blameSuspects.slice(0, 5).map((s) =>
+      `${describe(s)}\n  Lines: ${s.lines.map((l) => `${l.file}:${l.line} (frame #${l.frame})`).join(', ')}`
+    ).join('\n'),
+    summary: blameSuspects.slice(0, 2).map(describe).join('\n'),
+    priority: 75,
+  }];
+}
+
+/**
+ * Research findings, most relevant first
+ */
+export function researchEvidence(results: ResearchResult[]): EvidenceItem[] {
+  return results.map((result, index) => ({
+    id: `research-${index + 1}`,
+    kind: 'research',
+    label: result.title,
+    content: `- ${result.title}: ${result.summary}`,
+    summary: `- ${result.title}`,
+    priority: 30 + Math.round(Math.min(Math.max(result.relevance || 0, 0), 1) * 20),
+  }));
+}
+
+/**
+ * The diagnosed root cause a solution is generated for
+ */
+export function rootCauseEvidence(rootCause: RootCause): EvidenceItem {
+  return {
+    id: 'root-cause',
+    kind: 'root_cause',
+    label: 'Root cause',
+    content: `ROOT CAUSE: ${rootCause.description}\n\nREASONING: ${rootCause.reasoning}`,
+    priority: 100,
+    required: true,
+  };
+}
+
+/**
+ * A file the answer has to rewrite, so it is never cut
+ */
+export function fileEvidence(filePath: string | undefined, content: string): EvidenceItem {
+  return {
+    id: `file-${filePath || 'unknown'}`,
+    kind: 'file',
+    label: filePath || 'unknown',
+    content,
+    priority: 100,
+    required: true,
+  };
+}
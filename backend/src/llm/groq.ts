@@ -0,0 +1,43 @@
+import Groq from 'groq-sdk';
+import { LLMProvider, LLMRequest, LLMResponse } from './types';
+
+/**
+ * Groq chat completions (GROQ_API_KEY)
+ */
+export class GroqProvider implements LLMProvider {
+  readonly name = 'groq';
+  readonly defaultModel = 'llama-3.3-70b-versatile';
+  private client: Groq | null = null;
+
+  static isConfigured(): boolean {
+    return !!process.env.GROQ_API_KEY?.trim();
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.getClient().chat.completions.create({
+      messages: request.messages,
+      model: request.model,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    }, { signal: request.signal });
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      model: response.model || request.model,
+      usage: response.usage
+        ? { promptTokens: response.usage.prompt_tokens || 0, completionTokens: response.usage.completion_tokens || 0 }
+        : undefined,
+    };
+  }
+
+  private getClient(): Groq {
+    if (!this.client) {
+      const apiKey = process.env.GROQ_API_KEY?.trim();
+      if (!apiKey) {
+        throw new Error('GROQ_API_KEY is not set');
+      }
+      this.client = new Groq({ apiKey });
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import logger from '../utils/logger';
+import { LLMConfig, LLMProvider, LLMProviderConfig, LLMResponse, LLMTask, LLMTaskConfig, LLMMessage } from './types';
+import { GroqProvider } from './groq';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { ScriptedProvider } from './scripted';
+import llmCallLog from './call-log';
+
+export type { LLMConfig, LLMMessage, LLMProvider, LLMProviderConfig, LLMRequest, LLMResponse, LLMTask } from './types';
+
+type LLMProviderFactory = (config: any) => LLMProvider;
+
+const LLM_TASKS = ['commit_analysis', 'diagnosis', 'patch_generation', 'regression_test', 'chat'] as const;
+
+// Endpoints and the keys sent to them are server configuration only: a project
+// choosing them could send the server's key, or its prompts, anywhere
+const PROJECT_PROVIDER_TYPES = ['groq', 'scripted'];
+
+const groqProviderSchema = z.object({ type: z.literal('groq') });
+
+const openaiProviderSchema = z.object({
+  type: z.literal('openai'),
+  baseUrl: z.string().url(),
+  // Only dedicated variables, so no other secret is sent to the endpoint
+  apiKeyEnv: z.string().regex(/^LLM_API_KEY[A-Z0-9_]*$/, 'Must be an LLM_API_KEY... environment variable').optional(),
+  headers: z.record(z.string()).optional(),
+  query: z.record(z.string()).optional(),
+});
+
+const scriptedProviderSchema = z.object({
+  type: z.literal('scripted'),
+  responses: z.record(z.enum(LLM_TASKS), z.array(z.string()).max(50)).optional(),
+});
+
+function configSchemaOf<P extends z.ZodTypeAny>(providerSchema: P) {
+  const taskConfigSchema = z.object({
+    provider: providerSchema.optional(),
+    model: z.string().min(1).max(200).optional(),
+    temperature: z.number().min(0).max(2).optional(),
+    maxTokens: z.number().int().positive().max(100000).optional(),
+    contextTokens: z.number().int().min(500).max(1000000).optional(),
+  });
+
+  return z.object({
+    provider: providerSchema.optional(),
+    model: z.string().min(1).max(200).optional(),
+    tasks: z.record(z.enum(LLM_TASKS), taskConfigSchema).optional(),
+  });
+}
+
+/**
+ * A project's LLM configuration as accepted by the API: providers without an endpoint
+ */
+export const llmConfigSchema = configSchemaOf(z.discriminatedUnion('type', [groqProviderSchema, scriptedProviderSchema]));
+
+/**
+ * The server's default LLM configuration (LLM_CONFIG), OpenAI-compatible endpoints included
+ */
+export const defaultLLMConfigSchema = configSchemaOf(
+  z.discriminatedUnion('type', [groqProviderSchema, openaiProviderSchema, scriptedProviderSchema])
+);
+
+/**
+ * No provider for a task: no LLM_CONFIG or project provider, and no GROQ_API_KEY
+ */
+export class LLMNotConfiguredError extends Error {
+  constructor(readonly task: LLMTask) {
+    super(`No LLM provider configured for the ${task.replace(/_/g, ' ')} task: set GROQ_API_KEY or LLM_CONFIG, or the project's llmConfig`);
+    this.name = 'LLMNotConfiguredError';
+  }
+}
+
+/**
+ * Provider, model and settings a task runs with
+ */
+export interface ResolvedLLM {
+  provider: LLMProvider;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  contextTokens?: number;
+}
+
+/**
+ * LLM Provider Manager
+ *
+ * Chooses the provider and model of each LLM task. The most specific setting
+ * wins: the project's task override, the project's defaults, then the same
+ * from LLM_CONFIG. Without any configuration Groq is used when GROQ_API_KEY
+ * is set; otherwise tasks fail, since scripted answers are only used when
+ * configured explicitly (tests and demos). Backends are pluggable: a type
+ * is registered with a factory creating a provider from its configuration.
+ */
+export class LLMProviderManager {
+  private factories = new Map<string, LLMProviderFactory>();
+  private defaults: LLMConfig | null = null;
+  private groq = new GroqProvider();
+  private scripted = new ScriptedProvider();
+  // Scripted providers keep their position in the responses between calls
+  private scriptedByConfig = new WeakMap<object, ScriptedProvider>();
+
+  constructor() {
+    this.register('groq', () => this.groq);
+    this.register('openai', (config) => new OpenAICompatibleProvider(config));
+    this.register('scripted', (config) => {
+      if (!config.responses) return this.scripted;
+      if (!this.scriptedByConfig.has(config)) {
+        this.scriptedByConfig.set(config, new ScriptedProvider(config.responses));
+      }
+      return this.scriptedByConfig.get(config)!;
+    });
+  }
+
+  /**
+   * Register an LLM provider type
+   */
+  register(type: string, factory: LLMProviderFactory): void {
+    this.factories.set(type, factory);
+  }
+
+  /**
+   * Use this configuration instead of LLM_CONFIG
+   */
+  configure(defaults: LLMConfig): void {
+    this.defaults = defaults;
+  }
+
+  /**
+   * Provider and model for a task of a project
+   */
+  resolve(task: LLMTask, projectConfig?: LLMConfig | null): ResolvedLLM {
+    const defaults = this.getDefaults();
+    // Most specific first; a model only applies to the provider of its level or a less specific one
+    const levels: LLMTaskConfig[] = [
+      projectConfig?.tasks?.[task] || {},
+      projectConfig || {},
+      defaults.tasks?.[task] || {},
+      defaults,
+    ];
+
+    const providerLevel = levels.findIndex((level) => level.provider);
+    if (providerLevel < 0 && !GroqProvider.isConfigured()) {
+      throw new LLMNotConfiguredError(task);
+    }
+    const providerConfig: LLMProviderConfig = providerLevel >= 0 ? levels[providerLevel].provider! : { type: 'groq' };
+    // Configurations stored before endpoints were limited to the server
+    if (providerLevel < 2 && !PROJECT_PROVIDER_TYPES.includes(providerConfig.type)) {
+      throw new Error(`Projects can't configure ${providerConfig.type} providers; set them in LLM_CONFIG`);
+    }
+    const provider = this.create(providerConfig);
+
+    const modelLevels = providerLevel >= 0 ? levels.slice(0, providerLevel + 1) : levels;
+    const model = modelLevels.find((level) => level.model)?.model || provider.defaultModel;
+    if (!model) {
+      throw new Error(`No model configured for the ${task} task of provider ${provider.name}`);
+    }
+
+    const taskLevels = [levels[0], levels[2]];
+    return {
+      provider,
+      model,
+      temperature: taskLevels.find((level) => level.temperature !== undefined)?.temperature,
+      maxTokens: taskLevels.find((level) => level.maxTokens !== undefined)?.maxTokens,
+      contextTokens: taskLevels.find((level) => level.contextTokens !== undefined)?.contextTokens,
+    };
+  }
+
+  /**
+   * Run a chat completion for a task with the provider and model of the project.
+   * Every call is recorded in the LLM call log.
+   */
+  async complete(
+    task: LLMTask,
+    projectConfig: LLMConfig | null | undefined,
+    options: { messages: LLMMessage[]; temperature: number; maxTokens: number; signal?: AbortSignal; attempt?: number }
+  ): Promise<LLMResponse> {
+    const llm = this.resolve(task, projectConfig);
+    logger.debug(`🤖 ${task} with ${llm.provider.name} (${llm.model})`);
+
+    const call = { task, provider: llm.provider.name, model: llm.model, attempt: options.attempt, messages: options.messages };
+    const startedAt = Date.now();
+    try {
+      const response = await llm.provider.complete({
+        task,
+        model: llm.model,
+        messages: options.messages,
+        temperature: llm.temperature ?? options.temperature,
+        maxTokens: llm.maxTokens ?? options.maxTokens,
+        signal: options.signal,
+      });
+
+      llmCallLog.record({
+        ...call,
+        model: response.model || llm.model,
+        response: response.content,
+        usage: response.usage,
+        latencyMs: Date.now() - startedAt,
+      });
+      return response;
+    } catch (error: any) {
+      llmCallLog.record({ ...call, error: error.message || String(error), latencyMs: Date.now() - startedAt });
+      throw error;
+    }
+  }
+
+  private create(config: LLMProviderConfig): LLMProvider {
+    const factory = this.factories.get(config.type);
+    if (!factory) {
+      throw new Error(`Unknown LLM provider type: ${config.type}`);
+    }
+    return factory(config);
+  }
+
+  private getDefaults(): LLMConfig {
+    if (!this.defaults) {
+      this.defaults = this.loadDefaults();
+      if (!this.defaults.provider && !GroqProvider.isConfigured()) {
+        logger.warn('No LLM configured (GROQ_API_KEY or LLM_CONFIG). Tasks fail unless their project configures a provider.');
+      }
+    }
+    return this.defaults;
+  }
+
+  private loadDefaults(): LLMConfig {
+    if (!process.env.LLM_CONFIG) return {};
+
+    try {
+      const parsed = defaultLLMConfigSchema.safeParse(JSON.parse(process.env.LLM_CONFIG));
+      if (parsed.success) return parsed.data;
+      logger.error('Invalid LLM_CONFIG, ignoring it:', parsed.error.flatten());
+    } catch (error: any) {
+      logger.error(`LLM_CONFIG is not valid JSON, ignoring it: ${error.message}`);
+    }
+    return {};
+  }
+}
+
+export default new LLMProviderManager();
@@ -0,0 +1,49 @@
+import axios from 'axios';
+import { LLMProvider, LLMProviderConfig, LLMRequest, LLMResponse } from './types';
+
+type OpenAIConfig = Extract<LLMProviderConfig, { type: 'openai' }>;
+
+/**
+ * Any endpoint implementing the OpenAI chat completions API
+ * (OpenAI, Azure OpenAI, vLLM, Ollama, LiteLLM, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private config: OpenAIConfig) {
+    this.name = `openai:${config.baseUrl}`;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const apiKey = this.config.apiKeyEnv ? process.env[this.config.apiKeyEnv]?.trim() : undefined;
+    if (this.config.apiKeyEnv && !apiKey) {
+      throw new Error(`${this.config.apiKeyEnv} is not set`);
+    }
+
+    const response = await axios.post(
+      `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+      {
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      },
+      {
+        params: this.config.query,
+        headers: {
+          ...(apiKey && { Authorization: `Bearer ${apiKey}`, 'api-key': apiKey }), // api-key for Azure
+          ...this.config.headers,
+        },
+        timeout: 120000,
+        signal: request.signal,
+      }
+    );
+
+    const usage = response.data?.usage;
+    return {
+      content: response.data?.choices?.[0]?.message?.content || '',
+      model: response.data?.model || request.model,
+      usage: usage ? { promptTokens: usage.prompt_tokens || 0, completionTokens: usage.completion_tokens || 0 } : undefined,
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { FilePatch, applyHunksWithReport, parseUnifiedDiff } from '../utils/unified-diff';
+
+/**
+ * Schemas of the LLM tasks' answers
+ */
+
+const confidenceSchema = z.coerce.number().min(0).max(100);
+
+export const rootCauseOutputSchema = z.object({
+  description: z.string().trim().min(1),
+  reasoning: z.string().trim().min(1),
+  evidence: z.array(z.string().trim().min(1)).min(1),
+  confidence: confidenceSchema,
+});
+
+// Code that says what it would do instead of doing it
+const PLACEHOLDER_CODE = /^(\/\/|#|\/\*)?\s*(todo|optimi[sz]ed code|fixed code|code will be|implementation (goes )?here|\.\.\.)/i;
+
+const MAX_FUZZ = 2;
+
+/**
+ * Schema of a generated solution; patches must contain a unified diff that
+ * changes at least one file and applies to the current file, or (legacy) the
+ * changed, complete file
+ */
+export function solutionOutputSchema(currentFile?: { path?: string; content: string }) {
+  return z.object({
+    type: z.enum(['patch', 'rollback', 'config_fix', 'restart']),
+    description: z.string().trim().min(1),
+    reasoning: z.string().trim().min(1),
+    risk: z.enum(['low', 'medium', 'high']),
+    confidence: confidenceSchema,
+    estimatedTime: z.string().trim().min(1),
+    steps: z.array(z.string().trim().min(1)).min(1),
+    diff: z.string().optional(),
+    code: z.string().optional(),
+  }).superRefine((solution, ctx) => {
+    if (solution.type !== 'patch' && solution.type !== 'config_fix') return;
+
+    if (solution.diff?.trim()) {
+      for (const message of diffIssues(solution.diff, currentFile)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['diff'], message });
+      }
+      return;
+    }
+
+    const code = solution.code?.trim() || '';
+    if (!code || PLACEHOLDER_CODE.test(code)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['diff'], message: `A ${solution.type} must contain a unified diff of the fix` });
+    } else if (currentFile !== undefined && code === currentFile.content.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['code'], message: 'The code is identical to the current file; it must contain the fix' });
+    }
+  });
+}
+
+/**
+ * Problems of a generated diff: not a unified diff, no changes, or hunks that
+ * don't match the current content of the file shown to the model
+ */
+function diffIssues(diff: string, currentFile?: { path?: string; content: string }): string[] {
+  let patches: FilePatch[];
+  try {
+    patches = parseUnifiedDiff(diff);
+  } catch (error: any) {
+    return [error.message];
+  }
+
+  const changed = patches.filter((patch) => patch.hunks.some((hunk) => hunk.lines.some((line) => line[0] === '+' || line[0] === '-')));
+  if (changed.length === 0) {
+    return ['The diff must change at least one file, with "--- a/path", "+++ b/path" and "@@" hunk lines'];
+  }
+
+  const patch = currentFile?.path && changed.find((p) => p.oldPath === currentFile.path);
+  if (!patch) return [];
+  return applyHunksWithReport(currentFile.content, patch.hunks, MAX_FUZZ).hunks
+    .filter((hunk) => hunk.status === 'conflict')
+    .map((hunk) => `Hunk ${hunk.header} of ${patch.oldPath} does not match the current file content; its context and removed lines must be copied exactly`);
+}
+
+/**
+ * Schema of a generated regression test: a complete test file with at least one test case
+ */
+export const regressionTestOutputSchema = z.object({
+  description: z.string().trim().min(1),
+  content: z.string().trim().min(1).refine(
+    (content) => /\b(?:it|test)\s*\(/.test(content) && !PLACEHOLDER_CODE.test(content),
+    { message: 'Must be the complete test file, with at least one it(...) or test(...) case' }
+  ),
+});
+
+/**
+ * Schema of a commit analysis: one of the listed commits
+ */
+export function commitAnalysisOutputSchema(shas: string[]) {
+  return z.object({
+    sha: z.string().trim().min(7).refine(
+      (sha) => shas.some((candidate) => candidate.startsWith(sha) || sha.startsWith(candidate)),
+      { message: `Must be the SHA of one of the listed commits (${shas.join(', ')})` }
+    ),
+    reasoning: z.string().trim().min(1),
+  });
+}
+
+/**
+ * Follow-ups the chat can offer next to its answer
+ */
+export const chatActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('open_file'), path: z.string().trim().min(1), line: z.number().int().positive().optional() }),
+  z.object({ type: z.literal('open_url'), url: z.string().url(), title: z.string().optional() }),
+]);
+
+export const chatOutputSchema = z.object({
+  answer: z.string().trim().min(1),
+  actions: z.array(chatActionSchema).max(5).default([]),
+});
+
+export type ChatAction = z.infer<typeof chatActionSchema>;
+export type ChatOutput = z.infer<typeof chatOutputSchema>;
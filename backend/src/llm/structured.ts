@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import logger from '../utils/logger';
+import llmProviderManager from './index';
+import { LLMConfig, LLMMessage, LLMTask } from './types';
+
+const MAX_REPAIRS = 2; // Retries with the validation errors fed back
+
+/**
+ * An LLM answer that still didn't match its schema after the repair retries
+ */
+export class LLMOutputError extends Error {
+  constructor(
+    readonly task: LLMTask,
+    readonly attempts: number,
+    readonly issues: string[]
+  ) {
+    super(`The ${task.replace(/_/g, ' ')} answer was invalid after ${attempts} attempt(s): ${issues.slice(0, 3).join('; ')}`);
+    this.name = 'LLMOutputError';
+  }
+}
+
+/**
+ * JSON object of an answer (bare, or in a markdown code block)
+ */
+export function extractJSON(content: string): string | null {
+  const codeBlockMatch = content.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+  if (codeBlockMatch) return codeBlockMatch[1].trim();
+
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  return jsonMatch ? jsonMatch[0].trim() : null;
+}
+
+/**
+ * Escape raw control characters inside JSON strings (models often emit literal newlines in code)
+ */
+function escapeControlCharacters(json: string): string {
+  let fixed = '';
+  let inString = false;
+  let escapeNext = false;
+
+  for (const char of json) {
+    if (escapeNext) {
+      fixed += char;
+      escapeNext = false;
+    } else if (char === '\\') {
+      fixed += char;
+      escapeNext = true;
+    } else if (char === '"') {
+      inString = !inString;
+      fixed += char;
+    } else if (inString && /[\x00-\x1F\x7F]/.test(char)) {
+      const escapes: Record<string, string> = { '\n': '\\n', '\r': '\\r', '\t': '\\t', '\f': '\\f', '\b': '\\b' };
+      fixed += escapes[char] || `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+    } else {
+      fixed += char;
+    }
+  }
+  return fixed;
+}
+
+/**
+ * Parse the JSON object of an answer, throwing when there is none
+ */
+export function parseJSONResponse(content: string): unknown {
+  const json = extractJSON(content);
+  if (!json) {
+    throw new SyntaxError('The answer contains no JSON object');
+  }
+
+  try {
+    return JSON.parse(json);
+  } catch {
+    return JSON.parse(escapeControlCharacters(json));
+  }
+}
+
+function describeIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Run an LLM task whose answer must be a JSON object matching a schema.
+ * Invalid answers are sent back to the model with what is wrong, up to
+ * MAX_REPAIRS times; an LLMOutputError is thrown when they stay invalid.
+ */
+export async function completeStructured<T>(
+  task: LLMTask,
+  llmConfig: LLMConfig | null | undefined,
+  options: {
+    messages: LLMMessage[];
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+    temperature: number;
+    maxTokens: number;
+    signal?: AbortSignal;
+  }
+): Promise<T> {
+  const messages = [...options.messages];
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_REPAIRS + 1; attempt++) {
+    const response = await llmProviderManager.complete(task, llmConfig, {
+      messages,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      signal: options.signal,
+      attempt,
+    });
+
+    try {
+      const parsed = options.schema.safeParse(parseJSONResponse(response.content));
+      if (parsed.success) return parsed.data;
+      issues = describeIssues(parsed.error);
+    } catch (error: any) {
+      issues = [`Invalid JSON: ${error.message}`];
+    }
+
+    logger.warn(`🔧 Invalid ${task} answer (attempt ${attempt}): ${issues.join('; ')}`);
+    messages.push(
+      { role: 'assistant', content: response.content },
+      {
+        role: 'user',
+        content: `Your answer is invalid:\n${issues.map((issue) => `- ${issue}`).join('\n')}\n\nReturn ONLY the corrected JSON object, no markdown and no explanatory text.`,
+      }
+    );
+  }
+
+  throw new LLMOutputError(task, MAX_REPAIRS + 1, issues);
+}
@@ -0,0 +1,32 @@
+import { LLMTask } from '../db/schema';
+
+export type { LLMConfig, LLMProviderConfig, LLMTask, LLMTaskConfig } from '../db/schema';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  model: string;
+  messages: LLMMessage[];
+  temperature: number;
+  maxTokens: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMResponse {
+  content: string;
+  model: string; // Model that answered, as reported by the provider
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+/**
+ * A backend chat completions can be requested from (Groq, OpenAI-compatible endpoints, scripts, ...)
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel?: string; // Used when no model is configured
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
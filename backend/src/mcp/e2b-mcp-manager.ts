@@ -4,6 +4,7 @@ import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 // @ts-ignore - MCP SDK types may not be available
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import logger from '../utils/logger';
+import { CancelledError, isCancelledError, throwIfCancelled } from '../utils/cancellation';
 
 /**
  * E2B MCP Manager
@@ -257,8 +258,13 @@ export class E2BMCPManager {
 
   /**
    * Call a tool on an MCP server via MCP protocol
+   *
+   * The signal aborts the pending MCP request; the shared sandbox stays up
+   * because other incidents may be using it.
    */
-  async callTool(serverName: string, toolName: string, args: any): Promise<any> {
+  async callTool(serverName: string, toolName: string, args: any, signal?: AbortSignal): Promise<any> {
+    throwIfCancelled(signal);
+
     if (!this.isInitialized || !this.mcpClient) {
       logger.warn(`E2B MCP client not initialized. Cannot call tool on ${serverName}`);
       return null;
@@ -277,7 +283,7 @@ export class E2BMCPManager {
       const result = await this.mcpClient.callTool({
         name: toolName,
         arguments: args,
-      });
+      }, undefined, { signal });
 
       // @ts-ignore - MCP SDK types
       if (result.isError) {
@@ -310,6 +316,10 @@ export class E2BMCPManager {
       logger.warn(`MCP tool ${toolName} returned unexpected format`);
       return null;
     } catch (error) {
+      if (isCancelledError(error, signal)) {
+        logger.info(`MCP tool ${toolName} on ${serverName} cancelled`);
+        throw new CancelledError();
+      }
       logger.error(`Error calling MCP tool ${toolName} on ${serverName}:`, error);
       return null;
     }
@@ -1,37 +1,53 @@
 import { Router, Response } from 'express';
 import { authMiddleware, AuthRequest } from '../middleware/auth';
-import groqClient from '../groq/client';
-import IntegrationManager from '../services/integration-manager';
+import llmClient from '../llm/client';
+import llmCallLog from '../llm/call-log';
+import sourceControlManager from '../integrations/vcs';
 import logger from '../utils/logger';
+import { db } from '../db';
+import { projects } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
 
 const router = Router();
 
 /**
  * POST /api/ai-chat
- * Chat with AI about a project's GitHub repository
+ * Chat with AI about a project's repository (GitHub or a local git repository)
  */
 router.post('/', authMiddleware, async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.userId || 'demo-user';
-    const { projectId, githubOwner, githubRepo, question } = req.body;
+    const { projectId, question } = req.body;
 
-    if (!projectId || !githubOwner || !githubRepo || !question) {
+    if (!projectId || !question) {
       return res.status(400).json({
-        error: 'Missing required fields: projectId, githubOwner, githubRepo, question',
+        error: 'Missing required fields: projectId, question',
       });
     }
 
+    const [project] = await db.select().from(projects).where(
+      and(
+        eq(projects.id, projectId),
+        eq(projects.userId, userId)
+      )
+    );
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const { githubOwner, githubRepo } = project;
     logger.info(`AI Chat request for project ${projectId}:`, {
       githubOwner,
       githubRepo,
+      sourceControl: project.sourceControl?.type || 'github',
       questionLength: question.length,
     });
 
-    // Get GitHub integration
-    const integrationManager = new IntegrationManager(userId);
-    const github = await integrationManager.getGitHubIntegration();
+    // Get the project's repository
+    const vcs = await sourceControlManager.forProject(project, userId);
 
-    if (!github) {
+    if (!vcs) {
       return res.status(400).json({
         error: 'GitHub integration not configured',
         message: 'Please connect your GitHub account at /integrations',
@@ -44,19 +60,17 @@ router.post('/', authMiddleware, async (req: AuthRequest, res: Response) => {
     let filesToRead: string[] = [];
 
     try {
-      logger.info(`📂 Step 1: Getting directory hierarchy for ${githubOwner}/${githubRepo}...`);
+      logger.info(`📂 Step 1: Getting directory hierarchy for ${vcs.repository}...`);
 
       // Get root directory structure
-      const rootContents = await github.getDirectoryContents('.', 'main', githubOwner, githubRepo);
-      const rootFiles = Array.isArray(rootContents) ? rootContents : [rootContents];
+      const rootFiles = await vcs.listDirectory('.');
       
       // Build directory tree (only structure, not content)
       const buildTree = async (path: string, prefix: string = '', maxDepth: number = 2, currentDepth: number = 0): Promise<string> => {
         if (currentDepth >= maxDepth) return '';
         
         try {
-          const contents = await github.getDirectoryContents(path, 'main', githubOwner, githubRepo);
-          const items = Array.isArray(contents) ? contents : [contents];
+          const items = await vcs.listDirectory(path);
           
           let tree = '';
           for (let i = 0; i < items.length; i++) {
@@ -81,14 +95,14 @@ router.post('/', authMiddleware, async (req: AuthRequest, res: Response) => {
       logger.info(`✅ Directory tree built (${directoryTree.split('\n').length} lines)`);
 
       // Step 2: Read README if exists (for context, not full content)
-      const readmeFile = rootFiles.find((f: any) => 
+      const readmeFile = rootFiles.find((f) => 
         f.type === 'file' && 
         (f.name.toLowerCase() === 'readme.md' || f.name.toLowerCase() === 'readme.txt')
       );
       
       if (readmeFile) {
         try {
-          const readmeData = await github.getFileContent(readmeFile.path, 'main', githubOwner, githubRepo);
+          const readmeData = await vcs.getFileContent(readmeFile.path);
           // Only get first 2000 chars for context, not full file
           readmeContent = readmeData.content.substring(0, 2000);
           logger.info(`✅ Read README (${readmeData.content.length} chars, using first 2000 for context)`);
@@ -129,17 +143,16 @@ router.post('/', authMiddleware, async (req: AuthRequest, res: Response) => {
       // Step 4: Find and read only relevant files
       const findAndReadFile = async (fileName: string, searchPath: string = '.'): Promise<string | null> => {
         try {
-          const contents = await github.getDirectoryContents(searchPath, 'main', githubOwner, githubRepo);
-          const items = Array.isArray(contents) ? contents : [contents];
+          const items = await vcs.listDirectory(searchPath);
           
           // Check if file exists in current directory
-          const exactMatch = items.find((f: any) => 
+          const exactMatch = items.find((f) => 
             f.type === 'file' && (f.name === fileName || f.path === fileName || f.path.endsWith(fileName))
           );
           
           if (exactMatch) {
             try {
-              const fileData = await github.getFileContent(exactMatch.path, 'main', githubOwner, githubRepo);
+              const fileData = await vcs.getFileContent(exactMatch.path);
               return fileData.content;
             } catch (error: any) {
               logger.warn(`Could not read file ${exactMatch.path}:`, error.message);
@@ -177,10 +190,10 @@ router.post('/', authMiddleware, async (req: AuthRequest, res: Response) => {
         logger.info(`📖 No specific files mentioned, getting main entry point...`);
         
         // Get package.json for project info
-        const packageJsonFile = rootFiles.find((f: any) => f.name === 'package.json');
+        const packageJsonFile = rootFiles.find((f) => f.name === 'package.json');
         if (packageJsonFile) {
           try {
-            const packageData = await github.getFileContent('package.json', 'main', githubOwner, githubRepo);
+            const packageData = await vcs.getFileContent('package.json');
             filesToRead.push(`\n\npackage.json:\n\`\`\`json\n${packageData.content.substring(0, 2000)}\n\`\`\``);
             logger.info(`✅ Read package.json`);
           } catch (error: any) {
@@ -189,10 +202,10 @@ router.post('/', authMiddleware, async (req: AuthRequest, res: Response) => {
         }
 
         // Get main entry point
-        const entryPoint = await github.findMainEntryPoint('main', githubOwner, githubRepo);
+        const entryPoint = await vcs.findMainEntryPoint();
         if (entryPoint) {
           try {
-            const fileData = await github.getFileContent(entryPoint, 'main', githubOwner, githubRepo);
+            const fileData = await vcs.getFileContent(entryPoint);
             filesToRead.push(`\n\nMain Entry Point (${entryPoint}):\n\`\`\`\n${fileData.content.substring(0, 5000)}\n\`\`\``);
             logger.info(`✅ Read main entry point: ${entryPoint}`);
           } catch (error: any) {
@@ -212,9 +225,9 @@ router.post('/', authMiddleware, async (req: AuthRequest, res: Response) => {
       // Continue anyway - we'll use what we have
     }
 
-    // Build context for Groq (hierarchy first, then README, then specific files)
+    // Build context for the LLM (hierarchy first, then README, then specific files)
     const context = `
-Repository: ${githubOwner}/${githubRepo}
+Repository: ${vcs.repository}
 
 Directory Structure:
 ${directoryTree || 'Could not fetch directory structure'}
@@ -226,17 +239,21 @@ ${filesToRead.length > 0 ? `Relevant Files:\n${filesToRead.join('\n')}` : 'No sp
 
     logger.info(`📝 Context built for AI (${context.length} characters)`);
 
-    // Generate response using Groq
-    const response = await groqClient.generateChatResponse(
-      question,
-      context
+    // Generate response with the project's LLM
+    const response = await llmCallLog.run({ userId, projectId: project.id, phase: 'chat' }, () =>
+      llmClient.generateChatResponse(
+        question,
+        context,
+        project.llmConfig
+      )
     );
 
     logger.info(`AI Chat response generated for project ${projectId}`);
 
     return res.json({
       success: true,
-      response,
+      response: response.answer,
+      actions: response.actions,
       projectId,
       githubOwner,
       githubRepo,
@@ -1,7 +1,11 @@
 import { Router } from 'express';
 import { db } from '../db';
-import { incidents, incidentLogs, solutions, timelineEvents, commits } from '../db/schema';
+import { incidents, incidentLogs, solutions, timelineEvents, commits, issues } from '../db/schema';
 import { eq, desc } from 'drizzle-orm';
+import orchestrator from '../agent/orchestrator';
+import issueTracker from '../services/issue-tracker';
+import llmCallLog from '../llm/call-log';
+import { AuthRequest } from '../middleware/auth';
 import logger from '../utils/logger';
 
 const router = Router();
@@ -24,6 +28,30 @@ router.get('/', async (_req, res) => {
   }
 });
 
+/**
+ * GET /api/incidents/active
+ * Get incident runs currently in flight for the user
+ */
+router.get('/active', async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId || 'demo-user';
+    const activeRuns = orchestrator.getActiveRuns(userId).map((run) => ({
+      key: run.key,
+      incidentId: run.incidentId,
+      incident: run.incident,
+      projectId: run.project?.id || run.metadata?.projectId || null,
+      projectName: run.project?.vercelProjectName || run.metadata?.projectName || null,
+      currentPhase: run.timeline[run.timeline.length - 1]?.phase || null,
+      startedAt: run.startedAt,
+    }));
+
+    return res.json({ data: activeRuns });
+  } catch (error) {
+    logger.error('Error fetching active incidents:', error);
+    return res.status(500).json({ error: 'Failed to fetch active incidents' });
+  }
+});
+
 /**
  * GET /api/incidents/:id
  * Get a specific incident with all related data
@@ -43,20 +71,31 @@ router.get('/:id', async (req, res) => {
     }
 
     // Fetch related data
-    const [logs, timeline, solutionsList, commitsList] = await Promise.all([
+    const [logs, timeline, solutionsList, commitsList, issueList, llmUsage] = await Promise.all([
       db.select().from(incidentLogs).where(eq(incidentLogs.incidentId, id)).orderBy(desc(incidentLogs.timestamp)),
       db.select().from(timelineEvents).where(eq(timelineEvents.incidentId, id)).orderBy(desc(timelineEvents.timestamp)),
       db.select().from(solutions).where(eq(solutions.incidentId, id)).orderBy(desc(solutions.createdAt)),
       db.select().from(commits).where(eq(commits.incidentId, id)).orderBy(desc(commits.timestamp)),
+      incident.issueId ? db.select().from(issues).where(eq(issues.id, incident.issueId)) : Promise.resolve([]),
+      llmCallLog.getIncidentTotals(id),
     ]);
 
     return res.json({
       data: {
         incident,
         logs,
-        timeline,
+        // Pipeline checkpoints keep their phase/status in metadata
+        timeline: timeline.map((event) => ({
+          ...event,
+          phase: event.metadata?.phase,
+          status: event.metadata?.status,
+        })),
         solutions: solutionsList,
         commits: commitsList,
+        // Issue (error fingerprint group) that triggered the incident
+        issue: issueList[0] || null,
+        // Totals of the LLM calls made for the incident
+        llmUsage,
       },
     });
   } catch (error) {
@@ -65,6 +104,31 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/incidents/:id/llm-calls
+ * Get the LLM calls made for an incident (prompts, responses, tokens, latency, cost) with their totals
+ */
+router.get('/:id/llm-calls', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [incident] = await db
+      .select({ id: incidents.id })
+      .from(incidents)
+      .where(eq(incidents.id, id));
+
+    if (!incident) {
+      return res.status(404).json({ error: 'Incident not found' });
+    }
+
+    const { calls, totals } = await llmCallLog.getIncidentCalls(id);
+    return res.json({ data: { calls, totals } });
+  } catch (error) {
+    logger.error('Error fetching LLM calls:', error);
+    return res.status(500).json({ error: 'Failed to fetch LLM calls' });
+  }
+});
+
 /**
  * POST /api/incidents
  * Create a new incident
@@ -115,6 +179,11 @@ router.patch('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Incident not found' });
     }
 
+    // Resolving an incident resolves its issue, so the error coming back is a regression
+    if (updates.status === 'resolved' && updatedIncident.issueId) {
+      await issueTracker.markResolved(updatedIncident.issueId, { incidentId: id });
+    }
+
     logger.info(`Incident updated: ${id}`);
     return res.json({ data: updatedIncident });
   } catch (error) {
@@ -1,14 +1,27 @@
 import { Router, Response } from 'express';
 import { db } from '../db';
-import { projects, runtimeLogs } from '../db/schema';
+import { projects, runtimeLogs, issueStatusEnum } from '../db/schema';
 import { eq, and, desc, gte } from 'drizzle-orm';
 import { AuthRequest } from '../middleware/auth';
 import IntegrationManager from '../services/integration-manager';
+import issueTracker from '../services/issue-tracker';
+import alertRuleEngine, { alertRuleInputSchema, DEFAULT_ALERT_RULE } from '../services/alert-rules';
+import anomalyDetector from '../services/anomaly-detector';
+import logSourceManager, { logSourceConfigsSchema } from '../services/log-sources';
+import logTemplateMiner from '../services/log-template-miner';
+import { sourceControlConfigSchema } from '../integrations/vcs';
+import { llmConfigSchema } from '../llm';
+import { testConfigSchema } from '../services/patch-tester';
+import { verificationConfigSchema } from '../services/fix-verifier';
+import llmCallLog from '../llm/call-log';
 import logger from '../utils/logger';
 import crypto from 'crypto';
 
 const router = Router();
 
+type IssueStatus = typeof issueStatusEnum.enumValues[number];
+const ISSUE_STATUSES: readonly IssueStatus[] = issueStatusEnum.enumValues;
+
 /**
  * Get all projects for user
  */
@@ -82,7 +95,7 @@ router.get('/available', async (req: AuthRequest, res: Response) => {
 router.post('/', async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.userId || 'demo-user';
-    const { vercelProjectId, vercelProjectName, githubOwner, githubRepo, autoFix, autoFixThreshold } = req.body;
+    const { vercelProjectId, vercelProjectName, githubOwner, githubRepo, autoFix, autoFixThreshold, sourceControl, llmConfig, testConfig, verificationConfig } = req.body;
 
     logger.info('Received project creation request:', {
       vercelProjectId,
@@ -111,6 +124,27 @@ router.post('/', async (req: AuthRequest, res: Response) => {
       });
     }
 
+    const parsedSourceControl = sourceControl !== undefined ? sourceControlConfigSchema.safeParse(sourceControl) : null;
+    if (parsedSourceControl && !parsedSourceControl.success) {
+      return res.status(400).json({ error: 'Invalid source control', details: parsedSourceControl.error.flatten() });
+    }
+    const isLocalRepository = parsedSourceControl?.success && parsedSourceControl.data.type === 'local';
+
+    const parsedLLMConfig = llmConfig ? llmConfigSchema.safeParse(llmConfig) : null;
+    if (parsedLLMConfig && !parsedLLMConfig.success) {
+      return res.status(400).json({ error: 'Invalid LLM configuration', details: parsedLLMConfig.error.flatten() });
+    }
+
+    const parsedTestConfig = testConfig ? testConfigSchema.safeParse(testConfig) : null;
+    if (parsedTestConfig && !parsedTestConfig.success) {
+      return res.status(400).json({ error: 'Invalid test configuration', details: parsedTestConfig.error.flatten() });
+    }
+
+    const parsedVerificationConfig = verificationConfig ? verificationConfigSchema.safeParse(verificationConfig) : null;
+    if (parsedVerificationConfig && !parsedVerificationConfig.success) {
+      return res.status(400).json({ error: 'Invalid verification configuration', details: parsedVerificationConfig.error.flatten() });
+    }
+
     const integrationManager = new IntegrationManager(userId);
     
     // 1. Create Vercel webhook automatically
@@ -164,10 +198,10 @@ router.post('/', async (req: AuthRequest, res: Response) => {
       // Continue without webhook for local development
     }
 
-    // 2. Create GitHub webhook automatically
-    const github = await integrationManager.getGitHubIntegration();
+    // 2. Create GitHub webhook automatically (local repositories have none)
+    const github = isLocalRepository ? null : await integrationManager.getGitHubIntegration();
     
-    if (!github) {
+    if (!github && !isLocalRepository) {
       // Rollback Vercel webhook if it was created
       if (vercelWebhook) {
         try {
@@ -179,21 +213,23 @@ router.post('/', async (req: AuthRequest, res: Response) => {
       return res.status(400).json({ error: 'No GitHub integration found' });
     }
 
-    try {
-      githubWebhook = await github.createWebhook(githubOwner, githubRepo, {
-        url: `${webhookUrl}/api/webhooks/github`,
-        events: ['push', 'pull_request', 'deployment_status'],
-        secret: webhookSecret,
-      });
-      logger.info(`✅ GitHub webhook created: ${githubWebhook.id}`);
-    } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      logger.warn(`⚠️  Failed to create GitHub webhook: ${errorMessage}`);
-      logger.warn('   Project will be added without GitHub webhook. You can add it manually later.');
-      if (isLocalhost) {
-        logger.warn('   This is expected for localhost. Use ngrok for local testing.');
+    if (github) {
+      try {
+        githubWebhook = await github.createWebhook(githubOwner, githubRepo, {
+          url: `${webhookUrl}/api/webhooks/github`,
+          events: ['push', 'pull_request', 'deployment_status'],
+          secret: webhookSecret,
+        });
+        logger.info(`✅ GitHub webhook created: ${githubWebhook.id}`);
+      } catch (error: any) {
+        const errorMessage = error.response?.data?.message || error.message;
+        logger.warn(`⚠️  Failed to create GitHub webhook: ${errorMessage}`);
+        logger.warn('   Project will be added without GitHub webhook. You can add it manually later.');
+        if (isLocalhost) {
+          logger.warn('   This is expected for localhost. Use ngrok for local testing.');
+        }
+        // Continue without webhook for local development
       }
-      // Continue without webhook for local development
     }
 
     // 3. Get project details
@@ -209,6 +245,10 @@ router.post('/', async (req: AuthRequest, res: Response) => {
       githubOwner,
       githubRepo,
       githubWebhookId: githubWebhook?.id ? String(githubWebhook.id) : null,
+      sourceControl: parsedSourceControl?.success ? parsedSourceControl.data : null,
+      llmConfig: parsedLLMConfig?.success ? parsedLLMConfig.data : null,
+      testConfig: parsedTestConfig?.success ? parsedTestConfig.data : null,
+      verificationConfig: parsedVerificationConfig?.success ? parsedVerificationConfig.data : null,
       enabled: true,
       autoFix: autoFix || false,
       autoFixThreshold: autoFixThreshold || 90,
@@ -580,6 +620,8 @@ router.get('/:id/logs', async (req: AuthRequest, res: Response) => {
         url: log.url,
         method: log.method,
         statusCode: log.statusCode,
+        issueId: log.issueId,
+        templateId: log.templateId,
         metadata: log.metadata,
       }));
       
@@ -611,6 +653,364 @@ router.get('/:id/logs', async (req: AuthRequest, res: Response) => {
   }
 });
 
+/**
+ * Get issues (runtime errors grouped by fingerprint)
+ */
+router.get('/:id/issues', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId || 'demo-user';
+    const { id } = req.params;
+    const status = req.query.status as string | undefined;
+    const limit = parseInt(req.query.limit as string) || 100;
+
+    const [project] = await db.select().from(projects).where(
+      and(
+        eq(projects.id, id),
+        eq(projects.userId, userId)
+      )
+    );
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (status && !ISSUE_STATUSES.includes(status as any)) {
+      return res.status(400).json({ error: `Invalid status. Expected one of: ${ISSUE_STATUSES.join(', ')}` });
+    }
+
+    const projectIssues = await issueTracker.listIssues(id, {
+      status: status as IssueStatus | undefined,
+      limit,
+    });
+
+    return res.json({ success: true, data: projectIssues });
+  } catch (error: any) {
+    logger.error('Error fetching issues:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get single issue with linked incidents and recent occurrences
+ */
+router.get('/:id/issues/:issueId', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId || 'demo-user';
+    const { id, issueId } = req.params;
+
+    const [project] = await db.select().from(projects).where(
+      and(
+        eq(projects.id, id),
+        eq(projects.userId, userId)
+      )
+    );
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const issue = await issueTracker.getIssue(id, issueId);
+    if (!issue) {
+      return res.status(404).json({ error: 'Issue not found' });
+    }
+
+    return res.json({ success: true, data: issue });
+  } catch (error: any) {
+    logger.error('Error fetching issue:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Update issue status (open, resolved, ignored)
+ */
+router.patch('/:id/issues/:issueId', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId || 'demo-user';
+    const { id, issueId } = req.params;
+    const { status } = req.body;
+
+    if (!ISSUE_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Invalid status. Expected one of: ${ISSUE_STATUSES.join(', ')}` });
+    }
+
+    const [project] = await db.select().from(projects).where(
+      and(
+        eq(projects.id, id),
+        eq(projects.userId, userId)
+      )
+    );
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const issue = await issueTracker.updateStatus(id, issueId, status);
+    if (!issue) {
+      return res.status(404).json({ error: 'Issue not found' });
+    }
+
+    logger.info(`Issue ${issueId} marked as ${status}`);
+    return res.json({ success: true, data: issue });
+  } catch (error: any) {
+    logger.error('Error updating issue:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get alert rules (the default rule applies while a project has none)
+ */
+router.get('/:id/alert-rules', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId || 'demo-user';
+    const { id } = req.params;
+
+    const [project] = await db.select().from(projects).where(
+      and(
+        eq(projects.id, id),
+        eq(projects.userId, userId)
+      )
+    );
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const rules = await alertRuleEngine.listRules(id);
+
+    return res.json({ success: true, data: rules, defaultRule: DEFAULT_ALERT_RULE });
+  } catch (error: any) {
+    logger.error('Error fetching alert rules:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get anomaly baselines (per route and metric, learned from runtime logs)
+ */
+router.get('/:id/anomaly-baselines', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId || 'demo-user';
+    const { id } = req.params;
+
+    const [project] = await db.select().from(projects).where(
+      and(
+        eq(projects.id, id),
+        eq(projects.userId, userId)
+      )
+    );
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const baselines = await anomalyDetector.listBaselines(id);
+
+    return res.json({ success: true, data: baselines });
+  } catch (error: any) {
+    logger.error('Error fetching anomaly baselines:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get log templates (most frequent first) and the templates new since the latest deployment
+ */
+router.get('/:id/log-templates', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId || 'demo-user';
+    const { id } = req.params;
+    const { limit } = req.query;
+
+    const [project] = await db.select().from(projects).where(
+      and(
+        eq(projects.id, id),
+        eq(projects.userId, userId)
+      )
+    );
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const [templates, newSinceDeployment] = await Promise.all([
+      logTemplateMiner.listTemplates(id, Math.min(parseInt(limit as string) || 50, 200)),
+      logTemplateMiner.getNewTemplates(id),
+    ]);
+
+    return res.json({ success: true, data: templates, newSinceDeployment });
+  } catch (error: any) {
+    logger.error('Error fetching log templates:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get LLM usage (calls, tokens and cost) per month
+ */
+router.get('/:id/llm-usage', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId || 'demo-user';
+    const { id } = req.params;
+    const { months } = req.query;
+
+    const [project] = await db.select().from(projects).where(
+      and(
+        eq(projects.id, id),
+        eq(projects.userId, userId)
+      )
+    );
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const usage = await llmCallLog.getProjectMonthlyUsage(id, Math.min(Math.max(parseInt(months as string) || 6, 1), 24));
+
+    return res.json({ success: true, data: usage });
+  } catch (error: any) {
+    logger.error('Error fetching LLM usage:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Test log sources: fetch the last hour of logs from the given (or configured) sources
+ */
+router.post('/:id/log-sources/test', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId || 'demo-user';
+    const { id } = req.params;
+
+    const [project] = await db.select().from(projects).where(
+      and(
+        eq(projects.id, id),
+        eq(projects.userId, userId)
+      )
+    );
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const parsed = logSourceConfigsSchema.safeParse(req.body.logSources ?? project.logSources ?? []);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid log sources', details: parsed.error.flatten() });
+    }
+
+    const result = await logSourceManager.testSources(project, parsed.data, new Date(Date.now() - 60 * 60 * 1000));
+
+    return res.json({ success: true, data: result });
+  } catch (error: any) {
+    logger.error('Error testing log sources:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Create alert rule
+ */
+router.post('/:id/alert-rules', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId || 'demo-user';
+    const { id } = req.params;
+
+    const parsed = alertRuleInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid alert rule', details: parsed.error.flatten() });
+    }
+
+    const [project] = await db.select().from(projects).where(
+      and(
+        eq(projects.id, id),
+        eq(projects.userId, userId)
+      )
+    );
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const rule = await alertRuleEngine.createRule(id, parsed.data);
+
+    logger.info(`Alert rule "${rule.name}" created for project ${project.vercelProjectName}`);
+    return res.json({ success: true, data: rule });
+  } catch (error: any) {
+    logger.error('Error creating alert rule:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Update alert rule
+ */
+router.put('/:id/alert-rules/:ruleId', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId || 'demo-user';
+    const { id, ruleId } = req.params;
+
+    const parsed = alertRuleInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid alert rule', details: parsed.error.flatten() });
+    }
+
+    const [project] = await db.select().from(projects).where(
+      and(
+        eq(projects.id, id),
+        eq(projects.userId, userId)
+      )
+    );
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const rule = await alertRuleEngine.updateRule(id, ruleId, parsed.data);
+    if (!rule) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+
+    logger.info(`Alert rule "${rule.name}" updated for project ${project.vercelProjectName}`);
+    return res.json({ success: true, data: rule });
+  } catch (error: any) {
+    logger.error('Error updating alert rule:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Delete alert rule
+ */
+router.delete('/:id/alert-rules/:ruleId', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId || 'demo-user';
+    const { id, ruleId } = req.params;
+
+    const [project] = await db.select().from(projects).where(
+      and(
+        eq(projects.id, id),
+        eq(projects.userId, userId)
+      )
+    );
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const deleted = await alertRuleEngine.deleteRule(id, ruleId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+
+    logger.info(`Alert rule ${ruleId} deleted for project ${project.vercelProjectName}`);
+    return res.json({ success: true });
+  } catch (error: any) {
+    logger.error('Error deleting alert rule:', error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * Update project settings
  */
@@ -618,7 +1018,36 @@ router.put('/:id', async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.userId || 'demo-user';
     const { id } = req.params;
-    const { enabled, autoFix, autoFixThreshold } = req.body;
+    const { enabled, autoFix, autoFixThreshold, logSources, sourceControl, llmConfig, testConfig, verificationConfig } = req.body;
+
+    const parsedLogSources = logSources !== undefined ? logSourceConfigsSchema.safeParse(logSources) : null;
+    if (parsedLogSources && !parsedLogSources.success) {
+      return res.status(400).json({ error: 'Invalid log sources', details: parsedLogSources.error.flatten() });
+    }
+
+    // null resets the project to its GitHub repository
+    const parsedSourceControl = sourceControl ? sourceControlConfigSchema.safeParse(sourceControl) : null;
+    if (parsedSourceControl && !parsedSourceControl.success) {
+      return res.status(400).json({ error: 'Invalid source control', details: parsedSourceControl.error.flatten() });
+    }
+
+    // null resets the project to the LLM_CONFIG defaults
+    const parsedLLMConfig = llmConfig ? llmConfigSchema.safeParse(llmConfig) : null;
+    if (parsedLLMConfig && !parsedLLMConfig.success) {
+      return res.status(400).json({ error: 'Invalid LLM configuration', details: parsedLLMConfig.error.flatten() });
+    }
+
+    // null resets the project to the commands detected from the repository
+    const parsedTestConfig = testConfig ? testConfigSchema.safeParse(testConfig) : null;
+    if (parsedTestConfig && !parsedTestConfig.success) {
+      return res.status(400).json({ error: 'Invalid test configuration', details: parsedTestConfig.error.flatten() });
+    }
+
+    // null resets the project to the default verification window and tolerance
+    const parsedVerificationConfig = verificationConfig ? verificationConfigSchema.safeParse(verificationConfig) : null;
+    if (parsedVerificationConfig && !parsedVerificationConfig.success) {
+      return res.status(400).json({ error: 'Invalid verification configuration', details: parsedVerificationConfig.error.flatten() });
+    }
 
     const [updated] = await db
       .update(projects)
@@ -626,6 +1055,11 @@ router.put('/:id', async (req: AuthRequest, res: Response) => {
         ...(enabled !== undefined && { enabled }),
         ...(autoFix !== undefined && { autoFix }),
         ...(autoFixThreshold !== undefined && { autoFixThreshold }),
+        ...(parsedLogSources?.success && { logSources: parsedLogSources.data }),
+        ...(sourceControl !== undefined && { sourceControl: parsedSourceControl?.success ? parsedSourceControl.data : null }),
+        ...(llmConfig !== undefined && { llmConfig: parsedLLMConfig?.success ? parsedLLMConfig.data : null }),
+        ...(testConfig !== undefined && { testConfig: parsedTestConfig?.success ? parsedTestConfig.data : null }),
+        ...(verificationConfig !== undefined && { verificationConfig: parsedVerificationConfig?.success ? parsedVerificationConfig.data : null }),
         updatedAt: new Date(),
       })
       .where(and(
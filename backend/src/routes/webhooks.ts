@@ -380,6 +380,13 @@ async function storeLogs(projectId: string, logs: any[]) {
       } else {
         logger.warn('⚠️ Socket.io not available, logs not emitted');
       }
+
+      // Group errors into issues and evaluate alert rules (may trigger an incident or reopen a regressed one).
+      // Not awaited: a slow drain response makes Vercel retry and store the logs twice
+      const runtimeMonitor = (await import('../services/runtime-monitor')).default;
+      runtimeMonitor.processLogs(projectId, insertedLogs).catch((error) =>
+        logger.error(`Error processing runtime logs for project ${projectId}:`, error)
+      );
     }
   } catch (error: any) {
     logger.error('Error storing runtime logs:', error);
@@ -0,0 +1,383 @@
+import { z } from 'zod';
+import { db } from '../db';
+import { alertRules, runtimeLogs } from '../db/schema';
+import { and, asc, desc, eq, gte } from 'drizzle-orm';
+import logger from '../utils/logger';
+
+type AlertRuleRecord = typeof alertRules.$inferSelect;
+type RuntimeLogRecord = typeof runtimeLogs.$inferSelect;
+
+/**
+ * Whether a pattern repeats a group that itself repeats, like (a+)+ or (\w*,)*,
+ * which can backtrack exponentially on a line that almost matches
+ */
+export function hasNestedQuantifier(pattern: string): boolean {
+  const groups: boolean[] = []; // Whether each open group contains an unbounded quantifier
+  let closedQuantifiedGroup = false; // The previous token closed such a group
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+      closedQuantifiedGroup = false;
+      continue;
+    }
+    if (inClass) {
+      inClass = char !== ']';
+      continue;
+    }
+
+    const quantifier = char === '*' || char === '+' || (char === '{' && /^\{\d+,\d*\}/.test(pattern.slice(i)));
+    if (quantifier) {
+      if (closedQuantifiedGroup) return true;
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    }
+    closedQuantifiedGroup = false;
+
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      closedQuantifiedGroup = groups.pop() || false;
+      if (closedQuantifiedGroup && groups.length > 0) groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Validate a regular expression pattern (case-insensitive)
+ */
+const regexPattern = z
+  .string()
+  .max(500)
+  .refine((pattern) => {
+    try {
+      new RegExp(pattern, 'i');
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Invalid regular expression')
+  .refine((pattern) => !hasNestedQuantifier(pattern), 'Nested quantifiers like (a+)+ are not allowed: they can make matching hang');
+
+/**
+ * Alert rule as accepted by the API
+ */
+export const alertRuleInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean().default(true),
+  metric: z.enum(['count', 'rate']).default('count'),
+  threshold: z.number().int().min(1),
+  windowSeconds: z.number().int().min(10).max(24 * 60 * 60).default(300),
+  levels: z.array(z.enum(['error', 'warn', 'info', 'debug'])).default(['error']),
+  statusClasses: z.array(z.string().regex(/^(?:[1-5]xx|[1-5]\d\d)$/, 'Expected a status class (5xx) or code (404)')).default([]),
+  messagePattern: regexPattern.nullish(),
+  routePattern: regexPattern.nullish(),
+  minDistinctUsers: z.number().int().min(0).default(0),
+  minDistinctRequests: z.number().int().min(0).default(0),
+}).refine((rule) => rule.metric !== 'rate' || rule.threshold <= 100, {
+  message: 'Rate threshold is a percentage (1-100)',
+  path: ['threshold'],
+});
+
+export type AlertRuleInput = z.infer<typeof alertRuleInputSchema>;
+
+/**
+ * Rule used for projects without any alert rules: 3 errors in 5 minutes
+ */
+export const DEFAULT_ALERT_RULE: AlertRuleInput & { id: null; lastTriggeredAt: null; issueTriggeredAt: null } = {
+  id: null,
+  name: 'Default: 3 errors in 5 minutes',
+  enabled: true,
+  metric: 'count',
+  threshold: 3,
+  windowSeconds: 300,
+  levels: ['error'],
+  statusClasses: [],
+  messagePattern: null,
+  routePattern: null,
+  minDistinctUsers: 0,
+  minDistinctRequests: 0,
+  lastTriggeredAt: null,
+  issueTriggeredAt: null,
+};
+
+type EvaluatedRule = AlertRuleRecord | typeof DEFAULT_ALERT_RULE;
+
+// Cooldown key of logs without an issue (warnings, 5xx responses)
+const PROJECT_KEY = 'project';
+
+type RuleFilters = {
+  levels?: string[] | null;
+  statusClasses?: string[] | null;
+  messagePattern?: string | null;
+  routePattern?: string | null;
+};
+
+export interface AlertRuleMatch {
+  rule: EvaluatedRule;
+  issueId: string | null; // null for logs without an issue
+  logs: RuntimeLogRecord[]; // Incoming logs of the issue matching the rule's filters
+  stats: {
+    value: number; // Matching logs (count) or percentage (rate)
+    matched: number;
+    total: number;
+    distinctUsers: number;
+    distinctRequests: number;
+  };
+}
+
+/**
+ * Alert Rule Engine
+ *
+ * Evaluates the per-project alert rules against incoming runtime logs (SDK
+ * reports, Log Drains, fetched logs). A rule is only evaluated when an
+ * incoming log matches its filters; it then matches when its metric over the
+ * sliding window (read from runtime_logs) reaches the threshold and the
+ * minimum number of distinct users/requests is met. Rules are evaluated per
+ * issue: logs of different issues are counted separately, and a rule that
+ * matched for an issue is not evaluated again for it until its window has
+ * passed.
+ */
+export class AlertRuleEngine {
+  // Upper bound of logs read for one window
+  private readonly MAX_WINDOW_LOGS = 5000;
+  private readonly MAX_COMPILED_PATTERNS = 1000;
+
+  // Message and route patterns, compiled once (rules are re-read on every evaluation)
+  private readonly patterns = new Map<string, (text: string) => boolean>();
+
+  /**
+   * Evaluate the project's rules against newly stored logs
+   */
+  async evaluate(projectId: string, logs: RuntimeLogRecord[]): Promise<AlertRuleMatch[]> {
+    const rules: EvaluatedRule[] = await this.listRules(projectId);
+    const activeRules = rules.length > 0 ? rules.filter((rule) => rule.enabled) : [DEFAULT_ALERT_RULE];
+
+    const now = new Date();
+    const windows = new Map<number, RuntimeLogRecord[]>();
+    const matches: AlertRuleMatch[] = [];
+
+    for (const rule of activeRules) {
+      const incoming = logs.filter((log) => this.matchesFilters(rule, log));
+      if (incoming.length === 0) continue;
+
+      const windowStart = new Date(now.getTime() - rule.windowSeconds * 1000);
+      // Cooldowns that have passed are dropped
+      const triggeredAt = Object.fromEntries(
+        Object.entries(rule.issueTriggeredAt || {}).filter(([, at]) => new Date(at) > windowStart)
+      );
+      let triggered = false;
+
+      for (const [key, issueLogs] of this.groupByIssue(incoming)) {
+        const label = key === PROJECT_KEY ? `Alert rule "${rule.name}"` : `Alert rule "${rule.name}" (issue ${key})`;
+        if (triggeredAt[key]) {
+          logger.debug(`${label} triggered at ${triggeredAt[key]}, cooling down`);
+          continue;
+        }
+
+        let windowLogs = windows.get(rule.windowSeconds);
+        if (!windowLogs) {
+          windowLogs = await this.loadWindow(projectId, windowStart);
+          windows.set(rule.windowSeconds, windowLogs);
+        }
+
+        const stats = this.computeStats(rule, windowLogs, key);
+        logger.info(
+          `${label}: ${stats.value}${rule.metric === 'rate' ? '%' : ''} in last ${rule.windowSeconds}s (threshold: ${rule.threshold}${rule.metric === 'rate' ? '%' : ''}, ${stats.distinctUsers} users, ${stats.distinctRequests} requests)`
+        );
+
+        if (
+          stats.value >= rule.threshold &&
+          stats.distinctUsers >= rule.minDistinctUsers &&
+          stats.distinctRequests >= rule.minDistinctRequests
+        ) {
+          triggeredAt[key] = now.toISOString();
+          triggered = true;
+          matches.push({ rule, issueId: key === PROJECT_KEY ? null : key, logs: issueLogs, stats });
+        }
+      }
+
+      if (rule.id && triggered) {
+        await this.saveTriggers(rule.id, now, triggeredAt);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Whether a log passes a rule's level, status, message and route filters
+   */
+  matchesFilters(rule: RuleFilters, log: RuntimeLogRecord): boolean {
+    const levels = rule.levels || [];
+    if (levels.length > 0 && !levels.includes(log.level)) return false;
+
+    const statusClasses = rule.statusClasses || [];
+    if (statusClasses.length > 0) {
+      const statusCode = log.statusCode || Number(log.metadata?.statusCode) || null;
+      if (!statusCode || !statusClasses.some((statusClass) => this.matchesStatus(statusClass, statusCode))) {
+        return false;
+      }
+    }
+
+    if (rule.messagePattern && !this.pattern(rule.messagePattern)(log.message)) return false;
+
+    return this.matchesRoute(rule, log);
+  }
+
+  private matchesRoute(rule: RuleFilters, log: RuntimeLogRecord): boolean {
+    return !rule.routePattern || this.pattern(rule.routePattern)(log.url || '');
+  }
+
+  /**
+   * Case-insensitive matcher of a pattern; patterns that aren't safe regular
+   * expressions (saved before they were validated) are matched as text
+   */
+  private pattern(pattern: string): (text: string) => boolean {
+    let matcher = this.patterns.get(pattern);
+    if (matcher) return matcher;
+
+    try {
+      if (hasNestedQuantifier(pattern)) throw new Error('nested quantifier');
+      const regex = new RegExp(pattern, 'i');
+      matcher = (text) => regex.test(text);
+    } catch (error: any) {
+      logger.warn(`Alert rule pattern /${pattern}/ is not a safe regular expression (${error.message}), matching it as text`);
+      const needle = pattern.toLowerCase();
+      matcher = (text) => text.toLowerCase().includes(needle);
+    }
+
+    if (this.patterns.size >= this.MAX_COMPILED_PATTERNS) this.patterns.clear();
+    this.patterns.set(pattern, matcher);
+    return matcher;
+  }
+
+  private matchesStatus(statusClass: string, statusCode: number): boolean {
+    return statusClass.endsWith('xx')
+      ? Math.floor(statusCode / 100) === Number(statusClass[0])
+      : statusCode === Number(statusClass);
+  }
+
+  /**
+   * Logs by issue ID, or PROJECT_KEY for logs without an issue
+   */
+  private groupByIssue(logs: RuntimeLogRecord[]): Map<string, RuntimeLogRecord[]> {
+    const groups = new Map<string, RuntimeLogRecord[]>();
+    for (const log of logs) {
+      const key = log.issueId || PROJECT_KEY;
+      groups.set(key, [...(groups.get(key) || []), log]);
+    }
+    return groups;
+  }
+
+  /**
+   * Metric and spread of an issue's logs in a window
+   */
+  private computeStats(rule: EvaluatedRule, windowLogs: RuntimeLogRecord[], key: string): AlertRuleMatch['stats'] {
+    const matchedLogs = windowLogs.filter((log) => (log.issueId || PROJECT_KEY) === key && this.matchesFilters(rule, log));
+    // Rate: the issue's share of all traffic on the rule's routes
+    const total = windowLogs.filter((log) => this.matchesRoute(rule, log)).length;
+
+    const value = rule.metric === 'rate'
+      ? (total > 0 ? Math.round((matchedLogs.length / total) * 100) : 0)
+      : matchedLogs.length;
+
+    const users = new Set(matchedLogs.map((log) => this.userKey(log)).filter(Boolean));
+    const requests = new Set(matchedLogs.map((log) => log.requestId || log.metadata?.requestId).filter(Boolean));
+
+    return {
+      value,
+      matched: matchedLogs.length,
+      total,
+      distinctUsers: users.size,
+      distinctRequests: requests.size,
+    };
+  }
+
+  /**
+   * Best available identity of the user behind a log (user/session ID, client IP, user agent)
+   */
+  private userKey(log: RuntimeLogRecord): string | null {
+    const metadata = log.metadata || {};
+    return (
+      metadata.userId ||
+      metadata.user?.id ||
+      metadata.sessionId ||
+      metadata.proxy?.clientIp ||
+      metadata.ip ||
+      metadata.userAgent ||
+      null
+    );
+  }
+
+  private async saveTriggers(ruleId: string, now: Date, issueTriggeredAt: Record<string, string>): Promise<void> {
+    await db
+      .update(alertRules)
+      .set({ lastTriggeredAt: now, issueTriggeredAt })
+      .where(eq(alertRules.id, ruleId));
+  }
+
+  private async loadWindow(projectId: string, since: Date): Promise<RuntimeLogRecord[]> {
+    return db
+      .select()
+      .from(runtimeLogs)
+      .where(and(eq(runtimeLogs.projectId, projectId), gte(runtimeLogs.timestamp, since)))
+      .orderBy(desc(runtimeLogs.timestamp))
+      .limit(this.MAX_WINDOW_LOGS);
+  }
+
+  /**
+   * List the alert rules of a project
+   */
+  async listRules(projectId: string): Promise<AlertRuleRecord[]> {
+    return db
+      .select()
+      .from(alertRules)
+      .where(eq(alertRules.projectId, projectId))
+      .orderBy(asc(alertRules.createdAt));
+  }
+
+  /**
+   * Create an alert rule
+   */
+  async createRule(projectId: string, input: AlertRuleInput): Promise<AlertRuleRecord> {
+    const [rule] = await db
+      .insert(alertRules)
+      .values({ ...input, projectId })
+      .returning();
+
+    return rule;
+  }
+
+  /**
+   * Update an alert rule
+   */
+  async updateRule(projectId: string, ruleId: string, input: AlertRuleInput): Promise<AlertRuleRecord | null> {
+    const [rule] = await db
+      .update(alertRules)
+      .set({ ...input, updatedAt: new Date() })
+      .where(and(eq(alertRules.id, ruleId), eq(alertRules.projectId, projectId)))
+      .returning();
+
+    return rule || null;
+  }
+
+  /**
+   * Delete an alert rule
+   */
+  async deleteRule(projectId: string, ruleId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(alertRules)
+      .where(and(eq(alertRules.id, ruleId), eq(alertRules.projectId, projectId)))
+      .returning({ id: alertRules.id });
+
+    return deleted.length > 0;
+  }
+}
+
+export default new AlertRuleEngine();
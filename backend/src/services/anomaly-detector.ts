@@ -0,0 +1,382 @@
+import { db } from '../db';
+import { projects, runtimeLogs, anomalyBaselines, anomalyMetricEnum } from '../db/schema';
+import { and, eq, gte, lt, sql } from 'drizzle-orm';
+import logger from '../utils/logger';
+
+type ProjectRecord = typeof projects.$inferSelect;
+type RuntimeLogRecord = typeof runtimeLogs.$inferSelect;
+type BaselineRecord = typeof anomalyBaselines.$inferSelect;
+
+export type AnomalyMetric = (typeof anomalyMetricEnum.enumValues)[number];
+
+export interface Anomaly {
+  route: string; // Normalised path, "*" for the whole project
+  metric: AnomalyMetric;
+  direction: 'spike' | 'drop';
+  value: number; // Observed value (share 0-1 for rates, requests for volume)
+  expected: number; // Baseline mean
+  stdDev: number;
+  zScore: number;
+  windowStart: Date;
+  windowEnd: Date;
+  requests: number;
+  errors: number;
+  serverErrors: number;
+  baselineSamples: number;
+}
+
+export interface AnomalyReport {
+  anomalies: Anomaly[]; // Strongest deviation first
+  logs: RuntimeLogRecord[]; // Logs of the window (evidence)
+}
+
+interface RouteStats {
+  requests: number;
+  errors: number;
+  serverErrors: number;
+}
+
+const METRIC_LABELS: Record<AnomalyMetric, string> = {
+  error_rate: 'error rate',
+  server_error_rate: '5xx rate',
+  request_volume: 'request volume',
+};
+
+/**
+ * Human-readable summary of an anomaly, e.g. "5xx rate on /api/checkout at 42.0% (baseline 1.2%, z=8.3)"
+ */
+export function describeAnomaly(anomaly: Anomaly): string {
+  const format = (value: number) =>
+    anomaly.metric === 'request_volume' ? `${Math.round(value)} req` : `${(value * 100).toFixed(1)}%`;
+  const route = anomaly.route === '*' ? 'all routes' : anomaly.route;
+  const minutes = Math.round((new Date(anomaly.windowEnd).getTime() - new Date(anomaly.windowStart).getTime()) / 60000);
+
+  return `${METRIC_LABELS[anomaly.metric]} ${anomaly.direction} on ${route}: ${format(anomaly.value)} in ${minutes} min (baseline ${format(anomaly.expected)} ± ${format(anomaly.stdDev)}, z=${anomaly.zScore.toFixed(1)})`;
+}
+
+/**
+ * Normalise a URL to a route: path only, with IDs replaced by ":id"
+ */
+export function normalizeRoute(url: string | null | undefined): string | null {
+  if (!url) return null;
+
+  const path = url
+    .replace(/^https?:\/\/[^/]+/, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '');
+
+  return (
+    path
+      .split('/')
+      .map((segment) =>
+        /^\d+$/.test(segment) ||
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment) ||
+        /^(?=.*\d)[0-9a-f]{12,}$/i.test(segment) ||
+        (/^(?=.*[A-Za-z])(?=.*\d)[A-Za-z0-9_-]{16,}$/.test(segment))
+          ? ':id'
+          : segment
+      )
+      .join('/') || '/'
+  );
+}
+
+/**
+ * Anomaly Detector
+ *
+ * Continuously learns per-project and per-route baselines of error rate, 5xx
+ * rate and request volume from runtime_logs, in fixed buckets. Each baseline is
+ * an exponentially weighted moving average (EWMA) with its variance; a bucket
+ * deviating by more than Z_THRESHOLD standard deviations (upwards for error
+ * rates, either way for volume) is an anomaly. Anomalous buckets are folded
+ * into the baseline with a reduced weight so a lasting shift is eventually
+ * learned without masking the incident itself.
+ */
+export class AnomalyDetector {
+  private readonly BUCKET_SECONDS = 300;
+  private readonly CHECK_INTERVAL_MS = 60 * 1000;
+  private readonly ALPHA = 0.1; // EWMA weight of a new bucket
+  private readonly ANOMALY_ALPHA_FACTOR = 0.25; // Weight factor for anomalous buckets
+  private readonly Z_THRESHOLD = 3;
+  private readonly WARMUP_BUCKETS = 12; // Buckets before a baseline is trusted (1 hour)
+  private readonly MIN_REQUESTS = 20; // Requests in a bucket before rates are meaningful
+  private readonly MIN_RATE_STD_DEV = 0.02; // 2 percentage points
+  private readonly COOLDOWN_MS = 30 * 60 * 1000; // Per route and metric
+  private readonly MAX_ROUTES = 50; // Busiest routes tracked per project
+  private readonly MAX_BUCKET_LOGS = 20000;
+
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+  private onAnomalies: ((project: ProjectRecord, report: AnomalyReport) => Promise<void>) | null = null;
+
+  /**
+   * Start checking every closed bucket of all enabled projects
+   */
+  start(onAnomalies: (project: ProjectRecord, report: AnomalyReport) => Promise<void>): void {
+    if (this.timer) return;
+
+    this.onAnomalies = onAnomalies;
+    this.timer = setInterval(() => {
+      this.checkAll().catch((error) => logger.error('Anomaly check failed:', error));
+    }, this.CHECK_INTERVAL_MS);
+    this.timer.unref();
+
+    logger.info(`📈 Anomaly detector started (${this.BUCKET_SECONDS}s buckets, z >= ${this.Z_THRESHOLD})`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check the last closed bucket of every enabled project
+   */
+  async checkAll(now: Date = new Date()): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const bucketMs = this.BUCKET_SECONDS * 1000;
+      const windowEnd = new Date(Math.floor(now.getTime() / bucketMs) * bucketMs);
+      const windowStart = new Date(windowEnd.getTime() - bucketMs);
+
+      const enabledProjects = await db.select().from(projects).where(eq(projects.enabled, true));
+      for (const project of enabledProjects) {
+        try {
+          const report = await this.checkProject(project, windowStart, windowEnd);
+          if (report && report.anomalies.length > 0 && this.onAnomalies) {
+            await this.onAnomalies(project, report);
+          }
+        } catch (error: any) {
+          logger.error(`Anomaly check failed for project ${project.vercelProjectName}:`, error);
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Fold one bucket into the project's baselines and return the anomalies found in it
+   */
+  async checkProject(project: ProjectRecord, windowStart: Date, windowEnd: Date): Promise<AnomalyReport | null> {
+    const baselines = await this.listBaselines(project.id);
+
+    // Bucket already folded in (e.g. a check that overlapped a restart)
+    if (baselines.some((baseline) => baseline.lastBucketAt && baseline.lastBucketAt >= windowStart)) {
+      return null;
+    }
+
+    const logs = await this.loadBucket(project.id, windowStart, windowEnd);
+
+    const stats = this.aggregate(logs);
+    // Routes with a baseline but no traffic in this bucket still count (volume drops)
+    for (const baseline of baselines) {
+      if (!stats.has(baseline.route)) {
+        stats.set(baseline.route, { requests: 0, errors: 0, serverErrors: 0 });
+      }
+    }
+    if (stats.size === 0) return null;
+
+    const byKey = new Map(baselines.map((baseline) => [`${baseline.route}|${baseline.metric}`, baseline]));
+    const anomalies: Anomaly[] = [];
+    const updates: Array<typeof anomalyBaselines.$inferInsert> = [];
+
+    for (const [route, routeStats] of stats) {
+      for (const metric of anomalyMetricEnum.enumValues) {
+        const value = this.metricValue(metric, routeStats);
+        if (value === null) continue;
+
+        const baseline = byKey.get(`${route}|${metric}`);
+        const anomaly = baseline ? this.score(baseline, metric, value, routeStats, windowStart, windowEnd) : null;
+        const cooledDown = !baseline?.lastAnomalyAt || windowEnd.getTime() - baseline.lastAnomalyAt.getTime() >= this.COOLDOWN_MS;
+
+        if (anomaly && cooledDown) {
+          anomalies.push(anomaly);
+        }
+
+        updates.push({
+          projectId: project.id,
+          route,
+          metric,
+          ...this.fold(baseline, value, !!anomaly),
+          lastValue: value,
+          lastBucketAt: windowStart,
+          lastAnomalyAt: anomaly && cooledDown ? windowEnd : baseline?.lastAnomalyAt || null,
+          updatedAt: new Date(),
+        });
+      }
+    }
+
+    if (updates.length > 0) {
+      await this.saveBaselines(updates);
+    }
+
+    anomalies.sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore));
+    for (const anomaly of anomalies) {
+      logger.warn(`📈 Anomaly in project ${project.vercelProjectName}: ${describeAnomaly(anomaly)}`);
+    }
+
+    return { anomalies, logs };
+  }
+
+  private async loadBucket(projectId: string, windowStart: Date, windowEnd: Date): Promise<RuntimeLogRecord[]> {
+    return db
+      .select()
+      .from(runtimeLogs)
+      .where(
+        and(
+          eq(runtimeLogs.projectId, projectId),
+          gte(runtimeLogs.timestamp, windowStart),
+          lt(runtimeLogs.timestamp, windowEnd)
+        )
+      )
+      .limit(this.MAX_BUCKET_LOGS);
+  }
+
+  private async saveBaselines(updates: Array<typeof anomalyBaselines.$inferInsert>): Promise<void> {
+    await db
+      .insert(anomalyBaselines)
+      .values(updates)
+      .onConflictDoUpdate({
+        target: [anomalyBaselines.projectId, anomalyBaselines.route, anomalyBaselines.metric],
+        set: {
+          mean: sql`excluded.mean`,
+          variance: sql`excluded.variance`,
+          samples: sql`excluded.samples`,
+          lastValue: sql`excluded.last_value`,
+          lastBucketAt: sql`excluded.last_bucket_at`,
+          lastAnomalyAt: sql`excluded.last_anomaly_at`,
+          updatedAt: sql`excluded.updated_at`,
+        },
+      });
+  }
+
+  /**
+   * Per-request stats of a bucket, per route and for the whole project ("*")
+   *
+   * Logs sharing a request ID are one request; logs without one count as a request each.
+   */
+  private aggregate(logs: RuntimeLogRecord[]): Map<string, RouteStats> {
+    const requests = new Map<string, { route: string | null; error: boolean; serverError: boolean }>();
+
+    for (const log of logs) {
+      const key = log.requestId || log.metadata?.requestId || log.id;
+      const statusCode = log.statusCode || Number(log.metadata?.statusCode) || 0;
+      const request = requests.get(key) || { route: null, error: false, serverError: false };
+
+      request.route = request.route || normalizeRoute(log.url);
+      request.error = request.error || log.level === 'error';
+      request.serverError = request.serverError || statusCode >= 500;
+      requests.set(key, request);
+    }
+
+    const total: RouteStats = { requests: 0, errors: 0, serverErrors: 0 };
+    const routes = new Map<string, RouteStats>();
+
+    for (const request of requests.values()) {
+      const targets = [total];
+      if (request.route) {
+        const routeStats = routes.get(request.route) || { requests: 0, errors: 0, serverErrors: 0 };
+        routes.set(request.route, routeStats);
+        targets.push(routeStats);
+      }
+
+      for (const stats of targets) {
+        stats.requests++;
+        if (request.error) stats.errors++;
+        if (request.serverError) stats.serverErrors++;
+      }
+    }
+
+    const busiest = Array.from(routes.entries())
+      .sort((a, b) => b[1].requests - a[1].requests)
+      .slice(0, this.MAX_ROUTES);
+
+    return new Map(total.requests > 0 ? [['*', total], ...busiest] : busiest);
+  }
+
+  /**
+   * Value of a metric for a bucket (null if there is too little traffic for a rate)
+   */
+  private metricValue(metric: AnomalyMetric, stats: RouteStats): number | null {
+    if (metric === 'request_volume') return stats.requests;
+    if (stats.requests < this.MIN_REQUESTS) return null;
+
+    return metric === 'error_rate' ? stats.errors / stats.requests : stats.serverErrors / stats.requests;
+  }
+
+  /**
+   * Compare a bucket to its baseline, returning the anomaly if it deviates significantly
+   */
+  private score(
+    baseline: BaselineRecord,
+    metric: AnomalyMetric,
+    value: number,
+    stats: RouteStats,
+    windowStart: Date,
+    windowEnd: Date
+  ): Anomaly | null {
+    if (baseline.samples < this.WARMUP_BUCKETS) return null;
+
+    // Floor the deviation so flat baselines don't flag noise: 2pp for rates, Poisson noise for volume
+    const minStdDev = metric === 'request_volume' ? Math.max(1, Math.sqrt(baseline.mean)) : this.MIN_RATE_STD_DEV;
+    const stdDev = Math.max(Math.sqrt(baseline.variance), minStdDev);
+    const zScore = (value - baseline.mean) / stdDev;
+
+    const significant = metric === 'request_volume'
+      ? Math.abs(zScore) >= this.Z_THRESHOLD && Math.max(value, baseline.mean) >= this.MIN_REQUESTS
+      : zScore >= this.Z_THRESHOLD;
+    if (!significant) return null;
+
+    return {
+      route: baseline.route,
+      metric,
+      direction: zScore > 0 ? 'spike' : 'drop',
+      value,
+      expected: baseline.mean,
+      stdDev,
+      zScore,
+      windowStart,
+      windowEnd,
+      requests: stats.requests,
+      errors: stats.errors,
+      serverErrors: stats.serverErrors,
+      baselineSamples: baseline.samples,
+    };
+  }
+
+  /**
+   * EWMA update of a baseline's mean and variance
+   */
+  private fold(
+    baseline: BaselineRecord | undefined,
+    value: number,
+    anomalous: boolean
+  ): { mean: number; variance: number; samples: number } {
+    if (!baseline || baseline.samples === 0) {
+      return { mean: value, variance: 0, samples: 1 };
+    }
+
+    const alpha = anomalous ? this.ALPHA * this.ANOMALY_ALPHA_FACTOR : this.ALPHA;
+    const diff = value - baseline.mean;
+    const increment = alpha * diff;
+
+    return {
+      mean: baseline.mean + increment,
+      variance: (1 - alpha) * (baseline.variance + diff * increment),
+      samples: baseline.samples + 1,
+    };
+  }
+
+  /**
+   * Current baselines of a project
+   */
+  async listBaselines(projectId: string): Promise<BaselineRecord[]> {
+    return db.select().from(anomalyBaselines).where(eq(anomalyBaselines.projectId, projectId));
+  }
+}
+
+export default new AnomalyDetector();
@@ -0,0 +1,164 @@
+import { BlameRange, SourceControlProvider } from '../integrations/vcs';
+import { BlameSuspect } from '../utils/types';
+import { isCancelledError, throwIfCancelled } from '../utils/cancellation';
+import logger from '../utils/logger';
+import { normalizeFilePath } from './error-fingerprint';
+
+export interface BlameTarget {
+  file: string; // Source file, relative to the repository
+  line: number;
+  position: number; // 0 = innermost frame
+  fn?: string;
+}
+
+// Source map paths that are never part of the repository
+const IGNORED_PATH = /node_modules|next\/dist|webpack\/runtime|^node:|^internal\//;
+const BUNDLED_PATH = /(?:^|\/)\.next\/|_next\/static|(?:^|\/)chunks\//;
+
+/**
+ * Top stack frame lines of an incident, innermost first
+ *
+ * Uses the source-mapped `stackFrames` sent by the SDK, falling back to the
+ * reported source file and line of each error.
+ */
+export function extractBlameTargets(metadata: Record<string, any>, limit: number = 5): BlameTarget[] {
+  const candidates: Array<{ file?: string; line?: number; fn?: string }> = [];
+
+  for (const error of metadata.errors || []) {
+    for (const frame of error.metadata?.stackFrames || error.stackFrames || []) {
+      // Unresolved frames of bundled files point at bundle lines, not source lines
+      if (!frame.originalFileName && BUNDLED_PATH.test(frame.fileName || '')) continue;
+      candidates.push({ file: frame.fileName, line: frame.lineNumber, fn: frame.functionName });
+    }
+    candidates.push({ file: error.source, line: error.lineno });
+  }
+
+  const targets: BlameTarget[] = [];
+  const seen = new Set<string>();
+  for (const candidate of candidates) {
+    if (!candidate.file || !candidate.line || candidate.line < 1) continue;
+
+    const file = normalizeFilePath(candidate.file).replace(/^(?:\.\.\/)+/, '').replace(/^_N_E\//, '').replace(/^\/+/, '');
+    if (IGNORED_PATH.test(file) || BUNDLED_PATH.test(file) || !/\.[cm]?[jt]sx?$/.test(file)) continue;
+
+    const key = `${file}:${candidate.line}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    targets.push({ file, line: candidate.line, position: targets.length, fn: candidate.fn });
+  }
+
+  return targets.slice(0, limit);
+}
+
+/**
+ * Blame Ranker
+ *
+ * Blames the lines around the top stack frames of an incident and ranks the
+ * commits that last touched them. A commit scores higher the closer its lines
+ * are to a frame's line, the more inner the frame, and the more recent the
+ * commit (the weight halves every HALF_LIFE_DAYS before the incident).
+ */
+export class BlameRanker {
+  private readonly WINDOW = 3; // Lines around each frame line
+  private readonly HALF_LIFE_DAYS = 14;
+  private readonly MAX_SUSPECTS = 10;
+
+  /**
+   * Rank the commits that last touched the lines of the top stack frames
+   */
+  async rank(options: {
+    vcs: SourceControlProvider;
+    ref?: string; // Commit of the failing deployment when known
+    targets: BlameTarget[];
+    now?: Date;
+    signal?: AbortSignal;
+  }): Promise<BlameSuspect[]> {
+    const { vcs, targets, signal } = options;
+    const ref = options.ref || 'HEAD';
+    const now = options.now || new Date();
+
+    const blames = new Map<string, { path: string; ranges: BlameRange[] } | null>();
+    const suspects = new Map<string, BlameSuspect>();
+
+    for (const target of targets) {
+      throwIfCancelled(signal);
+
+      if (!blames.has(target.file)) {
+        blames.set(target.file, await this.blameFile(vcs, target.file, ref, signal));
+      }
+      const blame = blames.get(target.file);
+      if (!blame) continue;
+
+      // Closest line each commit touched around the frame line
+      const closest = new Map<string, { range: BlameRange; line: number }>();
+      for (const range of blame.ranges) {
+        const start = Math.max(range.startingLine, target.line - this.WINDOW);
+        const end = Math.min(range.endingLine, target.line + this.WINDOW);
+        if (start > end) continue;
+
+        const line = Math.min(Math.max(target.line, start), end);
+        const current = closest.get(range.commit.oid);
+        if (!current || Math.abs(line - target.line) < Math.abs(current.line - target.line)) {
+          closest.set(range.commit.oid, { range, line });
+        }
+      }
+
+      for (const [oid, { range, line }] of closest) {
+        const committedAt = new Date(range.commit.committedDate);
+        const ageDays = Math.max(0, (now.getTime() - committedAt.getTime()) / (24 * 60 * 60 * 1000));
+        const recency = Math.pow(0.5, ageDays / this.HALF_LIFE_DAYS);
+        const centrality = 1 / (target.position + 1) / (1 + Math.abs(line - target.line));
+
+        const suspect = suspects.get(oid) || {
+          sha: oid.substring(0, 12),
+          author: range.commit.author,
+          message: range.commit.message,
+          committedAt,
+          score: 0,
+          lines: [],
+        };
+        suspect.score += centrality * recency;
+        suspect.lines.push({ file: blame.path, line, frame: target.position + 1 });
+        suspects.set(oid, suspect);
+      }
+    }
+
+    const ranked = [...suspects.values()]
+      .map((suspect) => ({ ...suspect, score: Math.round(suspect.score * 1000) / 1000 }))
+      .sort((a, b) => b.score - a.score || b.committedAt.getTime() - a.committedAt.getTime())
+      .slice(0, this.MAX_SUSPECTS);
+
+    if (ranked.length > 0) {
+      logger.info(`🕵️ Blamed ${targets.length} stack frame line(s): top suspect ${ranked[0].sha} (score ${ranked[0].score})`);
+    }
+    return ranked;
+  }
+
+  /**
+   * Blame a frame file, trying the usual source roots when the path isn't found
+   */
+  private async blameFile(
+    vcs: SourceControlProvider,
+    file: string,
+    ref: string,
+    signal?: AbortSignal
+  ): Promise<{ path: string; ranges: BlameRange[] } | null> {
+    const paths = file.startsWith('src/') ? [file] : [file, `src/${file}`];
+
+    for (const path of paths) {
+      try {
+        const ranges = await vcs.getBlame(path, ref);
+        if (ranges) return { path, ranges };
+      } catch (error: any) {
+        if (isCancelledError(error, signal)) throw error;
+        logger.warn(`Could not blame ${path}@${ref}: ${error.message}`);
+        return null;
+      }
+    }
+
+    logger.info(`No file ${file} in ${vcs.repository}@${ref} to blame`);
+    return null;
+  }
+}
+
+export default new BlameRanker();
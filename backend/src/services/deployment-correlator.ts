@@ -0,0 +1,337 @@
+import { db } from '../db';
+import { projects, runtimeLogs } from '../db/schema';
+import { and, eq, gte, isNotNull, min, sql } from 'drizzle-orm';
+import { VercelIntegration } from '../integrations/vercel';
+import { SourceControlProvider } from '../integrations/vcs';
+import { CommitEvidence, CommitInfo, DeploymentRef } from '../utils/types';
+import logger from '../utils/logger';
+import { normalizeFilePath, parseStackFrames } from './error-fingerprint';
+
+type ProjectRecord = typeof projects.$inferSelect;
+
+// Stack frame files compared with the changed files
+const MAX_STACK_FILES = 10;
+
+export interface StackFile {
+  file: string; // As reported in the stack trace
+  key: string; // Path without build prefixes and extension
+  position: number; // 0 = innermost in-app frame
+}
+
+export interface DeploymentBoundary {
+  good: DeploymentRef | null; // Last deployment that served traffic without the errors
+  bad: DeploymentRef; // First deployment with the errors
+  untested: DeploymentRef[]; // Deployments in between without traffic
+}
+
+export interface DeploymentCorrelation extends DeploymentBoundary {
+  commits: CommitInfo[]; // Range between good and bad, most suspicious first
+  suspect: CommitInfo | null; // Only set when the evidence singles out a commit
+}
+
+/**
+ * Deployment Correlator
+ *
+ * Narrows the commits to blame for an incident with the deployment history:
+ * Vercel deployments and the deployments seen in the runtime logs are mapped
+ * to git SHAs and classified as good (served traffic without the incident's
+ * errors), bad (had the errors) or untested. The boundary between the last
+ * good and the first bad deployment gives the commit range, whose commits are
+ * ranked by how much they touched the files of the stack frames.
+ */
+export class DeploymentCorrelator {
+  private readonly HISTORY_DAYS = 30;
+  private readonly MAX_DEPLOYMENTS = 50;
+  private readonly MAX_LOOKUPS = 5; // Deployments only known from the logs
+  private readonly MAX_RANGE_COMMITS = 30;
+
+  /**
+   * Correlate an incident with the commits between its last good and first bad deployment
+   */
+  async correlate(options: {
+    project: ProjectRecord;
+    metadata: Record<string, any>;
+    vcs: SourceControlProvider;
+    vercel: VercelIntegration | null;
+    signal?: AbortSignal;
+  }): Promise<DeploymentCorrelation | null> {
+    const { project, metadata, vcs, vercel, signal } = options;
+
+    const deployments = await this.buildHistory(project, metadata, vercel, signal);
+    const boundary = this.findBoundary(deployments, metadata.deploymentId);
+    if (!boundary) {
+      logger.info(`No failing deployment found for project ${project.vercelProjectName}`);
+      return null;
+    }
+    if (!boundary.bad.sha || !boundary.good?.sha) {
+      logger.info(`Deployment ${boundary.bad.id} has no healthy predecessor with a known commit`);
+      return null;
+    }
+
+    logger.info(
+      `🔀 Errors started on deployment ${boundary.bad.id} (${boundary.bad.sha.substring(0, 12)}), ` +
+        `last healthy: ${boundary.good.id} (${boundary.good.sha.substring(0, 12)})`
+    );
+
+    // Commits deployed by the bad deployment but not by the good one
+    const range = await vcs.compareCommits(boundary.good.sha, boundary.bad.sha, this.MAX_RANGE_COMMITS);
+    if (range.length === this.MAX_RANGE_COMMITS) {
+      logger.warn(`Commit range ${boundary.good.sha}...${boundary.bad.sha} may be truncated to the last ${range.length} commits`);
+    }
+    const stackFiles = extractStackFiles(metadata);
+    const ranked = this.rankCommits(range, stackFiles, boundary);
+
+    // A commit is only singled out when it touched a stack frame file or is the only change
+    const top = ranked[0];
+    const suspect = top && (top.evidence!.score > 0 || ranked.length === 1) ? top : null;
+
+    return { ...boundary, commits: ranked, suspect };
+  }
+
+  /**
+   * Deployments of a project, oldest first, with the runtime logs seen on each
+   */
+  async buildHistory(
+    project: ProjectRecord,
+    metadata: Record<string, any>,
+    vercel: VercelIntegration | null,
+    signal?: AbortSignal
+  ): Promise<DeploymentRef[]> {
+    const since = new Date(Date.now() - this.HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+    // Errors of the incident's issue when known, any error otherwise
+    const errorFilter = metadata.issueId
+      ? sql<number>`count(*) filter (where ${runtimeLogs.issueId} = ${metadata.issueId})::int`
+      : sql<number>`count(*) filter (where ${runtimeLogs.level} = 'error')::int`;
+
+    const stats = await db
+      .select({
+        deploymentId: runtimeLogs.deploymentId,
+        firstSeen: min(runtimeLogs.timestamp),
+        logs: sql<number>`count(*)::int`,
+        errors: errorFilter,
+      })
+      .from(runtimeLogs)
+      .where(
+        and(eq(runtimeLogs.projectId, project.id), isNotNull(runtimeLogs.deploymentId), gte(runtimeLogs.timestamp, since))
+      )
+      .groupBy(runtimeLogs.deploymentId);
+
+    const deployments = new Map<string, DeploymentRef>();
+    if (vercel) {
+      const vercelDeployments = await vercel.getDeployments(project.vercelProjectName, this.MAX_DEPLOYMENTS, signal);
+      for (const deployment of vercelDeployments) {
+        // Preview deployments don't serve the production traffic the logs come from
+        if (deployment.target && deployment.target !== 'production') continue;
+        deployments.set(deployment.uid, toDeploymentRef(deployment));
+      }
+    }
+
+    let lookups = 0;
+    for (const stat of stats) {
+      const id = stat.deploymentId!;
+      let deployment = deployments.get(id);
+
+      if (!deployment && vercel && lookups < this.MAX_LOOKUPS) {
+        lookups++;
+        const details = await vercel.getDeployment(id, signal);
+        if (details) {
+          deployment = toDeploymentRef({ ...details, uid: details.id || id });
+        }
+      }
+
+      deployments.set(id, {
+        ...(deployment || { id, sha: null, createdAt: stat.firstSeen || new Date(), state: null }),
+        logs: stat.logs,
+        errors: stat.errors,
+      });
+    }
+
+    return [...deployments.values()].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * Find the boundary between the last good and the first bad deployment
+   *
+   * Starting from the incident's deployment (or the latest one with its
+   * errors), deployments are walked back: the bad side extends over earlier
+   * deployments with the errors, deployments without traffic can't be told
+   * apart and stay in the range, and the first one that served traffic
+   * without the errors is good. When none did, the last successful deployment
+   * before the bad one is assumed to be good.
+   */
+  findBoundary(deployments: DeploymentRef[], incidentDeploymentId?: string | null): DeploymentBoundary | null {
+    let badIndex = incidentDeploymentId ? deployments.findIndex((d) => d.id === incidentDeploymentId) : -1;
+    if (badIndex === -1) {
+      badIndex = deployments.map((d) => d.errors > 0).lastIndexOf(true);
+    }
+    if (badIndex === -1) return null;
+
+    let untested: DeploymentRef[] = [];
+    for (let i = badIndex - 1; i >= 0; i--) {
+      const deployment = deployments[i];
+      if (deployment.errors > 0) {
+        // Untested deployments between two bad ones are bad as well
+        badIndex = i;
+        untested = [];
+      } else if (deployment.logs > 0) {
+        return { good: deployment, bad: deployments[badIndex], untested };
+      } else {
+        untested.push(deployment);
+      }
+    }
+
+    const fallbackIndex = untested.findIndex((d) => d.sha && (!d.state || d.state === 'READY'));
+    return {
+      good: fallbackIndex === -1 ? null : untested[fallbackIndex],
+      bad: deployments[badIndex],
+      untested: fallbackIndex === -1 ? untested : untested.slice(0, fallbackIndex),
+    };
+  }
+
+  /**
+   * Rank the commits of a range by their overlap with the stack frame files, newest first on ties
+   */
+  rankCommits(commits: CommitInfo[], stackFiles: StackFile[], boundary: DeploymentBoundary): CommitInfo[] {
+    const ranked = commits.map((commit, index) => {
+      const matchedFiles: CommitEvidence['matchedFiles'] = [];
+      let score = 0;
+
+      for (const stackFile of stackFiles) {
+        const match = commit.filesChanged
+          .map((file) => ({ file, weight: matchWeight(file, stackFile.key) }))
+          .sort((a, b) => b.weight - a.weight)[0];
+        if (!match || match.weight === 0) continue;
+
+        // Inner frames are closer to where the error was thrown
+        score += match.weight / (stackFile.position + 1);
+        matchedFiles.push({ file: match.file, frame: stackFile.file });
+      }
+
+      const evidence: CommitEvidence = {
+        method: 'deployment_bisection',
+        score: Math.round(score * 100) / 100,
+        reasons: describeEvidence(commit, matchedFiles, stackFiles, boundary, commits.length),
+        matchedFiles,
+        goodDeployment: boundary.good,
+        badDeployment: boundary.bad,
+        rangeSize: commits.length,
+      };
+      return { commit: { ...commit, evidence }, index };
+    });
+
+    return ranked
+      .sort((a, b) => b.commit.evidence.score - a.commit.evidence.score || b.index - a.index)
+      .map(({ commit }) => commit);
+  }
+}
+
+/**
+ * Deployment reference from a Vercel deployment
+ */
+function toDeploymentRef(deployment: any): DeploymentRef {
+  return {
+    id: deployment.uid,
+    sha: deployment.meta?.githubCommitSha || null,
+    createdAt: new Date(deployment.createdAt || deployment.created),
+    state: deployment.readyState || deployment.state || null,
+    logs: 0,
+    errors: 0,
+  };
+}
+
+/**
+ * Path of a source or bundled file without build prefixes and extension
+ */
+export function pathKey(file: string): string {
+  return normalizeFilePath(file)
+    .replace(/^\/+/, '')
+    .replace(/^(?:\.next\/(?:server|static\/chunks)\/|src\/)/, '')
+    .replace(/\.(?:[cm]?[jt]sx?)$/, '');
+}
+
+/**
+ * How well a changed file matches a stack frame file (1 = same file, 0.3 = same directory)
+ */
+export function matchWeight(changedFile: string, stackKey: string): number {
+  const changedKey = pathKey(changedFile);
+  if (changedKey === stackKey) return 1;
+
+  // The shorter path must be a suffix of at least two segments (e.g. "api/contact/route")
+  const [shorter, longer] = changedKey.length < stackKey.length ? [changedKey, stackKey] : [stackKey, changedKey];
+  if (shorter.includes('/') && longer.endsWith(`/${shorter}`)) return 1;
+
+  const directory = (key: string) => key.substring(0, key.lastIndexOf('/'));
+  const changedDir = directory(changedKey);
+  const stackDir = directory(stackKey);
+  if (changedDir.includes('/') && stackDir.includes('/') && (changedDir.endsWith(stackDir) || stackDir.endsWith(changedDir))) {
+    return 0.3;
+  }
+  return 0;
+}
+
+/**
+ * In-app stack frame files of an incident, innermost first
+ */
+export function extractStackFiles(metadata: Record<string, any>): StackFile[] {
+  const files: string[] = [];
+  if (metadata.actualSourceFile) files.push(metadata.actualSourceFile);
+
+  for (const error of metadata.errors || []) {
+    if (error.source) files.push(error.source);
+    for (const frame of parseStackFrames(error.stack)) {
+      if (frame.inApp) files.push(frame.file);
+    }
+  }
+
+  const stackFiles: StackFile[] = [];
+  const seen = new Set<string>();
+  for (const file of files) {
+    const key = pathKey(file);
+    if (!key || key.includes('<chunk>') || seen.has(key)) continue;
+    seen.add(key);
+    stackFiles.push({ file, key, position: stackFiles.length });
+  }
+  return stackFiles.slice(0, MAX_STACK_FILES);
+}
+
+function describeEvidence(
+  commit: CommitInfo,
+  matchedFiles: CommitEvidence['matchedFiles'],
+  stackFiles: StackFile[],
+  boundary: DeploymentBoundary,
+  rangeSize: number
+): string[] {
+  const { good, bad } = boundary;
+  const reasons = [
+    `Errors first appeared on deployment ${bad.id} (${bad.sha?.substring(0, 12)}): ${bad.errors} error(s)`,
+    good && good.logs > 0
+      ? `Last healthy deployment ${good.id} (${good.sha?.substring(0, 12)}) served ${good.logs} log(s) without the errors`
+      : `Previous deployment ${good?.id} (${good?.sha?.substring(0, 12)}) is assumed healthy (no traffic seen on it)`,
+    `Commit ${commit.sha} is one of ${rangeSize} commit(s) deployed between them`,
+  ];
+
+  if (boundary.untested.length > 0) {
+    reasons.push(`${boundary.untested.length} deployment(s) in between received no traffic and couldn't be tested`);
+  }
+
+  for (const { file, frame } of matchedFiles) {
+    const stackFile = stackFiles.find((candidate) => candidate.file === frame);
+    const position = stackFile?.position || 0;
+    const location = position === 0 ? 'where the error was raised' : `frame #${position + 1} of the stack trace`;
+    reasons.push(
+      stackFile && matchWeight(file, stackFile.key) === 1
+        ? `Changes ${file}, ${location} (${frame})`
+        : `Changes ${file}, in the directory of ${frame} (${location})`
+    );
+  }
+  if (matchedFiles.length === 0) {
+    reasons.push(
+      rangeSize === 1 ? 'It is the only commit in the range' : "None of its files appear in the stack trace"
+    );
+  }
+
+  return reasons;
+}
+
+export default new DeploymentCorrelator();
@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+
+/**
+ * Error Fingerprinting
+ *
+ * Computes a stable fingerprint for a runtime error so that repeated
+ * occurrences of the same bug are grouped into one issue, while different
+ * bugs stay apart. Volatile parts are normalised away before hashing:
+ * - IDs (UUIDs, hex ids, tokens mixing letters and digits), numbers, URLs, emails, IPs
+ * - Bundle hashes and build IDs in file names (e.g. "page-3f2a1b9c.js")
+ * - Line/column numbers and minified function names in stack frames
+ */
+
+export interface FingerprintInput {
+  message: string;
+  stack?: string | null;
+  source?: string | null; // Actual source file reported by the SDK (e.g. "app/api/contact/route.ts")
+}
+
+export interface ErrorFingerprint {
+  fingerprint: string;
+  title: string; // Normalised message
+  errorType: string | null;
+  culprit: string | null;
+  frames: string[]; // Normalised frames used for grouping ("file in function")
+}
+
+const MAX_FRAMES = 5;
+const MAX_TITLE_LENGTH = 200;
+
+const ERROR_TYPE_PATTERN = /^(?:Uncaught\s+)?(?:\[?([A-Z][A-Za-z0-9_$]*(?:Error|Exception))\]?)(?::\s*|\s+|$)/;
+
+// Stack frame formats: V8 ("at fn (file:1:2)" / "at file:1:2") and Firefox/Safari ("fn@file:1:2")
+const V8_FRAME_PATTERN = /^\s*at\s+(?:(.+?)\s+\()?(.+?)(?::\d+)?(?::\d+)?\)?\s*$/;
+const GECKO_FRAME_PATTERN = /^\s*([^\s@]*)@(\S+?)(?::\d+)?(?::\d+)?\s*$/;
+
+/**
+ * Normalise an error message by replacing volatile values with placeholders
+ */
+export function normalizeMessage(message: string): string {
+  return (message || '')
+    .replace(ERROR_TYPE_PATTERN, '')
+    .replace(/https?:\/\/[^\s'"`)]+/g, '<url>')
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>')
+    .replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, '<email>')
+    .replace(/\b\d{1,3}(?:\.\d{1,3}){3}\b/g, '<ip>')
+    .replace(/\b(?:0x)?[0-9a-f]{8,}\b/gi, (match) => (/\d/.test(match) ? '<hex>' : match))
+    .replace(/\b(?=[A-Za-z0-9_-]*[A-Za-z])(?=[A-Za-z0-9_-]*\d)[A-Za-z0-9_-]{8,}\b/g, '<id>')
+    .replace(/(?<![A-Za-z<])\d+(?:\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_TITLE_LENGTH);
+}
+
+/**
+ * Extract the error type (TypeError, ReferenceError, ...) from a message or stack
+ */
+export function extractErrorType(message: string, stack?: string | null): string | null {
+  const fromMessage = (message || '').trim().match(ERROR_TYPE_PATTERN);
+  if (fromMessage) return fromMessage[1];
+
+  const fromStack = (stack || '').trim().match(ERROR_TYPE_PATTERN);
+  return fromStack ? fromStack[1] : null;
+}
+
+/**
+ * Normalise a file path from a stack frame so it is stable across deployments
+ */
+export function normalizeFilePath(file: string): string {
+  return file
+    .replace(/[?#].*$/, '')
+    .replace(/^(?:webpack-internal:\/\/\/|webpack:\/\/[^/]*\/|file:\/\/)/, '')
+    .replace(/^https?:\/\/[^/]+\//, '')
+    .replace(/^\((?:rsc|ssr|app-pages-browser|action-browser|middleware)\)\//, '')
+    .replace(/^\.\//, '')
+    .replace(/^\/?var\/task\//, '')
+    .replace(/_next\/static\/[A-Za-z0-9_-]{16,}\//, '_next/static/<build>/')
+    .replace(/\/\d+(?=\.[cm]?js$)/, '/<chunk>')
+    .replace(/[.-][0-9a-f]{6,}(?=\.[cm]?js$)/i, '');
+}
+
+/**
+ * Normalise a function name (minified names are not stable across builds)
+ */
+function normalizeFunctionName(name?: string): string {
+  const cleaned = (name || '')
+    .replace(/^(?:async|new)\s+/, '')
+    .replace(/^Object\./, '')
+    .replace(/\s*\[as [^\]]+\]$/, '')
+    .trim();
+
+  if (!cleaned || cleaned === '<anonymous>' || cleaned.length <= 2) {
+    return '?';
+  }
+  return cleaned;
+}
+
+interface StackFrame {
+  file: string;
+  fn: string;
+  inApp: boolean;
+}
+
+/**
+ * Parse and normalise stack frames (innermost first)
+ */
+export function parseStackFrames(stack?: string | null): StackFrame[] {
+  if (!stack) return [];
+
+  const frames: StackFrame[] = [];
+  for (const line of stack.split('\n')) {
+    const match = line.match(V8_FRAME_PATTERN) || (line.includes('@') ? line.match(GECKO_FRAME_PATTERN) : null);
+    if (!match || !match[2]) continue;
+
+    const rawFile = match[2].trim();
+    if (!rawFile.includes('/') && !rawFile.includes('.') && !rawFile.startsWith('node:')) continue;
+
+    const file = normalizeFilePath(rawFile);
+    frames.push({
+      file,
+      fn: normalizeFunctionName(match[1]),
+      inApp: !/node_modules|^node:|^internal\/|<anonymous>|^native\b/.test(file),
+    });
+  }
+
+  return frames;
+}
+
+/**
+ * Whether a source file path points at bundled output rather than actual source
+ */
+function isBundledPath(file: string): boolean {
+  return file.includes('.next') || file.includes('node_modules') || file.includes('var/task');
+}
+
+/**
+ * Compute the fingerprint of a runtime error
+ */
+export function fingerprintError(error: FingerprintInput): ErrorFingerprint {
+  const errorType = extractErrorType(error.message, error.stack);
+  const title = normalizeMessage(error.message) || errorType || 'Unknown error';
+
+  // Prefer frames in actual source files, then bundled app code, then anything
+  const parsedFrames = parseStackFrames(error.stack);
+  const inAppFrames = parsedFrames.filter((frame) => frame.inApp);
+  const sourceFrames = inAppFrames.filter((frame) => !isBundledPath(frame.file));
+  const frames = ([sourceFrames, inAppFrames].find((candidates) => candidates.length > 0) || parsedFrames)
+    .slice(0, MAX_FRAMES)
+    .map((frame) => `${frame.file} in ${frame.fn}`);
+
+  const source = error.source && !isBundledPath(error.source) ? normalizeFilePath(error.source) : null;
+  const culprit = source || frames[0] || null;
+
+  // Without a stack, the reported source file distinguishes identical messages in different places
+  const components = [errorType || '', title, ...(frames.length > 0 ? frames : [source || ''])];
+  const fingerprint = crypto.createHash('sha1').update(components.join('\n')).digest('hex');
+
+  return { fingerprint, title, errorType, culprit, frames };
+}
@@ -0,0 +1,303 @@
+import { z } from 'zod';
+import { and, count, eq, gte, isNull, lt, or } from 'drizzle-orm';
+import { db } from '../db';
+import { projects, runtimeLogs, VerificationConfig } from '../db/schema';
+import sourceControlManager, { SourceControlProvider } from '../integrations/vcs';
+import IntegrationManager from './integration-manager';
+import logger from '../utils/logger';
+import { isCancelledError, sleep, throwIfCancelled } from '../utils/cancellation';
+import { ErrorRateSample, FixVerification, Solution } from '../utils/types';
+
+type ProjectRecord = typeof projects.$inferSelect;
+
+const POLL_INTERVAL_MS = 30000;
+const MERGE_POLL_INTERVAL_MS = 60000; // Pull requests wait for a human, so they're checked less often
+const MIN_ERROR_RATE = 0.1; // Errors per minute always tolerated, so one stray error after a quiet baseline is no failure
+const DEPLOYMENTS_SEARCHED = 20;
+
+const DEFAULTS: Required<VerificationConfig> = {
+  windowMinutes: 10,
+  baselineMinutes: 60,
+  deployTimeoutMinutes: 30,
+  errorRateTolerance: 1.5,
+  autoRevert: true,
+};
+
+/**
+ * Verification configuration as accepted by the API
+ */
+export const verificationConfigSchema = z.object({
+  windowMinutes: z.number().int().min(1).max(240).optional(),
+  baselineMinutes: z.number().int().min(5).max(1440).optional(),
+  deployTimeoutMinutes: z.number().int().min(1).max(240).optional(),
+  errorRateTolerance: z.number().min(1).max(100).optional(),
+  autoRevert: z.boolean().optional(),
+});
+
+/**
+ * An executed fix, as the executor reported it
+ */
+export interface ExecutedFix {
+  solution: Solution;
+  merged?: boolean;
+  prNumber?: number;
+  commitSha?: string; // Of the fix on the hotfix branch
+  mergeCommitSha?: string;
+  deploymentId?: string; // Of a rollback or restart
+  executedAt: Date;
+}
+
+/**
+ * Project configuration with the defaults filled in
+ */
+export function resolveVerificationConfig(config?: VerificationConfig | null): Required<VerificationConfig> {
+  return { ...DEFAULTS, ...(config || {}) };
+}
+
+/**
+ * Fix Verifier
+ *
+ * Watches production after a fix deploys: the project's runtime logs (Vercel
+ * log drains and SDK reports) over a window starting at the fix's deployment
+ * are compared with the error rate before the incident started, times a
+ * tolerance, and the error that triggered the incident must not come back.
+ *
+ * The fix's deployment is the one a rollback or restart made, or the first
+ * ready Vercel deployment containing the merged commit. Without Vercel, a fix
+ * is taken to deploy when it is merged into the default branch. A fix that
+ * isn't deployed within the deploy timeout can't be verified.
+ *
+ * A pull request that wasn't merged automatically is waited for, for as long
+ * as it takes a human to review it; one closed without merging ends the
+ * verification. Pull requests of a project without source control can't be
+ * followed, so they aren't verified.
+ */
+export class FixVerifier {
+  /**
+   * Verify a fix; fails as soon as the triggering error recurs or the window's errors exceed the threshold
+   */
+  async verify(
+    project: ProjectRecord,
+    fix: ExecutedFix,
+    options: {
+      incidentStartedAt: Date;
+      issueId?: string;
+      userId: string;
+      signal?: AbortSignal;
+      onAwaitingMerge?: (prNumber: number) => void;
+    }
+  ): Promise<FixVerification> {
+    const config = resolveVerificationConfig(project.verificationConfig);
+    const { incidentStartedAt, issueId, signal } = options;
+
+    // A pull request is followed in the project's repository
+    let vcs: SourceControlProvider | null = null;
+    if ((fix.solution.type === 'patch' || fix.solution.type === 'config_fix') && (fix.merged || fix.prNumber)) {
+      vcs = await sourceControlManager.forProject(project, options.userId, signal);
+      if (!vcs) {
+        return { outcome: 'no_source_control', reason: 'The project has no source control connected to follow the fix in' };
+      }
+    }
+
+    let merged = fix;
+    let mergeDetails: Pick<FixVerification, 'mergeCommitSha' | 'mergedAt'> = {};
+    if (vcs && !fix.merged && fix.prNumber) {
+      options.onAwaitingMerge?.(fix.prNumber);
+      const merge = await this.waitForMerge(vcs, fix.prNumber, signal);
+      if (!merge) {
+        return { outcome: 'not_merged', reason: `Pull request #${fix.prNumber} was closed without merging` };
+      }
+      // The deploy timeout runs from the merge
+      merged = { ...fix, merged: true, mergeCommitSha: merge.mergeCommitSha, executedAt: merge.mergedAt };
+      mergeDetails = { mergeCommitSha: merge.mergeCommitSha, mergedAt: merge.mergedAt.toISOString() };
+    }
+
+    const deployment = await this.waitForDeployment(project, merged, vcs, options.userId, config, signal);
+    if (!deployment) {
+      return {
+        ...mergeDetails,
+        outcome: 'not_deployed',
+        reason: fix.solution.type === 'patch' || fix.solution.type === 'config_fix'
+          ? merged.merged
+            ? `No deployment with the fix went live within ${config.deployTimeoutMinutes} minutes`
+            : 'The fix has no pull request to wait for'
+          : 'The fix has no deployment to watch',
+      };
+    }
+
+    const baselineStart = new Date(incidentStartedAt.getTime() - config.baselineMinutes * 60000);
+    const baseline = await this.sample(project.id, baselineStart, incidentStartedAt);
+    const threshold = Math.max(baseline.errorsPerMinute * config.errorRateTolerance, MIN_ERROR_RATE);
+    const windowEnd = new Date(deployment.deployedAt.getTime() + config.windowMinutes * 60000);
+    logger.info(`🩺 Verifying fix for project ${project.vercelProjectName} until ${windowEnd.toISOString()} (threshold ${threshold.toFixed(2)} errors/min)`);
+
+    const result = (outcome: FixVerification['outcome'], reason: string, observed: ErrorRateSample, issueOccurrences: number): FixVerification => ({
+      outcome,
+      reason,
+      deploymentId: deployment.deploymentId,
+      deployedAt: deployment.deployedAt.toISOString(),
+      baseline,
+      observed,
+      threshold,
+      issueOccurrences,
+      ...mergeDetails,
+    });
+
+    for (;;) {
+      throwIfCancelled(signal);
+      const now = new Date();
+      const to = now < windowEnd ? now : windowEnd;
+      const observed = await this.sample(project.id, deployment.deployedAt, to, deployment.deploymentId);
+      const issueOccurrences = issueId ? await this.countIssue(project.id, issueId, deployment.deployedAt, to, deployment.deploymentId) : 0;
+
+      if (issueOccurrences > 0) {
+        return result('not_recovered', `The error that triggered the incident occurred ${issueOccurrences} time(s) after the fix deployed`, observed, issueOccurrences);
+      }
+      if (observed.errors > threshold * config.windowMinutes) {
+        return result('not_recovered', `${observed.errors} errors after the fix deployed, more than the ${describeRate(threshold)} allowed over ${config.windowMinutes} minutes`, observed, issueOccurrences);
+      }
+      if (now >= windowEnd) {
+        return observed.errorsPerMinute <= threshold
+          ? result('recovered', `${describeRate(observed.errorsPerMinute)} over ${config.windowMinutes} minutes, within the pre-incident ${describeRate(baseline.errorsPerMinute)}`, observed, issueOccurrences)
+          : result('not_recovered', `${describeRate(observed.errorsPerMinute)} over ${config.windowMinutes} minutes, above the pre-incident ${describeRate(baseline.errorsPerMinute)}`, observed, issueOccurrences);
+      }
+
+      await sleep(Math.min(POLL_INTERVAL_MS, windowEnd.getTime() - now.getTime()), signal);
+    }
+  }
+
+  /**
+   * When a fix's pull request was merged, or null when it was closed without merging
+   */
+  private async waitForMerge(
+    vcs: SourceControlProvider,
+    prNumber: number,
+    signal?: AbortSignal
+  ): Promise<{ mergeCommitSha?: string; mergedAt: Date } | null> {
+    const api = vcs.withSignal(signal);
+    logger.info(`⏳ Waiting for PR #${prNumber} on ${vcs.repository} to be merged before verifying the fix`);
+
+    for (;;) {
+      try {
+        const pr = await api.getPullRequest(prNumber);
+        if (pr.state === 'merged') {
+          // Providers that don't report the merge time have just seen it happen
+          return { mergeCommitSha: pr.mergeCommitSha, mergedAt: pr.mergedAt ? new Date(pr.mergedAt) : new Date() };
+        }
+        if (pr.state === 'closed') return null;
+      } catch (error: any) {
+        if (isCancelledError(error)) throw error;
+        logger.warn(`Could not check PR #${prNumber}: ${error.message}`);
+      }
+      await sleep(MERGE_POLL_INTERVAL_MS, signal);
+    }
+  }
+
+  /**
+   * When (and with which deployment) the fix went live, or null when it didn't in time
+   */
+  private async waitForDeployment(
+    project: ProjectRecord,
+    fix: ExecutedFix,
+    vcs: SourceControlProvider | null,
+    userId: string,
+    config: Required<VerificationConfig>,
+    signal?: AbortSignal
+  ): Promise<{ deploymentId?: string; deployedAt: Date } | null> {
+    // Rollbacks and restarts wait for their deployment to be ready
+    if (fix.solution.type === 'rollback' || fix.solution.type === 'restart') {
+      return fix.deploymentId ? { deploymentId: fix.deploymentId, deployedAt: fix.executedAt } : null;
+    }
+
+    const sha = fix.mergeCommitSha || fix.commitSha;
+    if (!vcs || !fix.merged || !sha) return null;
+
+    const vercel = await new IntegrationManager(userId).getVercelIntegration();
+    const api = vcs.withSignal(signal);
+
+    // Continuous deployment is assumed without Vercel: the fix is live once merged
+    if (!vercel) {
+      return (await this.contains(api, vcs.defaultBranch, sha)) ? { deployedAt: fix.executedAt } : null;
+    }
+
+    const deadline = fix.executedAt.getTime() + config.deployTimeoutMinutes * 60000;
+    for (;;) {
+      const deployments: any[] = await vercel.getDeployments(project.vercelProjectName, DEPLOYMENTS_SEARCHED, signal);
+      // Only deployments made after the merge can contain the fix
+      const candidates = deployments
+        .filter((d) => d.readyState === 'READY' && d.meta?.githubCommitSha)
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+      for (const deployment of candidates) {
+        if (await this.contains(api, deployment.meta.githubCommitSha, sha)) {
+          logger.info(`🚀 Fix ${sha.substring(0, 7)} deployed in ${deployment.uid || deployment.id}`);
+          return { deploymentId: deployment.uid || deployment.id, deployedAt: new Date(deployment.ready || deployment.createdAt) };
+        }
+      }
+
+      if (Date.now() >= deadline) return null;
+      await sleep(Math.min(POLL_INTERVAL_MS, deadline - Date.now()), signal);
+    }
+  }
+
+  /**
+   * Whether a commit is in the history of a ref
+   */
+  private async contains(vcs: SourceControlProvider, ref: string, sha: string): Promise<boolean> {
+    try {
+      return (await vcs.compareCommits(ref, sha, 1)).length === 0;
+    } catch (error: any) {
+      if (isCancelledError(error)) throw error;
+      logger.warn(`Could not compare ${ref} with ${sha}: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Errors (error logs, SDK reports and 5xx responses) of a project in a period,
+   * leaving out other deployments than the given one
+   */
+  private async sample(projectId: string, from: Date, to: Date, deploymentId?: string): Promise<ErrorRateSample> {
+    const [row] = await db
+      .select({ errors: count() })
+      .from(runtimeLogs)
+      .where(and(
+        eq(runtimeLogs.projectId, projectId),
+        gte(runtimeLogs.timestamp, from),
+        lt(runtimeLogs.timestamp, to),
+        or(eq(runtimeLogs.level, 'error'), gte(runtimeLogs.statusCode, 500)),
+        ofDeployment(deploymentId)
+      ));
+
+    const errors = Number(row?.errors || 0);
+    const minutes = Math.max((to.getTime() - from.getTime()) / 60000, 1);
+    return { from: from.toISOString(), to: to.toISOString(), errors, errorsPerMinute: errors / minutes };
+  }
+
+  private async countIssue(projectId: string, issueId: string, from: Date, to: Date, deploymentId?: string): Promise<number> {
+    const [row] = await db
+      .select({ occurrences: count() })
+      .from(runtimeLogs)
+      .where(and(
+        eq(runtimeLogs.projectId, projectId),
+        eq(runtimeLogs.issueId, issueId),
+        gte(runtimeLogs.timestamp, from),
+        lt(runtimeLogs.timestamp, to),
+        ofDeployment(deploymentId)
+      ));
+    return Number(row?.occurrences || 0);
+  }
+}
+
+/**
+ * Logs without a deployment (SDK reports) or of the given one
+ */
+function ofDeployment(deploymentId?: string) {
+  return deploymentId ? or(isNull(runtimeLogs.deploymentId), eq(runtimeLogs.deploymentId, deploymentId)) : undefined;
+}
+
+function describeRate(errorsPerMinute: number): string {
+  return `${errorsPerMinute.toFixed(2)} errors/min`;
+}
+
+export default new FixVerifier();
@@ -0,0 +1,267 @@
+import { db } from '../db';
+import { commits, incidents, issues, solutions, timelineEvents } from '../db/schema';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { ResearchResult } from '../utils/types';
+import logger from '../utils/logger';
+import { matchWeight, pathKey } from './deployment-correlator';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+// Words that say nothing about an incident
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'was', 'were', 'are', 'is', 'be', 'been', 'of', 'to', 'in',
+  'on', 'at', 'by', 'an', 'or', 'as', 'it', 'its', 'not', 'no', 'can', 'cannot', 'could', 'should', 'will', 'when',
+  'error', 'errors', 'incident', 'detected', 'failed', 'failure', 'issue', 'uncaught', 'undefined', 'null',
+]);
+
+export interface SimilarIncidentQuery {
+  userId: string;
+  excludeIncidentId?: string | null; // The incident being researched
+  issueId?: string | null; // Its issue, for fingerprint matches
+  text: string; // Error messages, templates, stack frames
+  files?: string[]; // Source files of the stack frames
+}
+
+export interface SimilarIncident {
+  incidentId: string;
+  title: string;
+  url: string; // Link to the incident in the dashboard
+  resolvedAt: Date | null;
+  rootCause: string | null;
+  score: number;
+  relevance: number; // 0-1, share of the query's weight matched
+  sameFingerprint: boolean;
+  matchedTerms: string[];
+  matchedFiles: string[];
+  fix: {
+    type: string;
+    description: string;
+    url?: string; // Pull request or deployment
+    succeeded?: boolean;
+  } | null;
+  regressed: boolean; // The error came back after this incident was resolved
+}
+
+interface KnowledgeDocument {
+  incidentId: string;
+  title: string;
+  resolvedAt: Date | null;
+  rootCause: string | null;
+  fingerprint: string | null;
+  files: string[];
+  fix: SimilarIncident['fix'];
+  regressed: boolean;
+  terms: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Split text into search terms: lowercased words and the parts of camelCase
+ * identifiers, without numbers, placeholders and stop words
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of (text || '').replace(/<[a-z*]+>/gi, ' ').split(/[^A-Za-z0-9]+/)) {
+    const parts = word.split(/(?<=[a-z0-9])(?=[A-Z])/);
+    for (const term of parts.length > 1 ? [word, ...parts] : [word]) {
+      const lower = term.toLowerCase();
+      if (lower.length >= 2 && !/^\d+$/.test(lower) && !STOP_WORDS.has(lower)) terms.push(lower);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Incident Knowledge Base
+ *
+ * Searches the user's resolved incidents for ones similar to a new incident,
+ * so prior fixes are found before the public web is searched. Each resolved
+ * incident is indexed with its title, root cause, error templates, issue
+ * (fingerprint, message, culprit), the files of its suspected commit and fix,
+ * and the applied solution with its outcome. Text is ranked with BM25; an
+ * identical error fingerprint or shared stack frame files add to the score.
+ */
+export class IncidentKnowledgeBase {
+  private readonly MAX_DOCUMENTS = 500; // Most recently resolved incidents
+  private readonly K1 = 1.2;
+  private readonly B = 0.75;
+  private readonly FINGERPRINT_BOOST = 10;
+  private readonly FILE_BOOST = 2;
+  private readonly MIN_RELEVANCE = 0.3;
+
+  /**
+   * Resolved incidents most similar to a query, best first
+   */
+  async findSimilar(query: SimilarIncidentQuery, limit: number = 3): Promise<SimilarIncident[]> {
+    const documents = (await this.loadDocuments(query.userId)).filter((doc) => doc.incidentId !== query.excludeIncidentId);
+    if (documents.length === 0) return [];
+
+    const fingerprint = query.issueId ? await this.getFingerprint(query.issueId) : null;
+    const queryTerms = [...new Set(tokenize(query.text))];
+    const fileKeys = [...new Set((query.files || []).map(pathKey).filter(Boolean))];
+
+    // Document frequencies over the indexed incidents
+    const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+    const idf = new Map<string, number>();
+    for (const term of queryTerms) {
+      const df = documents.filter((doc) => doc.terms.has(term)).length;
+      idf.set(term, Math.log(1 + (documents.length - df + 0.5) / (df + 0.5)));
+    }
+    const totalWeight = queryTerms.reduce((sum, term) => sum + idf.get(term)!, 0);
+
+    const results: SimilarIncident[] = [];
+    for (const doc of documents) {
+      let bm25 = 0;
+      let matchedWeight = 0;
+      const matchedTerms: string[] = [];
+      for (const term of queryTerms) {
+        const tf = doc.terms.get(term);
+        if (!tf) continue;
+        const weight = idf.get(term)!;
+        bm25 += (weight * tf * (this.K1 + 1)) / (tf + this.K1 * (1 - this.B + (this.B * doc.length) / averageLength));
+        matchedWeight += weight;
+        matchedTerms.push(term);
+      }
+
+      const sameFingerprint = !!fingerprint && doc.fingerprint === fingerprint;
+      const matchedFiles = doc.files.filter((file) => fileKeys.some((key) => matchWeight(file, key) === 1));
+      const relevance = totalWeight > 0 ? matchedWeight / totalWeight : 0;
+      if (!sameFingerprint && (relevance < this.MIN_RELEVANCE || bm25 === 0)) continue;
+
+      results.push({
+        incidentId: doc.incidentId,
+        title: doc.title,
+        url: `${FRONTEND_URL}/incidents/${doc.incidentId}`,
+        resolvedAt: doc.resolvedAt,
+        rootCause: doc.rootCause,
+        score: Math.round((bm25 + (sameFingerprint ? this.FINGERPRINT_BOOST : 0) + matchedFiles.length * this.FILE_BOOST) * 100) / 100,
+        relevance: sameFingerprint ? 1 : Math.round(relevance * 100) / 100,
+        sameFingerprint,
+        matchedTerms: matchedTerms.sort((a, b) => idf.get(b)! - idf.get(a)!).slice(0, 8),
+        matchedFiles,
+        fix: doc.fix,
+        regressed: doc.regressed,
+      });
+    }
+
+    const ranked = results.sort((a, b) => b.score - a.score).slice(0, limit);
+    logger.info(
+      `🧠 Knowledge base: ${ranked.length} similar incident(s) among ${documents.length} resolved` +
+        (ranked[0] ? ` (best ${ranked[0].incidentId}, score ${ranked[0].score})` : '')
+    );
+    return ranked;
+  }
+
+  /**
+   * Research result pointing at a similar past incident and its fix
+   */
+  toResearchResult(similar: SimilarIncident): ResearchResult {
+    const parts = [
+      similar.sameFingerprint ? 'Same error fingerprint.' : `Matched: ${similar.matchedTerms.join(', ')}.`,
+      similar.rootCause ? `Root cause: ${similar.rootCause}` : '',
+      similar.fix
+        ? `Fix (${similar.fix.type}${similar.fix.succeeded === false ? ', failed' : ''}): ${similar.fix.description}${similar.fix.url ? ` (${similar.fix.url})` : ''}`
+        : '',
+      similar.regressed ? 'The error came back after this fix.' : '',
+    ];
+
+    return {
+      source: 'internal',
+      title: `Past incident: ${similar.title}`,
+      summary: parts.filter(Boolean).join(' '),
+      url: similar.url,
+      relevance: similar.relevance,
+    };
+  }
+
+  private async getFingerprint(issueId: string): Promise<string | null> {
+    const [issue] = await db.select({ fingerprint: issues.fingerprint }).from(issues).where(eq(issues.id, issueId));
+    return issue?.fingerprint || null;
+  }
+
+  /**
+   * Index the user's most recently resolved incidents
+   */
+  private async loadDocuments(userId: string): Promise<KnowledgeDocument[]> {
+    const rows = await db
+      .select({ incident: incidents, issue: issues })
+      .from(incidents)
+      .leftJoin(issues, eq(incidents.issueId, issues.id))
+      .where(and(eq(incidents.userId, userId), eq(incidents.status, 'resolved')))
+      .orderBy(desc(incidents.resolvedAt))
+      .limit(this.MAX_DOCUMENTS);
+    if (rows.length === 0) return [];
+
+    const incidentIds = rows.map((row) => row.incident.id);
+    const [solutionRows, commitRows, phaseRows] = await Promise.all([
+      db.select().from(solutions).where(inArray(solutions.incidentId, incidentIds)).orderBy(desc(solutions.createdAt)),
+      db
+        .select({ incidentId: commits.incidentId, filesChanged: commits.filesChanged, message: commits.message })
+        .from(commits)
+        .where(and(inArray(commits.incidentId, incidentIds), eq(commits.isSuspicious, true))),
+      db
+        .select({ incidentId: timelineEvents.incidentId, type: timelineEvents.type, metadata: timelineEvents.metadata })
+        .from(timelineEvents)
+        .where(and(
+          inArray(timelineEvents.incidentId, incidentIds),
+          inArray(timelineEvents.type, ['log_analysis', 'solution_generation'])
+        )),
+    ]);
+
+    return rows.map(({ incident, issue }) => {
+      // The executed solution, or the latest proposed one
+      const incidentSolutions = solutionRows.filter((s) => s.incidentId === incident.id);
+      const solution = incidentSolutions.find((s) => s.executed) || incidentSolutions[0];
+      const suspect = commitRows.find((c) => c.incidentId === incident.id);
+      const phase = (type: string) => phaseRows.find((p) => p.incidentId === incident.id && p.type === type)?.metadata;
+      const analysis = phase('log_analysis')?.analysis;
+
+      const templates: string[] = [
+        ...(analysis?.most_common_errors || []).map((e: { message: string }) => e.message),
+        ...(analysis?.new_templates || []).map((t: { template: string }) => t.template),
+      ];
+      const fixedFile: string | undefined = phase('solution_generation')?.solution?.metadata?.filePath;
+      const files = [...new Set([...(suspect?.filesChanged || []), ...(fixedFile ? [fixedFile] : [])])];
+
+      const text = [
+        incident.title,
+        incident.description,
+        incident.rootCause,
+        issue?.title,
+        issue?.culprit,
+        issue?.errorType,
+        ...templates,
+        suspect?.message,
+        solution?.description,
+        solution?.reasoning,
+        ...files,
+      ].filter(Boolean).join('\n');
+      const tokens = tokenize(text);
+      const terms = new Map<string, number>();
+      for (const token of tokens) terms.set(token, (terms.get(token) || 0) + 1);
+
+      const fixUrl = solution?.executionResult?.url || issue?.fix?.url;
+      return {
+        incidentId: incident.id,
+        title: incident.title,
+        resolvedAt: incident.resolvedAt,
+        rootCause: incident.rootCause,
+        fingerprint: issue?.fingerprint || null,
+        files,
+        fix: solution
+          ? {
+              type: solution.type,
+              description: solution.description,
+              ...(fixUrl && { url: fixUrl }),
+              ...(solution.executionResult && { succeeded: !!solution.executionResult.success }),
+            }
+          : null,
+        regressed: !!(issue?.lastRegressedAt && incident.resolvedAt && issue.lastRegressedAt > incident.resolvedAt),
+        terms,
+        length: tokens.length,
+      };
+    });
+  }
+}
+
+export default new IncidentKnowledgeBase();
@@ -0,0 +1,295 @@
+import { db } from '../db';
+import {
+  incidents,
+  timelineEvents,
+  commits,
+  researchResults,
+  solutions,
+} from '../db/schema';
+import { eq, and, asc, desc, notInArray, sql } from 'drizzle-orm';
+import logger from '../utils/logger';
+import {
+  AgentPhase,
+  CommitInfo,
+  Incident,
+  IncidentStatus,
+  ResearchResult,
+  Solution,
+  TimelineEntry,
+} from '../utils/types';
+
+type IncidentRecord = typeof incidents.$inferSelect;
+
+/**
+ * Incident Store
+ *
+ * Persists the incident response pipeline so it survives backend restarts:
+ * - Every timeline entry (with the phase inputs/outputs in its metadata) is
+ *   checkpointed to `timeline_events`
+ * - Phase results are also written to `commits`, `research_results` and `solutions`
+ * - Incidents that never reached a terminal status can be loaded back and resumed
+ */
+export class IncidentStore {
+  /**
+   * Create the incident record (linked to the issue that triggered it, if any)
+   */
+  async createIncident(userId: string, incident: Incident, issueId?: string): Promise<IncidentRecord> {
+    const [savedIncident] = await db
+      .insert(incidents)
+      .values({
+        userId,
+        title: incident.title,
+        description: incident.description,
+        status: incident.status as any,
+        severity: incident.severity as any,
+        affectedServices: incident.affectedServices,
+        detectedAt: incident.startedAt,
+        issueId: issueId || null,
+      })
+      .returning();
+
+    return savedIncident;
+  }
+
+  /**
+   * Update incident status and diagnosis fields
+   */
+  async updateIncident(
+    incidentId: string,
+    updates: {
+      status?: IncidentStatus;
+      resolvedAt?: Date;
+      rootCause?: string;
+      rootCauseConfidence?: number;
+    }
+  ): Promise<void> {
+    const { status, ...rest } = updates;
+
+    await db
+      .update(incidents)
+      .set({
+        ...rest,
+        ...(status && status !== 'idle' && { status: status as any }),
+        updatedAt: new Date(),
+      })
+      .where(eq(incidents.id, incidentId));
+  }
+
+  /**
+   * Reopen a resolved incident for another response cycle (regression)
+   */
+  async reopenIncident(incidentId: string): Promise<IncidentRecord | null> {
+    const [reopenedIncident] = await db
+      .update(incidents)
+      .set({
+        status: 'detecting',
+        resolvedAt: null,
+        regressionCount: sql`${incidents.regressionCount} + 1`,
+        reopenedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(incidents.id, incidentId))
+      .returning();
+
+    return reopenedIncident || null;
+  }
+
+  /**
+   * Most recently resolved incident of an issue
+   */
+  async findResolvedIncident(issueId: string): Promise<IncidentRecord | null> {
+    const [resolvedIncident] = await db
+      .select()
+      .from(incidents)
+      .where(and(eq(incidents.issueId, issueId), eq(incidents.status, 'resolved')))
+      .orderBy(desc(incidents.resolvedAt))
+      .limit(1);
+
+    return resolvedIncident || null;
+  }
+
+  /**
+   * Checkpoint a timeline entry (insert or update by id)
+   */
+  async saveTimelineEntry(incidentId: string, entry: TimelineEntry): Promise<void> {
+    const values = {
+      title: entry.title,
+      description: entry.description,
+      metadata: {
+        ...entry.metadata,
+        phase: entry.phase,
+        status: entry.status,
+      },
+    };
+
+    await db
+      .insert(timelineEvents)
+      .values({
+        id: entry.id,
+        incidentId,
+        type: entry.phase,
+        timestamp: entry.timestamp,
+        ...values,
+      })
+      .onConflictDoUpdate({
+        target: timelineEvents.id,
+        set: values,
+      });
+  }
+
+  /**
+   * Store commits fetched during commit correlation
+   */
+  async saveCommits(
+    incidentId: string,
+    commitList: CommitInfo[],
+    suspectedCommit: CommitInfo | null,
+    diff: string
+  ): Promise<void> {
+    if (commitList.length === 0) return;
+
+    await db.insert(commits).values(
+      commitList.map((commit) => {
+        const isSuspicious = commit.sha === suspectedCommit?.sha;
+        return {
+          incidentId,
+          sha: commit.sha,
+          author: commit.author,
+          message: commit.message,
+          timestamp: new Date(commit.timestamp),
+          filesChanged: commit.filesChanged,
+          additions: commit.additions,
+          deletions: commit.deletions,
+          diff: isSuspicious ? diff : null,
+          isSuspicious,
+          evidence: commit.evidence || null,
+        };
+      })
+    );
+  }
+
+  /**
+   * Store research results
+   */
+  async saveResearchResults(incidentId: string, query: string, results: ResearchResult[]): Promise<void> {
+    if (results.length === 0) return;
+
+    await db.insert(researchResults).values(
+      results.map((result) => ({
+        incidentId,
+        source: result.source,
+        query,
+        result,
+      }))
+    );
+  }
+
+  /**
+   * Store a proposed solution and return its database ID
+   */
+  async saveSolution(incidentId: string, solution: Solution): Promise<string> {
+    const [savedSolution] = await db
+      .insert(solutions)
+      .values({
+        incidentId,
+        type: solution.type,
+        description: solution.description || '',
+        reasoning: solution.reasoning || '',
+        code: solution.code,
+        diff: solution.diff,
+        steps: solution.steps,
+        confidence: Math.round(solution.confidence || 0),
+        risk: solution.risk,
+        tested: !!solution.testResults,
+        testResults: solution.testResults,
+      })
+      .returning();
+
+    return savedSolution.id;
+  }
+
+  /**
+   * Record the result of executing a solution
+   */
+  async saveExecutionResult(solutionId: string, result: Record<string, any>): Promise<void> {
+    await db
+      .update(solutions)
+      .set({
+        executed: !!result.success,
+        executionResult: result,
+        executedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(solutions.id, solutionId));
+  }
+
+  /**
+   * Load incidents whose pipeline never reached a terminal status
+   */
+  async loadUnfinishedIncidents(): Promise<IncidentRecord[]> {
+    return db
+      .select()
+      .from(incidents)
+      .where(notInArray(incidents.status, ['resolved', 'failed', 'cancelled']))
+      .orderBy(asc(incidents.detectedAt));
+  }
+
+  /**
+   * Rebuild the in-memory timeline of an incident from its checkpoints
+   * (only the current response cycle: a regression starts a new one)
+   */
+  async loadTimeline(incidentId: string): Promise<TimelineEntry[]> {
+    const events = await db
+      .select()
+      .from(timelineEvents)
+      .where(eq(timelineEvents.incidentId, incidentId))
+      .orderBy(asc(timelineEvents.timestamp));
+
+    const timeline: TimelineEntry[] = events
+      .filter((event) => event.metadata?.phase)
+      .map((event) => {
+        const { phase, status, ...metadata } = event.metadata;
+        return {
+          id: event.id,
+          timestamp: event.timestamp,
+          phase: phase as AgentPhase,
+          title: event.title,
+          description: event.description || '',
+          status: status as TimelineEntry['status'],
+          metadata,
+        };
+      });
+
+    const cycleStart = timeline.map((entry) => entry.phase === 'detection' && !!entry.metadata?.regression).lastIndexOf(true);
+    return cycleStart > 0 ? timeline.slice(cycleStart) : timeline;
+  }
+
+  /**
+   * Convert an incident record back to the agent's incident shape
+   */
+  toIncident(record: IncidentRecord): Incident {
+    return {
+      id: record.id,
+      title: record.title,
+      description: record.description,
+      severity: record.severity,
+      status: record.status === 'solving' ? 'diagnosing' : record.status,
+      startedAt: record.detectedAt,
+      resolvedAt: record.resolvedAt || undefined,
+      affectedServices: record.affectedServices || [],
+    };
+  }
+
+  /**
+   * Run a persistence operation without failing the pipeline
+   */
+  async safely(description: string, operation: () => Promise<void>): Promise<void> {
+    try {
+      await operation();
+    } catch (error) {
+      logger.error(`Failed to persist ${description}:`, error);
+    }
+  }
+}
+
+export default new IncidentStore();
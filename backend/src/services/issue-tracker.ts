@@ -0,0 +1,275 @@
+import { db } from '../db';
+import { issues, incidents, runtimeLogs, IssueFix } from '../db/schema';
+import { and, eq, desc, inArray, notInArray, sql } from 'drizzle-orm';
+import logger from '../utils/logger';
+import { fingerprintError, ErrorFingerprint } from './error-fingerprint';
+
+type IssueRecord = typeof issues.$inferSelect;
+type RuntimeLogRecord = typeof runtimeLogs.$inferSelect;
+
+export interface IssueGroup {
+  issue: IssueRecord;
+  fingerprint: ErrorFingerprint;
+  errors: RuntimeLogRecord[]; // Errors of this batch grouped into the issue
+  isNew: boolean;
+}
+
+/**
+ * Issue Tracker
+ *
+ * Groups runtime errors into persistent issues by fingerprint. Every issue
+ * tracks first/last seen, occurrence count and the deployments and URLs it
+ * was seen on, and incidents are linked to the issue that triggered them.
+ *
+ * Resolved issues remember the fix and the deployments known to contain the
+ * bug, so a reappearing fingerprint can be recognised as a regression.
+ */
+export class IssueTracker {
+  // Most recent deployments/URLs kept per issue
+  private readonly MAX_TRACKED_VALUES = 20;
+
+  /**
+   * Fingerprint stored error logs, upsert their issues and link the logs to them
+   */
+  async recordErrors(projectId: string, errors: RuntimeLogRecord[]): Promise<IssueGroup[]> {
+    const groups = new Map<string, { fingerprint: ErrorFingerprint; errors: RuntimeLogRecord[] }>();
+
+    for (const error of errors) {
+      const fingerprint = fingerprintError({
+        message: error.message,
+        stack: error.metadata?.stack,
+        source: error.metadata?.source,
+      });
+
+      const group = groups.get(fingerprint.fingerprint);
+      if (group) {
+        group.errors.push(error);
+      } else {
+        groups.set(fingerprint.fingerprint, { fingerprint, errors: [error] });
+      }
+    }
+
+    const results: IssueGroup[] = [];
+    for (const { fingerprint, errors: groupErrors } of groups.values()) {
+      const { issue, isNew } = await this.upsertIssue(projectId, fingerprint, groupErrors);
+
+      await db
+        .update(runtimeLogs)
+        .set({ issueId: issue.id })
+        .where(inArray(runtimeLogs.id, groupErrors.map((error) => error.id)));
+      // Alert rules are evaluated per issue on the same records
+      for (const error of groupErrors) error.issueId = issue.id;
+
+      logger.info(
+        `🧩 ${isNew ? 'New issue' : 'Issue'} "${issue.title}" (${fingerprint.fingerprint.substring(0, 12)}): ${issue.occurrences} occurrence(s)`
+      );
+      results.push({ issue, fingerprint, errors: groupErrors, isNew });
+    }
+
+    return results;
+  }
+
+  /**
+   * Insert a new issue or count new occurrences of an existing one
+   */
+  private async upsertIssue(
+    projectId: string,
+    fingerprint: ErrorFingerprint,
+    errors: RuntimeLogRecord[]
+  ): Promise<{ issue: IssueRecord; isNew: boolean }> {
+    const [existing] = await db
+      .select()
+      .from(issues)
+      .where(and(eq(issues.projectId, projectId), eq(issues.fingerprint, fingerprint.fingerprint)));
+
+    const timestamps = errors.map((error) => error.timestamp.getTime());
+    const firstSeen = new Date(Math.min(...timestamps));
+    const lastSeen = new Date(Math.max(...timestamps));
+    const latest = errors.find((error) => error.timestamp.getTime() === lastSeen.getTime()) || errors[0];
+
+    const deployments = this.mergeValues(existing?.deployments, errors.map((error) => error.deploymentId));
+    const urls = this.mergeValues(existing?.urls, errors.map((error) => error.url));
+    const sample = {
+      message: latest.message,
+      stack: latest.metadata?.stack,
+      source: latest.metadata?.source,
+      url: latest.url,
+      deploymentId: latest.deploymentId,
+      frames: fingerprint.frames,
+    };
+
+    const [issue] = await db
+      .insert(issues)
+      .values({
+        projectId,
+        fingerprint: fingerprint.fingerprint,
+        title: fingerprint.title,
+        culprit: fingerprint.culprit,
+        errorType: fingerprint.errorType,
+        occurrences: errors.length,
+        firstSeen,
+        lastSeen,
+        deployments,
+        urls,
+        sample,
+      })
+      .onConflictDoUpdate({
+        target: [issues.projectId, issues.fingerprint],
+        set: {
+          occurrences: sql`${issues.occurrences} + ${errors.length}`,
+          lastSeen: sql`greatest(${issues.lastSeen}, ${lastSeen.toISOString()}::timestamptz)`,
+          deployments,
+          urls,
+          sample,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+
+    return { issue, isNew: !existing };
+  }
+
+  /**
+   * Append new values (most recent last), dropping duplicates and the oldest overflow
+   */
+  private mergeValues(current: string[] | null | undefined, values: Array<string | null>): string[] {
+    const merged = (current || []).slice();
+    for (const value of values) {
+      if (!value) continue;
+      const index = merged.indexOf(value);
+      if (index !== -1) merged.splice(index, 1);
+      merged.push(value);
+    }
+    return merged.slice(-this.MAX_TRACKED_VALUES);
+  }
+
+  /**
+   * Whether an incident triggered by this issue is still being worked on
+   */
+  async hasOpenIncident(issueId: string): Promise<boolean> {
+    const [openIncident] = await db
+      .select({ id: incidents.id })
+      .from(incidents)
+      .where(
+        and(
+          eq(incidents.issueId, issueId),
+          notInArray(incidents.status, ['resolved', 'failed', 'cancelled'])
+        )
+      )
+      .limit(1);
+
+    return !!openIncident;
+  }
+
+  /**
+   * List the issues of a project (most recently seen first)
+   */
+  async listIssues(
+    projectId: string,
+    options?: { status?: IssueRecord['status']; limit?: number }
+  ): Promise<IssueRecord[]> {
+    return db
+      .select()
+      .from(issues)
+      .where(
+        and(
+          eq(issues.projectId, projectId),
+          ...(options?.status ? [eq(issues.status, options.status)] : [])
+        )
+      )
+      .orderBy(desc(issues.lastSeen))
+      .limit(options?.limit || 100);
+  }
+
+  /**
+   * Get an issue with its linked incidents and most recent occurrences
+   */
+  async getIssue(projectId: string, issueId: string) {
+    const [issue] = await db
+      .select()
+      .from(issues)
+      .where(and(eq(issues.id, issueId), eq(issues.projectId, projectId)));
+
+    if (!issue) return null;
+
+    const [linkedIncidents, recentLogs] = await Promise.all([
+      db
+        .select()
+        .from(incidents)
+        .where(eq(incidents.issueId, issueId))
+        .orderBy(desc(incidents.detectedAt)),
+      db
+        .select()
+        .from(runtimeLogs)
+        .where(eq(runtimeLogs.issueId, issueId))
+        .orderBy(desc(runtimeLogs.timestamp))
+        .limit(20),
+    ]);
+
+    return { ...issue, incidents: linkedIncidents, recentLogs };
+  }
+
+  /**
+   * Update the status of an issue (open, resolved, ignored, regressed)
+   */
+  async updateStatus(projectId: string, issueId: string, status: IssueRecord['status']): Promise<IssueRecord | null> {
+    const [issue] = await db
+      .update(issues)
+      .set({
+        status,
+        ...(status === 'resolved' && this.resolutionValues(null)),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(issues.id, issueId), eq(issues.projectId, projectId)))
+      .returning();
+
+    return issue || null;
+  }
+
+  /**
+   * Mark an issue as resolved by a fix
+   */
+  async markResolved(issueId: string, fix: IssueFix): Promise<void> {
+    await db
+      .update(issues)
+      .set({
+        status: 'resolved',
+        ...this.resolutionValues(fix),
+        updatedAt: new Date(),
+      })
+      .where(eq(issues.id, issueId));
+
+    logger.info(`✅ Issue ${issueId} resolved${fix.url ? ` by ${fix.url}` : ''}`);
+  }
+
+  /**
+   * Mark a resolved issue as regressed (its fingerprint reappeared after the fix)
+   */
+  async markRegressed(issueId: string): Promise<IssueRecord> {
+    const [issue] = await db
+      .update(issues)
+      .set({
+        status: 'regressed',
+        regressionCount: sql`${issues.regressionCount} + 1`,
+        lastRegressedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(issues.id, issueId))
+      .returning();
+
+    return issue;
+  }
+
+  /**
+   * Resolution fields: every deployment the issue was seen on so far contains the bug
+   */
+  private resolutionValues(fix: IssueFix | null) {
+    return {
+      resolvedAt: new Date(),
+      fix,
+      fixedDeployments: sql`${issues.deployments}`,
+    };
+  }
+}
+
+export default new IssueTracker();
@@ -0,0 +1,247 @@
+import { db } from '../db';
+import { incidents, issues, solutions, timelineEvents } from '../db/schema';
+import { and, desc, eq, inArray, isNotNull, ne, sql } from 'drizzle-orm';
+import { SourceControlProvider } from '../integrations/vcs';
+import { RootCause, Solution } from '../utils/types';
+import { isCancelledError } from '../utils/cancellation';
+import { parseUnifiedDiff } from '../utils/unified-diff';
+import logger from '../utils/logger';
+import patchApplier from './patch-applier';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+export interface KnownFix {
+  solution: Solution; // Adapted to the current state, ready to propose
+  sourceIncident: { id: string; title: string; rootCause: string | null; url: string };
+  sourceSolutionId: string;
+  attempts: number; // Executions of this fix for the fingerprint
+  successes: number;
+  successRate: number; // 0-1
+  adaptation: string;
+}
+
+interface FixAttempt {
+  solutionId: string;
+  incidentId: string;
+  incidentTitle: string;
+  rootCause: string | null;
+  executedAt: Date;
+  succeeded: boolean;
+  solution: Solution; // As proposed (with its diff and file path)
+}
+
+/**
+ * Known-Fix Library
+ *
+ * Reapplies solutions that already fixed an error: when an incident's
+ * fingerprint matches incidents whose solutions were executed successfully,
+ * the most recent of these fixes is adapted to the current state (rollback
+ * target, patch rebased on the default branch) and proposed with its
+ * success rate, so no LLM call is needed. Fixes that don't apply cleanly
+ * anymore are skipped.
+ */
+export class KnownFixLibrary {
+  private readonly MAX_ATTEMPTS = 50;
+
+  /**
+   * The proven fix for the fingerprint of an issue, if one still applies
+   */
+  async findKnownFix(options: {
+    userId: string;
+    issueId: string;
+    excludeIncidentId?: string | null;
+    vcs: SourceControlProvider | null;
+    rollbackTarget?: string | null; // Last healthy deployment, when known
+    signal?: AbortSignal;
+  }): Promise<KnownFix | null> {
+    const attempts = await this.loadAttempts(options.userId, options.issueId, options.excludeIncidentId);
+    if (!attempts.some((attempt) => attempt.succeeded)) return null;
+
+    const stats = new Map<string, { attempts: number; successes: number }>();
+    for (const attempt of attempts) {
+      const key = signature(attempt.solution);
+      const stat = stats.get(key) || { attempts: 0, successes: 0 };
+      stat.attempts++;
+      if (attempt.succeeded) stat.successes++;
+      stats.set(key, stat);
+    }
+
+    // Most recent successful fix first, one per kind of fix
+    const tried = new Set<string>();
+    for (const attempt of attempts) {
+      const key = signature(attempt.solution);
+      if (!attempt.succeeded || tried.has(key)) continue;
+      tried.add(key);
+
+      try {
+        const adapted = await this.adapt(attempt.solution, options.vcs, options.rollbackTarget);
+        if (!adapted) continue;
+
+        const { attempts: count, successes } = stats.get(key)!;
+        const successRate = successes / count;
+        const sourceIncident = {
+          id: attempt.incidentId,
+          title: attempt.incidentTitle,
+          rootCause: attempt.rootCause,
+          url: `${FRONTEND_URL}/incidents/${attempt.incidentId}`,
+        };
+
+        logger.info(`📚 Known fix for issue ${options.issueId}: ${attempt.solution.type} from incident ${attempt.incidentId} (${successes}/${count} successful)`);
+        return {
+          solution: {
+            ...adapted.solution,
+            id: `solution-${Date.now()}`,
+            // Success rate smoothed towards 50%, so one success doesn't mean certainty
+            confidence: Math.round((100 * (successes + 1)) / (count + 2)),
+            reasoning:
+              `Reapplying the ${attempt.solution.type} that resolved incident "${attempt.incidentTitle}" (${sourceIncident.url}): ` +
+              `it succeeded in ${successes} of ${count} execution(s) for this error. ${adapted.description}\n\n${attempt.solution.reasoning}`,
+            testResults: undefined,
+            metadata: {
+              ...adapted.solution.metadata,
+              knownFix: { sourceIncidentId: attempt.incidentId, sourceSolutionId: attempt.solutionId, attempts: count, successes },
+            },
+          },
+          sourceIncident,
+          sourceSolutionId: attempt.solutionId,
+          attempts: count,
+          successes,
+          successRate,
+          adaptation: adapted.description,
+        };
+      } catch (error: any) {
+        if (isCancelledError(error, options.signal)) throw error;
+        logger.warn(`Could not adapt the fix of incident ${attempt.incidentId}: ${error.message}`);
+      }
+    }
+
+    logger.info(`Known fixes for issue ${options.issueId} don't apply to the current code anymore`);
+    return null;
+  }
+
+  /**
+   * Root cause of a known fix, taken from the incident it resolved
+   */
+  toRootCause(knownFix: KnownFix): RootCause {
+    const { sourceIncident } = knownFix;
+    return {
+      description: sourceIncident.rootCause || `Same error as incident "${sourceIncident.title}"`,
+      reasoning: `The error fingerprint matches incident "${sourceIncident.title}", which was resolved by a ${knownFix.solution.type}.`,
+      evidence: [
+        `Same error fingerprint as ${sourceIncident.url}`,
+        `The fix succeeded in ${knownFix.successes} of ${knownFix.attempts} execution(s)`,
+        knownFix.adaptation,
+      ],
+      confidence: knownFix.solution.confidence,
+    };
+  }
+
+  /**
+   * Adapt a past solution to the current state, or null if it doesn't apply
+   */
+  private async adapt(
+    solution: Solution,
+    vcs: SourceControlProvider | null,
+    rollbackTarget?: string | null
+  ): Promise<{ solution: Solution; description: string } | null> {
+    if (solution.type === 'rollback') {
+      return {
+        solution: { ...solution, metadata: { ...solution.metadata, rollbackTarget: rollbackTarget || undefined } },
+        description: rollbackTarget
+          ? `Rolls back to the last healthy deployment ${rollbackTarget}.`
+          : 'Rolls back to the previous successful deployment.',
+      };
+    }
+    if (solution.type === 'restart') {
+      return { solution, description: 'Redeploys the latest deployment.' };
+    }
+
+    // Patches and config fixes are rebased on the current content of their files
+    if (!vcs || !solution.diff) return null;
+
+    const { files, validation } = await patchApplier.apply(solution.diff, vcs, vcs.defaultBranch);
+    if (!validation.applies || files.every((file) => file.after === file.before)) {
+      logger.info(`Known fix doesn't apply to ${vcs.defaultBranch} anymore: ${patchApplier.describeConflicts(validation).join('; ')}`);
+      return null;
+    }
+
+    const paths = files.map((file) => file.path).join(', ');
+    return {
+      solution: {
+        ...solution,
+        code: undefined,
+        diff: patchApplier.toDiff(files),
+        patchValidation: validation,
+        metadata: { ...solution.metadata, filePath: files[0].path },
+      },
+      description: `The change to ${paths} was rebased on ${vcs.defaultBranch} in ${vcs.repository}.`,
+    };
+  }
+
+  /**
+   * Executions of solutions for incidents with the issue's fingerprint, most recent first
+   */
+  private async loadAttempts(userId: string, issueId: string, excludeIncidentId?: string | null): Promise<FixAttempt[]> {
+    const [issue] = await db.select({ fingerprint: issues.fingerprint }).from(issues).where(eq(issues.id, issueId));
+    if (!issue) return [];
+
+    const rows = await db
+      .select({ solution: solutions, incident: incidents })
+      .from(solutions)
+      .innerJoin(incidents, eq(solutions.incidentId, incidents.id))
+      .innerJoin(issues, eq(incidents.issueId, issues.id))
+      .where(and(
+        eq(incidents.userId, userId),
+        eq(issues.fingerprint, issue.fingerprint),
+        isNotNull(solutions.executedAt),
+        ...(excludeIncidentId ? [ne(incidents.id, excludeIncidentId)] : [])
+      ))
+      .orderBy(desc(solutions.executedAt))
+      .limit(this.MAX_ATTEMPTS);
+    if (rows.length === 0) return [];
+
+    // The proposed solution (file path, diff) is kept on the timeline
+    const solutionIds = rows.map((row) => row.solution.id);
+    const proposals = await db
+      .select({ metadata: timelineEvents.metadata })
+      .from(timelineEvents)
+      .where(and(
+        eq(timelineEvents.type, 'solution_generation'),
+        inArray(sql<string>`${timelineEvents.metadata}->>'solutionRecordId'`, solutionIds)
+      ));
+    const proposed = new Map<string, Solution>(proposals.map((p) => [p.metadata?.solutionRecordId, p.metadata?.solution]));
+
+    return rows.map(({ solution, incident }) => ({
+      solutionId: solution.id,
+      incidentId: incident.id,
+      incidentTitle: incident.title,
+      rootCause: incident.rootCause,
+      executedAt: solution.executedAt!,
+      succeeded: !!solution.executionResult?.success,
+      solution: proposed.get(solution.id) || {
+        id: solution.id,
+        type: solution.type,
+        description: solution.description,
+        reasoning: solution.reasoning,
+        risk: solution.risk as Solution['risk'],
+        confidence: solution.confidence,
+        estimatedTime: '',
+        steps: solution.steps || [],
+        code: solution.code || undefined,
+        diff: solution.diff || undefined,
+      },
+    }));
+  }
+}
+
+/**
+ * Fixes of the same kind: type and changed files
+ */
+function signature(solution: Solution): string {
+  const files = solution.diff
+    ? parseUnifiedDiff(solution.diff).map((patch) => patch.newPath || patch.oldPath).sort()
+    : [solution.metadata?.filePath || ''];
+  return `${solution.type}:${files.join(',')}`;
+}
+
+export default new KnownFixLibrary();
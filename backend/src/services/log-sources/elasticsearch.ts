@@ -0,0 +1,57 @@
+import axios from 'axios';
+import { LogEntry } from '../../utils/types';
+import { LogSourceConfig } from '../../db/schema';
+import { LogQuery, LogSource, toLogLevel } from './types';
+
+type ElasticsearchConfig = Extract<LogSourceConfig, { type: 'elasticsearch' }>;
+
+/**
+ * Elasticsearch/OpenSearch-compatible _search API (time range plus an optional query_string)
+ */
+export class ElasticsearchLogSource implements LogSource {
+  readonly name: string;
+
+  constructor(private config: ElasticsearchConfig) {
+    this.name = config.name || `elasticsearch:${config.index}`;
+  }
+
+  async fetchLogs(query: LogQuery): Promise<LogEntry[]> {
+    const timestampField = this.config.timestampField || '@timestamp';
+
+    const response = await axios.post(
+      `${this.config.url.replace(/\/+$/, '')}/${encodeURIComponent(this.config.index)}/_search`,
+      {
+        size: query.limit,
+        sort: [{ [timestampField]: 'desc' }],
+        query: {
+          bool: {
+            filter: [
+              { range: { [timestampField]: { gte: query.since.toISOString(), lte: query.until.toISOString() } } },
+            ],
+            ...(this.config.query && { must: [{ query_string: { query: this.config.query } }] }),
+          },
+        },
+      },
+      {
+        headers: { 'Content-Type': 'application/json', ...(this.config.headers || {}) },
+        timeout: 15000,
+        signal: query.signal,
+      }
+    );
+
+    const hits: Array<{ _id: string; _source: Record<string, any> }> = response.data?.hits?.hits || [];
+
+    return hits.map(({ _id, _source: doc }) => {
+      const message = doc.message || doc.msg || doc.log?.message || JSON.stringify(doc);
+      const service = doc.service?.name || (typeof doc.service === 'string' ? doc.service : null);
+
+      return {
+        timestamp: new Date(doc[timestampField] || doc.timestamp),
+        level: toLogLevel(doc['log.level'] || doc.log?.level || doc.level || doc.severity, message),
+        message,
+        service: service || query.projectName,
+        metadata: { ...doc, documentId: _id, logSource: this.name },
+      };
+    });
+  }
+}
@@ -0,0 +1,120 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { LogEntry } from '../../utils/types';
+import { LogSourceConfig } from '../../db/schema';
+import { throwIfCancelled } from '../../utils/cancellation';
+import { LogQuery, LogSource, parseJsonLine, toLogLevel } from './types';
+
+type FileConfig = Extract<LogSourceConfig, { type: 'file' }>;
+
+// Only the end of large files is read
+const MAX_READ_BYTES = 5 * 1024 * 1024;
+
+// "2024-01-01T12:00:00.000Z [ERROR] message" / "2024-01-01 12:00:00 ERROR message"
+const TEXT_LINE_PATTERN = /^(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?)\s+(?:\[?(trace|debug|info|warn|warning|error|fatal|critical)\]?:?\s+)?(.*)$/i;
+
+/**
+ * Local log file (JSON lines or plain text), resolved inside LOG_FILES_DIR
+ *
+ * File sources are disabled unless LOG_FILES_DIR is set, so project settings
+ * can't be used to read arbitrary files of the server.
+ */
+export class FileLogSource implements LogSource {
+  readonly name: string;
+
+  constructor(private config: FileConfig) {
+    this.name = config.name || `file:${config.path}`;
+  }
+
+  async fetchLogs(query: LogQuery): Promise<LogEntry[]> {
+    const content = await this.readTail(this.resolvePath());
+    throwIfCancelled(query.signal);
+
+    const format = this.config.format || (this.config.path.endsWith('.log') ? 'text' : 'jsonl');
+    const entries = format === 'jsonl' ? this.parseJsonLines(content, query) : this.parseTextLines(content, query);
+
+    return entries
+      .filter((entry) => entry.timestamp >= query.since && entry.timestamp <= query.until)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, query.limit);
+  }
+
+  private resolvePath(): string {
+    const baseDir = process.env.LOG_FILES_DIR;
+    if (!baseDir) {
+      throw new Error('File log sources are disabled (LOG_FILES_DIR is not set)');
+    }
+
+    const root = path.resolve(baseDir);
+    const filePath = path.resolve(root, this.config.path);
+    if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+      throw new Error(`Log file ${this.config.path} is outside of LOG_FILES_DIR`);
+    }
+    return filePath;
+  }
+
+  private async readTail(filePath: string): Promise<string> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const { size } = await handle.stat();
+      const length = Math.min(size, MAX_READ_BYTES);
+      const buffer = Buffer.alloc(length);
+      await handle.read(buffer, 0, length, size - length);
+
+      const content = buffer.toString('utf8');
+      // Drop the partial first line when the file was cut
+      return length < size ? content.slice(content.indexOf('\n') + 1) : content;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private parseJsonLines(content: string, query: LogQuery): LogEntry[] {
+    const entries: LogEntry[] = [];
+
+    for (const line of content.split('\n')) {
+      const json = parseJsonLine(line);
+      if (!json) continue;
+
+      const timestamp = new Date(json.timestamp || json['@timestamp'] || json.time || json.ts);
+      if (isNaN(timestamp.getTime())) continue;
+
+      const message = json.message || json.msg || line;
+      entries.push({
+        timestamp,
+        level: toLogLevel(json.level || json.severity, message),
+        message,
+        service: json.service || json.app || query.projectName,
+        metadata: { ...json, logSource: this.name },
+      });
+    }
+
+    return entries;
+  }
+
+  private parseTextLines(content: string, query: LogQuery): LogEntry[] {
+    const entries: LogEntry[] = [];
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      const match = line.match(TEXT_LINE_PATTERN);
+      const timestamp = match ? new Date(match[1].replace(' ', 'T').replace(',', '.')) : null;
+
+      if (match && timestamp && !isNaN(timestamp.getTime())) {
+        entries.push({
+          timestamp,
+          level: toLogLevel(match[2], match[3]),
+          message: match[3],
+          service: query.projectName,
+          metadata: { logSource: this.name },
+        });
+      } else if (entries.length > 0) {
+        // Continuation line (e.g. a stack trace) of the previous entry
+        entries[entries.length - 1].message += `\n${line}`;
+      }
+    }
+
+    return entries;
+  }
+}
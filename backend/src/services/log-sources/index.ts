@@ -0,0 +1,154 @@
+import { z } from 'zod';
+import { projects, LogSourceConfig } from '../../db/schema';
+import { LogEntry } from '../../utils/types';
+import { isCancelledError } from '../../utils/cancellation';
+import logger from '../../utils/logger';
+import { LogQuery, LogSource } from './types';
+import { RuntimeLogsSource } from './runtime-logs';
+import { LokiLogSource } from './loki';
+import { ElasticsearchLogSource } from './elasticsearch';
+import { FileLogSource } from './file';
+
+export type { LogQuery, LogSource } from './types';
+
+type ProjectRecord = typeof projects.$inferSelect;
+type LogSourceFactory = (config: any) => LogSource;
+
+const headersSchema = z.record(z.string()).optional();
+
+/**
+ * Log source configuration as accepted by the API
+ */
+export const logSourceConfigSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('loki'),
+    name: z.string().max(100).optional(),
+    url: z.string().url(),
+    query: z.string().min(1), // LogQL stream selector, e.g. {app="web"}
+    headers: headersSchema,
+  }),
+  z.object({
+    type: z.literal('elasticsearch'),
+    name: z.string().max(100).optional(),
+    url: z.string().url(),
+    index: z.string().min(1),
+    query: z.string().optional(), // query_string syntax
+    timestampField: z.string().optional(),
+    headers: headersSchema,
+  }),
+  z.object({
+    type: z.literal('file'),
+    name: z.string().max(100).optional(),
+    path: z.string().min(1), // Relative to LOG_FILES_DIR
+    format: z.enum(['jsonl', 'text']).optional(),
+  }),
+]);
+
+export const logSourceConfigsSchema = z.array(logSourceConfigSchema).max(10);
+
+export interface LogFetchResult {
+  logs: LogEntry[]; // Most recent first
+  sources: Array<{ name: string; count: number; error?: string }>;
+}
+
+/**
+ * Log Source Manager
+ *
+ * Reads the logs of a project from the stored runtime logs plus the external
+ * log sources configured on the project. Backends are pluggable: a source type
+ * is registered with a factory creating a LogSource from its configuration.
+ * A failing source is reported but doesn't fail the others.
+ */
+export class LogSourceManager {
+  private factories = new Map<string, LogSourceFactory>();
+  private runtimeLogsSource = new RuntimeLogsSource();
+
+  constructor() {
+    this.register('loki', (config) => new LokiLogSource(config));
+    this.register('elasticsearch', (config) => new ElasticsearchLogSource(config));
+    this.register('file', (config) => new FileLogSource(config));
+  }
+
+  /**
+   * Register a log source type
+   */
+  register(type: string, factory: LogSourceFactory): void {
+    this.factories.set(type, factory);
+  }
+
+  /**
+   * Create the log source for a configuration
+   */
+  create(config: LogSourceConfig): LogSource {
+    const factory = this.factories.get(config.type);
+    if (!factory) {
+      throw new Error(`Unknown log source type: ${config.type}`);
+    }
+    return factory(config);
+  }
+
+  /**
+   * Fetch a project's logs in a time range from all of its sources
+   */
+  async fetchProjectLogs(
+    project: ProjectRecord,
+    options: { since: Date; until: Date; limit?: number; signal?: AbortSignal }
+  ): Promise<LogFetchResult> {
+    const sources: LogSource[] = [this.runtimeLogsSource];
+    for (const config of project.logSources || []) {
+      try {
+        sources.push(this.create(config));
+      } catch (error: any) {
+        logger.warn(`Skipping log source of project ${project.vercelProjectName}: ${error.message}`);
+      }
+    }
+
+    return this.fetchFromSources(sources, {
+      projectId: project.id,
+      projectName: project.vercelProjectName,
+      since: options.since,
+      until: options.until,
+      limit: options.limit || 500,
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Fetch recent logs from log source configurations (e.g. to check them before saving)
+   */
+  async testSources(project: ProjectRecord, configs: LogSourceConfig[], since: Date): Promise<LogFetchResult> {
+    return this.fetchFromSources(configs.map((config) => this.create(config)), {
+      projectId: project.id,
+      projectName: project.vercelProjectName,
+      since,
+      until: new Date(),
+      limit: 20,
+    });
+  }
+
+  private async fetchFromSources(sources: LogSource[], query: LogQuery): Promise<LogFetchResult> {
+    const results = await Promise.allSettled(sources.map((source) => source.fetchLogs(query)));
+
+    const logs: LogEntry[] = [];
+    const summary: LogFetchResult['sources'] = [];
+
+    results.forEach((result, index) => {
+      const name = sources[index].name;
+      if (result.status === 'fulfilled') {
+        logs.push(...result.value);
+        summary.push({ name, count: result.value.length });
+      } else {
+        if (isCancelledError(result.reason, query.signal)) throw result.reason;
+        logger.warn(`⚠️ Log source ${name} failed: ${result.reason?.message}`);
+        summary.push({ name, count: 0, error: result.reason?.message || 'Unknown error' });
+      }
+    });
+
+    logs.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    logger.info(`📥 Fetched ${logs.length} log(s) from ${summary.map((s) => `${s.name} (${s.count})`).join(', ')}`);
+
+    return { logs: logs.slice(0, query.limit), sources: summary };
+  }
+}
+
+export default new LogSourceManager();
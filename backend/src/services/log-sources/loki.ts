@@ -0,0 +1,50 @@
+import axios from 'axios';
+import { LogEntry } from '../../utils/types';
+import { LogSourceConfig } from '../../db/schema';
+import { LogQuery, LogSource, parseJsonLine, toLogLevel } from './types';
+
+type LokiConfig = Extract<LogSourceConfig, { type: 'loki' }>;
+
+/**
+ * Loki-compatible HTTP API (query_range with a LogQL query)
+ */
+export class LokiLogSource implements LogSource {
+  readonly name: string;
+
+  constructor(private config: LokiConfig) {
+    this.name = config.name || `loki:${config.url}`;
+  }
+
+  async fetchLogs(query: LogQuery): Promise<LogEntry[]> {
+    const response = await axios.get(`${this.config.url.replace(/\/+$/, '')}/loki/api/v1/query_range`, {
+      params: {
+        query: this.config.query,
+        start: `${query.since.getTime()}000000`,
+        end: `${query.until.getTime()}000000`,
+        limit: query.limit,
+        direction: 'backward',
+      },
+      headers: this.config.headers,
+      timeout: 15000,
+      signal: query.signal,
+    });
+
+    const streams: Array<{ stream: Record<string, string>; values: Array<[string, string]> }> =
+      response.data?.data?.result || [];
+
+    return streams.flatMap(({ stream, values }) =>
+      values.map(([timestampNs, line]) => {
+        const json = parseJsonLine(line);
+        const message = json?.message || json?.msg || line;
+
+        return {
+          timestamp: new Date(Math.floor(Number(timestampNs) / 1e6)),
+          level: toLogLevel(stream.level || stream.detected_level || json?.level || json?.severity, message),
+          message,
+          service: stream.service_name || stream.app || stream.job || stream.service || query.projectName,
+          metadata: { ...(json || {}), labels: stream, logSource: this.name },
+        };
+      })
+    );
+  }
+}
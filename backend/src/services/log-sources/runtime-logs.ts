@@ -0,0 +1,46 @@
+import { db } from '../../db';
+import { runtimeLogs } from '../../db/schema';
+import { and, desc, eq, gte, lte } from 'drizzle-orm';
+import { LogEntry } from '../../utils/types';
+import { LogQuery, LogSource, toLogLevel } from './types';
+
+/**
+ * Logs stored in runtime_logs (SDK reports, Log Drains, fetched logs)
+ */
+export class RuntimeLogsSource implements LogSource {
+  readonly name = 'runtime_logs';
+
+  async fetchLogs(query: LogQuery): Promise<LogEntry[]> {
+    const rows = await db
+      .select()
+      .from(runtimeLogs)
+      .where(
+        and(
+          eq(runtimeLogs.projectId, query.projectId),
+          gte(runtimeLogs.timestamp, query.since),
+          lte(runtimeLogs.timestamp, query.until)
+        )
+      )
+      .orderBy(desc(runtimeLogs.timestamp))
+      .limit(query.limit);
+
+    return rows.map((row) => ({
+      timestamp: row.timestamp,
+      level: toLogLevel(row.level, row.message),
+      message: row.message,
+      service: row.functionName || query.projectName,
+      metadata: {
+        ...(row.metadata || {}),
+        logSource: this.name,
+        logId: row.id,
+        source: row.metadata?.source || row.source,
+        url: row.url,
+        method: row.method,
+        statusCode: row.statusCode,
+        requestId: row.requestId,
+        deploymentId: row.deploymentId,
+        issueId: row.issueId,
+      },
+    }));
+  }
+}
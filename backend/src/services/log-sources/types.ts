@@ -0,0 +1,48 @@
+import { LogEntry } from '../../utils/types';
+
+export interface LogQuery {
+  projectId: string;
+  projectName: string; // Default service name of the logs
+  since: Date;
+  until: Date;
+  limit: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend logs can be read from (stored runtime logs, Loki, Elasticsearch, files, ...)
+ */
+export interface LogSource {
+  readonly name: string;
+  fetchLogs(query: LogQuery): Promise<LogEntry[]>;
+}
+
+/**
+ * Map a level/severity value of any backend to a LogEntry level
+ */
+export function toLogLevel(value: unknown, message: string = ''): LogEntry['level'] {
+  const level = String(value || '').toLowerCase();
+
+  if (/^(error|err|fatal|crit|critical|alert|emerg|panic|stderr)/.test(level)) return 'error';
+  if (/^warn/.test(level)) return 'warn';
+  if (/^(debug|trace)/.test(level)) return 'debug';
+  if (level) return 'info';
+
+  // No level field: infer from the message
+  if (/\b(error|exception|fatal|unhandled)\b/i.test(message)) return 'error';
+  if (/\bwarn(ing)?\b/i.test(message)) return 'warn';
+  return 'info';
+}
+
+/**
+ * Parse a JSON log line, or null if it is not a JSON object
+ */
+export function parseJsonLine(line: string): Record<string, any> | null {
+  if (!line.trimStart().startsWith('{')) return null;
+  try {
+    const parsed = JSON.parse(line);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
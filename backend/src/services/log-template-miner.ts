@@ -0,0 +1,236 @@
+import { db } from '../db';
+import { logTemplates, runtimeLogs, TemplateDeploymentStats } from '../db/schema';
+import { and, desc, eq, gte, inArray, isNotNull, lt, min } from 'drizzle-orm';
+import logger from '../utils/logger';
+import { DrainParser, LogCluster, templateOf } from './log-template-parser';
+
+type LogTemplateRecord = typeof logTemplates.$inferSelect;
+type RuntimeLogRecord = typeof runtimeLogs.$inferSelect;
+
+export interface NewTemplatesReport {
+  deploymentId: string | null; // Latest deployment
+  since: Date | null; // When it first showed up in the logs
+  templates: LogTemplateRecord[]; // First seen since then, most frequent first
+}
+
+/**
+ * Log Template Miner
+ *
+ * Mines the stored runtime logs of every project into templates with a
+ * per-project Drain parser, restored from the database on first use. Each
+ * template counts its occurrences per level and remembers when it first
+ * appeared on every deployment, so templates that only exist since the latest
+ * deployment can be reported as evidence.
+ */
+export class LogTemplateMiner {
+  // Deployments tracked per template (most recent)
+  private readonly MAX_TRACKED_DEPLOYMENTS = 20;
+  private readonly MAX_TEMPLATES = 1000;
+
+  private parsers = new Map<string, Promise<DrainParser>>();
+  // Batches of a project are mined one after the other (the parser is stateful)
+  private queues = new Map<string, Promise<unknown>>();
+
+  /**
+   * Mine stored logs into templates and link the logs to them
+   */
+  async recordLogs(projectId: string, logs: RuntimeLogRecord[]): Promise<void> {
+    if (logs.length === 0) return;
+
+    const previous = this.queues.get(projectId) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(() => this.mine(projectId, logs));
+    this.queues.set(projectId, current);
+
+    try {
+      await current;
+    } finally {
+      if (this.queues.get(projectId) === current) {
+        this.queues.delete(projectId);
+      }
+    }
+  }
+
+  private async mine(projectId: string, logs: RuntimeLogRecord[]): Promise<void> {
+    const parser = await this.getParser(projectId);
+
+    const clusters = new Map<LogCluster, RuntimeLogRecord[]>();
+    for (const log of logs) {
+      const result = parser.add(log.message);
+      if (!result) continue;
+      clusters.set(result.cluster, [...(clusters.get(result.cluster) || []), log]);
+    }
+
+    let created = 0;
+    for (const [cluster, clusterLogs] of clusters) {
+      if (!cluster.id) {
+        created++;
+      }
+      const template = await this.saveTemplate(projectId, cluster, clusterLogs);
+      cluster.id = template.id;
+
+      await db
+        .update(runtimeLogs)
+        .set({ templateId: template.id })
+        .where(inArray(runtimeLogs.id, clusterLogs.map((log) => log.id)));
+    }
+
+    if (created > 0) {
+      logger.info(`🧬 ${created} new log template(s) for project ${projectId} (${parser.size} total)`);
+    }
+  }
+
+  /**
+   * Insert a new template or add occurrences to a known one
+   */
+  private async saveTemplate(
+    projectId: string,
+    cluster: LogCluster,
+    logs: RuntimeLogRecord[]
+  ): Promise<LogTemplateRecord> {
+    const [existing] = cluster.id
+      ? await db.select().from(logTemplates).where(eq(logTemplates.id, cluster.id))
+      : [];
+
+    const timestamps = logs.map((log) => log.timestamp.getTime());
+    const firstSeen = new Date(Math.min(...timestamps));
+    const lastSeen = new Date(Math.max(...timestamps));
+
+    const levels = { ...(existing?.levels || {}) };
+    const deployments = { ...(existing?.deployments || {}) };
+    for (const log of logs) {
+      levels[log.level] = (levels[log.level] || 0) + 1;
+
+      if (log.deploymentId) {
+        const stats = deployments[log.deploymentId];
+        deployments[log.deploymentId] = {
+          firstSeen: stats && stats.firstSeen < log.timestamp.toISOString() ? stats.firstSeen : log.timestamp.toISOString(),
+          count: (stats?.count || 0) + 1,
+        };
+      }
+    }
+
+    const values = {
+      template: templateOf(cluster),
+      tokenCount: cluster.tokens.length,
+      sample: logs[logs.length - 1].message.slice(0, 1000),
+      levels,
+      deployments: this.capDeployments(deployments),
+    };
+
+    if (existing) {
+      const [updated] = await db
+        .update(logTemplates)
+        .set({
+          ...values,
+          occurrences: existing.occurrences + logs.length,
+          firstSeen: firstSeen < existing.firstSeen ? firstSeen : existing.firstSeen,
+          lastSeen: lastSeen > existing.lastSeen ? lastSeen : existing.lastSeen,
+          firstDeploymentId: existing.firstDeploymentId || logs.find((log) => log.deploymentId)?.deploymentId || null,
+          updatedAt: new Date(),
+        })
+        .where(eq(logTemplates.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [inserted] = await db
+      .insert(logTemplates)
+      .values({
+        ...values,
+        projectId,
+        occurrences: logs.length,
+        firstSeen,
+        lastSeen,
+        firstDeploymentId: logs.find((log) => log.deploymentId)?.deploymentId || null,
+      })
+      .returning();
+    return inserted;
+  }
+
+  private capDeployments(deployments: Record<string, TemplateDeploymentStats>): Record<string, TemplateDeploymentStats> {
+    return Object.fromEntries(
+      Object.entries(deployments)
+        .sort((a, b) => b[1].firstSeen.localeCompare(a[1].firstSeen))
+        .slice(0, this.MAX_TRACKED_DEPLOYMENTS)
+    );
+  }
+
+  /**
+   * Parser of a project, restored from its stored templates
+   */
+  private getParser(projectId: string): Promise<DrainParser> {
+    let parser = this.parsers.get(projectId);
+    if (!parser) {
+      parser = this.loadParser(projectId);
+      this.parsers.set(projectId, parser);
+      parser.catch(() => this.parsers.delete(projectId));
+    }
+    return parser;
+  }
+
+  private async loadParser(projectId: string): Promise<DrainParser> {
+    const parser = new DrainParser({ maxClusters: this.MAX_TEMPLATES });
+    const templates = await db
+      .select({ id: logTemplates.id, template: logTemplates.template, occurrences: logTemplates.occurrences })
+      .from(logTemplates)
+      .where(eq(logTemplates.projectId, projectId))
+      .orderBy(desc(logTemplates.lastSeen))
+      .limit(this.MAX_TEMPLATES);
+
+    for (const template of templates) {
+      parser.addTemplate(template.template, template.id, template.occurrences);
+    }
+    return parser;
+  }
+
+  /**
+   * Templates of a project, most frequent first
+   */
+  async listTemplates(projectId: string, limit: number = 50): Promise<LogTemplateRecord[]> {
+    return db
+      .select()
+      .from(logTemplates)
+      .where(eq(logTemplates.projectId, projectId))
+      .orderBy(desc(logTemplates.occurrences))
+      .limit(limit);
+  }
+
+  /**
+   * Templates first seen since the latest deployment started logging
+   *
+   * Without logs from before that deployment there is nothing to compare
+   * against, and no template is reported as new.
+   */
+  async getNewTemplates(projectId: string, limit: number = 20): Promise<NewTemplatesReport> {
+    const [latest] = await db
+      .select({ deploymentId: runtimeLogs.deploymentId, since: min(runtimeLogs.timestamp) })
+      .from(runtimeLogs)
+      .where(and(eq(runtimeLogs.projectId, projectId), isNotNull(runtimeLogs.deploymentId)))
+      .groupBy(runtimeLogs.deploymentId)
+      .orderBy(desc(min(runtimeLogs.timestamp)))
+      .limit(1);
+
+    if (!latest?.since) {
+      return { deploymentId: null, since: null, templates: [] };
+    }
+
+    const [before] = await db
+      .select({ id: runtimeLogs.id })
+      .from(runtimeLogs)
+      .where(and(eq(runtimeLogs.projectId, projectId), lt(runtimeLogs.timestamp, latest.since)))
+      .limit(1);
+
+    const templates = before
+      ? await db
+          .select()
+          .from(logTemplates)
+          .where(and(eq(logTemplates.projectId, projectId), gte(logTemplates.firstSeen, latest.since)))
+          .orderBy(desc(logTemplates.occurrences))
+          .limit(limit)
+      : [];
+
+    return { deploymentId: latest.deploymentId, since: latest.since, templates };
+  }
+}
+
+export default new LogTemplateMiner();
@@ -0,0 +1,193 @@
+/**
+ * Log Template Parser (Drain)
+ *
+ * Online log template extraction after Drain (He et al., ICWS 2017): messages
+ * are tokenized, obvious variables are masked, and each message is routed
+ * through a fixed-depth prefix tree (token count, then the first tokens) to a
+ * leaf whose clusters are compared by token similarity. A similar enough
+ * cluster absorbs the message, turning differing tokens into "<*>" slots;
+ * otherwise the message starts a new cluster.
+ *
+ * "User 8f3a… not found (took 31ms)" and "User 2c9e… not found (took 7ms)"
+ * both become "User <*> not found (took <*>ms)".
+ */
+
+export const WILDCARD = '<*>';
+
+const MAX_MESSAGE_LENGTH = 1000;
+const MAX_TOKENS = 80;
+
+// Values that are always variable, masked before clustering
+const MASKS: RegExp[] = [
+  /https?:\/\/[^\s'"`)]+/g,
+  /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi,
+  /[\w.+-]+@[\w-]+\.[\w.-]+/g,
+  /\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g,
+  /\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g,
+  /\b0x[0-9a-f]+\b/gi,
+  /\b(?=[A-Za-z0-9_-]*[A-Za-z])(?=[A-Za-z0-9_-]*\d)[A-Za-z0-9_-]{8,}\b/g,
+  /(?<![A-Za-z<*])-?\d+(?:\.\d+)?/g,
+];
+
+export interface LogCluster {
+  id: string | null; // Persisted template ID, once stored
+  tokens: string[];
+  size: number;
+}
+
+export interface ParseResult {
+  cluster: LogCluster;
+  isNew: boolean;
+  changed: boolean; // Template gained a variable slot
+}
+
+interface TreeNode {
+  children: Map<string, TreeNode>;
+  clusters: LogCluster[];
+}
+
+/**
+ * Mask variables in the first line of a message and split it into tokens
+ */
+export function tokenize(message: string): string[] {
+  let masked = (message || '').split('\n')[0].trim().slice(0, MAX_MESSAGE_LENGTH);
+  for (const mask of MASKS) {
+    masked = masked.replace(mask, WILDCARD);
+  }
+  return masked.split(/\s+/).filter(Boolean).slice(0, MAX_TOKENS);
+}
+
+/**
+ * Template text of a cluster
+ */
+export function templateOf(cluster: LogCluster): string {
+  return cluster.tokens.join(' ');
+}
+
+export class DrainParser {
+  private readonly depth: number;
+  private readonly similarity: number;
+  private readonly maxChildren: number;
+  private readonly maxClusters: number;
+
+  private root = new Map<number, TreeNode>(); // By token count
+  private clusterCount = 0;
+
+  constructor(options: { depth?: number; similarity?: number; maxChildren?: number; maxClusters?: number } = {}) {
+    this.depth = options.depth ?? 4;
+    this.similarity = options.similarity ?? 0.4;
+    this.maxChildren = options.maxChildren ?? 100;
+    this.maxClusters = options.maxClusters ?? 1000;
+  }
+
+  get size(): number {
+    return this.clusterCount;
+  }
+
+  /**
+   * Parse a message into its cluster (null for empty messages or when the cluster limit is reached)
+   */
+  add(message: string): ParseResult | null {
+    const tokens = tokenize(message);
+    if (tokens.length === 0) return null;
+
+    const match = this.search(tokens);
+    if (match) {
+      const merged = match.tokens.map((token, i) => (token === tokens[i] ? token : WILDCARD));
+      const changed = merged.some((token, i) => token !== match.tokens[i]);
+      match.tokens = merged;
+      match.size++;
+      return { cluster: match, isNew: false, changed };
+    }
+
+    if (this.clusterCount >= this.maxClusters) return null;
+
+    const cluster: LogCluster = { id: null, tokens, size: 1 };
+    this.insert(cluster);
+    return { cluster, isNew: true, changed: false };
+  }
+
+  /**
+   * Restore a known template (e.g. loaded from the database)
+   */
+  addTemplate(template: string, id: string, size: number): LogCluster {
+    const cluster: LogCluster = { id, tokens: template.split(' ').filter(Boolean), size };
+    this.insert(cluster);
+    return cluster;
+  }
+
+  /**
+   * Find the cluster of a message without updating it
+   */
+  match(message: string): LogCluster | null {
+    const tokens = tokenize(message);
+    return tokens.length > 0 ? this.search(tokens) : null;
+  }
+
+  private search(tokens: string[]): LogCluster | null {
+    let node = this.root.get(tokens.length);
+    for (let i = 0; node && i < this.prefixLength(tokens); i++) {
+      node = node.children.get(tokens[i]) || node.children.get(WILDCARD);
+    }
+    return node ? this.bestMatch(node.clusters, tokens) : null;
+  }
+
+  private insert(cluster: LogCluster): void {
+    const { tokens } = cluster;
+    let node = this.root.get(tokens.length);
+    if (!node) {
+      node = { children: new Map(), clusters: [] };
+      this.root.set(tokens.length, node);
+    }
+
+    for (let i = 0; i < this.prefixLength(tokens); i++) {
+      // Tokens with digits are likely variables and share the wildcard branch
+      let key = /\d/.test(tokens[i]) ? WILDCARD : tokens[i];
+      if (!node.children.has(key) && key !== WILDCARD && node.children.size >= this.maxChildren) {
+        key = WILDCARD;
+      }
+
+      let child: TreeNode | undefined = node.children.get(key);
+      if (!child) {
+        child = { children: new Map(), clusters: [] };
+        node.children.set(key, child);
+      }
+      node = child;
+    }
+
+    node.clusters.push(cluster);
+    this.clusterCount++;
+  }
+
+  private prefixLength(tokens: string[]): number {
+    return Math.min(this.depth - 2, tokens.length);
+  }
+
+  /**
+   * Most similar cluster (share of equal tokens), preferring more specific templates on ties
+   */
+  private bestMatch(clusters: LogCluster[], tokens: string[]): LogCluster | null {
+    let best: LogCluster | null = null;
+    let bestSimilarity = -1;
+    let bestWildcards = -1;
+
+    for (const cluster of clusters) {
+      let equal = 0;
+      let wildcards = 0;
+      cluster.tokens.forEach((token, i) => {
+        // Positions masked in the message as well count as equal
+        if (token === tokens[i]) equal++;
+        else if (token === WILDCARD) wildcards++;
+      });
+
+      const similarity = equal / tokens.length;
+      if (similarity > bestSimilarity || (similarity === bestSimilarity && wildcards < bestWildcards)) {
+        best = cluster;
+        bestSimilarity = similarity;
+        bestWildcards = wildcards;
+      }
+    }
+
+    return best && bestSimilarity >= this.similarity ? best : null;
+  }
+}
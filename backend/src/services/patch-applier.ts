@@ -0,0 +1,153 @@
+import path from 'path';
+import { SourceControlProvider } from '../integrations/vcs';
+import { isCancelledError } from '../utils/cancellation';
+import { PatchFileValidation, PatchValidation } from '../utils/types';
+import { FilePatch, applyHunksWithReport, createUnifiedDiff, parseUnifiedDiff } from '../utils/unified-diff';
+
+const MAX_FUZZ = 2; // Context lines a hunk may ignore at each end, like `patch`'s default
+
+/**
+ * A file as a diff leaves it
+ */
+export interface PatchedFile {
+  path: string;
+  oldPath: string | null; // null for an added file
+  before: string | null; // null for an added file
+  after: string | null; // null for a deleted file
+}
+
+/**
+ * Patch Applier
+ *
+ * Applies multi-file unified diffs to a branch or commit of a project's
+ * repository, reporting for every hunk whether it applied where its header
+ * says, moved, needed fuzz or conflicts, and for every file whether it exists
+ * as the diff expects.
+ */
+export class PatchApplier {
+  /**
+   * Apply a diff to a ref; the files are only complete when the validation says it applies
+   */
+  async apply(diff: string, vcs: SourceControlProvider, ref: string): Promise<{ files: PatchedFile[]; validation: PatchValidation }> {
+    const patches = parseUnifiedDiff(diff).filter((patch) => patch.oldPath || patch.newPath);
+    if (patches.length === 0) {
+      throw new Error('The diff contains no file changes');
+    }
+
+    const files: PatchedFile[] = [];
+    const validations: PatchFileValidation[] = [];
+    for (const patch of patches) {
+      const { file, validation } = await this.applyFile(patch, vcs, ref);
+      validations.push(validation);
+      if (file) files.push(file);
+    }
+
+    const applies = validations.every((v) => !v.error && v.hunks.every((hunk) => hunk.status !== 'conflict'));
+    return {
+      files,
+      validation: {
+        ref,
+        applies,
+        clean: applies && validations.every((v) => v.hunks.every((hunk) => hunk.status === 'applied')),
+        files: validations,
+      },
+    };
+  }
+
+  /**
+   * Diff of patched files against the content they were patched from (hunks
+   * at their actual lines, renames as a deletion and an addition)
+   */
+  toDiff(files: PatchedFile[]): string {
+    return files
+      .flatMap((file) =>
+        file.oldPath && file.oldPath !== file.path
+          ? [createUnifiedDiff(file.oldPath, file.before || '', ''), createUnifiedDiff(file.path, '', file.after || '')]
+          : [createUnifiedDiff(file.path, file.before || '', file.after || '')]
+      )
+      .join('');
+  }
+
+  /**
+   * Short description of what keeps a diff from applying
+   */
+  describeConflicts(validation: PatchValidation): string[] {
+    return validation.files.flatMap((file) => [
+      ...(file.error ? [`${file.path}: ${file.error}`] : []),
+      ...file.hunks
+        .filter((hunk) => hunk.status === 'conflict')
+        .map((hunk) => `${file.path}: hunk ${hunk.header} does not match ${validation.ref}`),
+    ]);
+  }
+
+  private async applyFile(
+    patch: FilePatch,
+    vcs: SourceControlProvider,
+    ref: string
+  ): Promise<{ file: PatchedFile | null; validation: PatchFileValidation }> {
+    const filePath = (patch.newPath || patch.oldPath)!;
+    const status: PatchFileValidation['status'] = !patch.oldPath
+      ? 'added'
+      : !patch.newPath
+        ? 'deleted'
+        : patch.oldPath !== patch.newPath
+          ? 'renamed'
+          : 'modified';
+    const changed = patch.hunks.flatMap((hunk) => hunk.lines);
+    const validation: PatchFileValidation = {
+      path: filePath,
+      ...(status === 'renamed' && { oldPath: patch.oldPath! }),
+      status,
+      additions: changed.filter((line) => line[0] === '+').length,
+      deletions: changed.filter((line) => line[0] === '-').length,
+      hunks: [],
+    };
+
+    const invalid = [patch.oldPath, patch.newPath].find((p) => p && !isRepositoryPath(p));
+    if (invalid) {
+      return { file: null, validation: { ...validation, error: `Invalid path ${invalid}` } };
+    }
+
+    const before = await this.read(vcs, patch.oldPath || filePath, ref);
+    if (status === 'added' && before !== null) {
+      return { file: null, validation: { ...validation, error: `Already exists in ${ref}` } };
+    }
+    if (status !== 'added' && before === null) {
+      return { file: null, validation: { ...validation, error: `Not found in ${ref}` } };
+    }
+
+    const applied = applyHunksWithReport(before || '', patch.hunks, MAX_FUZZ);
+    validation.hunks = applied.hunks;
+    if (applied.content === null) {
+      return { file: null, validation };
+    }
+
+    return {
+      file: { path: filePath, oldPath: patch.oldPath, before, after: status === 'deleted' ? null : applied.content },
+      validation,
+    };
+  }
+
+  /**
+   * Content of a file at a ref, or null when it doesn't exist
+   */
+  private async read(vcs: SourceControlProvider, file: string, ref: string): Promise<string | null> {
+    try {
+      return (await vcs.getFileContent(file, ref)).content;
+    } catch (error: any) {
+      if (isCancelledError(error)) throw error;
+      if (error.status === 404) return null;
+      throw error;
+    }
+  }
+}
+
+/**
+ * A relative path that stays inside the repository
+ */
+function isRepositoryPath(file: string): boolean {
+  const normalized = path.posix.normalize(file);
+  return !path.posix.isAbsolute(normalized) && normalized !== '..' && !normalized.startsWith('../') && normalized !== '.';
+}
+
+export default new PatchApplier();
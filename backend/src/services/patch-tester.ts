@@ -0,0 +1,336 @@
+import path from 'path';
+import { z } from 'zod';
+import { TestConfig } from '../db/schema';
+import { SourceControlProvider } from '../integrations/vcs';
+import logger from '../utils/logger';
+import { formatDiagnostic, parseESLintDiagnostics, parseTestSummary, parseTypeScriptDiagnostics } from '../utils/test-output';
+import { CompilerDiagnostic, RegressionTest, RegressionTestRun, TestCounts, TestResult, TestStep } from '../utils/types';
+import patchApplier, { PatchedFile } from './patch-applier';
+import sandboxManager, { CommandResult, Sandbox } from './sandboxes';
+
+const REPO_DIR = 'repository';
+const DEFAULT_STEP_TIMEOUT_SECONDS = 300;
+const OUTPUT_TAIL = 4000; // Characters of output kept per step
+const MAX_ERRORS = 10;
+
+// Non-interactive, uncoloured tool output
+const STEP_ENV = { CI: 'true', FORCE_COLOR: '0', NO_COLOR: '1' };
+
+// What `npm init` puts in package.json
+const NPM_PLACEHOLDER_TEST = /no test specified/;
+
+/**
+ * Test configuration as accepted by the API
+ */
+export const testConfigSchema = z.object({
+  installCommand: z.string().min(1).max(500).nullable().optional(),
+  typecheckCommand: z.string().min(1).max(500).nullable().optional(),
+  lintCommand: z.string().min(1).max(500).nullable().optional(),
+  testCommand: z.string().min(1).max(500).nullable().optional(),
+  timeoutSeconds: z.number().int().min(10).max(1800).optional(),
+});
+
+/**
+ * Repository state a patch is tested against
+ */
+export interface PatchCheckout {
+  vcs: SourceControlProvider;
+  ref: string; // Commit the patched files are written onto
+  testConfig?: TestConfig | null;
+}
+
+type StepName = Exclude<TestStep['name'], 'checkout'>;
+
+/**
+ * Patch Tester
+ *
+ * Tests a patch the way CI would: the repository is checked out in a sandbox
+ * at a commit and the diff applied to it, then dependencies are installed and
+ * the type-check, lint and test commands run in turn. Commands come from the
+ * project's test configuration, or are detected from the lockfile and
+ * package.json scripts. A diff that doesn't apply fails the checkout, a failed
+ * install skips the remaining steps. Diagnostics and test counts are parsed
+ * from the output. Regression tests of a patch are verified the same way, run
+ * on the checkout before and after the patch.
+ */
+export class PatchTester {
+  /**
+   * Test a diff, or null when no sandbox is configured
+   */
+  async test(diff: string, checkout: PatchCheckout, signal?: AbortSignal): Promise<TestResult | null> {
+    const stepTimeoutMs = (checkout.testConfig?.timeoutSeconds || DEFAULT_STEP_TIMEOUT_SECONDS) * 1000;
+    const sandbox = await sandboxManager.create({ timeoutMs: stepTimeoutMs * 5, signal });
+    if (!sandbox) return null;
+
+    const ref = checkout.ref;
+    const steps: TestStep[] = [];
+    const diagnostics: CompilerDiagnostic[] = [];
+    let tests: TestCounts | undefined;
+    let files: PatchedFile[] = [];
+
+    try {
+      // Check out the repository and apply the patch
+      const checkoutStartedAt = Date.now();
+      const patched = await patchApplier.apply(diff, checkout.vcs, ref);
+      files = patched.files;
+      logger.info(`🧪 Testing patch of ${files.map((f) => f.path).join(', ')} in ${sandbox.backend} sandbox at ${ref.substring(0, 12)}...`);
+
+      const checkoutCommand = `checkout ${checkout.vcs.repository}@${ref}`;
+      if (!patched.validation.applies) {
+        steps.push(this.toStep('checkout', checkoutCommand, {
+          exitCode: 1,
+          stdout: '',
+          stderr: `The patch does not apply:\n${patchApplier.describeConflicts(patched.validation).join('\n')}`,
+          durationMs: Date.now() - checkoutStartedAt,
+        }));
+        return this.toResult(sandbox.backend, ref, files, steps, diagnostics, tests);
+      }
+
+      const extracted = await this.checkOut(sandbox, checkout, stepTimeoutMs);
+      steps.push(this.toStep('checkout', checkoutCommand, {
+        ...extracted,
+        durationMs: Date.now() - checkoutStartedAt,
+      }));
+      if (extracted.exitCode !== 0) {
+        return this.toResult(sandbox.backend, ref, files, steps, diagnostics, tests);
+      }
+
+      await this.writeFiles(sandbox, files);
+
+      const commands = await this.resolveCommands(sandbox, checkout.testConfig);
+      let installFailed = false;
+      for (const name of ['install', 'typecheck', 'lint', 'test'] as StepName[]) {
+        const command = commands[name];
+        if (!command || installFailed) {
+          steps.push({ name, command: command || '', status: 'skipped' });
+          continue;
+        }
+
+        logger.info(`🧪 ${name}: ${command}`);
+        const result = await sandbox.run(command, { cwd: REPO_DIR, timeoutMs: stepTimeoutMs, env: STEP_ENV });
+        const step = this.toStep(name, command, result);
+        steps.push(step);
+
+        const output = `${result.stdout}\n${result.stderr}`;
+        if (name === 'install') installFailed = step.status !== 'passed';
+        if (name === 'typecheck') diagnostics.push(...parseTypeScriptDiagnostics(output));
+        if (name === 'lint') diagnostics.push(...parseESLintDiagnostics(output).map((d) => ({ ...d, file: this.relativePath(d.file) })));
+        if (name === 'test') tests = parseTestSummary(output) || undefined;
+      }
+
+      return this.toResult(sandbox.backend, ref, files, steps, diagnostics, tests);
+    } finally {
+      await sandbox.close();
+    }
+  }
+
+  /**
+   * Run a regression test on the original code, then on the patched code: a
+   * verified test fails before the patch and passes after it. Null when no
+   * sandbox is configured.
+   */
+  async verifyRegressionTest(
+    test: { path: string; content: string; command: string },
+    diff: string,
+    checkout: PatchCheckout,
+    signal?: AbortSignal
+  ): Promise<{ verified: boolean; reason?: string; verification?: RegressionTest['verification'] } | null> {
+    const stepTimeoutMs = (checkout.testConfig?.timeoutSeconds || DEFAULT_STEP_TIMEOUT_SECONDS) * 1000;
+    const sandbox = await sandboxManager.create({ timeoutMs: stepTimeoutMs * 4, signal });
+    if (!sandbox) return null;
+
+    const ref = checkout.ref;
+    try {
+      const patched = await patchApplier.apply(diff, checkout.vcs, ref);
+      if (!patched.validation.applies) {
+        return { verified: false, reason: `The patch does not apply at ${ref.substring(0, 12)}` };
+      }
+      logger.info(`🧪 Verifying regression test ${test.path} in ${sandbox.backend} sandbox at ${ref.substring(0, 12)}...`);
+
+      const extracted = await this.checkOut(sandbox, checkout, stepTimeoutMs);
+      if (extracted.exitCode !== 0) {
+        return { verified: false, reason: `Checkout of ${checkout.vcs.repository}@${ref} failed` };
+      }
+      await sandbox.writeFile(path.posix.join(REPO_DIR, test.path), test.content);
+
+      const { install } = await this.resolveCommands(sandbox, checkout.testConfig);
+      if (install) {
+        const installed = await sandbox.run(install, { cwd: REPO_DIR, timeoutMs: stepTimeoutMs, env: STEP_ENV });
+        if (installed.exitCode !== 0) {
+          return { verified: false, reason: `install ${installed.timedOut ? 'timed out' : `failed (exit code ${installed.exitCode})`}: ${install}` };
+        }
+      }
+
+      const run = async (): Promise<RegressionTestRun> => {
+        const result = await sandbox.run(test.command, { cwd: REPO_DIR, timeoutMs: stepTimeoutMs, env: STEP_ENV });
+        const { status, exitCode, durationMs, output } = this.toStep('test', test.command, result);
+        return { status, exitCode, durationMs, output, tests: parseTestSummary(`${result.stdout}\n${result.stderr}`) || undefined };
+      };
+      const before = await run();
+      await this.writeFiles(sandbox, patched.files);
+      const after = await run();
+
+      const verification = { backend: sandbox.backend, ref, before, after };
+      const reason =
+        before.status === 'passed' ? 'The test passes on the original code, so it does not reproduce the error'
+        : before.status === 'timed_out' ? 'The test timed out on the original code'
+        : before.tests && before.tests.failed === 0 ? 'No test failed on the original code (the test file itself does not run)'
+        : after.status !== 'passed' ? `The test ${after.status === 'timed_out' ? 'timed out' : 'fails'} on the patched code`
+        : undefined;
+      return { verified: !reason, reason, verification };
+    } finally {
+      await sandbox.close();
+    }
+  }
+
+  /**
+   * Extract the repository at the checkout's ref into the sandbox
+   */
+  private async checkOut(sandbox: Sandbox, checkout: PatchCheckout, timeoutMs: number): Promise<CommandResult> {
+    const archive = await checkout.vcs.getArchive(checkout.ref);
+    await sandbox.writeFile(`${REPO_DIR}.tar.gz`, archive);
+    return sandbox.run(
+      `mkdir -p ${REPO_DIR} && tar -xzf ${REPO_DIR}.tar.gz -C ${REPO_DIR} --strip-components=1 && rm ${REPO_DIR}.tar.gz`,
+      { timeoutMs }
+    );
+  }
+
+  /**
+   * Write the patched files over the checked out repository
+   */
+  private async writeFiles(sandbox: Sandbox, files: PatchedFile[]): Promise<void> {
+    for (const file of files) {
+      if (file.oldPath && file.oldPath !== file.path) {
+        await sandbox.removeFile(path.posix.join(REPO_DIR, file.oldPath));
+      }
+      if (file.after === null) {
+        await sandbox.removeFile(path.posix.join(REPO_DIR, file.path));
+      } else {
+        await sandbox.writeFile(path.posix.join(REPO_DIR, file.path), file.after);
+      }
+    }
+  }
+
+  /**
+   * Commands of each step: the configured ones, or those detected from the repository
+   */
+  private async resolveCommands(sandbox: Sandbox, config?: TestConfig | null): Promise<Record<StepName, string | null>> {
+    const listing = await sandbox.run('ls -a', { cwd: REPO_DIR });
+    const entries = new Set(listing.stdout.split('\n').map((entry) => entry.trim()));
+
+    let scripts: Record<string, string> = {};
+    if (entries.has('package.json')) {
+      const packageJson = await sandbox.run('cat package.json', { cwd: REPO_DIR });
+      try {
+        scripts = JSON.parse(packageJson.stdout).scripts || {};
+      } catch {
+        logger.warn('package.json of the repository is not valid JSON');
+      }
+    }
+
+    const packageManager = entries.has('pnpm-lock.yaml') ? 'pnpm' : entries.has('yarn.lock') ? 'yarn' : 'npm';
+    const runScript = (...names: string[]) => {
+      const name = names.find((candidate) => scripts[candidate]);
+      return name ? `${packageManager} run ${name}` : null;
+    };
+
+    const detected: Record<StepName, string | null> = {
+      install: !entries.has('package.json')
+        ? null
+        : packageManager === 'pnpm'
+          ? 'corepack enable >/dev/null 2>&1; pnpm install --frozen-lockfile'
+          : packageManager === 'yarn'
+            ? 'yarn install --frozen-lockfile'
+            : entries.has('package-lock.json')
+              ? 'npm ci --no-audit --no-fund'
+              : 'npm install --no-audit --no-fund',
+      typecheck: runScript('typecheck', 'type-check', 'tsc') || (entries.has('tsconfig.json') ? 'npx tsc --noEmit --pretty false' : null),
+      lint: runScript('lint'),
+      test: scripts.test && !NPM_PLACEHOLDER_TEST.test(scripts.test) ? `${packageManager} test` : null,
+    };
+
+    // A configured command (or null) replaces the detected one
+    const pick = (name: StepName, configured: string | null | undefined) =>
+      configured !== undefined ? configured : detected[name];
+    return {
+      install: pick('install', config?.installCommand),
+      typecheck: pick('typecheck', config?.typecheckCommand),
+      lint: pick('lint', config?.lintCommand),
+      test: pick('test', config?.testCommand),
+    };
+  }
+
+  private toStep(name: TestStep['name'], command: string, result: CommandResult): TestStep {
+    const output = `${result.stdout}${result.stderr ? `\n${result.stderr}` : ''}`.trim();
+    return {
+      name,
+      command,
+      status: result.timedOut ? 'timed_out' : result.exitCode === 0 ? 'passed' : 'failed',
+      exitCode: result.exitCode,
+      durationMs: result.durationMs,
+      output: output.length > OUTPUT_TAIL ? `…${output.slice(-OUTPUT_TAIL)}` : output,
+    };
+  }
+
+  private toResult(
+    backend: string,
+    ref: string,
+    files: Array<{ path: string }>,
+    steps: TestStep[],
+    diagnostics: CompilerDiagnostic[],
+    tests?: TestCounts
+  ): TestResult {
+    const failed = steps.filter((step) => step.status === 'failed' || step.status === 'timed_out');
+    const ran = steps.filter((step) => step.name !== 'checkout' && step.status !== 'skipped');
+
+    const errors = [
+      ...failed.map((step) => `${step.name} ${step.status === 'timed_out' ? 'timed out' : `failed (exit code ${step.exitCode})`}: ${step.command}`),
+      ...diagnostics
+        .filter((d) => d.severity === 'error')
+        .slice(0, MAX_ERRORS)
+        .map(formatDiagnostic),
+      ...(tests?.failures || []).slice(0, MAX_ERRORS).map((name) => `Test failed: ${name}`),
+    ];
+    const warnings = ran.length === 0 && failed.length === 0
+      ? ['No install, type-check, lint or test command configured or detected']
+      : [];
+
+    const icons: Record<TestStep['status'], string> = { passed: '✅', failed: '❌', timed_out: '⏱️', skipped: '⏭️' };
+    const describe = (step: TestStep) => {
+      if (step.status === 'skipped') return `${icons.skipped} ${step.name}: skipped`;
+      const details = [
+        `${Math.round((step.durationMs || 0) / 1000)}s`,
+        step.name === 'typecheck' && `${diagnostics.filter((d) => d.source === 'typecheck').length} diagnostic(s)`,
+        step.name === 'lint' && `${diagnostics.filter((d) => d.source === 'lint').length} problem(s)`,
+        step.name === 'test' && tests && `${tests.passed} passed, ${tests.failed} failed, ${tests.skipped} skipped`,
+      ].filter(Boolean);
+      return `${icons[step.status]} ${step.name}: ${step.command} (${details.join(', ')})`;
+    };
+
+    const success = failed.length === 0;
+    return {
+      success,
+      output: [
+        `${success ? '✅ Patch tested' : '❌ Patch testing failed'} in ${backend} sandbox at ${ref.substring(0, 12)} with ${files.map((f) => f.path).join(', ')} patched`,
+        ...steps.map(describe),
+      ].join('\n'),
+      errors: errors.length > 0 ? errors : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      sandbox: { backend, ref, files: files.map((f) => f.path) },
+      steps,
+      tests,
+      diagnostics,
+    };
+  }
+
+  /**
+   * Path relative to the repository (ESLint prints absolute paths)
+   */
+  private relativePath(file: string): string {
+    const marker = `/${REPO_DIR}/`;
+    const index = file.indexOf(marker);
+    return index >= 0 ? file.substring(index + marker.length) : file;
+  }
+}
+
+export default new PatchTester();
@@ -0,0 +1,122 @@
+import { db } from '../db';
+import { projects, issues, runtimeLogs } from '../db/schema';
+import { and, eq, min } from 'drizzle-orm';
+import IntegrationManager from './integration-manager';
+import logger from '../utils/logger';
+
+type ProjectRecord = typeof projects.$inferSelect;
+type IssueRecord = typeof issues.$inferSelect;
+type RuntimeLogRecord = typeof runtimeLogs.$inferSelect;
+
+export interface RegressionCheck {
+  regressed: boolean;
+  deploymentId: string | null; // Deployment the error reappeared on
+  reason: string;
+}
+
+/**
+ * Regression Detector
+ *
+ * Decides whether new occurrences of a resolved issue are a regression, i.e.
+ * they come from a deployment newer than the fix. Deployments the issue was
+ * seen on before it was resolved are still expected to fail (old deployments
+ * serving stale traffic) and are not regressions.
+ */
+export class RegressionDetector {
+  /**
+   * Check the occurrences of a resolved issue against its fix
+   */
+  async detectRegression(
+    project: ProjectRecord,
+    issue: IssueRecord,
+    errors: RuntimeLogRecord[]
+  ): Promise<RegressionCheck> {
+    const resolvedAt = issue.resolvedAt;
+    const occurrences = resolvedAt ? errors.filter(error => error.timestamp > resolvedAt) : errors;
+
+    if (occurrences.length === 0) {
+      return { regressed: false, deploymentId: null, reason: 'errors occurred before the fix' };
+    }
+
+    // Errors without a deployment (e.g. from the SDK) come from the current deployment
+    const latestWithDeployment = occurrences
+      .filter(error => error.deploymentId)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0];
+
+    let deploymentId = latestWithDeployment?.deploymentId || null;
+    let createdAt: Date | null = null;
+
+    if (!deploymentId) {
+      const latest = await this.getLatestDeployment(project);
+      deploymentId = latest?.id || null;
+      createdAt = latest?.createdAt || null;
+    }
+
+    if (!deploymentId) {
+      return { regressed: true, deploymentId: null, reason: 'error reported after the fix (deployment unknown)' };
+    }
+
+    if (issue.fix?.deploymentId === deploymentId) {
+      return { regressed: true, deploymentId, reason: 'error reappeared on the deployment of the fix' };
+    }
+
+    if ((issue.fixedDeployments || []).includes(deploymentId)) {
+      return { regressed: false, deploymentId, reason: `deployment ${deploymentId} predates the fix` };
+    }
+
+    if (!resolvedAt) {
+      return { regressed: true, deploymentId, reason: `error reappeared on deployment ${deploymentId}` };
+    }
+
+    createdAt = createdAt || (await this.getDeploymentCreatedAt(project, deploymentId));
+    if (createdAt && createdAt <= resolvedAt) {
+      return { regressed: false, deploymentId, reason: `deployment ${deploymentId} was created before the fix` };
+    }
+
+    return { regressed: true, deploymentId, reason: `error reappeared on newer deployment ${deploymentId}` };
+  }
+
+  /**
+   * When a deployment was created: from Vercel, or when it first showed up in the runtime logs
+   */
+  private async getDeploymentCreatedAt(project: ProjectRecord, deploymentId: string): Promise<Date | null> {
+    try {
+      const vercel = await new IntegrationManager(project.userId).getVercelIntegration();
+      const deployment = vercel ? await vercel.getDeployment(deploymentId) : null;
+      const created = deployment?.createdAt || deployment?.created;
+      if (created) {
+        return new Date(created);
+      }
+    } catch (error: any) {
+      logger.warn(`Could not fetch deployment ${deploymentId} from Vercel: ${error.message}`);
+    }
+
+    const [firstLog] = await db
+      .select({ firstSeen: min(runtimeLogs.timestamp) })
+      .from(runtimeLogs)
+      .where(and(eq(runtimeLogs.projectId, project.id), eq(runtimeLogs.deploymentId, deploymentId)));
+
+    return firstLog?.firstSeen || null;
+  }
+
+  /**
+   * Latest deployment of the project on Vercel
+   */
+  private async getLatestDeployment(project: ProjectRecord): Promise<{ id: string; createdAt: Date | null } | null> {
+    try {
+      const vercel = await new IntegrationManager(project.userId).getVercelIntegration();
+      if (!vercel) return null;
+
+      const [latest] = await vercel.getDeployments(project.vercelProjectName, 1);
+      if (!latest) return null;
+
+      const created = latest.createdAt || latest.created;
+      return { id: latest.uid || latest.id, createdAt: created ? new Date(created) : null };
+    } catch (error: any) {
+      logger.warn(`Could not fetch latest deployment of ${project.vercelProjectName}: ${error.message}`);
+      return null;
+    }
+  }
+}
+
+export default new RegressionDetector();
@@ -0,0 +1,168 @@
+import path from 'path';
+import { SourceControlProvider } from '../integrations/vcs';
+import { isCancelledError } from '../utils/cancellation';
+import { ErrorReport, TestFramework } from '../utils/types';
+import { PatchedFile } from './patch-applier';
+
+const SOURCE_FILE = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/;
+const TEST_FILE = /\.(test|spec)\.[cm]?[jt]sx?$/;
+const MAX_STACK_LINES = 20;
+const MAX_NAME_ATTEMPTS = 5;
+
+// What the SDK sends about where an error happened, not about the request
+const LOCATION_KEYS = new Set([
+  'stack', 'stackFrames', 'source', 'filename', 'lineno', 'colno', 'sourceFile', 'sourceLine', 'sourceColumn', 'message', 'url',
+]);
+const SECRET_KEY = /authorization|cookie|token|secret|password|api[-_]?key/i;
+
+// Command running one test file, by test runner
+const RUN_FILE: Record<TestFramework, (file: string) => string> = {
+  vitest: (file) => `npx vitest run ${file}`,
+  jest: (file) => `npx jest --runTestsByPath ${file}`,
+  mocha: (file) => `npx mocha ${file}`,
+};
+
+/**
+ * Where and how a regression test of a patch is written and run
+ */
+export interface RegressionTestPlan {
+  path: string; // Of the test, relative to the repository
+  target: PatchedFile; // Patched file the test exercises
+  framework: TestFramework;
+  command: string; // Run from the repository root
+}
+
+/**
+ * The error of an incident as the SDK captured it, or null without one
+ */
+export function extractErrorReport(metadata: Record<string, any>): ErrorReport | null {
+  const error = metadata.errors?.[0];
+  const message = error?.message || metadata.errorMessage;
+  if (!message) return null;
+
+  const request: Record<string, any> = {};
+  for (const [key, value] of Object.entries({ ...error?.metadata, ...(error?.request || {}) })) {
+    if (LOCATION_KEYS.has(key) || value === undefined || value === null || value === '') continue;
+    request[key] = redact(key, value);
+  }
+
+  return {
+    message,
+    stack: error?.stack?.split('\n').slice(0, MAX_STACK_LINES).join('\n'),
+    url: error?.url,
+    source: error?.source || metadata.actualSourceFile,
+    line: error?.lineno,
+    ...(Object.keys(request).length > 0 && { request }),
+  };
+}
+
+function redact(key: string, value: any): any {
+  if (SECRET_KEY.test(key)) return '[redacted]';
+  if (Array.isArray(value)) return value.map((item) => redact('', item));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(k, v)]));
+  }
+  return value;
+}
+
+/**
+ * Regression Test Planner
+ *
+ * Picks where the regression test of a patch goes and how it runs: next to
+ * the first patched source file, as `<name>.regression.test.<ext>` (numbered
+ * when taken), with the test runner of the nearest package.json (Vitest, Jest
+ * or Mocha). Patches of projects without one of these get no regression test.
+ */
+export class RegressionTestPlanner {
+  /**
+   * Plan the regression test of a patch applied to a ref, or null when none can be run
+   */
+  async plan(files: PatchedFile[], vcs: SourceControlProvider, ref: string): Promise<RegressionTestPlan | null> {
+    const target = files.find((file) => file.after !== null && SOURCE_FILE.test(file.path) && !TEST_FILE.test(file.path));
+    if (!target) return null;
+
+    const packageDir = await this.findPackage(vcs, ref, path.posix.dirname(target.path));
+    if (!packageDir) return null;
+    const framework = await this.detectFramework(vcs, ref, packageDir.path, packageDir.packageJson);
+    if (!framework) return null;
+
+    const testPath = await this.freePath(vcs, ref, target.path);
+    const relative = packageDir.path === '.' ? testPath : path.posix.relative(packageDir.path, testPath);
+    return {
+      path: testPath,
+      target,
+      framework,
+      command: `${packageDir.path === '.' ? '' : `cd ${packageDir.path} && `}${RUN_FILE[framework](relative)}`,
+    };
+  }
+
+  /**
+   * Nearest directory of a file with a package.json, and its content
+   */
+  private async findPackage(vcs: SourceControlProvider, ref: string, dir: string): Promise<{ path: string; packageJson: any } | null> {
+    for (let current = dir; ; current = path.posix.dirname(current)) {
+      const file = current === '.' ? 'package.json' : `${current}/package.json`;
+      const content = await this.read(vcs, file, ref);
+      if (content !== null) {
+        try {
+          return { path: current, packageJson: JSON.parse(content) };
+        } catch {
+          return null;
+        }
+      }
+      if (current === '.') return null;
+    }
+  }
+
+  /**
+   * Test runner of a package: a dependency, or the runner its test script calls
+   */
+  private async detectFramework(vcs: SourceControlProvider, ref: string, dir: string, packageJson: any): Promise<TestFramework | null> {
+    const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+    const testScript: string = packageJson.scripts?.test || '';
+    const frameworks: TestFramework[] = ['vitest', 'jest', 'mocha'];
+
+    const found = frameworks.find((name) => dependencies[name]) || frameworks.find((name) => testScript.includes(name));
+    if (found) return found;
+
+    // Workspaces install the runner at the root
+    if (dir !== '.') {
+      const root = await this.read(vcs, 'package.json', ref);
+      if (root !== null) {
+        try {
+          const rootPackage = JSON.parse(root);
+          const rootDependencies = { ...rootPackage.dependencies, ...rootPackage.devDependencies };
+          return frameworks.find((name) => rootDependencies[name]) || null;
+        } catch {
+          return null;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Path of the test next to the file it tests, not taken at the ref
+   */
+  private async freePath(vcs: SourceControlProvider, ref: string, file: string): Promise<string> {
+    const ext = path.posix.extname(file);
+    const base = file.substring(0, file.length - ext.length);
+    for (let attempt = 1; attempt < MAX_NAME_ATTEMPTS; attempt++) {
+      const candidate = `${base}.regression${attempt > 1 ? `-${attempt}` : ''}.test${ext}`;
+      if ((await this.read(vcs, candidate, ref)) === null) return candidate;
+    }
+    return `${base}.regression-${Date.now()}.test${ext}`;
+  }
+
+  private async read(vcs: SourceControlProvider, file: string, ref: string): Promise<string | null> {
+    try {
+      return (await vcs.getFileContent(file, ref)).content;
+    } catch (error: any) {
+      if (isCancelledError(error)) throw error;
+      if (error.status === 404) return null;
+      throw error;
+    }
+  }
+}
+
+export default new RegressionTestPlanner();
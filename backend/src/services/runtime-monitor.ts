@@ -3,9 +3,19 @@ import { db } from '../db';
 import { projects, runtimeLogs } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import orchestrator from '../agent/orchestrator';
+import issueTracker, { IssueGroup } from './issue-tracker';
+import regressionDetector, { RegressionCheck } from './regression-detector';
+import alertRuleEngine, { AlertRuleMatch } from './alert-rules';
+import { AnomalyReport, describeAnomaly, normalizeRoute } from './anomaly-detector';
+import incidentStore from './incident-store';
+import logTemplateMiner from './log-template-miner';
 import axios from 'axios';
 import { Server as SocketIOServer } from 'socket.io';
 
+type ProjectRecord = typeof projects.$inferSelect;
+type RuntimeLogRecord = typeof runtimeLogs.$inferSelect;
+type IssueRecord = IssueGroup['issue'];
+
 // Socket.io instance will be set by index.ts
 let io: SocketIOServer | null = null;
 
@@ -24,19 +34,21 @@ export function getSocketIO(): SocketIOServer | null {
 /**
  * Runtime Error Monitor
  * 
- * Monitors runtime errors from SDK and automatically triggers incident response.
+ * Monitors runtime logs and errors from SDK and automatically triggers incident response.
+ * Errors are grouped into issues by fingerprint. Incoming logs are evaluated
+ * against the project's alert rules, and only a rule match starts incident
+ * response: one incident per matching issue (at most one open incident per issue).
+ * A resolved issue reappearing on a deployment newer than its fix reopens its
+ * incident as a regression. Significant deviations from the per-route
+ * baselines learned by the anomaly detector also start incident response.
  * 
  * Detection Methods:
  * 1. Receives errors via webhook (client-side SDK) - Automatic
- * 2. Fetches logs from external API URL and stores in DB - Manual trigger
- * 
- * Note: No polling - errors come from SDK or manual log fetching
+ * 2. Receives logs stored from Vercel Log Drains - Automatic
+ * 3. Fetches logs from external API URL and stores in DB - Manual trigger
+ * 4. Anomaly detector checking stored logs against baselines - Continuous
  */
 export class RuntimeMonitor {
-  // ERROR_THRESHOLD: Set to 1 to trigger incident immediately on first error
-  private readonly ERROR_THRESHOLD = 1;
-  private errorCounts: Map<string, { count: number; firstError: Date }> = new Map(); // projectId -> error tracking
-
   /**
    * Fetch logs from external API URL and store in database
    * 
@@ -137,9 +149,10 @@ export class RuntimeMonitor {
       });
 
       // Insert logs into database
+      let insertedLogs: RuntimeLogRecord[] = [];
       if (logEntries.length > 0) {
         // Insert logs and get the inserted IDs
-        const insertedLogs = await db.insert(runtimeLogs).values(logEntries).returning();
+        insertedLogs = await db.insert(runtimeLogs).values(logEntries).returning();
         logger.info(`✅ Stored ${insertedLogs.length} logs from ${apiUrl} for project ${projectId}`);
         
         // Emit logs via socket for real-time updates
@@ -167,18 +180,8 @@ export class RuntimeMonitor {
       // Count errors
       const errorCount = logEntries.filter(log => log.level === 'error').length;
 
-      // Check if errors should trigger incident
-      if (errorCount > 0) {
-        const [project] = await db
-          .select()
-          .from(projects)
-          .where(eq(projects.id, projectId));
-
-        if (project && project.enabled) {
-          const errorLogs = logEntries.filter(log => log.level === 'error');
-          await this.handleErrors(project, errorLogs);
-        }
-      }
+      // Check if logs should trigger incident
+      await this.processLogs(projectId, insertedLogs);
 
       return {
         stored: logEntries.length,
@@ -191,108 +194,289 @@ export class RuntimeMonitor {
   }
 
   /**
-   * Handle detected errors and trigger incident if threshold is met
+   * Handle stored runtime logs (e.g. from a Log Drain)
    */
-  private async handleErrors(
-    project: typeof projects.$inferSelect,
-    errors: any[]
-  ): Promise<void> {
+  async processLogs(projectId: string, logs: RuntimeLogRecord[]): Promise<void> {
+    if (logs.length === 0) return;
+
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(eq(projects.id, projectId));
+
+    if (project && project.enabled) {
+      await this.handleLogs(project, logs);
+    }
+  }
+
+  /**
+   * Mine logs into templates, group error logs into issues and trigger incident response for matching alert rules
+   */
+  private async handleLogs(project: ProjectRecord, logs: RuntimeLogRecord[]): Promise<void> {
     try {
-      const projectId = project.id;
-      const now = new Date();
-      
-      // Get or create error tracking
-      let errorTracking = this.errorCounts.get(projectId);
-      if (!errorTracking) {
-        errorTracking = { count: 0, firstError: now };
-        this.errorCounts.set(projectId, errorTracking);
+      await logTemplateMiner.recordLogs(project.id, logs);
+    } catch (error: any) {
+      logger.error('Error mining log templates:', error);
+    }
+
+    try {
+      const errorLogs = logs.filter(log => log.level === 'error');
+      const groups = errorLogs.length > 0 ? await issueTracker.recordErrors(project.id, errorLogs) : [];
+
+      // Ignored issues never alert; resolved issues coming back are regressions, not new alerts
+      const alertableGroups: IssueGroup[] = [];
+      for (const group of groups) {
+        if (group.issue.status === 'ignored') {
+          logger.info(`Issue ${group.issue.id} is ignored, not evaluating alert rules for it`);
+        } else if (group.issue.status === 'resolved') {
+          await this.handleResolvedIssue(project, group);
+        } else {
+          alertableGroups.push(group);
+        }
       }
 
-      // Reset if more than 5 minutes have passed
-      const fiveMinutesAgo = new Date(now.getTime() - 5 * 60 * 1000);
-      if (errorTracking.firstError < fiveMinutesAgo) {
-        errorTracking.count = 0;
-        errorTracking.firstError = now;
+      const excludedLogIds = new Set(
+        groups.filter(group => !alertableGroups.includes(group)).flatMap(group => group.errors.map(error => error.id))
+      );
+      const candidateLogs = logs.filter(log => !excludedLogIds.has(log.id));
+      if (candidateLogs.length === 0) return;
+
+      const matches = await alertRuleEngine.evaluate(project.id, candidateLogs);
+      if (matches.length === 0) {
+        logger.info(`Project ${project.vercelProjectName}: ${candidateLogs.length} log(s), no alert rule matched`);
+        return;
       }
 
-      // Increment error count
-      errorTracking.count += errors.length;
-      this.errorCounts.set(projectId, errorTracking);
+      // One incident per matching issue; matches without an issue become one project-level incident
+      const triggers = new Map<string, { match: AlertRuleMatch; group: IssueGroup | null }>();
+      for (const match of matches) {
+        const key = match.issueId || 'project';
+        if (!triggers.has(key)) {
+          const group = alertableGroups.find(group => group.issue.id === match.issueId) || null;
+          triggers.set(key, { match, group });
+        }
+      }
 
-      logger.info(
-        `Project ${project.vercelProjectName}: ${errorTracking.count} errors in last 5 minutes (threshold: ${this.ERROR_THRESHOLD})`
+      // Different bugs become different incidents, handled concurrently
+      await Promise.all(
+        Array.from(triggers.values()).map(({ match, group }) => this.triggerIncident(project, match, group))
       );
+    } catch (error: any) {
+      logger.error('Error handling logs:', error);
+    }
+  }
 
-      // Trigger incident if threshold is met
-      if (errorTracking.count >= this.ERROR_THRESHOLD) {
-        logger.error(
-          `🚨 ERROR THRESHOLD REACHED for project ${project.vercelProjectName}! Triggering incident response...`
-        );
-
-        // Get latest error details
-        const latestError = errors[0];
-        const errorMessage = latestError.message || 'Multiple runtime errors detected';
-
-        // Structure errors for orchestrator - preserve source field
-        // CRITICAL: The SDK sends "source" field which is the actual source file (e.g., "app/api/contact/route.ts")
-        // This is stored in err.metadata.source, NOT in err.metadata.sourceFile (which is the bundled file)
-        const structuredErrors = errors.slice(0, 10).map(err => {
-          // Get actual source file from metadata (this is what SDK sends)
-          const actualSource = err.metadata?.source; // e.g., "app/api/contact/route.ts"
-          const bundledFile = err.metadata?.sourceFile; // e.g., "var/task/.next/server/chunks/..."
-          
-          logger.info(`📋 Structuring error for orchestrator:`, {
-            actualSource: actualSource,
-            bundledFile: bundledFile,
-            willUse: actualSource || bundledFile || err.metadata?.filename,
-          });
-          
-          return {
-            message: err.message,
-            stack: err.metadata?.stack || err.stack,
-            filename: err.metadata?.filename || bundledFile,
-            lineno: err.metadata?.lineno || err.metadata?.sourceLine,
-            colno: err.metadata?.colno || err.metadata?.sourceColumn,
-            url: err.url,
-            // CRITICAL: Use actual source file (not bundled file) - this is what SDK sends
-            source: actualSource || err.metadata?.filename, // Prioritize actual source, fallback to filename
-            metadata: {
-              ...err.metadata,
-              // Ensure source is at top level of metadata for easy access
-              source: actualSource || err.metadata?.filename, // Actual source file from SDK
-              // Keep bundled file for reference but don't use it
-              sourceFile: bundledFile, // Keep for reference
-            },
-          };
-        });
+  /**
+   * Start incident response for an alert rule match (for one issue, or project-wide)
+   */
+  private async triggerIncident(project: ProjectRecord, match: AlertRuleMatch, group: IssueGroup | null): Promise<void> {
+    try {
+      const { rule, stats } = match;
 
-        // Get the actual source file from the first error (highest priority)
-        const actualSourceFile = structuredErrors[0]?.source || structuredErrors[0]?.metadata?.source;
-        
-        // Trigger orchestrator with project info for autoFix check
-        await orchestrator.startIncidentResponse(project.userId, {
-          source: 'runtime_monitor', // Source of the incident (where it came from)
-          projectId: project.id,
-          projectName: project.vercelProjectName,
-          deploymentId: latestError.deploymentId,
-          errorCount: errorTracking.count,
-          errorMessage: errorMessage,
-          errors: structuredErrors, // Include structured errors with source field
-          // CRITICAL: Add actual source file at top level for easy access in orchestrator
-          actualSourceFile: actualSourceFile, // Actual source file (e.g., "app/api/contact/route.ts")
-          githubOwner: project.githubOwner,
-          githubRepo: project.githubRepo,
-        });
+      // Repeated occurrences of the same bug are folded into its open incident
+      if (group && await issueTracker.hasOpenIncident(group.issue.id)) {
+        logger.info(`Issue ${group.issue.id} already has an open incident, not triggering another one`);
+        return;
+      }
+
+      logger.error(
+        `🚨 ALERT RULE "${rule.name}" MATCHED for project ${project.vercelProjectName}${group ? ` (issue "${group.issue.title}")` : ''}! Triggering incident response...`
+      );
 
-        // Reset error count after triggering
-        errorTracking.count = 0;
-        errorTracking.firstError = now;
+      // Trigger orchestrator with project info for autoFix check
+      await orchestrator.startIncidentResponse(project.userId, {
+        ...this.buildIncidentMetadata(project, group ? group.errors : match.logs, group?.issue || null, stats.matched),
+        alertRule: {
+          id: rule.id,
+          name: rule.name,
+          metric: rule.metric,
+          threshold: rule.threshold,
+          windowSeconds: rule.windowSeconds,
+          ...stats,
+        },
+      });
+    } catch (error: any) {
+      logger.error('Error triggering incident:', error);
+    }
+  }
+
+  /**
+   * A resolved issue was seen again: reopen its incident if it is a regression
+   */
+  private async handleResolvedIssue(project: ProjectRecord, group: IssueGroup): Promise<void> {
+    try {
+      const regression = await regressionDetector.detectRegression(project, group.issue, group.errors);
+      if (!regression.regressed) {
+        logger.info(`Resolved issue ${group.issue.id} seen again, but not a regression: ${regression.reason}`);
+        return;
       }
+
+      await this.handleRegression(project, group, regression, group.errors.length);
     } catch (error: any) {
-      logger.error('Error handling errors:', error);
+      logger.error('Error handling resolved issue:', error);
+    }
+  }
+
+  /**
+   * Reopen the incident of a resolved issue that came back on a newer deployment
+   */
+  private async handleRegression(
+    project: ProjectRecord,
+    group: IssueGroup,
+    regression: RegressionCheck,
+    errorCount: number
+  ): Promise<void> {
+    const { issue } = group;
+    logger.error(
+      `🔁 REGRESSION for project ${project.vercelProjectName}: issue "${issue.title}" is back (${regression.reason})`
+    );
+
+    const regressedIssue = await issueTracker.markRegressed(issue.id);
+    const metadata = {
+      ...this.buildIncidentMetadata(project, group.errors, regressedIssue, errorCount),
+      regression: {
+        reason: regression.reason,
+        deploymentId: regression.deploymentId,
+        fix: issue.fix,
+        resolvedAt: issue.resolvedAt,
+        regressionCount: regressedIssue.regressionCount,
+      },
+    };
+
+    const incidentId = issue.fix?.incidentId || (await incidentStore.findResolvedIncident(issue.id))?.id;
+    if (incidentId) {
+      await orchestrator.reopenIncident(project.userId, incidentId, metadata);
+    } else {
+      // Resolved without an incident (e.g. manually): start a new one for the regression
+      await orchestrator.startIncidentResponse(project.userId, metadata);
     }
   }
 
+  /**
+   * Start incident response for the strongest anomaly found by the anomaly detector
+   */
+  async handleAnomalies(project: ProjectRecord, report: AnomalyReport): Promise<void> {
+    try {
+      const [anomaly, ...related] = report.anomalies;
+      if (!anomaly) return;
+
+      // Evidence: the window's errors on the anomalous route, most recent first
+      const errors = report.logs
+        .filter(log => log.level === 'error' && (anomaly.route === '*' || normalizeRoute(log.url) === anomaly.route))
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+      const issue = await this.dominantIssue(project.id, errors);
+      if (issue && await issueTracker.hasOpenIncident(issue.id)) {
+        logger.info(`Anomaly on ${anomaly.route} is driven by issue ${issue.id}, which already has an open incident`);
+        return;
+      }
+
+      logger.error(
+        `🚨 ANOMALY for project ${project.vercelProjectName}: ${describeAnomaly(anomaly)}! Triggering incident response...`
+      );
+
+      const metadata = this.buildIncidentMetadata(project, errors, issue, errors.length);
+      await orchestrator.startIncidentResponse(project.userId, {
+        ...metadata,
+        source: 'anomaly_detector',
+        errorMessage: errors.length > 0 ? metadata.errorMessage : `Anomaly: ${describeAnomaly(anomaly)}`,
+        anomaly,
+        relatedAnomalies: related.slice(0, 5),
+      });
+    } catch (error: any) {
+      logger.error('Error handling anomalies:', error);
+    }
+  }
+
+  /**
+   * Issue most of the errors belong to (ignored issues don't count)
+   */
+  private async dominantIssue(projectId: string, errors: RuntimeLogRecord[]): Promise<IssueRecord | null> {
+    const counts = new Map<string, number>();
+    for (const error of errors) {
+      if (error.issueId) counts.set(error.issueId, (counts.get(error.issueId) || 0) + 1);
+    }
+
+    const [top] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    if (!top || top[1] < errors.length / 2) return null;
+
+    const issue = await issueTracker.getIssue(projectId, top[0]);
+    return issue && issue.status !== 'ignored' ? issue : null;
+  }
+
+  /**
+   * Incident metadata for a set of errors (of an issue, if known)
+   */
+  private buildIncidentMetadata(
+    project: ProjectRecord,
+    errors: RuntimeLogRecord[],
+    issue: IssueRecord | null,
+    errorCount: number
+  ): Record<string, any> {
+    // Get latest error details
+    const latestError = errors[0];
+    const errorMessage = latestError?.message || 'Multiple runtime errors detected';
+
+    // Structure errors for orchestrator - preserve source field
+    // CRITICAL: The SDK sends "source" field which is the actual source file (e.g., "app/api/contact/route.ts")
+    // This is stored in err.metadata.source, NOT in err.metadata.sourceFile (which is the bundled file)
+    const structuredErrors = errors.slice(0, 10).map(err => {
+      // Get actual source file from metadata (this is what SDK sends)
+      const actualSource = err.metadata?.source; // e.g., "app/api/contact/route.ts"
+      const bundledFile = err.metadata?.sourceFile; // e.g., "var/task/.next/server/chunks/..."
+      
+      logger.info(`📋 Structuring error for orchestrator:`, {
+        actualSource: actualSource,
+        bundledFile: bundledFile,
+        willUse: actualSource || bundledFile || err.metadata?.filename,
+      });
+      
+      return {
+        message: err.message,
+        stack: err.metadata?.stack,
+        filename: err.metadata?.filename || bundledFile,
+        lineno: err.metadata?.lineno || err.metadata?.sourceLine,
+        colno: err.metadata?.colno || err.metadata?.sourceColumn,
+        url: err.url,
+        // CRITICAL: Use actual source file (not bundled file) - this is what SDK sends
+        source: actualSource || err.metadata?.filename, // Prioritize actual source, fallback to filename
+        metadata: {
+          ...err.metadata,
+          // Ensure source is at top level of metadata for easy access
+          source: actualSource || err.metadata?.filename, // Actual source file from SDK
+          // Keep bundled file for reference but don't use it
+          sourceFile: bundledFile, // Keep for reference
+        },
+      };
+    });
+
+    // Get the actual source file from the first error (highest priority)
+    const actualSourceFile = structuredErrors[0]?.source || structuredErrors[0]?.metadata?.source;
+
+    return {
+      source: 'runtime_monitor', // Source of the incident (where it came from)
+      projectId: project.id,
+      projectName: project.vercelProjectName,
+      deploymentId: latestError?.deploymentId,
+      errorCount: errorCount,
+      errorMessage: errorMessage,
+      errors: structuredErrors, // Include structured errors with source field
+      // CRITICAL: Add actual source file at top level for easy access in orchestrator
+      actualSourceFile: actualSourceFile, // Actual source file (e.g., "app/api/contact/route.ts")
+      githubOwner: project.githubOwner,
+      githubRepo: project.githubRepo,
+      // Issue (fingerprint group) that triggered the incident
+      ...(issue && {
+        issueId: issue.id,
+        fingerprint: issue.fingerprint,
+        issueTitle: issue.title,
+        issueOccurrences: issue.occurrences,
+        issueFirstSeen: issue.firstSeen,
+        issueCulprit: issue.culprit,
+      }),
+    };
+  }
+
   /**
    * Report error from external source (e.g., client-side SDK)
    * This is called when SDK sends errors via webhook
@@ -348,6 +532,7 @@ export class RuntimeMonitor {
         message: error.message,
         source: 'client_sdk',
         url: error.url,
+        deploymentId: error.metadata?.deploymentId,
         metadata: {
           stack: error.stack,
           userAgent: error.userAgent,
@@ -406,7 +591,7 @@ export class RuntimeMonitor {
       }
 
       // Check if this triggers an incident
-      await this.handleErrors(project, [errorLog]);
+      await this.handleLogs(project, [insertedLog]);
     } catch (error: any) {
       logger.error('Error reporting error:', error);
       throw error;
@@ -0,0 +1,85 @@
+import path from 'path';
+import { CommandExitError, Sandbox as E2BClient, TimeoutError } from 'e2b';
+import { CancelledError, throwIfCancelled } from '../../utils/cancellation';
+import logger from '../../utils/logger';
+import { CommandResult, RunOptions, Sandbox, SandboxOptions } from './types';
+
+const WORKDIR = '/home/user/workspace';
+
+/**
+ * E2B cloud sandbox
+ */
+export class E2BSandbox implements Sandbox {
+  readonly backend = 'e2b';
+  private killed = false;
+
+  private constructor(private sandbox: E2BClient, private signal?: AbortSignal) {
+    signal?.addEventListener('abort', this.killOnAbort, { once: true });
+  }
+
+  static async create(apiKey: string, template: string | undefined, options: SandboxOptions): Promise<E2BSandbox> {
+    throwIfCancelled(options.signal);
+    const client = template
+      ? await E2BClient.create(template, { apiKey, timeoutMs: options.timeoutMs })
+      : await E2BClient.create({ apiKey, timeoutMs: options.timeoutMs });
+
+    if (options.signal?.aborted) {
+      await client.kill().catch(() => undefined);
+      throw new CancelledError();
+    }
+    await client.commands.run(`mkdir -p ${WORKDIR}`);
+    return new E2BSandbox(client, options.signal);
+  }
+
+  async writeFile(file: string, content: string | Buffer): Promise<void> {
+    throwIfCancelled(this.signal);
+    const data = typeof content === 'string'
+      ? content
+      : content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength) as ArrayBuffer;
+    await this.sandbox.files.write(path.posix.join(WORKDIR, file), data);
+  }
+
+  async removeFile(file: string): Promise<void> {
+    throwIfCancelled(this.signal);
+    const target = path.posix.join(WORKDIR, file);
+    if (await this.sandbox.files.exists(target)) {
+      await this.sandbox.files.remove(target);
+    }
+  }
+
+  async run(command: string, options: RunOptions = {}): Promise<CommandResult> {
+    throwIfCancelled(this.signal);
+    const startedAt = Date.now();
+    try {
+      const result = await this.sandbox.commands.run(command, {
+        cwd: path.posix.join(WORKDIR, options.cwd || '.'),
+        timeoutMs: options.timeoutMs,
+        envs: options.env,
+      });
+      return { exitCode: result.exitCode, stdout: result.stdout, stderr: result.stderr, durationMs: Date.now() - startedAt };
+    } catch (error) {
+      throwIfCancelled(this.signal);
+      if (error instanceof CommandExitError) {
+        return { exitCode: error.exitCode, stdout: error.stdout, stderr: error.stderr, durationMs: Date.now() - startedAt };
+      }
+      if (error instanceof TimeoutError) {
+        return { exitCode: -1, stdout: '', stderr: error.message, durationMs: Date.now() - startedAt, timedOut: true };
+      }
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    this.signal?.removeEventListener('abort', this.killOnAbort);
+    if (this.killed) return;
+    this.killed = true;
+    await this.sandbox.kill().catch((error) => logger.warn('Error closing E2B sandbox:', error));
+  }
+
+  // Killing the sandbox fails the running command right away
+  private killOnAbort = () => {
+    this.killed = true;
+    this.sandbox.kill().catch((error) => logger.warn('Error killing cancelled E2B sandbox:', error));
+    logger.info('E2B sandbox killed (testing cancelled)');
+  };
+}
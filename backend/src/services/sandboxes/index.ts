@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { Sandbox, SandboxConfig, SandboxOptions } from './types';
+import { E2BSandbox } from './e2b';
+import { LocalSandbox } from './local';
+
+export type { CommandResult, RunOptions, Sandbox, SandboxConfig, SandboxOptions } from './types';
+
+type SandboxFactory = (config: any, options: SandboxOptions) => Promise<Sandbox>;
+
+/**
+ * Sandbox configuration (SANDBOX_CONFIG)
+ */
+export const sandboxConfigSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('e2b'), template: z.string().min(1).optional() }),
+  z.object({ type: z.literal('local') }),
+  z.object({ type: z.literal('docker'), image: z.string().min(1), network: z.boolean().optional() }),
+]);
+
+/**
+ * Sandbox Manager
+ *
+ * Creates the sandboxes patches are tested in. Backends are pluggable like
+ * search providers: a type is registered with a factory creating a sandbox
+ * from its configuration. SANDBOX_CONFIG picks the backend; without it E2B is
+ * used when E2B_API_KEY is set, and there is no sandbox otherwise.
+ */
+export class SandboxManager {
+  private factories = new Map<string, SandboxFactory>();
+  private config: SandboxConfig | null | undefined;
+
+  constructor() {
+    this.register('e2b', async (config, options) => {
+      const apiKey = process.env.E2B_API_KEY;
+      if (!apiKey) throw new Error('E2B_API_KEY is not set');
+      return E2BSandbox.create(apiKey, config.template, options);
+    });
+    this.register('local', (_config, options) => LocalSandbox.create(options));
+    this.register('docker', (config, options) => LocalSandbox.create(options, { image: config.image, network: config.network }));
+  }
+
+  /**
+   * Register a sandbox type
+   */
+  register(type: string, factory: SandboxFactory): void {
+    this.factories.set(type, factory);
+  }
+
+  /**
+   * Use this backend instead of the SANDBOX_CONFIG configuration (null disables sandboxes)
+   */
+  configure(config: SandboxConfig | null): void {
+    this.config = config;
+  }
+
+  /**
+   * Backend sandboxes are created with, or null when none is configured
+   */
+  getBackend(): string | null {
+    return this.getConfig()?.type || null;
+  }
+
+  /**
+   * Create a sandbox, or null when none is configured
+   */
+  async create(options: SandboxOptions): Promise<Sandbox | null> {
+    const config = this.getConfig();
+    if (!config) return null;
+
+    const factory = this.factories.get(config.type);
+    if (!factory) {
+      throw new Error(`Unknown sandbox type: ${config.type}`);
+    }
+    return factory(config, options);
+  }
+
+  private getConfig(): SandboxConfig | null {
+    if (this.config === undefined) {
+      this.config = process.env.E2B_API_KEY ? { type: 'e2b' } : null;
+      if (process.env.SANDBOX_CONFIG) {
+        try {
+          const parsed = sandboxConfigSchema.safeParse(JSON.parse(process.env.SANDBOX_CONFIG));
+          if (parsed.success) {
+            this.config = parsed.data;
+          } else {
+            logger.error(`Invalid SANDBOX_CONFIG, ignoring it: ${parsed.error.message}`);
+          }
+        } catch (error: any) {
+          logger.error(`SANDBOX_CONFIG is not valid JSON, ignoring it: ${error.message}`);
+        }
+      }
+    }
+    return this.config;
+  }
+}
+
+export default new SandboxManager();
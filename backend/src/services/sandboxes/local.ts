@@ -0,0 +1,155 @@
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { throwIfCancelled } from '../../utils/cancellation';
+import logger from '../../utils/logger';
+import { CommandResult, RunOptions, Sandbox, SandboxOptions } from './types';
+
+const MAX_OUTPUT = 1024 * 1024; // Kept per stream, the end of longer output
+const CONTAINER_WORKDIR = '/workspace';
+
+/**
+ * Temporary directory commands run in, as child processes on this machine or
+ * (with an image) each in a throwaway Docker container the directory is
+ * mounted into
+ *
+ * A stand-in for E2B in development and CI: child processes are not isolated
+ * from the machine, so only point it at repositories you trust. They get a
+ * minimal environment (PATH and a HOME inside the sandbox), not the backend's
+ * secrets. The sandbox's lifetime bounds every command's timeout.
+ */
+export class LocalSandbox implements Sandbox {
+  readonly backend: string;
+  private running = new Set<() => void>(); // Kills of the running commands
+  private closed = false;
+
+  private constructor(
+    private dir: string,
+    private deadline: number,
+    private docker?: { image: string; network?: boolean },
+    private signal?: AbortSignal
+  ) {
+    this.backend = docker ? 'docker' : 'local';
+    signal?.addEventListener('abort', this.killAll, { once: true });
+  }
+
+  static async create(options: SandboxOptions, docker?: { image: string; network?: boolean }): Promise<LocalSandbox> {
+    throwIfCancelled(options.signal);
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'outagex-sandbox-'));
+    return new LocalSandbox(dir, Date.now() + options.timeoutMs, docker, options.signal);
+  }
+
+  async writeFile(file: string, content: string | Buffer): Promise<void> {
+    throwIfCancelled(this.signal);
+    const target = this.resolve(file);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content);
+  }
+
+  async removeFile(file: string): Promise<void> {
+    throwIfCancelled(this.signal);
+    await fs.rm(this.resolve(file), { force: true });
+  }
+
+  run(command: string, options: RunOptions = {}): Promise<CommandResult> {
+    throwIfCancelled(this.signal);
+    const cwd = this.resolve(options.cwd || '.');
+    const timeoutMs = Math.max(0, Math.min(options.timeoutMs ?? Infinity, this.deadline - Date.now()));
+    const startedAt = Date.now();
+
+    const containerName = `outagex-sandbox-${crypto.randomBytes(6).toString('hex')}`;
+    const child = this.docker
+      ? spawn('docker', [
+          'run', '--rm', '--name', containerName,
+          ...(this.docker.network === false ? ['--network', 'none'] : []),
+          '-v', `${this.dir}:${CONTAINER_WORKDIR}`,
+          '-w', path.posix.join(CONTAINER_WORKDIR, path.relative(this.dir, cwd).split(path.sep).join('/')),
+          '-e', `HOME=${CONTAINER_WORKDIR}/.home`,
+          ...Object.entries(options.env || {}).flatMap(([key, value]) => ['-e', `${key}=${value}`]),
+          this.docker.image, 'sh', '-c', command,
+        ])
+      : spawn('sh', ['-c', command], {
+          cwd,
+          detached: true, // Own process group, so the whole command tree can be killed
+          env: { PATH: process.env.PATH || '/usr/bin:/bin', HOME: path.join(this.dir, '.home'), ...options.env },
+        });
+
+    return new Promise((resolve, reject) => {
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      const keepTail = (output: string, chunk: Buffer) => (output + chunk.toString()).slice(-MAX_OUTPUT);
+      child.stdout?.on('data', (chunk: Buffer) => (stdout = keepTail(stdout, chunk)));
+      child.stderr?.on('data', (chunk: Buffer) => (stderr = keepTail(stderr, chunk)));
+
+      const kill = () => {
+        if (this.docker) {
+          spawn('docker', ['kill', containerName], { stdio: 'ignore' }).on('error', () => undefined);
+        }
+        try {
+          if (this.docker || !child.pid) child.kill('SIGKILL');
+          else process.kill(-child.pid, 'SIGKILL');
+        } catch {
+          // Already exited
+        }
+      };
+      const timer = setTimeout(() => {
+        timedOut = true;
+        kill();
+      }, timeoutMs);
+      this.running.add(kill);
+
+      const done = () => {
+        clearTimeout(timer);
+        this.running.delete(kill);
+      };
+      child.on('error', (error) => {
+        done();
+        reject(error);
+      });
+      child.on('close', (code) => {
+        done();
+        try {
+          throwIfCancelled(this.signal);
+        } catch (error) {
+          reject(error);
+          return;
+        }
+        resolve({
+          exitCode: timedOut ? -1 : code ?? -1,
+          stdout,
+          stderr: timedOut ? `${stderr}\nTimed out after ${Math.round(timeoutMs / 1000)}s` : stderr,
+          durationMs: Date.now() - startedAt,
+          ...(timedOut && { timedOut }),
+        });
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.signal?.removeEventListener('abort', this.killAll);
+    this.killAll();
+    await fs.rm(this.dir, { recursive: true, force: true }).catch((error) =>
+      logger.warn(`Error removing sandbox directory ${this.dir}:`, error)
+    );
+  }
+
+  /**
+   * Path inside the sandbox directory
+   */
+  private resolve(file: string): string {
+    const target = path.resolve(this.dir, file);
+    if (target !== this.dir && !target.startsWith(this.dir + path.sep)) {
+      throw new Error(`Path ${file} is outside of the sandbox`);
+    }
+    return target;
+  }
+
+  private killAll = () => {
+    for (const kill of this.running) kill();
+  };
+}
@@ -0,0 +1,39 @@
+export interface CommandResult {
+  exitCode: number; // -1 when the command timed out
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  timedOut?: boolean;
+}
+
+export interface RunOptions {
+  cwd?: string; // Relative to the sandbox's working directory
+  timeoutMs?: number;
+  env?: Record<string, string>;
+}
+
+/**
+ * A throwaway machine commands and files of a test run go to
+ *
+ * Paths are relative to the sandbox's working directory. A command exiting
+ * with a non-zero code resolves with that code; only a broken sandbox rejects.
+ * Every sandbox has to be closed, and is killed when the signal it was created
+ * with is aborted.
+ */
+export interface Sandbox {
+  readonly backend: string;
+  writeFile(path: string, content: string | Buffer): Promise<void>;
+  removeFile(path: string): Promise<void>; // Nothing to do when it doesn't exist
+  run(command: string, options?: RunOptions): Promise<CommandResult>;
+  close(): Promise<void>;
+}
+
+export interface SandboxOptions {
+  timeoutMs: number; // Lifetime of the sandbox
+  signal?: AbortSignal;
+}
+
+export type SandboxConfig =
+  | { type: 'e2b'; template?: string }
+  | { type: 'local' } // Child processes in a temporary directory
+  | { type: 'docker'; image: string; network?: boolean }; // Each command in a container over a temporary directory (network on by default)
@@ -0,0 +1,41 @@
+import axios from 'axios';
+import { ResearchResult } from '../../utils/types';
+import { extractDomain, SearchProvider, SearchProviderConfig, SearchQuery } from './types';
+
+type HttpConfig = Extract<SearchProviderConfig, { type: 'http' }>;
+
+/**
+ * Search endpoint speaking a minimal JSON protocol, e.g. a self-hosted search
+ * service or a local stand-in for the real providers in tests:
+ *
+ *   POST <url> {"query": "...", "limit": 5}
+ *   -> {"results": [{"title", "url", "summary" | "snippet", "relevance" | "score", "source"?}]}
+ */
+export class HttpSearchProvider implements SearchProvider {
+  readonly name: string;
+
+  constructor(private config: HttpConfig) {
+    this.name = config.name;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async search({ query, limit, signal }: SearchQuery): Promise<ResearchResult[]> {
+    const response = await axios.post(
+      this.config.url,
+      { query, limit },
+      { headers: this.config.headers, timeout: 15000, signal }
+    );
+
+    const items: any[] = Array.isArray(response.data) ? response.data : response.data?.results || [];
+    return items.slice(0, limit).map((item) => ({
+      source: item.source || (item.url ? extractDomain(item.url) : this.name),
+      title: item.title || '',
+      summary: item.summary || item.snippet || item.description || item.text || '',
+      url: item.url || '',
+      relevance: Math.min(1, Math.max(0, Number(item.relevance ?? item.score ?? 0.5) || 0)),
+    }));
+  }
+}
@@ -0,0 +1,274 @@
+import { z } from 'zod';
+import { and, eq, gt, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import { searchCache, searchUsage } from '../../db/schema';
+import { ResearchResult } from '../../utils/types';
+import { isCancelledError, throwIfCancelled } from '../../utils/cancellation';
+import logger from '../../utils/logger';
+import { ProviderOutcome, SearchProvider, SearchProviderConfig } from './types';
+import { BraveSearchProvider, ExaSearchProvider, PerplexitySearchProvider } from './mcp';
+import { HttpSearchProvider } from './http';
+import { mergeResults, normalizeQuery } from './merge';
+
+export type { ProviderOutcome, SearchProvider, SearchProviderConfig, SearchQuery } from './types';
+export { mergeResults, normalizeQuery, normalizeUrl } from './merge';
+
+type SearchProviderFactory = (config: any) => SearchProvider;
+
+const limitsSchema = {
+  name: z.string().min(1).max(100).optional(),
+  ratePerMinute: z.number().int().positive().optional(),
+  dailyBudget: z.number().int().nonnegative().optional(),
+  cacheTtlHours: z.number().nonnegative().optional(),
+  maxResults: z.number().int().min(1).max(20).optional(),
+};
+
+/**
+ * Search provider configuration (SEARCH_PROVIDERS), in priority order
+ */
+export const searchProviderConfigsSchema = z.array(z.discriminatedUnion('type', [
+  z.object({ type: z.literal('perplexity'), ...limitsSchema }),
+  z.object({ type: z.literal('exa'), ...limitsSchema }),
+  z.object({ type: z.literal('brave'), ...limitsSchema }),
+  z.object({
+    type: z.literal('http'),
+    ...limitsSchema,
+    name: z.string().min(1).max(100),
+    url: z.string().url(),
+    headers: z.record(z.string()).optional(),
+  }),
+])).max(10);
+
+// Brave stays off unless configured
+const DEFAULT_PROVIDERS: SearchProviderConfig[] = [{ type: 'perplexity' }, { type: 'exa' }];
+
+interface ConfiguredProvider {
+  provider: SearchProvider;
+  config: SearchProviderConfig;
+}
+
+export interface SearchOutcome {
+  results: ResearchResult[]; // Merged across providers, most relevant first
+  providers: ProviderOutcome[];
+}
+
+/**
+ * Search Provider Manager
+ *
+ * Runs research queries through the configured search providers in priority
+ * order, falling back to the next one while fewer than `minResults` distinct
+ * results were found. Providers are pluggable like log sources: a type is
+ * registered with a factory creating a provider from its configuration.
+ *
+ * Responses are cached in the database by normalised query, so repeated
+ * incidents don't spend requests. Each provider can have a rate limit (per
+ * minute, in memory) and a daily budget (per UTC day, in the database); a
+ * provider over either is skipped. Results are deduplicated by URL and merged
+ * across providers.
+ */
+export class SearchProviderManager {
+  private factories = new Map<string, SearchProviderFactory>();
+  private configured: ConfiguredProvider[] | null = null;
+  private recentRequests = new Map<string, number[]>(); // Request times of the last minute per provider
+
+  private readonly DEFAULT_CACHE_TTL_HOURS = 24;
+  private readonly DEFAULT_MAX_RESULTS = 5;
+
+  constructor() {
+    this.register('perplexity', (config) => new PerplexitySearchProvider(config.name));
+    this.register('exa', (config) => new ExaSearchProvider(config.name));
+    this.register('brave', (config) => new BraveSearchProvider(config.name));
+    this.register('http', (config) => new HttpSearchProvider(config));
+  }
+
+  /**
+   * Register a search provider type
+   */
+  register(type: string, factory: SearchProviderFactory): void {
+    this.factories.set(type, factory);
+    this.configured = null;
+  }
+
+  /**
+   * Use these providers instead of the SEARCH_PROVIDERS configuration
+   */
+  configure(configs: SearchProviderConfig[]): void {
+    this.configured = configs.map((config) => {
+      const factory = this.factories.get(config.type);
+      if (!factory) {
+        throw new Error(`Unknown search provider type: ${config.type}`);
+      }
+      return { provider: factory(config), config };
+    });
+  }
+
+  /**
+   * Names of the configured providers, in priority order
+   */
+  getProviderNames(): string[] {
+    return this.getProviders().map(({ provider }) => provider.name);
+  }
+
+  /**
+   * Search the providers in priority order until enough results were found
+   */
+  async search(query: string, options: { minResults?: number; limit?: number; signal?: AbortSignal } = {}): Promise<SearchOutcome> {
+    const minResults = options.minResults ?? 5;
+    const queryKey = normalizeQuery(query);
+    const batches: Array<{ provider: string; results: ResearchResult[] }> = [];
+    const outcomes: ProviderOutcome[] = [];
+
+    for (const { provider, config } of this.getProviders()) {
+      const name = provider.name;
+      if (mergeResults(batches).length >= minResults) {
+        outcomes.push({ name, status: 'skipped', count: 0 });
+        continue;
+      }
+      throwIfCancelled(options.signal);
+
+      const ttlHours = config.cacheTtlHours ?? this.DEFAULT_CACHE_TTL_HOURS;
+      const cached = ttlHours > 0 ? await this.readCache(name, queryKey) : null;
+      if (cached) {
+        batches.push({ provider: name, results: cached });
+        outcomes.push({ name, status: 'cached', count: cached.length });
+        continue;
+      }
+
+      if (!provider.isAvailable()) {
+        outcomes.push({ name, status: 'unavailable', count: 0 });
+        continue;
+      }
+      if (!this.withinRateLimit(name, config.ratePerMinute)) {
+        logger.warn(`⏳ Search provider ${name} is over its rate limit (${config.ratePerMinute}/min), falling back`);
+        outcomes.push({ name, status: 'rate_limited', count: 0 });
+        continue;
+      }
+      if (!(await this.withinBudget(name, config.dailyBudget))) {
+        logger.warn(`💸 Search provider ${name} spent its daily budget (${config.dailyBudget}), falling back`);
+        outcomes.push({ name, status: 'over_budget', count: 0 });
+        continue;
+      }
+
+      try {
+        this.recordRequest(name);
+        const results = await provider.search({
+          query,
+          limit: config.maxResults || this.DEFAULT_MAX_RESULTS,
+          signal: options.signal,
+        });
+        batches.push({ provider: name, results });
+        outcomes.push({ name, status: 'ok', count: results.length });
+        if (ttlHours > 0 && results.length > 0) {
+          await this.writeCache(name, queryKey, query, results, ttlHours);
+        }
+      } catch (error: any) {
+        if (isCancelledError(error, options.signal)) throw error;
+        logger.warn(`⚠️ Search provider ${name} failed, falling back: ${error.message}`);
+        outcomes.push({ name, status: 'failed', count: 0, error: error.message });
+      }
+    }
+
+    const results = mergeResults(batches).slice(0, options.limit || 10);
+    logger.info(`🔎 Search found ${results.length} result(s): ${outcomes.map((o) => `${o.name} ${o.status}${o.count ? ` (${o.count})` : ''}`).join(', ')}`);
+    return { results, providers: outcomes };
+  }
+
+  private getProviders(): ConfiguredProvider[] {
+    if (!this.configured) {
+      this.configure(this.loadConfig());
+    }
+    return this.configured!;
+  }
+
+  private loadConfig(): SearchProviderConfig[] {
+    if (!process.env.SEARCH_PROVIDERS) return DEFAULT_PROVIDERS;
+
+    try {
+      const parsed = searchProviderConfigsSchema.safeParse(JSON.parse(process.env.SEARCH_PROVIDERS));
+      if (parsed.success) return parsed.data;
+      logger.error('Invalid SEARCH_PROVIDERS, using the default providers:', parsed.error.flatten());
+    } catch (error: any) {
+      logger.error(`SEARCH_PROVIDERS is not valid JSON, using the default providers: ${error.message}`);
+    }
+    return DEFAULT_PROVIDERS;
+  }
+
+  private withinRateLimit(name: string, ratePerMinute?: number): boolean {
+    if (!ratePerMinute) return true;
+    const since = Date.now() - 60_000;
+    const recent = (this.recentRequests.get(name) || []).filter((time) => time > since);
+    this.recentRequests.set(name, recent);
+    return recent.length < ratePerMinute;
+  }
+
+  private recordRequest(name: string): void {
+    this.recentRequests.set(name, [...(this.recentRequests.get(name) || []), Date.now()]);
+  }
+
+  /**
+   * Count a request against the provider's daily budget, unless it is spent
+   */
+  private async withinBudget(name: string, dailyBudget?: number): Promise<boolean> {
+    if (dailyBudget === undefined) return true;
+    const day = new Date().toISOString().substring(0, 10);
+
+    try {
+      // Only incremented while below the budget, so no row comes back once it's spent
+      const [usage] = await db
+        .insert(searchUsage)
+        .values({ provider: name, day, requests: 1 })
+        .onConflictDoUpdate({
+          target: [searchUsage.provider, searchUsage.day],
+          set: { requests: sql`${searchUsage.requests} + 1`, updatedAt: new Date() },
+          where: sql`${searchUsage.requests} < ${dailyBudget}`,
+        })
+        .returning({ requests: searchUsage.requests });
+      return !!usage && usage.requests <= dailyBudget;
+    } catch (error: any) {
+      logger.warn(`Could not check the daily budget of ${name}: ${error.message}`);
+      return true;
+    }
+  }
+
+  private async readCache(provider: string, queryKey: string): Promise<ResearchResult[] | null> {
+    try {
+      const [entry] = await db
+        .select({ results: searchCache.results })
+        .from(searchCache)
+        .where(and(
+          eq(searchCache.provider, provider),
+          eq(searchCache.queryKey, queryKey),
+          gt(searchCache.expiresAt, new Date())
+        ))
+        .limit(1);
+      return entry ? entry.results : null;
+    } catch (error: any) {
+      logger.warn(`Could not read the search cache: ${error.message}`);
+      return null;
+    }
+  }
+
+  private async writeCache(
+    provider: string,
+    queryKey: string,
+    query: string,
+    results: ResearchResult[],
+    ttlHours: number
+  ): Promise<void> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlHours * 3600_000);
+    try {
+      await db
+        .insert(searchCache)
+        .values({ provider, queryKey, query, results, createdAt: now, expiresAt })
+        .onConflictDoUpdate({
+          target: [searchCache.provider, searchCache.queryKey],
+          set: { query, results, createdAt: now, expiresAt },
+        });
+    } catch (error: any) {
+      logger.warn(`Could not write the search cache: ${error.message}`);
+    }
+  }
+}
+
+export default new SearchProviderManager();
@@ -0,0 +1,133 @@
+import e2bMCPManager from '../../mcp/e2b-mcp-manager';
+import logger from '../../utils/logger';
+import { ResearchResult } from '../../utils/types';
+import { extractDomain, SearchProvider, SearchQuery } from './types';
+
+/**
+ * Name of the server's tool to call: the preferred one, else the first matching one
+ */
+async function findTool(server: string, preferred: string, matches: (name: string) => boolean): Promise<string | null> {
+  let tools = await e2bMCPManager.listTools(server);
+  if (tools.length === 0) {
+    // Gateways don't always prefix tool names with the server name
+    tools = (await e2bMCPManager.listTools()).filter((t: any) => matches(t.name.toLowerCase()));
+  }
+  if (tools.length === 0) return null;
+
+  const exact = tools.find((t: any) => t.name.toLowerCase() === preferred);
+  return (exact || tools.find((t: any) => matches(t.name.toLowerCase())) || tools[0]).name;
+}
+
+/**
+ * Perplexity MCP server: researched answer with citations
+ * See: https://hub.docker.com/mcp/server/perplexity-ask/overview
+ */
+export class PerplexitySearchProvider implements SearchProvider {
+  constructor(readonly name: string = 'perplexity') {}
+
+  isAvailable(): boolean {
+    return e2bMCPManager.isServerAvailable('perplexity');
+  }
+
+  async search({ query, limit, signal }: SearchQuery): Promise<ResearchResult[]> {
+    const toolName = await findTool('perplexity', 'perplexity_research', (name) =>
+      name.includes('perplexity') || (name.includes('ask') && (name.includes('research') || name.includes('reason')))
+    );
+    if (!toolName) {
+      throw new Error('No Perplexity tool found in the MCP gateway (is PERPLEXITY_API_KEY set?)');
+    }
+    logger.info(`Using Perplexity tool: ${toolName}`);
+
+    const result = await e2bMCPManager.callTool(
+      'perplexity',
+      toolName,
+      { messages: [{ role: 'user', content: query }] },
+      signal
+    );
+    if (!result) return [];
+
+    // The answer comes as text, content, answer or an array of content items
+    let responseText = '';
+    let citations: any[] = [];
+    if (typeof result === 'string') {
+      responseText = result;
+    } else if (Array.isArray(result)) {
+      responseText = result.map((item: any) => item.text || item.content || '').join('\n');
+    } else {
+      const content = result.text || result.content || result.answer || '';
+      responseText = typeof content === 'string' ? content : JSON.stringify(content);
+      citations = result.citations || result.sources || [];
+    }
+
+    const sources: ResearchResult[] = citations.slice(0, limit).map((citation: any, index: number) => ({
+      source: 'Perplexity AI',
+      title: citation.title || `Source ${index + 1}`,
+      summary: responseText.substring(0, 200),
+      url: citation.url || (typeof citation === 'string' ? citation : ''),
+      relevance: 0.9 - index * 0.1,
+    }));
+
+    // No citations: the answer itself is the result
+    if (sources.length === 0 && responseText) {
+      sources.push({
+        source: 'Perplexity AI',
+        title: 'Research Response',
+        summary: responseText.substring(0, 500),
+        url: '',
+        relevance: 0.9,
+      });
+    }
+    return sources;
+  }
+}
+
+/**
+ * Exa MCP server: semantic web search
+ */
+export class ExaSearchProvider implements SearchProvider {
+  constructor(readonly name: string = 'exa') {}
+
+  isAvailable(): boolean {
+    return e2bMCPManager.isServerAvailable('exa');
+  }
+
+  async search({ query, limit, signal }: SearchQuery): Promise<ResearchResult[]> {
+    const toolName = (await findTool('exa', 'web_search_exa', (name) => name.includes('exa') || name.includes('search'))) ||
+      'web_search_exa';
+    logger.info(`Using Exa tool: ${toolName}`);
+
+    // Exa takes numResults (camelCase), not num_results
+    const result = await e2bMCPManager.callTool('exa', toolName, { query, numResults: limit }, signal);
+
+    return (result?.results || []).map((r: any) => ({
+      source: extractDomain(r.url),
+      title: r.title || '',
+      summary: r.text || r.snippet || '',
+      url: r.url || '',
+      relevance: r.score || 0.8,
+    }));
+  }
+}
+
+/**
+ * Brave Search MCP server: web search
+ */
+export class BraveSearchProvider implements SearchProvider {
+  constructor(readonly name: string = 'brave') {}
+
+  isAvailable(): boolean {
+    return e2bMCPManager.isServerAvailable('brave-search');
+  }
+
+  async search({ query, limit, signal }: SearchQuery): Promise<ResearchResult[]> {
+    const result = await e2bMCPManager.callTool('brave-search', 'web_search', { query, count: limit }, signal);
+
+    return (result?.results || []).map((r: any) => ({
+      source: extractDomain(r.url),
+      title: r.title || '',
+      summary: r.description || r.snippet || '',
+      url: r.url || '',
+      relevance: r.relevance || 0.7,
+    }));
+  }
+}
@@ -0,0 +1,75 @@
+import { ResearchResult } from '../../utils/types';
+
+const TRACKING_PARAMS = /^(utm_.+|ref|ref_src|source|fbclid|gclid)$/i;
+const MULTI_PROVIDER_BOOST = 0.05; // Relevance added per additional provider returning a result
+
+/**
+ * Cache key of a query: case, whitespace and volatile values (ids, numbers) don't matter
+ */
+export function normalizeQuery(query: string): string {
+  return (query || '')
+    .toLowerCase()
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/g, '<uuid>')
+    .replace(/\b(?:0x)?[0-9a-f]*\d[0-9a-f]*\b/g, (match) => (match.length >= 8 ? '<hex>' : match))
+    .replace(/\d+/g, '<n>')
+    .replace(/[^\w<>./:@-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Identity of a result URL: scheme, "www.", fragments, tracking parameters and trailing slashes dropped
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const search = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+    const pathname = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.hostname.replace(/^www\./, '').toLowerCase()}${pathname}${search}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+function resultKey(result: ResearchResult): string {
+  if (result.url) return `url:${normalizeUrl(result.url)}`;
+  return `text:${result.title.trim().toLowerCase()}|${result.summary.trim().toLowerCase().substring(0, 100)}`;
+}
+
+/**
+ * Merge the results of several providers: the same page found by several
+ * providers becomes one result with the best title and relevance, the longest
+ * summary and a small relevance boost per additional provider
+ */
+export function mergeResults(batches: Array<{ provider: string; results: ResearchResult[] }>): ResearchResult[] {
+  const merged = new Map<string, ResearchResult & { providers: string[]; bestRelevance: number }>();
+
+  for (const { provider, results } of batches) {
+    for (const result of results) {
+      const key = resultKey(result);
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { ...result, providers: [provider], bestRelevance: result.relevance });
+        continue;
+      }
+
+      if (!existing.providers.includes(provider)) existing.providers.push(provider);
+      if (result.relevance > existing.bestRelevance) {
+        existing.bestRelevance = result.relevance;
+        existing.title = result.title || existing.title;
+        existing.source = result.source;
+      }
+      if (result.summary.length > existing.summary.length) existing.summary = result.summary;
+    }
+  }
+
+  return [...merged.values()]
+    .map(({ bestRelevance, ...result }) => ({
+      ...result,
+      relevance: Math.round(Math.min(1, bestRelevance + (result.providers.length - 1) * MULTI_PROVIDER_BOOST) * 100) / 100,
+    }))
+    .sort((a, b) => b.relevance - a.relevance);
+}
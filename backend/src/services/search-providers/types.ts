@@ -0,0 +1,57 @@
+import { ResearchResult } from '../../utils/types';
+
+export interface SearchQuery {
+  query: string;
+  limit: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend research results can be searched from (Perplexity, Exa, Brave, an HTTP endpoint, ...)
+ */
+export interface SearchProvider {
+  readonly name: string;
+  isAvailable(): boolean; // False when not configured (e.g. MCP server not running)
+  search(query: SearchQuery): Promise<ResearchResult[]>;
+}
+
+/**
+ * Settings shared by all provider types
+ */
+export interface SearchProviderLimits {
+  name?: string;
+  ratePerMinute?: number; // Requests per minute, unlimited by default
+  dailyBudget?: number; // Requests per UTC day, unlimited by default
+  cacheTtlHours?: number; // Defaults to 24, 0 disables the cache
+  maxResults?: number; // Results requested per search, defaults to 5
+}
+
+export type SearchProviderConfig =
+  | (SearchProviderLimits & { type: 'perplexity' | 'exa' | 'brave' })
+  | (SearchProviderLimits & {
+      type: 'http';
+      name: string;
+      url: string;
+      headers?: Record<string, string>;
+    });
+
+/**
+ * What a provider contributed to a search
+ */
+export interface ProviderOutcome {
+  name: string;
+  status: 'ok' | 'cached' | 'failed' | 'rate_limited' | 'over_budget' | 'unavailable' | 'skipped';
+  count: number;
+  error?: string;
+}
+
+/**
+ * Domain of a URL, as the source of a web result
+ */
+export function extractDomain(url?: string): string {
+  try {
+    return new URL(url || '').hostname.replace(/^www\./, '');
+  } catch {
+    return 'Unknown';
+  }
+}
@@ -0,0 +1,135 @@
+import { BlastRadius, Solution, SolutionRanking } from '../utils/types';
+import { parseUnifiedDiff } from '../utils/unified-diff';
+
+const WEIGHTS = { confidence: 0.45, risk: 0.2, blastRadius: 0.2, timeToRecover: 0.15 };
+const LEVEL_SCORES: Record<BlastRadius, number> = { low: 100, medium: 60, high: 20 };
+const FAILED_TESTS_FACTOR = 0.5;
+
+// Minutes until a solution is live, on top of its own estimate
+const DELIVERY_MINUTES: Record<Solution['type'], number> = {
+  patch: 5, // Pull request, build and deployment
+  config_fix: 5,
+  rollback: 1, // Promoting an existing build
+  restart: 3, // Rebuilding the current deployment
+};
+const SLOWEST_RECOVERY_MINUTES = 60; // Scored 0
+
+export interface RankingContext {
+  autoFixThreshold: number;
+  rangeSize?: number; // Commits a rollback to the last healthy deployment reverts
+}
+
+/**
+ * Minutes of an estimate like "2 minutes", "1 hour" or "30s"
+ */
+export function parseEstimatedMinutes(estimate: string | undefined): number | null {
+  const match = estimate?.match(/(\d+(?:\.\d+)?)\s*(s|sec|second|m|min|minute|h|hr|hour)?/i);
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  const unit = (match[2] || 'm').toLowerCase();
+  if (unit.startsWith('s')) return value / 60;
+  if (unit.startsWith('h')) return value * 60;
+  return value;
+}
+
+/**
+ * How much a solution changes: lines of a patch, commits a rollback reverts
+ */
+export function assessBlastRadius(solution: Solution, rangeSize?: number): BlastRadius {
+  switch (solution.type) {
+    case 'restart':
+      return 'low';
+    case 'rollback':
+      if (rangeSize === undefined) return 'medium';
+      return rangeSize <= 1 ? 'low' : rangeSize <= 5 ? 'medium' : 'high';
+    default: {
+      if (!solution.diff) return 'medium';
+      let files = 0;
+      let changed = 0;
+      try {
+        for (const patch of parseUnifiedDiff(solution.diff)) {
+          files++;
+          changed += patch.hunks.reduce((sum, hunk) => sum + hunk.lines.filter((l) => l[0] !== ' ').length, 0);
+        }
+      } catch {
+        return 'medium';
+      }
+      if (files <= 1 && changed <= 20) return 'low';
+      return files <= 3 && changed <= 100 ? 'medium' : 'high';
+    }
+  }
+}
+
+/**
+ * AutoFix policy: what keeps a solution from being executed without approval
+ */
+export function evaluatePolicy(
+  solution: Solution,
+  blastRadius: BlastRadius,
+  autoFixThreshold: number
+): SolutionRanking['policy'] {
+  const violations: string[] = [];
+  if ((solution.confidence || 0) < autoFixThreshold) {
+    violations.push(`Confidence ${solution.confidence}% is below the AutoFix threshold (${autoFixThreshold}%)`);
+  }
+  if (solution.testResults && !solution.testResults.success) {
+    violations.push('Tests failed');
+  }
+  if (solution.risk === 'high') {
+    violations.push('High risk');
+  }
+  if (blastRadius === 'high') {
+    violations.push('High blast radius');
+  }
+  return { passed: violations.length === 0, violations };
+}
+
+/**
+ * Solution Ranker
+ *
+ * Scores candidate solutions on confidence, risk, blast radius and time to
+ * recover (failed tests halve the score) and orders them best first.
+ */
+export class SolutionRanker {
+  rank(candidates: Solution[], context: RankingContext): Solution[] {
+    return candidates
+      .map((solution) => ({ ...solution, ranking: this.score(solution, context) }))
+      .sort((a, b) => b.ranking.score - a.ranking.score)
+      .map((solution, index) => ({ ...solution, ranking: { ...solution.ranking, rank: index + 1 } }));
+  }
+
+  private score(solution: Solution, context: RankingContext): SolutionRanking {
+    const blastRadius = assessBlastRadius(solution, context.rangeSize);
+    const timeToRecoverMinutes = Math.round(
+      (parseEstimatedMinutes(solution.estimatedTime) ?? 5) + DELIVERY_MINUTES[solution.type]
+    );
+
+    const factors = {
+      confidence: Math.min(Math.max(solution.confidence || 0, 0), 100),
+      risk: LEVEL_SCORES[solution.risk] ?? LEVEL_SCORES.medium,
+      blastRadius: LEVEL_SCORES[blastRadius],
+      timeToRecover: Math.round(Math.max(0, 1 - timeToRecoverMinutes / SLOWEST_RECOVERY_MINUTES) * 100),
+    };
+
+    let score =
+      factors.confidence * WEIGHTS.confidence +
+      factors.risk * WEIGHTS.risk +
+      factors.blastRadius * WEIGHTS.blastRadius +
+      factors.timeToRecover * WEIGHTS.timeToRecover;
+    if (solution.testResults && !solution.testResults.success) {
+      score *= FAILED_TESTS_FACTOR;
+    }
+
+    return {
+      rank: 0,
+      score: Math.round(score),
+      blastRadius,
+      timeToRecoverMinutes,
+      factors,
+      policy: evaluatePolicy(solution, blastRadius, context.autoFixThreshold),
+    };
+  }
+}
+
+export default new SolutionRanker();
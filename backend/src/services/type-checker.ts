@@ -0,0 +1,351 @@
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { SourceControlProvider } from '../integrations/vcs';
+import { isCancelledError, throwIfCancelled } from '../utils/cancellation';
+import logger from '../utils/logger';
+import { CompilerDiagnostic, TypeCheckResult } from '../utils/types';
+import { PatchedFile } from './patch-applier';
+
+const ROOT = '/repository'; // Where the snapshot is mounted for the compiler
+const TS_FILE = /\.(ts|tsx|mts|cts)$/;
+const IMPORT_DEPTH = 2; // Levels of imports fetched below the patched files
+const MAX_SNAPSHOT_FILES = 150;
+const MAX_EXTENDS = 3;
+
+// Lookups of a module specifier, in the compiler's order
+const EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.mts', '.cts'];
+const INDEX_FILES = ['index.ts', 'index.tsx', 'index.d.ts'];
+
+// Module not found: packages are not fetched, so only relative imports count
+const MODULE_NOT_FOUND = new Set([2307, 2792, 7016]);
+
+// Parsed lib.*.d.ts files of the compiler, shared by every check
+const libSourceFiles = new Map<string, ts.SourceFile>();
+
+/**
+ * Type Checker
+ *
+ * Type-checks patched TypeScript files in process with the compiler API,
+ * against a snapshot of the repository fetched through source control: the
+ * nearest tsconfig.json (with its relative `extends`), the patched files and
+ * the files they import, a few levels deep. Packages are not fetched, so the
+ * snapshot type-checks less than the repository would; to tell the patch's
+ * errors from these, the files are checked before and after the patch and
+ * only the errors the patch adds count.
+ */
+export class TypeChecker {
+  /**
+   * Check the TypeScript files of a patch applied to a ref, or null when it changes none
+   */
+  async check(files: PatchedFile[], vcs: SourceControlProvider, ref: string, signal?: AbortSignal): Promise<TypeCheckResult | null> {
+    const patched = files.filter((file) => file.after !== null && TS_FILE.test(file.path));
+    if (patched.length === 0) return null;
+
+    const startedAt = Date.now();
+    const snapshot = new Snapshot(vcs, ref);
+    const tsconfig = await snapshot.findUp(path.posix.dirname(patched[0].path), 'tsconfig.json');
+    const options = await this.loadOptions(snapshot, tsconfig);
+
+    // The patched files, both versions, and what they import
+    await snapshot.fetchImports(
+      files.flatMap((file) => [file.before, file.after].filter((content): content is string => content !== null).map((content) => ({ path: file.path, content }))),
+      options,
+      signal
+    );
+    throwIfCancelled(signal);
+
+    const before = new Map(snapshot.files);
+    const after = new Map(snapshot.files);
+    for (const file of files) {
+      if (file.oldPath) after.delete(file.oldPath);
+      if (file.before !== null) before.set(file.oldPath || file.path, file.before);
+      else before.delete(file.path);
+      if (file.after !== null) after.set(file.path, file.after);
+    }
+
+    const existing = patched.filter((file) => file.before !== null && file.oldPath);
+    const baseline = this.diagnose(before, existing.map((file) => file.oldPath!), options)
+      .map((d) => ({ ...d, file: existing.find((file) => file.oldPath === d.file)?.path || d.file }));
+    const diagnostics = this.diagnose(after, patched.map((file) => file.path), options);
+
+    // The patch's diagnostics: those without an identical one before it (lines move, so they aren't compared)
+    const remaining = new Map<string, number>();
+    for (const d of baseline) remaining.set(key(d), (remaining.get(key(d)) || 0) + 1);
+    const added = diagnostics.filter((d) => {
+      const count = remaining.get(key(d)) || 0;
+      if (count > 0) remaining.set(key(d), count - 1);
+      return count === 0;
+    });
+
+    const result: TypeCheckResult = {
+      success: !added.some((d) => d.severity === 'error'),
+      ref,
+      tsconfig,
+      files: patched.map((file) => file.path),
+      snapshotFiles: snapshot.files.size,
+      diagnostics: added,
+      preexisting: baseline.filter((d) => d.severity === 'error').length,
+      durationMs: Date.now() - startedAt,
+    };
+    logger.info(
+      `🔎 Type-checked ${result.files.join(', ')} at ${ref} (${result.snapshotFiles} file(s), ${tsconfig || 'default options'}): ` +
+      `${added.length} new diagnostic(s), ${result.preexisting} preexisting error(s)`
+    );
+    return result;
+  }
+
+  /**
+   * Compiler options of a tsconfig.json in the snapshot, or the defaults without one
+   */
+  private async loadOptions(snapshot: Snapshot, tsconfig: string | null): Promise<ts.CompilerOptions> {
+    let config: any = {};
+    if (tsconfig) {
+      // Relative `extends` are fetched; packages (e.g. @tsconfig/node20) are left out
+      const pending = [tsconfig];
+      for (let depth = 0; depth <= MAX_EXTENDS && pending.length > 0; depth++) {
+        const file = pending.shift()!;
+        const content = await snapshot.read(file);
+        const parsed = content !== null ? ts.parseConfigFileTextToJson(file, content).config : null;
+        if (file === tsconfig) config = parsed || {};
+        const extendsList = [parsed?.extends || []].flat().filter((e: unknown): e is string => typeof e === 'string');
+        for (const extended of extendsList.filter((e) => e.startsWith('.'))) {
+          const target = path.posix.join(path.posix.dirname(file), extended);
+          pending.push(target.endsWith('.json') ? target : `${target}.json`);
+        }
+      }
+    }
+
+    const configDir = tsconfig ? path.posix.dirname(tsconfig) : '.';
+    const { options } = ts.parseJsonConfigFileContent(
+      { ...config, files: [], include: [] },
+      {
+        useCaseSensitiveFileNames: true,
+        readDirectory: () => [],
+        fileExists: (file) => snapshot.files.has(toRepositoryPath(file)),
+        readFile: (file) => snapshot.files.get(toRepositoryPath(file)),
+      },
+      path.posix.join(ROOT, configDir),
+      undefined,
+      tsconfig ? path.posix.join(ROOT, tsconfig) : undefined
+    );
+
+    return {
+      ...options,
+      noEmit: true,
+      skipLibCheck: true,
+      types: [], // @types packages are not in the snapshot
+      incremental: false,
+      composite: false,
+      declaration: false,
+      tsBuildInfoFile: undefined,
+    };
+  }
+
+  /**
+   * Diagnostics of files in a snapshot, with paths relative to the repository
+   */
+  private diagnose(files: Map<string, string>, rootFiles: string[], options: ts.CompilerOptions): CompilerDiagnostic[] {
+    if (rootFiles.length === 0) return [];
+
+    const host = ts.createCompilerHost(options, true);
+    const libDir = path.dirname(ts.getDefaultLibFilePath(options));
+    const isLib = (file: string) => file.startsWith(libDir + path.sep);
+    const read = (file: string) => (isLib(file) ? ts.sys.readFile(file) : files.get(toRepositoryPath(file)));
+
+    host.getCurrentDirectory = () => ROOT;
+    host.fileExists = (file) => (isLib(file) ? fs.existsSync(file) : files.has(toRepositoryPath(file)));
+    host.readFile = read;
+    host.directoryExists = (dir) => isLib(dir) || dir === ROOT || [...files.keys()].some((file) => path.posix.join(ROOT, file).startsWith(`${dir}/`));
+    host.getDirectories = () => [];
+    host.realpath = (file) => file;
+    host.writeFile = () => undefined;
+    host.getSourceFile = (file, languageVersion) => {
+      const cacheKey = `${file}:${JSON.stringify(languageVersion)}`;
+      if (isLib(file) && libSourceFiles.has(cacheKey)) return libSourceFiles.get(cacheKey);
+
+      const content = read(file);
+      if (content === undefined) return undefined;
+      const sourceFile = ts.createSourceFile(file, content, languageVersion, true);
+      if (isLib(file)) libSourceFiles.set(cacheKey, sourceFile);
+      return sourceFile;
+    };
+
+    const program = ts.createProgram({ rootNames: rootFiles.map((file) => path.posix.join(ROOT, file)), options, host });
+    return rootFiles.flatMap((file) => {
+      const sourceFile = program.getSourceFile(path.posix.join(ROOT, file));
+      if (!sourceFile) return [];
+      return ts.getPreEmitDiagnostics(program, sourceFile)
+        .filter((d) => d.file?.fileName === sourceFile.fileName)
+        .filter((d) => !isPackageNotFound(d))
+        .map((d) => toDiagnostic(d, file));
+    });
+  }
+}
+
+/**
+ * Files of a ref fetched through source control, by path relative to the repository
+ */
+class Snapshot {
+  readonly files = new Map<string, string>();
+  private missing = new Set<string>();
+  private listings = new Map<string, Set<string> | null>(); // Entries of a directory, null when it doesn't exist
+
+  constructor(private vcs: SourceControlProvider, private ref: string) {}
+
+  /**
+   * Content of a file, or null when it doesn't exist
+   */
+  async read(file: string): Promise<string | null> {
+    if (this.files.has(file)) return this.files.get(file)!;
+    if (this.missing.has(file)) return null;
+    try {
+      const { content } = await this.vcs.getFileContent(file, this.ref);
+      this.files.set(file, content);
+      return content;
+    } catch (error: any) {
+      if (isCancelledError(error)) throw error;
+      if (error.status !== 404) logger.warn(`Could not fetch ${file} for type-checking: ${error.message}`);
+      this.missing.add(file);
+      return null;
+    }
+  }
+
+  /**
+   * Path of the closest file with a name in a directory or its parents
+   */
+  async findUp(dir: string, name: string): Promise<string | null> {
+    for (let current = dir; ; current = path.posix.dirname(current)) {
+      const candidate = current === '.' ? name : `${current}/${name}`;
+      if ((await this.list(current))?.has(name) && (await this.read(candidate)) !== null) return candidate;
+      if (current === '.') return null;
+    }
+  }
+
+  /**
+   * Fetch the files that files import (relative specifiers and `paths` aliases), some levels deep
+   */
+  async fetchImports(roots: Array<{ path: string; content: string }>, options: ts.CompilerOptions, signal?: AbortSignal): Promise<void> {
+    let level = roots;
+    const seen = new Set(roots.map((file) => file.path));
+    for (let depth = 0; depth < IMPORT_DEPTH && level.length > 0; depth++) {
+      const next: Array<{ path: string; content: string }> = [];
+      for (const file of level) {
+        for (const specifier of importsOf(file.content)) {
+          throwIfCancelled(signal);
+          if (this.files.size >= MAX_SNAPSHOT_FILES) return;
+
+          for (const base of this.candidates(file.path, specifier, options)) {
+            const resolved = await this.resolve(base);
+            if (!resolved) continue;
+            if (!seen.has(resolved)) {
+              seen.add(resolved);
+              next.push({ path: resolved, content: this.files.get(resolved)! });
+            }
+            break;
+          }
+        }
+      }
+      level = next;
+    }
+  }
+
+  /**
+   * Paths a specifier may point to, without extension
+   */
+  private candidates(from: string, specifier: string, options: ts.CompilerOptions): string[] {
+    if (specifier.startsWith('.')) {
+      return [path.posix.join(path.posix.dirname(from), specifier)];
+    }
+
+    // `paths` aliases, e.g. "@/*": ["./src/*"]
+    const baseDir = options.baseUrl || options.pathsBasePath;
+    if (!options.paths || typeof baseDir !== 'string') return [];
+    return Object.entries(options.paths).flatMap(([pattern, targets]) => {
+      const [prefix, suffix = ''] = pattern.split('*');
+      const wildcard = pattern.includes('*');
+      const matches = wildcard
+        ? specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length
+        : specifier === pattern;
+      if (!matches) return [];
+      const captured = wildcard ? specifier.substring(prefix.length, specifier.length - suffix.length) : '';
+      return targets.map((target) => toRepositoryPath(path.posix.join(baseDir, target.replace('*', captured))));
+    });
+  }
+
+  /**
+   * Fetch the file a specifier without extension resolves to
+   */
+  private async resolve(base: string): Promise<string | null> {
+    const withoutJs = base.replace(/\.(m|c)?jsx?$/, '');
+    const dir = path.posix.dirname(withoutJs);
+    const name = path.posix.basename(withoutJs);
+    const entries = await this.list(dir);
+
+    const file = entries && [name, ...EXTENSIONS.map((ext) => `${name}${ext}`)].find((candidate) => TS_FILE.test(candidate) && entries.has(candidate));
+    if (file) {
+      const filePath = dir === '.' ? file : `${dir}/${file}`;
+      return (await this.read(filePath)) !== null ? filePath : null;
+    }
+
+    const indexEntries = await this.list(withoutJs);
+    const index = indexEntries && INDEX_FILES.find((candidate) => indexEntries.has(candidate));
+    if (index) {
+      const filePath = `${withoutJs}/${index}`;
+      return (await this.read(filePath)) !== null ? filePath : null;
+    }
+    return null;
+  }
+
+  private async list(dir: string): Promise<Set<string> | null> {
+    if (dir.startsWith('..')) return null;
+    if (!this.listings.has(dir)) {
+      try {
+        const entries = await this.vcs.listDirectory(dir === '.' ? '' : dir, this.ref);
+        this.listings.set(dir, new Set(entries.map((entry) => entry.name)));
+      } catch (error: any) {
+        if (isCancelledError(error)) throw error;
+        this.listings.set(dir, null);
+      }
+    }
+    return this.listings.get(dir)!;
+  }
+}
+
+/**
+ * Module specifiers of imports, exports and requires
+ */
+function importsOf(content: string): string[] {
+  return ts.preProcessFile(content, true, true).importedFiles.map((file) => file.fileName);
+}
+
+function toRepositoryPath(file: string): string {
+  return path.posix.relative(ROOT, path.posix.resolve(ROOT, file));
+}
+
+function isPackageNotFound(diagnostic: ts.Diagnostic): boolean {
+  if (!MODULE_NOT_FOUND.has(diagnostic.code)) return false;
+  const module = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n').match(/['"]([^'"]+)['"]/)?.[1];
+  return !module?.startsWith('.');
+}
+
+function toDiagnostic(diagnostic: ts.Diagnostic, file: string): CompilerDiagnostic {
+  const { line, character } = diagnostic.file && diagnostic.start !== undefined
+    ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+    : { line: 0, character: 0 };
+  return {
+    source: 'typecheck',
+    file,
+    line: line + 1,
+    column: character + 1,
+    severity: diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+    code: `TS${diagnostic.code}`,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+  };
+}
+
+function key(diagnostic: CompilerDiagnostic): string {
+  return `${diagnostic.file}:${diagnostic.code}:${diagnostic.message}`;
+}
+
+export default new TypeChecker();
@@ -0,0 +1,59 @@
+/**
+ * Cooperative cancellation helpers
+ *
+ * Long-running agent work receives an AbortSignal. Code checks it between
+ * steps and passes it to HTTP clients / SDK calls so pending requests abort.
+ */
+
+export class CancelledError extends Error {
+  constructor(message: string = 'Operation cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Whether an error was caused by cancellation (either our own error or an
+ * aborted request of an SDK/HTTP client)
+ */
+export function isCancelledError(error: any, signal?: AbortSignal): boolean {
+  return (
+    error instanceof CancelledError ||
+    !!signal?.aborted ||
+    error?.name === 'AbortError' ||
+    error?.name === 'CanceledError' ||
+    error?.code === 'ERR_CANCELED'
+  );
+}
+
+/**
+ * Throw a CancelledError if the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancelledError(typeof signal.reason === 'string' ? signal.reason : undefined);
+  }
+}
+
+/**
+ * Sleep that rejects with a CancelledError as soon as the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
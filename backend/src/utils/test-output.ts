@@ -0,0 +1,132 @@
+import { CompilerDiagnostic, TestCounts } from './types';
+
+/**
+ * Test tool output
+ *
+ * Structured results read from what type-checkers, linters and test runners
+ * print by default: tsc (plain and pretty), ESLint (stylish and unix
+ * formatters), and the summaries of Jest, Vitest, Mocha and node:test.
+ * Output nothing matches yields no diagnostics and no counts.
+ */
+
+const MAX_FAILURES = 20;
+
+export function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '');
+}
+
+/**
+ * TypeScript compiler errors and warnings
+ */
+export function parseTypeScriptDiagnostics(output: string): CompilerDiagnostic[] {
+  const diagnostics: CompilerDiagnostic[] = [];
+  for (const line of stripAnsi(output).split('\n')) {
+    const match =
+      line.match(/^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/) || // --pretty false
+      line.match(/^(.+?):(\d+):(\d+) - (error|warning) (TS\d+): (.*)$/);
+    if (!match) continue;
+
+    diagnostics.push({
+      source: 'typecheck',
+      file: match[1].trim(),
+      line: parseInt(match[2], 10),
+      column: parseInt(match[3], 10),
+      severity: match[4] as CompilerDiagnostic['severity'],
+      code: match[5],
+      message: match[6].trim(),
+    });
+  }
+  return diagnostics;
+}
+
+/**
+ * ESLint problems
+ */
+export function parseESLintDiagnostics(output: string): CompilerDiagnostic[] {
+  const diagnostics: CompilerDiagnostic[] = [];
+  let file: string | null = null; // Stylish lists a file, then its problems indented
+
+  for (const line of stripAnsi(output).split('\n')) {
+    const unix = line.match(/^(.+?):(\d+):(\d+): (.*) \[(Error|Warning)\/(.+)\]$/);
+    if (unix) {
+      diagnostics.push({
+        source: 'lint',
+        file: unix[1],
+        line: parseInt(unix[2], 10),
+        column: parseInt(unix[3], 10),
+        severity: unix[5].toLowerCase() as CompilerDiagnostic['severity'],
+        code: unix[6],
+        message: unix[4].trim(),
+      });
+      continue;
+    }
+
+    const problem = line.match(/^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?\s*$/);
+    if (problem && file) {
+      diagnostics.push({
+        source: 'lint',
+        file,
+        line: parseInt(problem[1], 10),
+        column: parseInt(problem[2], 10),
+        severity: problem[3] as CompilerDiagnostic['severity'],
+        code: problem[5],
+        message: problem[4].trim(),
+      });
+    } else if (/^\S.*\.[cm]?[jt]sx?$/.test(line.trim()) && !line.startsWith(' ')) {
+      file = line.trim();
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * One line per diagnostic, like the compiler prints it
+ */
+export function formatDiagnostic(d: CompilerDiagnostic): string {
+  return `${d.file}:${d.line}:${d.column} ${d.code ? `${d.code} ` : ''}${d.message}`;
+}
+
+/**
+ * Passed, failed and skipped tests with the names of the failed ones, or
+ * null when the output has no summary of a known test runner
+ */
+export function parseTestSummary(output: string): TestCounts | null {
+  const text = stripAnsi(output);
+  const count = (pattern: RegExp, source: string = text) => {
+    const match = source.match(pattern);
+    return match ? parseInt(match[1], 10) : 0;
+  };
+
+  let counts: Omit<TestCounts, 'failures'> | null = null;
+
+  // Jest ("Tests:       1 failed, 20 passed, 21 total") and Vitest ("Tests  1 failed | 20 passed (21)")
+  const summary = text.match(/^\s*Tests:?\s+.*\d+ (?:passed|failed).*$/m)?.[0];
+  if (summary) {
+    counts = {
+      passed: count(/(\d+) passed/, summary),
+      failed: count(/(\d+) failed/, summary),
+      skipped: count(/(\d+) skipped/, summary) + count(/(\d+) todo/, summary),
+    };
+  } else if (/^\s*\d+ passing\b/m.test(text)) {
+    // Mocha
+    counts = { passed: count(/^\s*(\d+) passing/m), failed: count(/^\s*(\d+) failing/m), skipped: count(/^\s*(\d+) pending/m) };
+  } else if (/^# pass \d+/m.test(text)) {
+    // node:test (TAP)
+    counts = { passed: count(/^# pass (\d+)/m), failed: count(/^# fail (\d+)/m), skipped: count(/^# skipped (\d+)/m) };
+  }
+  if (!counts) return null;
+
+  const failures = new Set<string>();
+  for (const line of text.split('\n')) {
+    const failure =
+      line.match(/^\s*●\s+(.+)$/)?.[1] || // Jest
+      line.match(/^\s*(?:×|✕)\s+(.+?)(?:\s+\(?\d+\s?m?s\)?)?$/)?.[1] || // Vitest, Jest verbose
+      line.match(/^\s*FAIL\s+(\S+\s+>\s+.+)$/)?.[1] ||
+      line.match(/^not ok \d+ - (.+)$/)?.[1]; // TAP
+    if (failure && !/^Console\b/.test(failure) && failures.size < MAX_FAILURES) {
+      failures.add(failure.trim());
+    }
+  }
+
+  return { ...counts, failures: [...failures] };
+}
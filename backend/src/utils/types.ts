@@ -2,6 +2,8 @@
  * OutageX - Core Type Definitions
  */
 
+import type { HunkOutcome } from './unified-diff';
+
 export type IncidentStatus = 
   | 'idle'
   | 'detecting'
@@ -10,8 +12,10 @@ export type IncidentStatus =
   | 'diagnosing'
   | 'proposing'
   | 'executing'
+  | 'verifying'
   | 'resolved'
-  | 'failed';
+  | 'failed'
+  | 'cancelled';
 
 export type AgentPhase =
   | 'detection'
@@ -20,7 +24,8 @@ export type AgentPhase =
   | 'research'
   | 'diagnosis'
   | 'solution_generation'
-  | 'execution';
+  | 'execution'
+  | 'verification';
 
 export interface Incident {
   id: string;
@@ -59,6 +64,35 @@ export interface CommitInfo {
   filesChanged: string[];
   additions: number;
   deletions: number;
+  evidence?: CommitEvidence; // Why the commit is suspected
+}
+
+export interface DeploymentRef {
+  id: string;
+  sha: string | null; // Git commit the deployment was built from
+  createdAt: Date;
+  state: string | null; // Vercel ready state (READY, ERROR, ...)
+  logs: number; // Runtime logs seen on the deployment
+  errors: number; // Errors of the incident seen on the deployment
+}
+
+export interface CommitEvidence {
+  method: 'deployment_bisection' | 'blame' | 'llm';
+  score: number; // Overlap with the stack frames
+  reasons: string[];
+  matchedFiles: Array<{ file: string; frame: string }>; // Changed file -> stack frame file
+  goodDeployment?: DeploymentRef | null; // Last healthy deployment
+  badDeployment?: DeploymentRef; // First failing deployment
+  rangeSize?: number; // Commits between the two deployments
+}
+
+export interface BlameSuspect {
+  sha: string;
+  author: string;
+  message: string;
+  committedAt: Date;
+  score: number; // Recency-weighted closeness to the top stack frame lines
+  lines: Array<{ file: string; line: number; frame: number }>; // Blamed lines near the frames (frame 1 = innermost)
 }
 
 export interface ResearchResult {
@@ -67,6 +101,7 @@ export interface ResearchResult {
   summary: string;
   url?: string;
   relevance: number;
+  providers?: string[]; // Search providers that returned it
 }
 
 export interface RootCause {
@@ -86,22 +121,159 @@ export interface Solution {
   confidence: number;
   estimatedTime: string;
   steps: string[];
-  code?: string;
-  diff?: string;
+  code?: string; // Complete content of one file (single-file patches of older incidents)
+  diff?: string; // Unified diff of a patch or config fix, one or more files
+  patchValidation?: PatchValidation; // How the diff applies to the target branch
+  typeCheck?: TypeCheckResult; // Of the patched TypeScript files, on the target branch
+  regressionTest?: RegressionTest; // Committed with the fix when verified
   testResults?: TestResult;
+  ranking?: SolutionRanking; // Set when ranked against other candidates
   metadata?: {
-    filePath?: string;
+    filePath?: string; // First file the solution changes
     projectName?: string;
     deploymentId?: string;
     [key: string]: any;
   };
 }
 
+export interface PatchValidation {
+  ref: string; // Branch or commit the diff was applied to
+  applies: boolean; // Every hunk of every file applies
+  clean: boolean; // ...each exactly where its header says
+  files: PatchFileValidation[];
+}
+
+export interface PatchFileValidation {
+  path: string;
+  oldPath?: string; // Renamed from
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  additions: number;
+  deletions: number;
+  hunks: HunkOutcome[];
+  error?: string; // The file is missing, or already exists
+}
+
+export interface TypeCheckResult {
+  success: boolean; // The patch adds no type errors
+  ref: string;
+  tsconfig: string | null; // null when none was found (compiler defaults)
+  files: string[]; // Patched files checked
+  snapshotFiles: number; // Files fetched for the check: the patched files and what they import
+  diagnostics: CompilerDiagnostic[]; // Added by the patch
+  preexisting: number; // Errors the files already had before the patch
+  durationMs: number;
+}
+
+/**
+ * An error as captured by the SDK, that a regression test reproduces
+ */
+export interface ErrorReport {
+  message: string;
+  stack?: string;
+  url?: string;
+  source?: string; // Source file of the error
+  line?: number;
+  request?: Record<string, any>; // What else the SDK sent about the request (method, status, ...), secrets redacted
+}
+
+export type TestFramework = 'vitest' | 'jest' | 'mocha';
+
+/**
+ * A test reproducing the incident's error, generated for a patch
+ */
+export interface RegressionTest {
+  path: string; // New file, committed with the fix
+  content: string;
+  description: string;
+  framework: TestFramework;
+  command: string; // Runs only this test
+  status: 'verified' | 'unverified' | 'rejected'; // Only verified tests are committed
+  reason?: string; // Why it is not verified
+  verification?: {
+    backend: string; // Sandbox it ran in
+    ref: string;
+    before: RegressionTestRun; // On the original code: must fail
+    after: RegressionTestRun; // On the patched code: must pass
+  };
+}
+
+export interface RegressionTestRun {
+  status: TestStep['status'];
+  exitCode?: number;
+  durationMs?: number;
+  tests?: TestCounts;
+  output?: string; // End of the output
+}
+
+/**
+ * Whether production recovered after a fix deployed, compared with before the incident
+ */
+export interface FixVerification {
+  outcome: 'recovered' | 'not_recovered' | 'not_deployed' | 'not_merged' | 'no_source_control';
+  reason: string;
+  deploymentId?: string; // Deployment the fix went out with, when known
+  deployedAt?: string;
+  mergeCommitSha?: string; // Of a pull request merged while verification waited for it
+  mergedAt?: string;
+  baseline?: ErrorRateSample; // Before the incident started
+  observed?: ErrorRateSample; // After the fix deployed
+  threshold?: number; // Errors per minute the window may reach
+  issueOccurrences?: number; // Of the triggering error, after the fix deployed
+}
+
+export interface ErrorRateSample {
+  from: string;
+  to: string;
+  errors: number;
+  errorsPerMinute: number;
+}
+
+export type BlastRadius = 'low' | 'medium' | 'high';
+
+export interface SolutionRanking {
+  rank: number; // 1 = best
+  score: number; // 0-100, weighted factors
+  blastRadius: BlastRadius;
+  timeToRecoverMinutes: number;
+  factors: { confidence: number; risk: number; blastRadius: number; timeToRecover: number }; // 0-100 each
+  policy: { passed: boolean; violations: string[] }; // Whether AutoFix may execute it
+}
+
 export interface TestResult {
   success: boolean;
   output: string;
   errors?: string[];
   warnings?: string[];
+  sandbox?: { backend: string; ref: string; files: string[] }; // Where the patch was tested
+  steps?: TestStep[];
+  tests?: TestCounts;
+  diagnostics?: CompilerDiagnostic[];
+}
+
+export interface TestStep {
+  name: 'checkout' | 'install' | 'typecheck' | 'lint' | 'test';
+  command: string;
+  status: 'passed' | 'failed' | 'timed_out' | 'skipped';
+  exitCode?: number;
+  durationMs?: number;
+  output?: string; // End of the output
+}
+
+export interface TestCounts {
+  passed: number;
+  failed: number;
+  skipped: number;
+  failures: string[]; // Names of failed tests
+}
+
+export interface CompilerDiagnostic {
+  source: 'typecheck' | 'lint';
+  file: string;
+  line: number;
+  column: number;
+  severity: 'error' | 'warning';
+  code?: string; // TS2345, no-unused-vars, ...
+  message: string;
 }
 
 export interface ChatMessage {
@@ -0,0 +1,339 @@
+/**
+ * Unified diffs
+ *
+ * Line-based diffs (Myers' algorithm) in the unified format used by git, and
+ * applying them to a file whose content may have moved on since: each hunk is
+ * located by its context and removed lines, searching outwards from the line
+ * it was made against (optionally ignoring some context, like `patch --fuzz`),
+ * and applying fails if a hunk can't be found.
+ */
+
+const CONTEXT_LINES = 3;
+
+export interface DiffHunk {
+  oldStart: number; // 1-based
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // Prefixed with " ", "-" or "+"
+}
+
+export interface FilePatch {
+  oldPath: string | null; // null for a new file
+  newPath: string | null; // null for a deleted file
+  hunks: DiffHunk[];
+}
+
+type Edit = { type: ' ' | '-' | '+'; line: string };
+
+function splitLines(content: string): string[] {
+  if (!content) return [];
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Shortest edit script between two line arrays
+ */
+function diffLines(a: string[], b: string[]): Edit[] {
+  // Common prefix and suffix are kept out of the O(ND) search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  return [
+    ...a.slice(0, prefix).map((line): Edit => ({ type: ' ', line })),
+    ...myers(oldMiddle, newMiddle),
+    ...a.slice(a.length - suffix).map((line): Edit => ({ type: ' ', line })),
+  ];
+}
+
+function myers(a: string[], b: string[]): Edit[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  if (max === 0) return [];
+
+  const offset = max;
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = [];
+
+  const followsDiagonal = (k: number, d: number, state: Int32Array) =>
+    k === -d || (k !== d && state[offset + k - 1] < state[offset + k + 1]);
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = followsDiagonal(k, d, v) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  // Walk the trace back from the end
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const state = trace[d];
+    const k = x - y;
+    const previousK = followsDiagonal(k, d, state) ? k + 1 : k - 1;
+    const previousX = state[offset + previousK];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      edits.push({ type: ' ', line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) edits.push({ type: '+', line: b[y - 1] });
+      else edits.push({ type: '-', line: a[x - 1] });
+    }
+    x = previousX;
+    y = previousY;
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Unified diff of a file, or an empty string if nothing changed
+ */
+export function createUnifiedDiff(path: string, before: string, after: string): string {
+  const edits = diffLines(splitLines(before), splitLines(after));
+  const hunks: DiffHunk[] = [];
+
+  let oldLine = 1;
+  let newLine = 1;
+  let current: DiffHunk | null = null;
+  let trailingContext = 0; // Unchanged lines at the end of the current hunk
+
+  edits.forEach((edit, index) => {
+    if (edit.type !== ' ') {
+      if (!current) {
+        // Start with up to CONTEXT_LINES unchanged lines before the change
+        const context = edits.slice(Math.max(0, index - CONTEXT_LINES), index).filter((e) => e.type === ' ');
+        current = {
+          oldStart: oldLine - context.length,
+          oldLines: context.length,
+          newStart: newLine - context.length,
+          newLines: context.length,
+          lines: context.map((e) => ` ${e.line}`),
+        };
+        hunks.push(current);
+      }
+      current.lines.push(`${edit.type}${edit.line}`);
+      if (edit.type === '-') current.oldLines++;
+      else current.newLines++;
+      trailingContext = 0;
+    } else if (current) {
+      // Keep the hunk open while the next change is close enough to share context
+      const nextChange = edits.findIndex((e, i) => i > index && e.type !== ' ');
+      if (trailingContext < CONTEXT_LINES || (nextChange !== -1 && nextChange - index <= CONTEXT_LINES)) {
+        current.lines.push(` ${edit.line}`);
+        current.oldLines++;
+        current.newLines++;
+        trailingContext++;
+      } else {
+        current = null;
+      }
+    }
+
+    if (edit.type !== '+') oldLine++;
+    if (edit.type !== '-') newLine++;
+  });
+
+  if (hunks.length === 0) return '';
+
+  const range = (start: number, lines: number) => `${lines === 0 ? start - 1 : start},${lines}`;
+  return [
+    `--- ${before ? `a/${path}` : '/dev/null'}`,
+    `+++ ${after ? `b/${path}` : '/dev/null'}`,
+    ...hunks.flatMap((hunk) => [
+      `@@ -${range(hunk.oldStart, hunk.oldLines)} +${range(hunk.newStart, hunk.newLines)} @@`,
+      ...hunk.lines,
+    ]),
+  ].join('\n') + '\n';
+}
+
+/**
+ * Parse a unified diff (one or more files, e.g. `git diff` output)
+ */
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+  const patches: FilePatch[] = [];
+  let patch: FilePatch | null = null;
+  let hunk: DiffHunk | null = null;
+
+  const stripPath = (raw: string) => {
+    const path = raw.split('\t')[0].trim();
+    return path === '/dev/null' ? null : path.replace(/^[ab]\//, '');
+  };
+
+  const lines = diff.split('\n');
+  lines.forEach((line, index) => {
+    // A file header, not a removed line starting with "--"
+    if (line.startsWith('--- ') && lines[index + 1]?.startsWith('+++ ')) {
+      patch = { oldPath: stripPath(line.substring(4)), newPath: null, hunks: [] };
+      patches.push(patch);
+      hunk = null;
+    } else if (line.startsWith('+++ ') && patch && !hunk) {
+      patch.newPath = stripPath(line.substring(4));
+    } else if (line.startsWith('@@') && patch) {
+      const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+      if (!header) throw new Error(`Invalid hunk header: ${line}`);
+      hunk = {
+        oldStart: parseInt(header[1], 10),
+        oldLines: header[2] === undefined ? 1 : parseInt(header[2], 10),
+        newStart: parseInt(header[3], 10),
+        newLines: header[4] === undefined ? 1 : parseInt(header[4], 10),
+        lines: [],
+      };
+      patch.hunks.push(hunk);
+    } else if (hunk && /^[ +-]/.test(line)) {
+      hunk.lines.push(line);
+    } else if (hunk && line === '') {
+      // Some tools drop the space of empty context lines
+      const expected = hunk.oldLines + hunk.newLines;
+      const counted = hunk.lines.reduce((sum, l) => sum + (l[0] === ' ' ? 2 : 1), 0);
+      if (counted < expected) hunk.lines.push(' ');
+    }
+  });
+
+  return patches;
+}
+
+/**
+ * How a hunk applied: at its line, moved by some lines (offset), with
+ * context lines at its ends ignored (fuzz), or not at all (conflict)
+ */
+export interface HunkOutcome {
+  header: string;
+  status: 'applied' | 'offset' | 'fuzzy' | 'conflict';
+  offset: number; // Lines away from where the header put it
+  fuzz: number; // Context lines ignored at each end
+}
+
+export function hunkHeader(hunk: DiffHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+/**
+ * Apply hunks to a file's content, or null when a hunk doesn't match
+ */
+export function applyHunks(content: string, hunks: DiffHunk[]): string | null {
+  return applyHunksWithReport(content, hunks).content;
+}
+
+/**
+ * Apply hunks to a file's content and report how each one applied
+ *
+ * Like `patch`, a hunk that doesn't match is retried without up to `maxFuzz`
+ * of its leading and trailing context lines. Conflicting hunks are skipped so
+ * the others are still reported; the content is then null.
+ */
+export function applyHunksWithReport(
+  content: string,
+  hunks: DiffHunk[],
+  maxFuzz: number = 0
+): { content: string | null; hunks: HunkOutcome[] } {
+  const lines = splitLines(content);
+  const trailingNewline = content === '' || content.endsWith('\n');
+  const outcomes: HunkOutcome[] = [];
+  let delta = 0; // Lines added minus removed so far, plus the drift of located hunks
+  let minIndex = 0; // Hunks don't overlap
+
+  for (const hunk of hunks) {
+    const start = (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta;
+    let outcome: HunkOutcome = { header: hunkHeader(hunk), status: 'conflict', offset: 0, fuzz: 0 };
+
+    for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+      const leading = countContext(hunk.lines, fuzz);
+      const trailing = countContext([...hunk.lines].reverse(), fuzz);
+      if (fuzz > 0 && leading < fuzz && trailing < fuzz) break; // Nothing more to ignore
+      const body = hunk.lines.slice(leading, hunk.lines.length - trailing);
+
+      const oldBlock = body.filter((l) => l[0] !== '+').map((l) => l.substring(1));
+      const newBlock = body.filter((l) => l[0] !== '-').map((l) => l.substring(1));
+      const expected = Math.max(minIndex, start + leading);
+
+      const index = locate(lines, oldBlock, expected, minIndex);
+      if (index === -1) continue;
+
+      lines.splice(index, oldBlock.length, ...newBlock);
+      delta += index - expected + newBlock.length - oldBlock.length;
+      minIndex = index + newBlock.length;
+      outcome = {
+        ...outcome,
+        status: fuzz > 0 ? 'fuzzy' : index !== expected ? 'offset' : 'applied',
+        offset: index - expected,
+        fuzz,
+      };
+      break;
+    }
+    outcomes.push(outcome);
+  }
+
+  const result = lines.join('\n');
+  const conflicted = outcomes.some((outcome) => outcome.status === 'conflict');
+  return {
+    content: conflicted ? null : trailingNewline && lines.length > 0 ? `${result}\n` : result,
+    hunks: outcomes,
+  };
+}
+
+/**
+ * Context lines at the start of a hunk, up to a maximum
+ */
+function countContext(lines: string[], max: number): number {
+  let count = 0;
+  while (count < max && count < lines.length && lines[count][0] === ' ') count++;
+  return count;
+}
+
+/**
+ * Position of a block of lines closest to the expected one
+ */
+function locate(lines: string[], block: string[], expected: number, minIndex: number): number {
+  if (block.length === 0) return Math.min(expected, lines.length);
+
+  const matchesAt = (index: number) => block.every((line, i) => lines[index + i] === line);
+  const last = lines.length - block.length;
+  for (let distance = 0; distance <= Math.max(expected - minIndex, last - expected); distance++) {
+    for (const index of [expected - distance, expected + distance]) {
+      if (index >= minIndex && index <= last && matchesAt(index)) return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * The diff undoing a diff (like `git apply -R`): old and new sides swapped
+ */
+export function reverseUnifiedDiff(diff: string): string {
+  const swap: Record<string, string> = { '+': '-', '-': '+' };
+  return parseUnifiedDiff(diff)
+    .filter((patch) => patch.oldPath || patch.newPath)
+    .map((patch) => [
+      `--- ${patch.newPath ? `a/${patch.newPath}` : '/dev/null'}`,
+      `+++ ${patch.oldPath ? `b/${patch.oldPath}` : '/dev/null'}`,
+      ...patch.hunks.flatMap((hunk) => [
+        hunkHeader({ oldStart: hunk.newStart, oldLines: hunk.newLines, newStart: hunk.oldStart, newLines: hunk.oldLines, lines: [] }),
+        ...hunk.lines.map((line) => (swap[line[0]] ? `${swap[line[0]]}${line.substring(1)}` : line)),
+      ]),
+    ].join('\n') + '\n')
+    .join('');
+}
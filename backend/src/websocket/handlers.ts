@@ -1,6 +1,8 @@
 import { Server as SocketServer, Socket } from 'socket.io';
 import orchestrator from '../agent/orchestrator';
-import groqClient from '../groq/client';
+import { userRoom, incidentRoom } from '../agent/incident-run';
+import llmClient from '../llm/client';
+import llmCallLog from '../llm/call-log';
 import logger from '../utils/logger';
 
 /**
@@ -23,10 +25,15 @@ export class WebSocketHandlers {
       // Store userId in socket data (POC: always demo-user)
       socket.data.userId = 'demo-user';
 
+      // Incident runs emit to the owning user's room (and to per-incident rooms)
+      socket.join(userRoom(socket.data.userId));
+
       // Incident Management
       socket.on('incident:trigger', () => this.handleIncidentTrigger(socket));
       socket.on('solution:execute', (data) => this.handleSolutionExecute(socket, data));
-      socket.on('agent:stop', () => this.handleAgentStop(socket));
+      socket.on('agent:stop', (data) => this.handleAgentStop(socket, data));
+      socket.on('incident:subscribe', (data) => this.handleIncidentSubscribe(socket, data));
+      socket.on('incident:unsubscribe', (data) => this.handleIncidentUnsubscribe(socket, data));
 
       // Chat
       socket.on('chat:message', (data) => this.handleChatMessage(socket, data));
@@ -93,20 +100,43 @@ export class WebSocketHandlers {
   }
 
   /**
-   * Handle agent stop
+   * Handle incident subscription (receive events for a single incident)
    */
-  private handleAgentStop(socket: Socket): void {
-    logger.info('Agent stop requested');
-    
-    // In a real system, this would cancel ongoing operations
-    socket.emit('chat:message', {
-      message: {
-        id: `msg-${Date.now()}`,
-        role: 'system',
-        content: '⏸️ Agent operations paused.',
-        timestamp: new Date(),
-      },
-    });
+  private handleIncidentSubscribe(socket: Socket, data: { incidentId: string }): void {
+    if (!data?.incidentId) return;
+    socket.join(incidentRoom(data.incidentId));
+    logger.debug(`Client ${socket.id} subscribed to incident ${data.incidentId}`);
+  }
+
+  /**
+   * Handle incident unsubscription
+   */
+  private handleIncidentUnsubscribe(socket: Socket, data: { incidentId: string }): void {
+    if (!data?.incidentId) return;
+    socket.leave(incidentRoom(data.incidentId));
+    logger.debug(`Client ${socket.id} unsubscribed from incident ${data.incidentId}`);
+  }
+
+  /**
+   * Handle agent stop (all in-flight incidents of the user, or a single one)
+   */
+  private handleAgentStop(socket: Socket, data?: { incidentId?: string }): void {
+    const userId = socket.data.userId || 'demo-user';
+    logger.info(`Agent stop requested by user: ${userId}${data?.incidentId ? ` (incident ${data.incidentId})` : ''}`);
+
+    // Cancelled runs report their own status and timeline updates
+    const stopped = orchestrator.stopIncidentResponse(userId, data?.incidentId);
+
+    if (stopped === 0) {
+      socket.emit('chat:message', {
+        message: {
+          id: `msg-${Date.now()}`,
+          role: 'system',
+          content: 'ℹ️ No agent operations in progress.',
+          timestamp: new Date(),
+        },
+      });
+    }
   }
 
   /**
@@ -119,15 +149,18 @@ export class WebSocketHandlers {
       // Get context from orchestrator
       const context = 'Incident response context';
 
-      // Generate response with Groq
+      // Generate response with the default LLM
       const userMessage = typeof data.message === 'string' ? data.message : JSON.stringify(data.message);
-      const response = await groqClient.generateChatResponse(userMessage, context);
+      const response = await llmCallLog.run({ userId: socket.data.userId || 'demo-user', phase: 'chat' }, () =>
+        llmClient.generateChatResponse(userMessage, context)
+      );
 
       socket.emit('chat:message', {
         message: {
           id: `msg-${Date.now()}`,
           role: 'agent',
-          content: response,
+          content: response.answer,
+          actions: response.actions,
           timestamp: new Date(),
         },
       });
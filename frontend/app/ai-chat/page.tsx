@@ -13,7 +13,7 @@ import {
   BreadcrumbPage,
   BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb";
-import { Loader2, Send, Bot, User, Code } from "lucide-react";
+import { Loader2, Send, Bot, User, Code, ExternalLink, FileCode } from "lucide-react";
 import { toast } from "sonner";
 import ReactMarkdown from 'react-markdown';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
@@ -30,10 +30,15 @@ interface Project {
   githubRepo: string;
 }
 
+type ChatAction =
+  | { type: 'open_file'; path: string; line?: number }
+  | { type: 'open_url'; url: string; title?: string };
+
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  actions?: ChatAction[];
   timestamp: Date;
 }
 
@@ -121,6 +126,7 @@ export default function AIChatPage() {
         id: `msg-${Date.now()}-assistant`,
         role: 'assistant',
         content: data.response || 'Sorry, I could not generate a response.',
+        actions: data.actions || [],
         timestamp: new Date(),
       };
 
@@ -313,6 +319,27 @@ export default function AIChatPage() {
                             >
                               {message.content}
                             </ReactMarkdown>
+                            {message.actions && message.actions.length > 0 && selectedProject && (
+                              <div className="not-prose flex flex-wrap gap-2 mt-3">
+                                {message.actions.map((action, index) => (
+                                  <a
+                                    key={index}
+                                    href={action.type === 'open_url'
+                                      ? action.url
+                                      : `https://github.com/${selectedProject.githubOwner}/${selectedProject.githubRepo}/blob/HEAD/${action.path}${action.line ? `#L${action.line}` : ''}`}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                  >
+                                    <Badge variant="outline" className="gap-1 font-normal">
+                                      {action.type === 'open_url' ? <ExternalLink className="h-3 w-3" /> : <FileCode className="h-3 w-3" />}
+                                      {action.type === 'open_url'
+                                        ? action.title || action.url
+                                        : `${action.path}${action.line ? `:${action.line}` : ''}`}
+                                    </Badge>
+                                  </a>
+                                ))}
+                              </div>
+                            )}
                           </div>
                         ) : (
                           <div className="whitespace-pre-wrap break-words text-sm leading-relaxed">
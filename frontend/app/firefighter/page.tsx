@@ -2,7 +2,7 @@
 
 import { useEffect } from 'react';
 import { useFirefighterStore } from '@/store/firefighter';
-import { initializeSocket, disconnectSocket, triggerIncident } from '@/lib/socket';
+import { initializeSocket, disconnectSocket, triggerIncident, stopAgent } from '@/lib/socket';
 import { Breadcrumbs } from "@/components/parts/breadcrumbs";
 import { Header } from "@/components/parts/header";
 import { PageWrapper } from "@/components/parts/page-wrapper";
@@ -10,7 +10,7 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Flame, MessageSquare, Activity, Search, Wrench, Wifi, WifiOff, AlertTriangle } from "lucide-react";
+import { Flame, MessageSquare, Activity, Search, Wrench, Wifi, WifiOff, AlertTriangle, Square } from "lucide-react";
 import { IncidentCard } from '@/components/firefighter/dashboard/IncidentCard';
 import { SystemHealth } from '@/components/firefighter/dashboard/SystemHealth';
 import { Timeline } from '@/components/firefighter/dashboard/Timeline';
@@ -28,6 +28,7 @@ export default function FirefighterPage() {
   const isConnected = useFirefighterStore((state) => state.isConnected);
   const incident = useFirefighterStore((state) => state.incident);
   const solution = useFirefighterStore((state) => state.currentSolution);
+  const activeIncidents = useFirefighterStore((state) => state.activeIncidents);
 
   useEffect(() => {
     // Initialize socket connection
@@ -43,7 +44,12 @@ export default function FirefighterPage() {
     triggerIncident();
   };
 
-  const canTrigger = isConnected && (!incident || incident.status === 'resolved');
+  const handleStopAgent = () => {
+    stopAgent(incident?.id);
+  };
+
+  const canTrigger = isConnected && (!incident || incident.status === 'resolved' || incident.status === 'failed' || incident.status === 'cancelled');
+  const canStop = isConnected && !!incident && !canTrigger && incident.status !== 'proposing';
 
   return (
     <>
@@ -67,16 +73,30 @@ export default function FirefighterPage() {
                 </>
               )}
             </Badge>
+            {activeIncidents.length > 1 && (
+              <Badge variant="outline">
+                <Flame className="w-3 h-3 mr-1" />
+                {activeIncidents.length} incidents in progress
+              </Badge>
+            )}
           </div>
 
-          <Button
-            onClick={handleTriggerIncident}
-            disabled={!canTrigger}
-            variant="destructive"
-          >
-            <AlertTriangle className="h-4 w-4 mr-2" />
-            Trigger Incident
-          </Button>
+          <div className="flex items-center gap-2">
+            {canStop && (
+              <Button onClick={handleStopAgent} variant="outline">
+                <Square className="h-4 w-4 mr-2" />
+                Stop Agent
+              </Button>
+            )}
+            <Button
+              onClick={handleTriggerIncident}
+              disabled={!canTrigger}
+              variant="destructive"
+            >
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              Trigger Incident
+            </Button>
+          </div>
         </div>
 
         <Tabs defaultValue="overview" className="w-full">
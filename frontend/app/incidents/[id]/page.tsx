@@ -7,12 +7,14 @@ import { PageWrapper } from "@/components/parts/page-wrapper";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { initializeSocket, getSocket } from '@/lib/socket';
+import { initializeSocket, getSocket, subscribeToIncident, unsubscribeFromIncident } from '@/lib/socket';
 import { useFirefighterStore } from '@/store/firefighter';
 import { Terminal, GitBranch, Code, CheckCircle2, XCircle, Loader2, ExternalLink, AlertTriangle, Clock } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from '@/lib/utils';
 import { Timeline } from '@/components/firefighter/dashboard/Timeline';
+import { DiffView } from '@/components/firefighter/shared/DiffView';
+import { LLMCallsCard } from '@/components/incidents/LLMCallsCard';
 import { ScrollArea } from "@/components/ui/scroll-area";
 
 interface Incident {
@@ -54,6 +56,7 @@ interface Solution {
   description: string;
   reasoning?: string;
   code?: string;
+  diff?: string;
   confidence: number;
   executed: boolean;
   executionResult?: {
@@ -189,6 +192,7 @@ export default function IncidentDetailPage() {
   // Setup socket for live updates
   useEffect(() => {
     const socket = getSocket() || initializeSocket();
+    subscribeToIncident(incidentId);
     
     const handleLogsStream = (data: any) => {
       if (!data.logs || !Array.isArray(data.logs)) return;
@@ -249,6 +253,7 @@ export default function IncidentDetailPage() {
     };
 
     const handleAgentUpdate = (data: any) => {
+      if (data.incidentId && data.incidentId !== incidentId) return;
       if (data.phase && data.status && data.message) {
         setCurrentPhase({
           phase: data.phase,
@@ -289,6 +294,7 @@ export default function IncidentDetailPage() {
     };
 
     const handleSolutionProposed = (data: any) => {
+      if (data.incidentId && data.incidentId !== incidentId) return;
       if (data.solution) {
         // Refresh solutions
         fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001'}/api/incidents/${incidentId}`, {
@@ -316,6 +322,7 @@ export default function IncidentDetailPage() {
     socket.on('status:change', handleStatusChange);
 
     return () => {
+      unsubscribeFromIncident(incidentId);
       socket.off('logs:stream', handleLogsStream);
       socket.off('timeline:add', handleTimelineAdd);
       socket.off('agent:update', handleAgentUpdate);
@@ -647,7 +654,15 @@ export default function IncidentDetailPage() {
                     </div>
 
                     {/* Code Changes */}
-                    {solution.code && (
+                    {solution.diff ? (
+                      <div className="bg-muted rounded-lg p-4">
+                        <div className="flex items-center gap-2 mb-2">
+                          <Code className="h-4 w-4" />
+                          <span className="text-sm font-medium">Changes</span>
+                        </div>
+                        <DiffView diff={solution.diff} className="bg-background rounded" />
+                      </div>
+                    ) : solution.code && (
                       <div className="bg-muted rounded-lg p-4">
                         <div className="flex items-center gap-2 mb-2">
                           <Code className="h-4 w-4" />
@@ -742,6 +757,10 @@ export default function IncidentDetailPage() {
             )}
           </CardContent>
         </Card>
+
+        <div className="mt-6">
+          <LLMCallsCard incidentId={incidentId} />
+        </div>
       </PageWrapper>
     </>
   );
@@ -346,7 +346,7 @@ export default function DashboardPage() {
           setLiveIncidents(incidents.slice(0, 20));
           setMetrics((prev) => ({
             ...prev,
-            activeIncidents: incidents.filter((i: any) => i.status !== 'resolved' && i.status !== 'failed').length,
+            activeIncidents: incidents.filter((i: any) => i.status !== 'resolved' && i.status !== 'failed' && i.status !== 'cancelled').length,
           }));
           console.log('📊 Dashboard: Loaded', incidents.length, 'incidents');
         }
@@ -17,6 +17,9 @@ import { Progress } from '@/components/ui/progress';
 import { toast } from "sonner";
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { AlertRulesCard } from '@/components/projects/AlertRulesCard';
+import { LogTemplatesCard } from '@/components/projects/LogTemplatesCard';
+import { LLMUsageCard } from '@/components/projects/LLMUsageCard';
 
 interface Project {
   id: string;
@@ -48,6 +51,8 @@ export default function ProjectDetailPage() {
   const [loadingHealth, setLoadingHealth] = useState(false);
   const [loadingLogs, setLoadingLogs] = useState(false);
   const [logType, setLogType] = useState<'runtime' | 'deployment'>('runtime');
+  const [newTemplateIds, setNewTemplateIds] = useState<string[]>([]);
+  const [templatesRefreshKey, setTemplatesRefreshKey] = useState(0);
 
   useEffect(() => {
     if (projectId) {
@@ -593,6 +598,7 @@ export default function ProjectDetailPage() {
                   size="sm"
                   onClick={() => {
                     fetchProjectLogs(undefined, logType);
+                    setTemplatesRefreshKey((key) => key + 1);
                   }}
                   disabled={loadingLogs}
                 >
@@ -602,6 +608,14 @@ export default function ProjectDetailPage() {
               </div>
             </div>
 
+            {logType === 'runtime' && (
+              <LogTemplatesCard
+                projectId={projectId}
+                refreshKey={templatesRefreshKey}
+                onNewTemplates={setNewTemplateIds}
+              />
+            )}
+
             {loadingLogs ? (
               <div className="flex items-center justify-center py-8">
                 <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
@@ -684,6 +698,15 @@ export default function ProjectDetailPage() {
                                             SDK
                                           </Badge>
                                         )}
+                                        {log.templateId && newTemplateIds.includes(log.templateId) && (
+                                          <Badge
+                                            variant="outline"
+                                            className="text-[9px] px-1 py-0 h-4 border-orange-500 text-orange-600 dark:text-orange-400"
+                                            title="Log template first seen since the last deployment"
+                                          >
+                                            NEW TEMPLATE
+                                          </Badge>
+                                        )}
                                         {log.url && (
                                           <span className="text-[9px] text-muted-foreground truncate max-w-[200px]">
                                             {log.url}
@@ -781,6 +804,10 @@ export default function ProjectDetailPage() {
               </CardContent>
             </Card>
 
+            <AlertRulesCard projectId={projectId} />
+
+            <LLMUsageCard projectId={projectId} />
+
             {/* SDK Setup Instructions */}
             <Card>
               <CardHeader>
@@ -1,11 +1,13 @@
 'use client';
 
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useFirefighterStore } from '@/store/firefighter';
 import { executeSolution } from '@/lib/socket';
 import { CodeBlock } from '../shared/CodeBlock';
+import { DiffView } from '../shared/DiffView';
 import {
   CheckCircle2,
   AlertTriangle,
@@ -13,14 +15,21 @@ import {
   Target,
   Sparkles,
   Play,
+  ShieldCheck,
+  ShieldAlert,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 
 export function SolutionCard() {
-  const solution = useFirefighterStore((state) => state.currentSolution);
+  const topSolution = useFirefighterStore((state) => state.currentSolution);
+  const candidates = useFirefighterStore((state) => state.candidates);
   const rootCause = useFirefighterStore((state) => state.rootCause);
   const incident = useFirefighterStore((state) => state.incident);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // The selected candidate, the top ranked one by default
+  const solution = candidates.find((candidate) => candidate.id === selectedId) || topSolution;
 
   if (!solution) {
     return null;
@@ -33,10 +42,11 @@ export function SolutionCard() {
   } as const;
 
   const isExecuting = incident?.status === 'executing';
+  const isVerifying = incident?.status === 'verifying';
   const isResolved = incident?.status === 'resolved';
 
   const handleExecute = () => {
-    if (solution && !isExecuting && !isResolved) {
+    if (solution && !isExecuting && !isVerifying && !isResolved) {
       executeSolution(solution.id);
     }
   };
@@ -47,7 +57,7 @@ export function SolutionCard() {
         <div className="flex items-start justify-between mb-2">
           <CardTitle className="text-lg flex items-center gap-2">
             <Sparkles className="h-5 w-5 text-purple-600 dark:text-purple-400" />
-            Proposed Solution
+            {solution.ranking && solution.ranking.rank > 1 ? `Candidate #${solution.ranking.rank}` : 'Proposed Solution'}
           </CardTitle>
           <Badge variant={riskVariants[solution.risk]}>
             {solution.risk.toUpperCase()} RISK
@@ -70,6 +80,59 @@ export function SolutionCard() {
           </div>
         )}
 
+        {/* Ranked Candidates */}
+        {candidates.length > 1 && (
+          <div className="space-y-2">
+            <h4 className="text-xs font-medium text-muted-foreground">
+              Candidates ({candidates.length}), best ranked first
+            </h4>
+            {candidates.map((candidate) => (
+              <button
+                key={candidate.id}
+                type="button"
+                onClick={() => setSelectedId(candidate.id)}
+                className={cn(
+                  'w-full p-2 rounded-lg border text-left text-sm transition-colors',
+                  candidate.id === solution.id ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-xs text-muted-foreground">
+                    #{candidate.ranking?.rank ?? '-'}
+                  </span>
+                  <span className="font-medium capitalize">{candidate.type.replace('_', ' ')}</span>
+                  {candidate.ranking && (
+                    <Badge variant="outline" className="text-xs">
+                      Score {candidate.ranking.score}
+                    </Badge>
+                  )}
+                  {candidate.ranking && (
+                    <Badge
+                      variant={candidate.ranking.policy.passed ? 'outline' : 'secondary'}
+                      className="ml-auto text-xs"
+                      title={candidate.ranking.policy.violations.join('\n') || undefined}
+                    >
+                      {candidate.ranking.policy.passed ? (
+                        <ShieldCheck className="h-3 w-3 mr-1 text-green-600 dark:text-green-400" />
+                      ) : (
+                        <ShieldAlert className="h-3 w-3 mr-1" />
+                      )}
+                      {candidate.ranking.policy.passed ? 'AutoFix eligible' : 'Needs approval'}
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground mt-1 truncate">{candidate.description}</div>
+                {candidate.ranking && (
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {candidate.confidence}% confidence · {candidate.risk} risk · {candidate.ranking.blastRadius} blast
+                    radius · ~{candidate.ranking.timeToRecoverMinutes} min to recover
+                  </div>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Solution Details */}
         <div>
           <h3 className="font-semibold text-base mb-2">{solution.description}</h3>
@@ -111,8 +174,22 @@ export function SolutionCard() {
             </AccordionContent>
           </AccordionItem>
 
-          {/* Code */}
-          {solution.code && (
+          {/* Changes */}
+          {solution.diff ? (
+            <AccordionItem value="diff">
+              <AccordionTrigger className="text-sm">
+                View Changes
+                {solution.patchValidation && (
+                  <Badge variant="outline" className="ml-2 text-xs">
+                    {solution.patchValidation.files.length} file(s)
+                  </Badge>
+                )}
+              </AccordionTrigger>
+              <AccordionContent>
+                <DiffView diff={solution.diff} validation={solution.patchValidation} />
+              </AccordionContent>
+            </AccordionItem>
+          ) : solution.code && (
             <AccordionItem value="code">
               <AccordionTrigger className="text-sm">View Solution Code</AccordionTrigger>
               <AccordionContent>
@@ -132,7 +209,72 @@ export function SolutionCard() {
                   <AlertTriangle className="h-4 w-4 text-destructive ml-2" />
                 )}
               </AccordionTrigger>
-              <AccordionContent>
+              <AccordionContent className="space-y-2">
+                {/* In-process type check of the patched files */}
+                {solution.typeCheck && (
+                  <div className="flex items-center gap-2 text-xs">
+                    <Badge
+                      variant={solution.typeCheck.success ? 'outline' : 'destructive'}
+                      className="w-20 justify-center text-[10px] uppercase"
+                    >
+                      {solution.typeCheck.success ? 'passed' : 'failed'}
+                    </Badge>
+                    <span className="font-medium">Type check</span>
+                    <span className="text-muted-foreground truncate">
+                      {solution.typeCheck.diagnostics.length} new diagnostic(s), {solution.typeCheck.preexisting} preexisting
+                      error(s) · {solution.typeCheck.tsconfig || 'default options'} on {solution.typeCheck.ref}
+                    </span>
+                  </div>
+                )}
+
+                {/* Sandbox steps */}
+                {solution.testResults.steps && (
+                  <ul className="space-y-1 text-xs">
+                    {solution.testResults.steps.map((step) => (
+                      <li key={step.name} className="flex items-center gap-2">
+                        <Badge
+                          variant={step.status === 'passed' ? 'outline' : step.status === 'skipped' ? 'secondary' : 'destructive'}
+                          className="w-20 justify-center text-[10px] uppercase"
+                        >
+                          {step.status.replace('_', ' ')}
+                        </Badge>
+                        <span className="font-medium capitalize">{step.name}</span>
+                        <span className="font-mono text-muted-foreground truncate">{step.command}</span>
+                        {step.durationMs !== undefined && (
+                          <span className="ml-auto text-muted-foreground">{Math.round(step.durationMs / 1000)}s</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {solution.testResults.tests && (
+                  <div className="text-xs">
+                    <span className="font-medium">Tests:</span> {solution.testResults.tests.passed} passed,{' '}
+                    {solution.testResults.tests.failed} failed, {solution.testResults.tests.skipped} skipped
+                    {solution.testResults.tests.failures.length > 0 && (
+                      <ul className="list-disc list-inside mt-1 text-destructive">
+                        {solution.testResults.tests.failures.map((failure) => (
+                          <li key={failure} className="truncate">{failure}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {solution.testResults.diagnostics && solution.testResults.diagnostics.length > 0 && (
+                  <ul className="space-y-1 text-xs font-mono">
+                    {solution.testResults.diagnostics.slice(0, 10).map((diagnostic, index) => (
+                      <li
+                        key={index}
+                        className={diagnostic.severity === 'error' ? 'text-destructive' : 'text-yellow-600 dark:text-yellow-400'}
+                      >
+                        {diagnostic.file}:{diagnostic.line}:{diagnostic.column} {diagnostic.code} {diagnostic.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
                 <div
                   className={cn(
                     'p-3 rounded-lg text-sm',
@@ -148,15 +290,76 @@ export function SolutionCard() {
               </AccordionContent>
             </AccordionItem>
           )}
+          {/* Regression test of the reported error */}
+          {solution.regressionTest && (
+            <AccordionItem value="regression-test">
+              <AccordionTrigger className="text-sm">
+                Regression Test
+                <Badge
+                  variant={solution.regressionTest.status === 'verified' ? 'outline' : solution.regressionTest.status === 'unverified' ? 'secondary' : 'destructive'}
+                  className="ml-2 text-[10px] uppercase"
+                >
+                  {solution.regressionTest.status}
+                </Badge>
+              </AccordionTrigger>
+              <AccordionContent className="space-y-2">
+                <p className="text-sm text-muted-foreground">{solution.regressionTest.description}</p>
+                <div className="text-xs">
+                  <span className="font-mono">{solution.regressionTest.path}</span> ({solution.regressionTest.framework})
+                  {solution.regressionTest.status === 'verified' ? ' · committed with the fix' : ` · not committed: ${solution.regressionTest.reason}`}
+                </div>
+                {solution.regressionTest.verification && (
+                  <ul className="space-y-1 text-xs">
+                    {([
+                      ['Original code', solution.regressionTest.verification.before],
+                      ['Patched code', solution.regressionTest.verification.after],
+                    ] as const).map(([label, run]) => (
+                      <li key={label} className="flex items-center gap-2">
+                        <Badge
+                          variant={run.status === 'passed' ? 'outline' : run.status === 'skipped' ? 'secondary' : 'destructive'}
+                          className="w-20 justify-center text-[10px] uppercase"
+                        >
+                          {run.status.replace('_', ' ')}
+                        </Badge>
+                        <span className="font-medium">{label}</span>
+                        {run.tests && (
+                          <span className="text-muted-foreground">
+                            {run.tests.passed} passed, {run.tests.failed} failed
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <CodeBlock code={solution.regressionTest.content} language="typescript" />
+              </AccordionContent>
+            </AccordionItem>
+          )}
+
+          {/* AutoFix Policy */}
+          {solution.ranking && solution.ranking.policy.violations.length > 0 && (
+            <AccordionItem value="policy">
+              <AccordionTrigger className="text-sm">
+                AutoFix Policy ({solution.ranking.policy.violations.length} violation(s))
+              </AccordionTrigger>
+              <AccordionContent>
+                <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
+                  {solution.ranking.policy.violations.map((violation, index) => (
+                    <li key={index}>{violation}</li>
+                  ))}
+                </ul>
+              </AccordionContent>
+            </AccordionItem>
+          )}
         </Accordion>
 
         {/* Action Button */}
         <Button
           onClick={handleExecute}
-          disabled={isExecuting || isResolved}
+          disabled={isExecuting || isVerifying || isResolved}
           className={cn(
             'w-full',
-            isExecuting && 'animate-pulse'
+            (isExecuting || isVerifying) && 'animate-pulse'
           )}
           variant={isResolved ? "outline" : "default"}
           size="lg"
@@ -171,6 +374,11 @@ export function SolutionCard() {
               <Play className="h-5 w-5 mr-2 animate-spin" />
               Executing...
             </>
+          ) : isVerifying ? (
+            <>
+              <Play className="h-5 w-5 mr-2 animate-spin" />
+              Verifying in production...
+            </>
           ) : (
             <>
               <Play className="h-5 w-5 mr-2" />
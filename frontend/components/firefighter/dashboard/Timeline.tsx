@@ -15,6 +15,7 @@ const phaseIcons = {
   diagnosis: '🎯',
   solution_generation: '✨',
   execution: '🚀',
+  verification: '🩺',
 };
 
 const phaseColors = {
@@ -25,6 +26,7 @@ const phaseColors = {
   diagnosis: 'text-pink-600 dark:text-pink-400',
   solution_generation: 'text-amber-600 dark:text-amber-400',
   execution: 'text-green-600 dark:text-green-400',
+  verification: 'text-teal-600 dark:text-teal-400',
 };
 
 export function Timeline() {
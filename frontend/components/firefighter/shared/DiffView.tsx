@@ -0,0 +1,127 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { FileCode } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { PatchValidation } from '@/store/firefighter';
+
+interface DiffViewProps {
+  diff: string;
+  validation?: PatchValidation;
+  className?: string;
+}
+
+interface DiffFile {
+  oldPath: string | null;
+  newPath: string | null;
+  lines: string[]; // Hunk headers and lines
+}
+
+const hunkStatusVariants = {
+  applied: 'outline',
+  offset: 'secondary',
+  fuzzy: 'secondary',
+  conflict: 'destructive',
+} as const;
+
+/**
+ * Files of a unified diff (`--- a/path`, `+++ b/path`, `@@` hunks)
+ */
+function splitDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  const lines = diff.split('\n');
+  const stripPath = (raw: string) => {
+    const path = raw.split('\t')[0].trim();
+    return path === '/dev/null' ? null : path.replace(/^[ab]\//, '');
+  };
+
+  lines.forEach((line, index) => {
+    const current = files[files.length - 1];
+    if (line.startsWith('--- ') && lines[index + 1]?.startsWith('+++ ')) {
+      files.push({ oldPath: stripPath(line.substring(4)), newPath: null, lines: [] });
+    } else if (line.startsWith('+++ ') && current && current.lines.length === 0) {
+      current.newPath = stripPath(line.substring(4));
+    } else if (current && line) {
+      current.lines.push(line);
+    }
+  });
+  return files;
+}
+
+export function DiffView({ diff, validation, className }: DiffViewProps) {
+  const files = splitDiff(diff);
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {validation && (
+        <div className="text-xs text-muted-foreground">
+          {validation.applies
+            ? `Applies to ${validation.ref}${validation.clean ? ' cleanly' : ' with offset or fuzz'}`
+            : `Does not apply to ${validation.ref}`}
+        </div>
+      )}
+
+      {files.map((file, fileIndex) => {
+        const path = file.newPath || file.oldPath || 'unknown';
+        const fileValidation = validation?.files.find((f) => f.path === path);
+        let hunkIndex = -1;
+
+        return (
+          <div key={`${path}-${fileIndex}`} className="rounded-lg border overflow-hidden">
+            <div className="flex items-center gap-2 px-3 py-2 bg-muted/50 text-xs">
+              <FileCode className="h-3 w-3" />
+              <span className="font-mono truncate">
+                {file.oldPath && file.newPath && file.oldPath !== file.newPath ? `${file.oldPath} → ${path}` : path}
+              </span>
+              {!file.oldPath && <Badge variant="outline" className="text-[10px]">NEW</Badge>}
+              {!file.newPath && <Badge variant="destructive" className="text-[10px]">DELETED</Badge>}
+              {fileValidation && (
+                <span className="ml-auto font-mono">
+                  <span className="text-green-600 dark:text-green-400">+{fileValidation.additions}</span>{' '}
+                  <span className="text-destructive">-{fileValidation.deletions}</span>
+                </span>
+              )}
+            </div>
+            {fileValidation?.error && (
+              <div className="px-3 py-1 text-xs text-destructive bg-destructive/5">{fileValidation.error}</div>
+            )}
+            <pre className="text-xs font-mono overflow-x-auto">
+              {file.lines.map((line, lineIndex) => {
+                if (line.startsWith('@@')) {
+                  hunkIndex++;
+                  const outcome = fileValidation?.hunks[hunkIndex];
+                  return (
+                    <div key={lineIndex} className="flex items-center gap-2 px-3 py-1 bg-blue-500/10 text-blue-600 dark:text-blue-400">
+                      <span>{line}</span>
+                      {outcome && outcome.status !== 'applied' && (
+                        <Badge variant={hunkStatusVariants[outcome.status]} className="text-[10px]">
+                          {outcome.status === 'conflict'
+                            ? 'CONFLICT'
+                            : `${outcome.offset !== 0 ? `offset ${outcome.offset > 0 ? '+' : ''}${outcome.offset}` : ''}${
+                                outcome.fuzz > 0 ? `${outcome.offset !== 0 ? ', ' : ''}fuzz ${outcome.fuzz}` : ''
+                              }`}
+                        </Badge>
+                      )}
+                    </div>
+                  );
+                }
+                return (
+                  <div
+                    key={lineIndex}
+                    className={cn(
+                      'px-3 whitespace-pre',
+                      line[0] === '+' && 'bg-green-500/10 text-green-700 dark:text-green-400',
+                      line[0] === '-' && 'bg-destructive/10 text-destructive'
+                    )}
+                  >
+                    {line}
+                  </div>
+                );
+              })}
+            </pre>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -46,6 +46,11 @@ const statusConfig: Record<
     variant: 'default',
     className: 'animate-pulse',
   },
+  verifying: {
+    label: 'Verifying',
+    variant: 'secondary',
+    className: 'animate-pulse',
+  },
   resolved: {
     label: 'Resolved',
     variant: 'outline',
@@ -55,6 +60,10 @@ const statusConfig: Record<
     label: 'Failed',
     variant: 'destructive',
   },
+  cancelled: {
+    label: 'Cancelled',
+    variant: 'outline',
+  },
 };
 
 export function StatusBadge({ status, className }: StatusBadgeProps) {
@@ -0,0 +1,127 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Bot, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { LLMUsageTotals, formatCost } from '@/components/projects/LLMUsageCard';
+
+interface LLMCall {
+  id: string;
+  phase: string | null;
+  task: string;
+  provider: string;
+  model: string;
+  attempt: number;
+  promptHash: string;
+  prompt: Array<{ role: string; content: string }>;
+  response: string | null;
+  error: string | null;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  costUsd: number | null;
+  latencyMs: number;
+  createdAt: string;
+}
+
+function CallRow({ call }: { call: LLMCall }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="rounded-md border text-xs">
+      <button className="flex w-full items-center justify-between gap-3 p-2 text-left" onClick={() => setOpen(!open)}>
+        <div className="flex min-w-0 items-center gap-2">
+          <Badge variant="outline">{call.phase || call.task}</Badge>
+          <span className="truncate font-mono">{call.model}</span>
+          {call.attempt > 1 && <Badge variant="secondary">retry {call.attempt - 1}</Badge>}
+          {call.error && <Badge variant="destructive">failed</Badge>}
+        </div>
+        <div className="flex shrink-0 items-center gap-3 text-muted-foreground">
+          <span>{((call.promptTokens || 0) + (call.completionTokens || 0)).toLocaleString()} tokens</span>
+          <span>{(call.latencyMs / 1000).toFixed(1)}s</span>
+          <span>{call.costUsd === null ? '—' : formatCost(call.costUsd)}</span>
+          <span>{format(new Date(call.createdAt), 'HH:mm:ss')}</span>
+        </div>
+      </button>
+      {open && (
+        <div className="space-y-2 border-t p-2">
+          <p className="font-mono text-[10px] text-muted-foreground">
+            {call.task} · {call.provider} · prompt {call.promptHash.slice(0, 12)}
+          </p>
+          {call.prompt.map((message, index) => (
+            <div key={index}>
+              <div className="mb-1 font-medium">{message.role}</div>
+              <pre className="max-h-60 overflow-auto whitespace-pre-wrap rounded bg-muted p-2">{message.content}</pre>
+            </div>
+          ))}
+          <div>
+            <div className="mb-1 font-medium">{call.error ? 'error' : 'response'}</div>
+            <pre className="max-h-60 overflow-auto whitespace-pre-wrap rounded bg-muted p-2">{call.error || call.response}</pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function LLMCallsCard({ incidentId }: { incidentId: string }) {
+  const [calls, setCalls] = useState<LLMCall[]>([]);
+  const [totals, setTotals] = useState<LLMUsageTotals | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchCalls = async () => {
+      try {
+        const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+        const res = await fetch(`${backendUrl}/api/incidents/${incidentId}/llm-calls`, {
+          headers: { 'x-user-id': 'demo-user' },
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setCalls(data.data?.calls || []);
+          setTotals(data.data?.totals || null);
+        }
+      } catch (error) {
+        console.error('Failed to fetch LLM calls:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCalls();
+  }, [incidentId]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bot className="h-5 w-5" />
+          LLM Calls
+        </CardTitle>
+        <CardDescription>
+          {totals && totals.calls > 0
+            ? `${totals.calls} call(s), ${(totals.promptTokens + totals.completionTokens).toLocaleString()} tokens, ` +
+              `${formatCost(totals.costUsd)}${totals.unpricedCalls > 0 ? ` (+${totals.unpricedCalls} unpriced)` : ''}, ` +
+              `${(totals.latencyMs / 1000).toFixed(1)}s`
+            : 'Prompts sent to the LLM for this incident and what came back'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : calls.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No LLM calls recorded</p>
+        ) : (
+          <div className="space-y-2">
+            {calls.map((call) => (
+              <CallRow key={call.id} call={call} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,387 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const API_URL = 'http://localhost:3001';
+const LOG_LEVELS = ['error', 'warn', 'info', 'debug'] as const;
+
+export interface AlertRule {
+  id: string | null;
+  name: string;
+  enabled: boolean;
+  metric: 'count' | 'rate';
+  threshold: number;
+  windowSeconds: number;
+  levels: string[];
+  statusClasses: string[];
+  messagePattern: string | null;
+  routePattern: string | null;
+  minDistinctUsers: number;
+  minDistinctRequests: number;
+  lastTriggeredAt?: string | null;
+}
+
+type RuleForm = Omit<AlertRule, 'id' | 'lastTriggeredAt' | 'statusClasses'> & { statusClasses: string };
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  enabled: true,
+  metric: 'count',
+  threshold: 3,
+  windowSeconds: 300,
+  levels: ['error'],
+  statusClasses: '',
+  messagePattern: '',
+  routePattern: '',
+  minDistinctUsers: 0,
+  minDistinctRequests: 0,
+};
+
+/**
+ * Describe the condition of a rule in one line
+ */
+export function describeRule(rule: AlertRule): string {
+  const window = rule.windowSeconds % 60 === 0 ? `${rule.windowSeconds / 60} min` : `${rule.windowSeconds}s`;
+  const condition = rule.metric === 'rate'
+    ? `≥${rule.threshold}% of requests`
+    : `≥${rule.threshold} logs`;
+  const filters = [
+    rule.levels.length > 0 && `level ${rule.levels.join('/')}`,
+    rule.statusClasses.length > 0 && `status ${rule.statusClasses.join('/')}`,
+    rule.messagePattern && `message ~ /${rule.messagePattern}/`,
+    rule.routePattern && `route ~ /${rule.routePattern}/`,
+    rule.minDistinctUsers > 0 && `≥${rule.minDistinctUsers} users`,
+    rule.minDistinctRequests > 0 && `≥${rule.minDistinctRequests} requests`,
+  ].filter(Boolean);
+
+  return `${condition} in ${window}${filters.length > 0 ? ` · ${filters.join(' · ')}` : ''}`;
+}
+
+export function AlertRulesCard({ projectId }: { projectId: string }) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [defaultRule, setDefaultRule] = useState<AlertRule | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+
+  const fetchRules = async () => {
+    try {
+      const res = await fetch(`${API_URL}/api/projects/${projectId}/alert-rules`, {
+        headers: { 'x-user-id': 'demo-user' },
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setRules(data.data || []);
+        setDefaultRule(data.defaultRule || null);
+      }
+    } catch (error) {
+      console.error('Failed to fetch alert rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, [projectId]);
+
+  const startEditing = (rule?: AlertRule) => {
+    setEditingId(rule?.id || 'new');
+    setForm(rule ? {
+      ...rule,
+      statusClasses: rule.statusClasses.join(', '),
+      messagePattern: rule.messagePattern || '',
+      routePattern: rule.routePattern || '',
+    } : EMPTY_FORM);
+  };
+
+  const saveRule = async () => {
+    setSaving(true);
+    try {
+      const body = {
+        ...form,
+        statusClasses: form.statusClasses.split(',').map((s) => s.trim()).filter(Boolean),
+        messagePattern: form.messagePattern || null,
+        routePattern: form.routePattern || null,
+      };
+      const isNew = editingId === 'new';
+      const res = await fetch(
+        `${API_URL}/api/projects/${projectId}/alert-rules${isNew ? '' : `/${editingId}`}`,
+        {
+          method: isNew ? 'POST' : 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-user-id': 'demo-user',
+          },
+          body: JSON.stringify(body),
+        }
+      );
+      const data = await res.json();
+
+      if (!res.ok) {
+        const fieldErrors = data.details?.fieldErrors || {};
+        const firstError = Object.entries(fieldErrors)[0] as [string, string[]] | undefined;
+        toast.error(firstError ? `${firstError[0]}: ${firstError[1][0]}` : data.error || 'Failed to save alert rule');
+        return;
+      }
+
+      toast.success(`Alert rule ${isNew ? 'created' : 'updated'}`);
+      setEditingId(null);
+      await fetchRules();
+    } catch (error) {
+      console.error('Failed to save alert rule:', error);
+      toast.error('Failed to save alert rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: AlertRule, enabled: boolean) => {
+    try {
+      const res = await fetch(`${API_URL}/api/projects/${projectId}/alert-rules/${rule.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-user-id': 'demo-user',
+        },
+        body: JSON.stringify({ ...rule, enabled }),
+      });
+      if (res.ok) {
+        await fetchRules();
+      }
+    } catch (error) {
+      console.error('Failed to toggle alert rule:', error);
+      toast.error('Failed to update alert rule');
+    }
+  };
+
+  const deleteRule = async (rule: AlertRule) => {
+    try {
+      const res = await fetch(`${API_URL}/api/projects/${projectId}/alert-rules/${rule.id}`, {
+        method: 'DELETE',
+        headers: { 'x-user-id': 'demo-user' },
+      });
+      if (res.ok) {
+        toast.success('Alert rule deleted');
+        await fetchRules();
+      }
+    } catch (error) {
+      console.error('Failed to delete alert rule:', error);
+      toast.error('Failed to delete alert rule');
+    }
+  };
+
+  const toggleLevel = (level: string) => {
+    setForm((current) => ({
+      ...current,
+      levels: current.levels.includes(level)
+        ? current.levels.filter((l) => l !== level)
+        : [...current.levels, level],
+    }));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">Alert Rules</CardTitle>
+          <CardDescription>
+            Incident response only starts when incoming logs match one of these rules
+          </CardDescription>
+        </div>
+        {editingId === null && (
+          <Button size="sm" variant="outline" onClick={() => startEditing()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {rules.length === 0 && defaultRule && (
+              <div className="rounded-md border border-dashed p-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{defaultRule.name}</span>
+                  <Badge variant="secondary">Default</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {describeRule(defaultRule)} — applies until you add a rule
+                </p>
+              </div>
+            )}
+
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between rounded-md border p-3">
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">{rule.name}</span>
+                    {!rule.enabled && <Badge variant="outline">Disabled</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{describeRule(rule)}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch checked={rule.enabled} onCheckedChange={(enabled) => toggleRule(rule, enabled)} />
+                  <Button size="icon" variant="ghost" onClick={() => startEditing(rule)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => deleteRule(rule)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            {editingId !== null && (
+              <div className="rounded-md border p-4 space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor="rule-name">Name</Label>
+                    <Input
+                      id="rule-name"
+                      value={form.name}
+                      placeholder="Checkout 5xx spike"
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Condition</Label>
+                    <Select
+                      value={form.metric}
+                      onValueChange={(metric) => setForm({ ...form, metric: metric as RuleForm['metric'] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="count">Log count</SelectItem>
+                        <SelectItem value="rate">Rate (% of requests)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="rule-threshold">Threshold{form.metric === 'rate' ? ' (%)' : ''}</Label>
+                      <Input
+                        id="rule-threshold"
+                        type="number"
+                        min={1}
+                        value={form.threshold}
+                        onChange={(e) => setForm({ ...form, threshold: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="rule-window">Window (min)</Label>
+                      <Input
+                        id="rule-window"
+                        type="number"
+                        min={1}
+                        value={Math.round(form.windowSeconds / 60)}
+                        onChange={(e) => setForm({ ...form, windowSeconds: (parseInt(e.target.value) || 0) * 60 })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2 md:col-span-2">
+                    <Label>Levels</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {LOG_LEVELS.map((level) => (
+                        <Button
+                          key={level}
+                          type="button"
+                          size="sm"
+                          variant={form.levels.includes(level) ? 'default' : 'outline'}
+                          onClick={() => toggleLevel(level)}
+                        >
+                          {level}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-status">Status codes</Label>
+                    <Input
+                      id="rule-status"
+                      value={form.statusClasses}
+                      placeholder="5xx, 429"
+                      onChange={(e) => setForm({ ...form, statusClasses: e.target.value })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-route">Route (regex)</Label>
+                    <Input
+                      id="rule-route"
+                      value={form.routePattern || ''}
+                      placeholder="^/api/checkout"
+                      onChange={(e) => setForm({ ...form, routePattern: e.target.value })}
+                    />
+                  </div>
+
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor="rule-message">Message (regex)</Label>
+                    <Input
+                      id="rule-message"
+                      value={form.messagePattern || ''}
+                      placeholder="timeout|ECONNREFUSED"
+                      onChange={(e) => setForm({ ...form, messagePattern: e.target.value })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-users">Min. distinct users</Label>
+                    <Input
+                      id="rule-users"
+                      type="number"
+                      min={0}
+                      value={form.minDistinctUsers}
+                      onChange={(e) => setForm({ ...form, minDistinctUsers: parseInt(e.target.value) || 0 })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-requests">Min. distinct requests</Label>
+                    <Input
+                      id="rule-requests"
+                      type="number"
+                      min={0}
+                      value={form.minDistinctRequests}
+                      onChange={(e) => setForm({ ...form, minDistinctRequests: parseInt(e.target.value) || 0 })}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" onClick={() => setEditingId(null)} disabled={saving}>
+                    Cancel
+                  </Button>
+                  <Button onClick={saveRule} disabled={saving || !form.name.trim()}>
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save Rule
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
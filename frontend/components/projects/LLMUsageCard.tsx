@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+
+const API_URL = 'http://localhost:3001';
+
+export interface LLMUsageTotals {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  unpricedCalls: number;
+  latencyMs: number;
+}
+
+interface MonthlyUsage extends LLMUsageTotals {
+  month: string; // YYYY-MM
+  incidents: number;
+}
+
+/**
+ * Cost in USD (four decimals below a cent)
+ */
+export function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+export function LLMUsageCard({ projectId }: { projectId: string }) {
+  const [usage, setUsage] = useState<MonthlyUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchUsage = async () => {
+      try {
+        const res = await fetch(`${API_URL}/api/projects/${projectId}/llm-usage`, {
+          headers: { 'x-user-id': 'demo-user' },
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setUsage(data.data || []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch LLM usage:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUsage();
+  }, [projectId]);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">LLM Usage</CardTitle>
+        <CardDescription>Calls, tokens and cost of incident response and chat per month</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : usage.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No LLM calls yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground">
+                <th className="pb-2 font-medium">Month</th>
+                <th className="pb-2 text-right font-medium">Incidents</th>
+                <th className="pb-2 text-right font-medium">Calls</th>
+                <th className="pb-2 text-right font-medium">Tokens</th>
+                <th className="pb-2 text-right font-medium">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.map((month) => (
+                <tr key={month.month} className="border-t">
+                  <td className="py-1.5">{month.month}</td>
+                  <td className="py-1.5 text-right">{month.incidents}</td>
+                  <td className="py-1.5 text-right">
+                    {month.calls}
+                    {month.failedCalls > 0 && (
+                      <span className="text-xs text-destructive"> ({month.failedCalls} failed)</span>
+                    )}
+                  </td>
+                  <td className="py-1.5 text-right">{(month.promptTokens + month.completionTokens).toLocaleString()}</td>
+                  <td className="py-1.5 text-right" title={month.unpricedCalls > 0 ? `${month.unpricedCalls} call(s) of models without a known price` : undefined}>
+                    {formatCost(month.costUsd)}
+                    {month.unpricedCalls > 0 && '*'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, Sparkles } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const API_URL = 'http://localhost:3001';
+
+export interface LogTemplate {
+  id: string;
+  template: string;
+  sample: string | null;
+  occurrences: number;
+  levels: Record<string, number> | null;
+  firstSeen: string;
+  lastSeen: string;
+  firstDeploymentId: string | null;
+}
+
+interface NewSinceDeployment {
+  deploymentId: string | null;
+  since: string | null;
+  templates: LogTemplate[];
+}
+
+/**
+ * Render a template with its variable slots highlighted
+ */
+function TemplateText({ template }: { template: string }) {
+  return (
+    <span className="break-all">
+      {template.split(/(<\*>)/).map((part, index) =>
+        part === '<*>' ? (
+          <span key={index} className="rounded bg-muted px-1 text-muted-foreground">
+            *
+          </span>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </span>
+  );
+}
+
+function TemplateRow({ template, isNew }: { template: LogTemplate; isNew?: boolean }) {
+  const errors = template.levels?.error || 0;
+
+  return (
+    <div className="flex items-start justify-between gap-3 rounded-md border p-2 font-mono text-xs">
+      <div className="min-w-0 space-y-1">
+        <TemplateText template={template.template} />
+        {template.sample && (
+          <p className="truncate text-[10px] text-muted-foreground" title={template.sample}>
+            e.g. {template.sample}
+          </p>
+        )}
+      </div>
+      <div className="flex shrink-0 flex-col items-end gap-1">
+        <span className="font-sans font-medium">{template.occurrences.toLocaleString()}×</span>
+        <div className="flex gap-1">
+          {isNew && (
+            <Badge variant="outline" className="h-4 border-orange-500 px-1 py-0 text-[9px] text-orange-600 dark:text-orange-400">
+              NEW
+            </Badge>
+          )}
+          {errors > 0 && (
+            <Badge variant="outline" className="h-4 border-red-500 px-1 py-0 text-[9px] text-red-600 dark:text-red-400">
+              {errors} ERR
+            </Badge>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function LogTemplatesCard({
+  projectId,
+  refreshKey,
+  onNewTemplates,
+}: {
+  projectId: string;
+  refreshKey?: number;
+  onNewTemplates?: (templateIds: string[]) => void;
+}) {
+  const [templates, setTemplates] = useState<LogTemplate[]>([]);
+  const [newSinceDeployment, setNewSinceDeployment] = useState<NewSinceDeployment | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const res = await fetch(`${API_URL}/api/projects/${projectId}/log-templates`, {
+          headers: { 'x-user-id': 'demo-user' },
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setTemplates(data.data || []);
+          setNewSinceDeployment(data.newSinceDeployment || null);
+          onNewTemplates?.((data.newSinceDeployment?.templates || []).map((t: LogTemplate) => t.id));
+        }
+      } catch (error) {
+        console.error('Failed to fetch log templates:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTemplates();
+  }, [projectId, refreshKey]);
+
+  const newTemplates = newSinceDeployment?.templates || [];
+  const newIds = new Set(newTemplates.map((t) => t.id));
+  const visibleTemplates = showAll ? templates : templates.slice(0, 5);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Log Templates</CardTitle>
+        <CardDescription>
+          Messages clustered into templates; variable parts (IDs, numbers, timestamps) are shown as *
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No templates mined yet</p>
+        ) : (
+          <>
+            {newTemplates.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium text-orange-600 dark:text-orange-400">
+                  <Sparkles className="h-4 w-4" />
+                  {newTemplates.length} new since the last deployment
+                  {newSinceDeployment?.since && (
+                    <span className="font-normal text-muted-foreground">
+                      ({newSinceDeployment.deploymentId?.slice(0, 12)},{' '}
+                      {formatDistanceToNow(new Date(newSinceDeployment.since), { addSuffix: true })})
+                    </span>
+                  )}
+                </div>
+                {newTemplates.map((template) => (
+                  <TemplateRow key={template.id} template={template} isNew />
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Most frequent</div>
+              {visibleTemplates.map((template) => (
+                <TemplateRow key={template.id} template={template} isNew={newIds.has(template.id)} />
+              ))}
+              {templates.length > 5 && (
+                <Button variant="ghost" size="sm" className="w-full" onClick={() => setShowAll(!showAll)}>
+                  {showAll ? 'Show less' : `Show all ${templates.length}`}
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
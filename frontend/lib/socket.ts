@@ -27,6 +27,18 @@ export function initializeSocket(): Socket {
   return socket;
 }
 
+/**
+ * Check whether an incident-scoped event belongs to the incident shown in the dashboard.
+ * Several incidents can be in flight at once; events carry their incidentId, which is
+ * null before a run has detected its incident. Such events can belong to any run, so
+ * they're only shown while no incident is focused.
+ */
+function isForFocusedIncident(data: any): boolean {
+  const focused = useFirefighterStore.getState().incident;
+  if (!focused) return true;
+  return !!data?.incidentId && data.incidentId === focused.id;
+}
+
 /**
  * Setup Socket.io event listeners
  */
@@ -58,12 +70,25 @@ function setupSocketListeners(socket: Socket): void {
       startedAt: new Date(data.incident.startedAt),
       resolvedAt: data.incident.resolvedAt ? new Date(data.incident.resolvedAt) : undefined,
     };
-    store.setIncident(incident);
+    store.upsertActiveIncident(incident);
+
+    // Only switch the dashboard to the new incident if nothing else is in progress
+    const focused = useFirefighterStore.getState().incident;
+    if (!focused || focused.status === 'resolved' || focused.status === 'failed' || focused.status === 'cancelled') {
+      store.setIncident(incident);
+    }
   });
 
   socket.on('status:change', (data: any) => {
     console.log('Status change:', data);
     if (data.incident) {
+      store.upsertActiveIncident({
+        ...data.incident,
+        startedAt: new Date(data.incident.startedAt),
+        resolvedAt: data.incident.resolvedAt ? new Date(data.incident.resolvedAt) : undefined,
+      });
+    }
+    if (data.incident && isForFocusedIncident(data)) {
       const incident = {
         ...data.incident,
         startedAt: new Date(data.incident.startedAt),
@@ -76,6 +101,7 @@ function setupSocketListeners(socket: Socket): void {
   // Agent updates
   socket.on('agent:update', (data: any) => {
     console.log('Agent update:', data);
+    if (!isForFocusedIncident(data)) return;
     store.setAgentState(data.phase, data.status);
     
     // Show typing indicator
@@ -86,6 +112,7 @@ function setupSocketListeners(socket: Socket): void {
   // Timeline events
   socket.on('timeline:add', (data: any) => {
     console.log('Timeline entry:', data);
+    if (!isForFocusedIncident(data)) return;
     const entry = {
       ...data.entry,
       timestamp: new Date(data.entry.timestamp),
@@ -106,12 +133,14 @@ function setupSocketListeners(socket: Socket): void {
   // Solution events
   socket.on('solution:proposed', (data: any) => {
     console.log('Solution proposed:', data);
-    store.setSolution(data.solution, data.rootCause);
+    if (!isForFocusedIncident(data)) return;
+    store.setSolution(data.solution, data.rootCause, data.candidates);
   });
 
   // Chat events
   socket.on('chat:message', (data: any) => {
     console.log('Chat message:', data);
+    if (!isForFocusedIncident(data)) return;
     const message = {
       ...data.message,
       timestamp: new Date(data.message.timestamp),
@@ -154,6 +183,24 @@ export function executeSolution(solutionId: string): void {
   }
 }
 
+/**
+ * Subscribe to events for a single incident
+ */
+export function subscribeToIncident(incidentId: string): void {
+  if (socket) {
+    socket.emit('incident:subscribe', { incidentId });
+  }
+}
+
+/**
+ * Unsubscribe from events for a single incident
+ */
+export function unsubscribeFromIncident(incidentId: string): void {
+  if (socket) {
+    socket.emit('incident:unsubscribe', { incidentId });
+  }
+}
+
 /**
  * Send chat message
  */
@@ -173,11 +220,11 @@ export function sendChatMessage(message: string): void {
 }
 
 /**
- * Stop agent
+ * Stop agent (cancels in-flight work for one incident, or for all incidents)
  */
-export function stopAgent(): void {
+export function stopAgent(incidentId?: string): void {
   if (socket) {
-    socket.emit('agent:stop');
+    socket.emit('agent:stop', { incidentId });
   }
 }
 
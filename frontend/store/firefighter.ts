@@ -15,8 +15,10 @@ export type IncidentStatus =
   | 'diagnosing'
   | 'proposing'
   | 'executing'
+  | 'verifying'
   | 'resolved'
-  | 'failed';
+  | 'failed'
+  | 'cancelled';
 
 export type AgentPhase =
   | 'detection'
@@ -25,7 +27,8 @@ export type AgentPhase =
   | 'research'
   | 'diagnosis'
   | 'solution_generation'
-  | 'execution';
+  | 'execution'
+  | 'verification';
 
 export interface Incident {
   id: string;
@@ -72,6 +75,94 @@ export interface Solution {
     output: string;
     errors?: string[];
     warnings?: string[];
+    sandbox?: { backend: string; ref: string; files: string[] };
+    steps?: Array<{
+      name: 'checkout' | 'install' | 'typecheck' | 'lint' | 'test';
+      command: string;
+      status: 'passed' | 'failed' | 'timed_out' | 'skipped';
+      exitCode?: number;
+      durationMs?: number;
+      output?: string;
+    }>;
+    tests?: { passed: number; failed: number; skipped: number; failures: string[] };
+    diagnostics?: Array<{
+      source: 'typecheck' | 'lint';
+      file: string;
+      line: number;
+      column: number;
+      severity: 'error' | 'warning';
+      code?: string;
+      message: string;
+    }>;
+  };
+  ranking?: SolutionRanking;
+  patchValidation?: PatchValidation;
+  typeCheck?: {
+    success: boolean;
+    ref: string;
+    tsconfig: string | null;
+    files: string[];
+    snapshotFiles: number;
+    diagnostics: Array<{ file: string; line: number; column: number; severity: 'error' | 'warning'; code?: string; message: string }>;
+    preexisting: number;
+    durationMs: number;
+  };
+  regressionTest?: RegressionTest;
+}
+
+export interface RegressionTestRun {
+  status: 'passed' | 'failed' | 'timed_out' | 'skipped';
+  exitCode?: number;
+  durationMs?: number;
+  tests?: { passed: number; failed: number; skipped: number; failures: string[] };
+  output?: string;
+}
+
+export interface RegressionTest {
+  path: string;
+  content: string;
+  description: string;
+  framework: 'vitest' | 'jest' | 'mocha';
+  command: string;
+  status: 'verified' | 'unverified' | 'rejected';
+  reason?: string;
+  verification?: {
+    backend: string;
+    ref: string;
+    before: RegressionTestRun;
+    after: RegressionTestRun;
+  };
+}
+
+export interface PatchValidation {
+  ref: string;
+  applies: boolean;
+  clean: boolean; // Every hunk applied at its line without fuzz
+  files: Array<{
+    path: string;
+    oldPath?: string;
+    status: 'added' | 'modified' | 'deleted' | 'renamed';
+    additions: number;
+    deletions: number;
+    hunks: Array<{ header: string; status: 'applied' | 'offset' | 'fuzzy' | 'conflict'; offset: number; fuzz: number }>;
+    error?: string;
+  }>;
+}
+
+export interface SolutionRanking {
+  rank: number;
+  score: number;
+  blastRadius: 'low' | 'medium' | 'high';
+  timeToRecoverMinutes: number;
+  factors: {
+    confidence: number;
+    risk: number;
+    blastRadius: number;
+    timeToRecover: number;
+  };
+  policy: {
+    passed: boolean;
+    violations: string[];
   };
 }
 
@@ -108,6 +199,7 @@ interface FirefighterState {
   
   // Incident state
   incident: Incident | null;
+  activeIncidents: Incident[];
   
   // Timeline
   timeline: TimelineEntry[];
@@ -121,6 +213,7 @@ interface FirefighterState {
   
   // Solution
   currentSolution: Solution | null;
+  candidates: Solution[]; // Ranked, best first
   rootCause: RootCause | null;
   
   // Metrics
@@ -134,6 +227,7 @@ interface FirefighterState {
   setSocket: (socket: Socket | null) => void;
   setConnected: (connected: boolean) => void;
   setIncident: (incident: Incident | null) => void;
+  upsertActiveIncident: (incident: Incident) => void;
   addTimelineEntry: (entry: TimelineEntry) => void;
   updateTimelineEntry: (id: string, updates: Partial<TimelineEntry>) => void;
   addLogs: (logs: LogEntry[]) => void;
@@ -141,7 +235,7 @@ interface FirefighterState {
   addMessage: (message: ChatMessage) => void;
   clearMessages: () => void;
   setTyping: (typing: boolean) => void;
-  setSolution: (solution: Solution | null, rootCause?: RootCause | null) => void;
+  setSolution: (solution: Solution | null, rootCause?: RootCause | null, candidates?: Solution[]) => void;
   setMetrics: (metrics: Partial<SystemMetrics>) => void;
   setAgentState: (phase: AgentPhase | null, status: string) => void;
   reset: () => void;
@@ -160,11 +254,13 @@ export const useFirefighterStore = create<FirefighterState>((set) => ({
   socket: null,
   isConnected: false,
   incident: null,
+  activeIncidents: [],
   timeline: [],
   logs: [],
   messages: [],
   isTyping: false,
   currentSolution: null,
+  candidates: [],
   rootCause: null,
   metrics: initialMetrics,
   currentPhase: null,
@@ -177,6 +273,16 @@ export const useFirefighterStore = create<FirefighterState>((set) => ({
   
   setIncident: (incident) => set({ incident }),
   
+  upsertActiveIncident: (incident) =>
+    set((state) => {
+      const others = state.activeIncidents.filter((i) => i.id !== incident.id);
+      // Drop finished incidents from the in-flight list
+      if (incident.status === 'resolved' || incident.status === 'failed' || incident.status === 'cancelled') {
+        return { activeIncidents: others };
+      }
+      return { activeIncidents: [...others, incident] };
+    }),
+  
   addTimelineEntry: (entry) =>
     set((state) => {
       // Check if entry already exists (by id)
@@ -214,9 +320,10 @@ export const useFirefighterStore = create<FirefighterState>((set) => ({
   
   setTyping: (typing) => set({ isTyping: typing }),
   
-  setSolution: (solution, rootCause = null) =>
+  setSolution: (solution, rootCause = null, candidates) =>
     set({
       currentSolution: solution,
+      candidates: candidates ?? (solution ? [solution] : []),
       rootCause: rootCause ?? undefined,
     }),
   
@@ -234,11 +341,13 @@ export const useFirefighterStore = create<FirefighterState>((set) => ({
   reset: () =>
     set({
       incident: null,
+      activeIncidents: [],
       timeline: [],
       logs: [],
       messages: [],
       isTyping: false,
       currentSolution: null,
+      candidates: [],
       rootCause: null,
       metrics: initialMetrics,
       currentPhase: null,